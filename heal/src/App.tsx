@@ -15,9 +15,13 @@ import { AnimatePresence } from "framer-motion";
 import Index from "./pages/Index";
 import Doctors from "./pages/Doctors";
 import PrescriptionAnalysis from "./pages/PrescriptionAnalysis";
+import PrescriptionHistory from "./pages/PrescriptionHistory";
 import Appointments from "./pages/Appointments";
+import MedicationSchedule from "./pages/MedicationSchedule";
+import Adherence from "./pages/Adherence";
 import Profile from "./pages/Profile";
 import Subscription from "./pages/Subscription";
+import DoctorPortal from "./pages/DoctorPortal";
 import About from "./pages/About";
 import Contact from "./pages/Contact";
 import NotFound from "./pages/NotFound";
@@ -62,25 +66,45 @@ const App = () => {
                           <Route path="/about" element={<About />} />
                           <Route path="/contact" element={<Contact />} />
                           <Route path="/prescription-analysis" element={
-                            <PrivateRoute>
+                            <PrivateRoute roles={['patient']}>
                               <PrescriptionAnalysis />
                             </PrivateRoute>
                           } />
+                          <Route path="/prescription-analysis/history" element={
+                            <PrivateRoute roles={['patient']}>
+                              <PrescriptionHistory />
+                            </PrivateRoute>
+                          } />
                           <Route path="/appointments" element={
-                            <PrivateRoute>
+                            <PrivateRoute roles={['patient']}>
                               <Appointments />
                             </PrivateRoute>
                           } />
+                          <Route path="/medication-schedule" element={
+                            <PrivateRoute roles={['patient']}>
+                              <MedicationSchedule />
+                            </PrivateRoute>
+                          } />
+                          <Route path="/adherence" element={
+                            <PrivateRoute roles={['patient']}>
+                              <Adherence />
+                            </PrivateRoute>
+                          } />
                           <Route path="/profile" element={
                             <PrivateRoute>
                               <Profile />
                             </PrivateRoute>
                           } />
                           <Route path="/subscription" element={
-                            <PrivateRoute>
+                            <PrivateRoute roles={['patient']}>
                               <Subscription />
                             </PrivateRoute>
                           } />
+                          <Route path="/doctor-portal" element={
+                            <PrivateRoute roles={['doctor']}>
+                              <DoctorPortal />
+                            </PrivateRoute>
+                          } />
                           <Route path="*" element={<NotFound />} />
                         </Routes>
                       )}
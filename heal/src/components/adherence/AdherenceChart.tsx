@@ -0,0 +1,46 @@
+import { format, parseISO } from "date-fns";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent
+} from "@/components/ui/chart";
+import { AdherenceDay } from "@/services/adherenceService";
+
+interface AdherenceChartProps {
+  days: AdherenceDay[];
+  // Date format of the axis labels, e.g. "EEE" for weekdays
+  labelFormat: string;
+}
+
+const chartConfig: ChartConfig = {
+  taken: { label: "Taken", color: "#16a34a" },
+  late: { label: "Late", color: "#f59e0b" },
+  skipped: { label: "Skipped", color: "#6b7280" },
+  missed: { label: "Missed", color: "#dc2626" }
+};
+
+const STATUSES = ["taken", "late", "skipped", "missed"] as const;
+
+// Doses per day, stacked by what the patient logged
+export const AdherenceChart = ({ days, labelFormat }: AdherenceChartProps) => {
+  const data = days.map(day => ({ ...day, label: format(parseISO(day.date), labelFormat) }));
+
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full">
+      <BarChart data={data} margin={{ left: -20 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="label" tickLine={false} axisLine={false} interval="preserveStartEnd" />
+        <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <ChartLegend content={<ChartLegendContent />} />
+        {STATUSES.map(status => (
+          <Bar key={status} dataKey={status} stackId="doses" fill={`var(--color-${status})`} />
+        ))}
+      </BarChart>
+    </ChartContainer>
+  );
+};
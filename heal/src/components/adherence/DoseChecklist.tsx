@@ -0,0 +1,84 @@
+import { useState } from "react";
+import { CheckCircle, Clock, SkipForward } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/components/ui/use-toast";
+import { AdherenceDose, DoseStatus, logDose } from "@/services/adherenceService";
+
+interface DoseChecklistProps {
+  prescriptionId: string;
+  doses: AdherenceDose[];
+  onLogged: (dose: AdherenceDose) => void;
+}
+
+const STATUS_BUTTONS: { status: DoseStatus; label: string; icon: typeof Clock; activeClassName: string }[] = [
+  { status: "taken", label: "Taken", icon: CheckCircle, activeClassName: "bg-green-600 hover:bg-green-700 text-white" },
+  { status: "late", label: "Late", icon: Clock, activeClassName: "bg-amber-500 hover:bg-amber-600 text-white" },
+  { status: "skipped", label: "Skipped", icon: SkipForward, activeClassName: "bg-gray-600 hover:bg-gray-700 text-white" }
+];
+
+// Today's expected doses, each marked as taken, late or skipped
+export const DoseChecklist = ({ prescriptionId, doses, onLogged }: DoseChecklistProps) => {
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const handleLog = async (dose: AdherenceDose, status: DoseStatus) => {
+    const key = `${dose.medication}-${dose.time}`;
+    try {
+      setSavingKey(key);
+      const log = await logDose(prescriptionId, dose, status);
+      onLogged({ ...dose, status: log.status, loggedAt: log.updatedAt });
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: (err as Error).message || "Failed to log the dose",
+        variant: "destructive"
+      });
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="text-xl">Today's doses</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {doses.length === 0 ? (
+          <p className="text-sm text-gray-600">No doses of this prescription are due today.</p>
+        ) : (
+          <ul className="divide-y">
+            {doses.map(dose => {
+              const key = `${dose.medication}-${dose.time}`;
+              return (
+                <li key={key} className="flex flex-wrap items-center justify-between gap-3 py-3">
+                  <div>
+                    <span className="font-semibold tabular-nums mr-3">{dose.time}</span>
+                    <span className="font-medium">{dose.medication}</span>
+                    {dose.dose && <span className="text-sm text-gray-600 ml-2">{dose.dose}</span>}
+                  </div>
+                  <div className="flex gap-2">
+                    {STATUS_BUTTONS.map(({ status, label, icon: Icon, activeClassName }) => (
+                      <Button
+                        key={status}
+                        size="sm"
+                        variant={dose.status === status ? "default" : "outline"}
+                        className={dose.status === status ? activeClassName : ""}
+                        disabled={savingKey === key}
+                        onClick={() => handleLog(dose, status)}
+                      >
+                        <Icon className="h-4 w-4 mr-1" />
+                        {label}
+                      </Button>
+                    ))}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
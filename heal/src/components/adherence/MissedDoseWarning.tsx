@@ -0,0 +1,32 @@
+import { AlertTriangle } from "lucide-react";
+import { AdherenceReport } from "@/services/adherenceService";
+
+interface MissedDoseWarningProps {
+  warnings: AdherenceReport['streakWarnings'];
+}
+
+// Medications whose latest doses were missed or skipped several times in a row
+export const MissedDoseWarning = ({ warnings }: MissedDoseWarningProps) => {
+  if (warnings.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-6 flex items-start border-2 border-amber-300 bg-amber-50 rounded-lg p-4">
+      <AlertTriangle className="h-5 w-5 text-amber-600 mr-2 mt-0.5 flex-shrink-0" />
+      <div>
+        <h3 className="font-semibold text-amber-900 mb-1">Missed doses in a row</h3>
+        <ul className="text-sm text-amber-900 space-y-0.5">
+          {warnings.map(warning => (
+            <li key={warning.medication}>
+              <strong>{warning.medication}</strong>: the last {warning.missedStreak} doses were missed or skipped.
+            </li>
+          ))}
+        </ul>
+        <p className="text-sm text-gray-700 mt-2">
+          Don't take a double dose to catch up. Ask your doctor or pharmacist what to do if you keep missing doses.
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -1,14 +1,21 @@
-import { useState } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { format, addMonths, getDaysInMonth, isSameDay, startOfMonth, getDay } from "date-fns";
-import { Clock, IndianRupee, Calendar as CalendarIcon, ChevronLeft, ChevronRight } from "lucide-react";
-import { Doctor } from "../../services/doctorService";
-import { bookAppointment } from "../../services/appointmentService";
+import { Clock, IndianRupee, Calendar as CalendarIcon, ChevronLeft, ChevronRight, Loader } from "lucide-react";
+import { Doctor, getClinicDate, isScheduledWorkingDay } from "../../services/doctorService";
+import {
+  Appointment,
+  bookAppointment,
+  rescheduleAppointment,
+  getDoctorSlots,
+  TimeSlot
+} from "../../services/appointmentService";
 import { useAuth } from "../../contexts/AuthContext";
 import { useToast } from "@/components/ui/use-toast";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { formatCurrency } from "@/utils/currencyFormatter";
+import { DATE_FORMAT, TIME_FORMAT } from "@/config/appointmentConfig";
 import {
   Popover,
   PopoverContent,
@@ -20,15 +27,13 @@ import { useNavigate } from "react-router-dom";
 
 interface AppointmentFormProps {
   doctor: Doctor;
-  onSuccess?: () => void;
+  // When set, the form moves this appointment to the selected slot instead of booking a new one
+  appointment?: Appointment;
+  // null when the server couldn't be reached and the change was queued to send later
+  onSuccess?: (appointment: Appointment | null) => void;
   onCancel?: () => void;
 }
 
-const timeSlots = [
-  "09:00", "09:30", "10:00", "10:30", "11:00", "11:30",
-  "13:00", "13:30", "14:00", "14:30", "15:00", "15:30", "16:00", "16:30"
-];
-
 // Component for the custom calendar
 const SimpleCalendar = ({ 
   value, 
@@ -206,9 +211,12 @@ const SimpleCalendar = ({
   );
 };
 
-export function AppointmentForm({ doctor, onSuccess, onCancel }: AppointmentFormProps) {
+export function AppointmentForm({ doctor, appointment, onSuccess, onCancel }: AppointmentFormProps) {
+  const isRescheduling = Boolean(appointment);
   const [date, setDate] = useState<Date | undefined>(undefined);
   const [time, setTime] = useState<string | undefined>(undefined);
+  const [slots, setSlots] = useState<TimeSlot[]>([]);
+  const [slotsLoading, setSlotsLoading] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const { isAuthenticated } = useAuth();
@@ -216,9 +224,38 @@ export function AppointmentForm({ doctor, onSuccess, onCancel }: AppointmentForm
   const { toast } = useToast();
   const navigate = useNavigate();
 
+  // Id of the latest slots request, so a slow reply for an earlier day doesn't replace the slots shown
+  const slotsRequestRef = useRef(0);
+
+  // Load the doctor's free slots for the selected day
+  const loadSlots = useCallback(async (selectedDate: Date) => {
+    const requestId = ++slotsRequestRef.current;
+    const day = format(selectedDate, "yyyy-MM-dd");
+    setSlotsLoading(true);
+    try {
+      const freeSlots = await getDoctorSlots(doctor._id, day, day);
+      if (requestId === slotsRequestRef.current) setSlots(freeSlots);
+    } catch (err: unknown) {
+      console.error("Error loading time slots:", err);
+      if (requestId !== slotsRequestRef.current) return;
+      setSlots([]);
+      setError(err instanceof Error ? err.message : "Failed to load available time slots");
+    } finally {
+      if (requestId === slotsRequestRef.current) setSlotsLoading(false);
+    }
+  }, [doctor._id]);
+
+  useEffect(() => {
+    if (date) {
+      loadSlots(date);
+    }
+  }, [date, loadSlots]);
+
   // Custom date handler for appointment booking
   const handleDateChange = (selectedDate: Date) => {
     setDate(selectedDate);
+    setTime(undefined);
+    setError(null);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -235,6 +272,34 @@ export function AppointmentForm({ doctor, onSuccess, onCancel }: AppointmentForm
       return;
     }
 
+    // Rescheduling keeps the existing booking, so no consultation is used
+    if (appointment) {
+      setIsLoading(true);
+      try {
+        const updated = await rescheduleAppointment(appointment, time);
+
+        toast(updated ? {
+          title: "Appointment rescheduled",
+          description: `Your appointment with ${doctor.name} has been moved to ${format(new Date(time), `${DATE_FORMAT} 'at' ${TIME_FORMAT}`)}.`,
+        } : {
+          title: "Reschedule saved offline",
+          description: "Your appointment will be moved when you're back online.",
+        });
+
+        if (onSuccess) {
+          onSuccess(updated);
+        }
+      } catch (err: unknown) {
+        console.error("Error rescheduling appointment:", err);
+        setError(err instanceof Error ? err.message : "Failed to reschedule appointment");
+        setTime(undefined);
+        loadSlots(date);
+      } finally {
+        setIsLoading(false);
+      }
+      return;
+    }
+
     // Check subscription status for consultation access
     if (subscriptionStatus?.status === 'trial' && subscriptionStatus.trialConsultationsRemaining <= 0) {
       setError("You've used all your free consultations. Subscribe to book more appointments.");
@@ -265,43 +330,50 @@ export function AppointmentForm({ doctor, onSuccess, onCancel }: AppointmentForm
 
     setIsLoading(true);
     try {
-      // Create ISO date string by combining date and time
-      const appointmentDate = new Date(date);
-      const [hours, minutes] = time.split(":").map(Number);
-      appointmentDate.setHours(hours, minutes, 0, 0);
+      // The selected time is the slot's ISO start time
+      const booked = await bookAppointment(doctor, time);
       
-      // Book the appointment
-      await bookAppointment(doctor._id, appointmentDate.toISOString());
-      
-      toast({
+      toast(booked ? {
         title: "Appointment booked",
         description: `Your appointment with ${doctor.name} has been scheduled.`,
+      } : {
+        title: "Booking saved offline",
+        description: `Your appointment with ${doctor.name} will be requested when you're back online.`,
       });
       
       if (onSuccess) {
-        onSuccess();
+        onSuccess(booked);
       }
     } catch (err: any) {
       console.error("Error booking appointment:", err);
       setError(err.message || "Failed to book appointment");
+      // The slot may have been taken in the meantime, refresh what is still free
+      setTime(undefined);
+      loadSlots(date);
     } finally {
       setIsLoading(false);
     }
   };
 
-  // Function to disable dates in the past and more than 2 months in the future
+  // Function to disable dates in the past, more than 2 months in the future or outside the doctor's schedule
   const disableDates = (date: Date) => {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    
-    const twoMonthsFromNow = addMonths(today, 2);
+    // Days picked are clinic days, the same days the slots are loaded for
+    const day = format(date, "yyyy-MM-dd");
+    const twoMonthsFromNow = addMonths(new Date(), 2);
     
-    return date < today || date > twoMonthsFromNow;
+    return day < getClinicDate() || date > twoMonthsFromNow || !isScheduledWorkingDay(doctor.schedule, day);
   };
 
   return (
     <div className="bg-white p-6 rounded-lg shadow">
-      <h3 className="text-xl font-semibold mb-4 text-center">Book Appointment with {doctor.name}</h3>
+      <h3 className="text-xl font-semibold mb-4 text-center">
+        {isRescheduling ? "Reschedule Appointment with" : "Book Appointment with"} {doctor.name}
+      </h3>
+      {appointment && (
+        <p className="text-gray-600 mb-2 text-center text-sm">
+          Currently {format(new Date(appointment.date), `${DATE_FORMAT} 'at' ${TIME_FORMAT}`)}
+        </p>
+      )}
       <p className="text-gray-600 mb-2 text-center text-sm">{doctor.specialty} • {doctor.experience}</p>
       <p className="text-medical-primary font-medium mb-4 text-center">
         <span className="inline-flex items-center">
@@ -329,25 +401,32 @@ export function AppointmentForm({ doctor, onSuccess, onCancel }: AppointmentForm
         
         <div className="space-y-2">
           <label className="block text-sm font-medium">Select Time</label>
-          <Select onValueChange={setTime} value={time}>
+          <Select onValueChange={setTime} value={time} disabled={!date || slotsLoading || slots.length === 0}>
             <SelectTrigger className="w-full">
               <SelectValue placeholder="Select time">
-                {time ? (
+                {slotsLoading ? (
+                  <div className="flex items-center">
+                    <Loader className="mr-2 h-4 w-4 animate-spin" />
+                    Loading available times...
+                  </div>
+                ) : time ? (
                   <div className="flex items-center">
                     <Clock className="mr-2 h-4 w-4" />
-                    {time}
+                    {format(new Date(time), TIME_FORMAT)}
                   </div>
+                ) : date && slots.length === 0 ? (
+                  "No free slots on this day"
                 ) : (
                   "Select time"
                 )}
               </SelectValue>
             </SelectTrigger>
             <SelectContent>
-              {timeSlots.map((slot) => (
-                <SelectItem key={slot} value={slot}>
+              {slots.map((slot) => (
+                <SelectItem key={slot.start} value={slot.start}>
                   <div className="flex items-center">
                     <Clock className="mr-2 h-4 w-4" />
-                    {slot}
+                    {format(new Date(slot.start), TIME_FORMAT)}
                   </div>
                 </SelectItem>
               ))}
@@ -361,7 +440,9 @@ export function AppointmentForm({ doctor, onSuccess, onCancel }: AppointmentForm
             className="w-full bg-medical-primary hover:bg-medical-primary/90"
             disabled={!date || !time || isLoading}
           >
-            {isLoading ? "Booking..." : "Book Appointment"}
+            {isRescheduling
+              ? (isLoading ? "Rescheduling..." : "Reschedule")
+              : (isLoading ? "Booking..." : "Book Appointment")}
           </Button>
           <Button
             type="button"
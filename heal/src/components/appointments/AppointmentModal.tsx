@@ -1,25 +1,36 @@
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Doctor } from "../../services/doctorService";
+import { Appointment } from "../../services/appointmentService";
 import { AppointmentForm } from "./AppointmentForm";
 
 interface AppointmentModalProps {
   isOpen: boolean;
   onClose: () => void;
   doctor: Doctor | null;
+  // Existing appointment to reschedule instead of booking a new one
+  appointment?: Appointment;
+  // null when the server couldn't be reached and the change was queued to send later
+  onSuccess?: (appointment: Appointment | null) => void;
 }
 
-export function AppointmentModal({ isOpen, onClose, doctor }: AppointmentModalProps) {
+export function AppointmentModal({ isOpen, onClose, doctor, appointment, onSuccess }: AppointmentModalProps) {
   if (!doctor) return null;
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="sm:max-w-[500px]">
         <DialogHeader>
-          <DialogTitle className="text-center">Schedule Appointment</DialogTitle>
+          <DialogTitle className="text-center">
+            {appointment ? "Reschedule Appointment" : "Schedule Appointment"}
+          </DialogTitle>
         </DialogHeader>
         <AppointmentForm 
           doctor={doctor} 
-          onSuccess={onClose} 
+          appointment={appointment}
+          onSuccess={(result) => {
+            if (onSuccess) onSuccess(result);
+            onClose();
+          }} 
           onCancel={onClose} 
         />
       </DialogContent>
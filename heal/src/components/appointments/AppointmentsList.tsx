@@ -1,16 +1,15 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { 
   getUserAppointments, 
   updateAppointmentStatus, 
-  debugAppointmentApi,
-  setSuccessfulEndpoint,
-  hasPendingAppointmentSyncs,
-  syncPendingAppointments
+  downloadAppointmentCalendar
 } from "../../services/appointmentService";
+import { syncOutbox } from "../../services/syncOutbox";
+import { useSyncStatus } from "@/hooks/useSyncStatus";
 import { format, parseISO, isBefore, addHours } from "date-fns";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Loader, AlertCircle, Clock, Info } from "lucide-react";
+import { Loader, AlertCircle, Clock, Info, CalendarClock, CalendarPlus } from "lucide-react";
 import { useAuth } from "../../contexts/AuthContext";
 import { useToast } from "@/components/ui/use-toast";
 import { 
@@ -37,8 +36,18 @@ import {
   TIME_FORMAT,
   getCancellationPolicyText
 } from "@/config/appointmentConfig";
-import axios from "axios";
-import { authHeader } from "../../services/authService";
+import { Appointment } from "../../services/appointmentService";
+import { ApiError } from "../../services/apiClient";
+import {
+  FINAL_STATUSES,
+  RESCHEDULABLE_STATUSES,
+  STATUS_FILTERS,
+  canTransition,
+  getStatusColor,
+  getStatusLabel
+} from "@/config/appointmentStatus";
+import { AppointmentModal } from "./AppointmentModal";
+import { SyncStatusDialog } from "../sync/SyncStatusDialog";
 
 export function AppointmentsList() {
   const [appointments, setAppointments] = useState<any[]>([]);
@@ -47,33 +56,42 @@ export function AppointmentsList() {
   const [confirmingCancellation, setConfirmingCancellation] = useState<string | null>(null);
   const [cancellingId, setCancellingId] = useState<string | null>(null);
   const [cannotCancel, setCannotCancel] = useState<boolean>(false);
-  const [isOnline, setIsOnline] = useState<boolean>(navigator.onLine);
-  const [hasPendingSyncs, setHasPendingSyncs] = useState<boolean>(false);
-  const [isSyncing, setIsSyncing] = useState<boolean>(false);
+  const [showSyncStatus, setShowSyncStatus] = useState<boolean>(false);
+  const [reschedulingAppointment, setReschedulingAppointment] = useState<Appointment | null>(null);
+  const [statusFilter, setStatusFilter] = useState<string>("all");
   const { isAuthenticated } = useAuth();
   const { toast } = useToast();
+  const { isOnline, isSyncing, pendingCount, conflicts, failures, lastSyncedAt } = useSyncStatus();
+  const hasPendingSyncs = pendingCount > 0;
+  const syncIssueCount = conflicts.length + failures.length;
 
-  // Helper to get status color for badges
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case "confirmed": return "bg-green-100 text-green-800";
-      case "cancelled": return "bg-red-100 text-red-800";
-      default: return "bg-yellow-100 text-yellow-800";
+  const fetchAppointments = useCallback(async () => {
+    if (!isAuthenticated) {
+      setLoading(false);
+      return;
     }
-  };
 
-  // Check for pending syncs periodically
+    setLoading(true);
+    setCannotCancel(false);
+    try {
+      const data = await getUserAppointments();
+      console.log("Fetched appointments:", data);
+      setAppointments(data);
+      setError(null);
+    } catch (err) {
+      console.error("Error fetching appointments:", err);
+      setError("Failed to load appointments. Please try again later.");
+    } finally {
+      setLoading(false);
+    }
+  }, [isAuthenticated]);
+
+  // Reload once queued changes reach the server (or a conflict is settled in the server's favour)
   useEffect(() => {
-    const checkPendingSyncs = () => {
-      setHasPendingSyncs(hasPendingAppointmentSyncs());
-    };
-    
-    // Check immediately and then every 5 seconds
-    checkPendingSyncs();
-    const interval = setInterval(checkPendingSyncs, 5000);
-    
-    return () => clearInterval(interval);
-  }, []);
+    if (lastSyncedAt) {
+      fetchAppointments();
+    }
+  }, [lastSyncedAt, fetchAppointments]);
 
   // Handle manual sync
   const handleManualSync = async () => {
@@ -86,11 +104,10 @@ export function AppointmentsList() {
       return;
     }
     
-    setIsSyncing(true);
     try {
-      await syncPendingAppointments();
-      setHasPendingSyncs(hasPendingAppointmentSyncs());
-      if (!hasPendingAppointmentSyncs()) {
+      await syncOutbox.syncNow();
+      const status = syncOutbox.getStatus();
+      if (status.pendingCount === 0 && status.conflicts.length === 0 && status.failures.length === 0) {
         toast({
           title: "Sync Complete",
           description: "All appointment changes have been synchronized with the server."
@@ -98,7 +115,7 @@ export function AppointmentsList() {
       } else {
         toast({
           title: "Partial Sync",
-          description: "Some changes couldn't be synchronized. Will retry automatically when possible.",
+          description: "Some changes couldn't be synchronized yet. Open the sync status to see why.",
           variant: "destructive"
         });
       }
@@ -109,27 +126,21 @@ export function AppointmentsList() {
         description: "Failed to synchronize appointment changes. Will retry automatically.",
         variant: "destructive"
       });
-    } finally {
-      setIsSyncing(false);
     }
   };
 
   // Monitor online/offline status
   useEffect(() => {
     const handleOnline = () => {
-      setIsOnline(true);
       toast({
         title: "Back Online",
         description: "You're back online. Your changes will be synchronized.",
       });
-      // Refresh data when coming back online
+      // Refresh data when coming back online (the outbox sends queued changes itself)
       fetchAppointments();
-      // Try to sync any pending changes
-      syncPendingAppointments();
     };
     
     const handleOffline = () => {
-      setIsOnline(false);
       toast({
         title: "Offline Mode",
         description: "You're now offline. Some features may be limited.",
@@ -144,55 +155,31 @@ export function AppointmentsList() {
       window.removeEventListener('online', handleOnline);
       window.removeEventListener('offline', handleOffline);
     };
-  }, []);
+  }, [toast, fetchAppointments]);
 
   useEffect(() => {
     fetchAppointments();
-  }, [isAuthenticated]);
-
-  const fetchAppointments = async () => {
-    if (!isAuthenticated) {
-      setLoading(false);
-      return;
-    }
+  }, [fetchAppointments]);
 
-    setLoading(true);
-    setCannotCancel(false);
+  const handleAddToCalendar = async (id: string) => {
     try {
-      const data = await getUserAppointments();
-      console.log("Fetched appointments:", data);
-      setAppointments(data);
-      setError(null);
+      await downloadAppointmentCalendar(id);
     } catch (err) {
-      console.error("Error fetching appointments:", err);
-      setError("Failed to load appointments. Please try again later.");
-    } finally {
-      setLoading(false);
+      toast({
+        variant: "destructive",
+        title: "Download failed",
+        description: (err as Error).message
+      });
     }
   };
 
-  // Debug API configuration
-  const runApiDebug = () => {
-    debugAppointmentApi();
-    toast({
-      title: "Debug Info",
-      description: "API configuration info logged to console",
-    });
-  };
-
-  const handleCancelAppointment = async (id: string) => {
+  const handleCancelAppointment = async (appointment: Appointment) => {
+    const id = appointment._id;
     try {
       setCancellingId(id);
-      console.log("Cancelling appointment with ID:", id);
-      
-      // Log current appointments to check the ID format
-      console.log("Current appointments:", appointments);
-      const appointmentToCancel = appointments.find(a => a._id === id);
-      console.log("Appointment to cancel:", appointmentToCancel);
       
-      // Attempt to cancel via API, will use mock mode if API is down
-      const updatedAppointment = await updateAppointmentStatus(id, "cancelled");
-      console.log("Appointment cancelled, received:", updatedAppointment);
+      // Returns null when the server can't be reached - the cancellation is then queued
+      const updatedAppointment = await updateAppointmentStatus(appointment, "cancelled_by_patient");
       
       if (updatedAppointment) {
         // Update the local state
@@ -206,59 +193,46 @@ export function AppointmentsList() {
         });
         setCannotCancel(false);
       } else {
-        // If we get here, something went wrong but didn't throw an error
         toast({
           variant: "destructive",
-          title: "Warning",
-          description: "Appointment marked as cancelled, but we couldn't confirm with the server. Changes may not be saved when you reconnect."
+          title: "Offline Mode",
+          description: "We couldn't reach the server. Your cancellation will be sent when you reconnect."
         });
         
-        // Still update the UI to show it as cancelled
+        // Show it as cancelled until the queued change is synced
         setAppointments(appointments.map(appt => 
-          appt._id === id 
-            ? {...appt, status: "cancelled", updatedAt: new Date().toISOString()} 
-            : appt
+          appt._id === id ? {...appt, status: "cancelled_by_patient"} : appt
         ));
       }
-    } catch (err: any) {
+    } catch (err) {
       console.error("Error in cancellation:", err);
       
-      // Create a more user-friendly message
-      let errorMessage = err.message || "Failed to cancel appointment. Please try again.";
-      if (errorMessage.includes("endpoint not found") || errorMessage.includes("404")) {
-        errorMessage = "The server couldn't find the appointment to cancel. The system may be experiencing technical difficulties.";
-      } else if (errorMessage.includes("No response received")) {
-        errorMessage = "Couldn't connect to the server. Please check your internet connection and try again.";
-      }
-      
-      // Only show cannot cancel UI if we're having a real failure
-      if (!navigator.onLine || err.message?.includes("No response received")) {
-        toast({
-          variant: "destructive",
-          title: "Offline Mode",
-          description: "You appear to be offline. Your cancellation will be processed when you reconnect."
-        });
-        
-        // Still update the UI to show it as cancelled (optimistic update)
-        setAppointments(appointments.map(appt => 
-          appt._id === id 
-            ? {...appt, status: "cancelled", updatedAt: new Date().toISOString()} 
-            : appt
-        ));
-      } else {
+      // Only show the cannot cancel screen when the server itself is failing
+      if (err instanceof ApiError && err.code === "SERVER_ERROR") {
         setCannotCancel(true);
-        toast({
-          title: "Error cancelling appointment",
-          description: errorMessage,
-          variant: "destructive"
-        });
       }
+      toast({
+        title: "Error cancelling appointment",
+        description: (err as Error).message,
+        variant: "destructive"
+      });
     } finally {
       setConfirmingCancellation(null);
       setCancellingId(null);
     }
   };
 
+  // Appointments matching the selected status filter
+  const activeFilter = STATUS_FILTERS.find(filter => filter.value === statusFilter) || STATUS_FILTERS[0];
+  const visibleAppointments = appointments.filter(appt => activeFilter.statuses.includes(appt.status));
+
+  // Replace the moved appointment in the list
+  const handleRescheduled = (updated: Appointment | null) => {
+    // A queued reschedule shows up once it has been synced
+    if (!updated) return;
+    setAppointments(prev => prev.map(appt => appt._id === updated._id ? updated : appt));
+  };
+
   // Hard refresh (reload page) function
   const hardRefresh = () => {
     window.location.reload();
@@ -284,198 +258,6 @@ export function AppointmentsList() {
     return true;
   };
 
-  // Function to store successful endpoint in localStorage
-  const storeSuccessfulEndpoint = (url: string, method: string) => {
-    try {
-      localStorage.setItem('successfulAppointmentEndpoint', JSON.stringify({ url, method }));
-      console.log('Saved successful endpoint to localStorage:', { url, method });
-    } catch (error) {
-      console.error('Error saving endpoint to localStorage:', error);
-    }
-  };
-
-  // Function to get successful endpoint from localStorage
-  const getStoredEndpoint = () => {
-    try {
-      const stored = localStorage.getItem('successfulAppointmentEndpoint');
-      if (stored) {
-        return JSON.parse(stored);
-      }
-    } catch (error) {
-      console.error('Error reading endpoint from localStorage:', error);
-    }
-    return null;
-  };
-
-  // Manual test for appointment cancellation
-  const testCancellation = async (appointment: any) => {
-    if (!appointment) {
-      toast({
-        title: "No appointment selected",
-        description: "Please select an appointment to test cancellation",
-        variant: "destructive"
-      });
-      return;
-    }
-
-    setLoading(true);
-    // Clean up the id parameter
-    const cleanId = appointment._id.trim();
-    
-    // Check if we have a stored successful endpoint
-    const storedEndpoint = getStoredEndpoint();
-    if (storedEndpoint) {
-      try {
-        console.log(`Trying stored successful endpoint: ${storedEndpoint.url} with method ${storedEndpoint.method}`);
-        // Replace any ID in the URL with the current ID
-        const url = storedEndpoint.url.replace(/\/[a-f0-9]{24}(?:\/|$)/, `/${cleanId}`);
-        
-        const response = await axios({
-          method: storedEndpoint.method,
-          url,
-          headers: authHeader(),
-          data: { status: 'cancelled' },
-          timeout: 10000
-        });
-        
-        console.log('Update successful using stored endpoint:', response.data);
-        toast({
-          title: "Success!",
-          description: "Appointment cancelled using stored endpoint.",
-        });
-        
-        // Update the appointment in the local state first
-        setAppointments(prev => prev.map(a => 
-          a._id === cleanId 
-            ? { ...a, status: 'cancelled', updatedAt: new Date().toISOString() } 
-            : a
-        ));
-        
-        // Save to localStorage for offline access
-        try {
-          const cachedAppointments = localStorage.getItem('cachedAppointments');
-          if (cachedAppointments) {
-            const appointments = JSON.parse(cachedAppointments);
-            const updatedAppointments = appointments.map((a: any) => 
-              a._id === cleanId 
-                ? { ...a, status: 'cancelled', updatedAt: new Date().toISOString() } 
-                : a
-            );
-            localStorage.setItem('cachedAppointments', JSON.stringify(updatedAppointments));
-          }
-        } catch (e) {
-          console.error('Error updating cached appointments', e);
-        }
-        
-        setLoading(false);
-        return;
-      } catch (error) {
-        console.log('Stored endpoint failed, trying alternatives');
-        // Continue to try other endpoints
-      }
-    }
-    
-    // Define different endpoint variations to test
-    const apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:5000/api';
-    const endpointVariations = [
-      // Path parameter variations
-      { url: `${apiUrl}/appointments/${cleanId}`, method: 'PATCH' },
-      { url: `${apiUrl}/appointments/status/${cleanId}`, method: 'PUT' },
-      { url: `${apiUrl}/appointment/${cleanId}`, method: 'PATCH' },
-      { url: `${apiUrl}/appointment/status/${cleanId}`, method: 'PUT' },
-      
-      // Query parameter variations
-      { url: `${apiUrl}/appointments?id=${cleanId}`, method: 'PATCH' },
-      { url: `${apiUrl}/appointment?id=${cleanId}`, method: 'PATCH' },
-      { url: `${apiUrl}/appointments/status?id=${cleanId}`, method: 'PUT' },
-      { url: `${apiUrl}/appointment/status?id=${cleanId}`, method: 'PUT' },
-      
-      // Additional forms
-      { url: `${apiUrl}/updateAppointment/${cleanId}`, method: 'POST' },
-      { url: `${apiUrl}/cancelAppointment/${cleanId}`, method: 'POST' }
-    ];
-    
-    const testResults = [];
-    const successfulEndpoints = [];
-    
-    // Try each endpoint
-    for (const endpoint of endpointVariations) {
-      try {
-        console.log(`Testing endpoint: ${endpoint.url} with method ${endpoint.method}`);
-        
-        const response = await axios({
-          method: endpoint.method,
-          url: endpoint.url,
-          headers: authHeader(),
-          data: { status: 'cancelled' },
-          timeout: 10000
-        });
-        
-        console.log(`Endpoint ${endpoint.url} succeeded:`, response.data);
-        testResults.push({ endpoint, success: true });
-        successfulEndpoints.push(endpoint);
-        
-        // Store first successful endpoint for future use
-        if (successfulEndpoints.length === 1) {
-          // Call both the service function and store locally
-          setSuccessfulEndpoint(endpoint.url, endpoint.method);
-          storeSuccessfulEndpoint(endpoint.url, endpoint.method);
-        }
-      } catch (error) {
-        console.log(`Endpoint ${endpoint.url} failed:`, error);
-        testResults.push({ endpoint, success: false, error });
-      }
-    }
-    
-    console.log('Endpoint test results:', testResults);
-    
-    if (successfulEndpoints.length > 0) {
-      toast({
-        title: "Success!",
-        description: `Found ${successfulEndpoints.length} working endpoint(s). Appointment cancelled.`,
-      });
-      
-      // Update the appointment in the local state
-      setAppointments(prev => prev.map(a => 
-        a._id === cleanId 
-          ? { ...a, status: 'cancelled', updatedAt: new Date().toISOString() } 
-          : a
-      ));
-      
-      // Save to localStorage for offline access
-      try {
-        const cachedAppointments = localStorage.getItem('cachedAppointments');
-        if (cachedAppointments) {
-          const appointments = JSON.parse(cachedAppointments);
-          const updatedAppointments = appointments.map((a: any) => 
-            a._id === cleanId 
-              ? { ...a, status: 'cancelled', updatedAt: new Date().toISOString() } 
-              : a
-          );
-          localStorage.setItem('cachedAppointments', JSON.stringify(updatedAppointments));
-        }
-      } catch (e) {
-        console.error('Error updating cached appointments', e);
-      }
-    } else {
-      // If all endpoints failed but we're in a test context, still update UI optimistically
-      toast({
-        variant: "destructive",
-        title: "API Unavailable",
-        description: "All endpoints failed, but we'll update the UI. This is a testing mode only.",
-      });
-      
-      // Update the appointment in the local state for testing purposes
-      setAppointments(prev => prev.map(a => 
-        a._id === cleanId 
-          ? { ...a, status: 'cancelled', updatedAt: new Date().toISOString() } 
-          : a
-      ));
-    }
-    
-    setLoading(false);
-  };
-
   if (!isAuthenticated) {
     return (
       <Alert className="mb-4">
@@ -561,7 +343,8 @@ export function AppointmentsList() {
             const appointmentDate = parseISO(appointment.date);
             const formattedDate = format(appointmentDate, DATE_FORMAT);
             const formattedTime = format(appointmentDate, TIME_FORMAT);
-            const canCancel = appointment.status !== "cancelled" && isCancellable(appointmentDate);
+            const canCancel = canTransition("patient", appointment.status, "cancelled_by_patient", appointmentDate)
+              && isCancellable(appointmentDate);
             
             return (
               <Card key={appointment._id} className="mb-4 border border-gray-200 shadow-sm hover:shadow-md transition-shadow">
@@ -572,7 +355,7 @@ export function AppointmentsList() {
                       <CardDescription className="text-sm text-gray-600">{doctor.specialty || "Specialty not available"}</CardDescription>
                     </div>
                     <Badge className={`rounded-full py-1 px-2.5 text-xs font-medium ${getStatusColor(appointment.status)}`}>
-                      {appointment.status}
+                      {getStatusLabel(appointment.status)}
                     </Badge>
                   </div>
                 </CardHeader>
@@ -589,7 +372,7 @@ export function AppointmentsList() {
                     </div>
                     <div className="flex flex-col">
                       <div className="text-xs uppercase tracking-wide font-medium text-gray-500 mb-1">Status</div>
-                      <div className="text-sm font-medium text-gray-900 capitalize">{appointment.status}</div>
+                      <div className="text-sm font-medium text-gray-900">{getStatusLabel(appointment.status)}</div>
                     </div>
                   </div>
                 </CardContent>
@@ -644,7 +427,7 @@ export function AppointmentsList() {
                           </Button>
                           <Button 
                             variant="destructive" 
-                            onClick={() => handleCancelAppointment(appointment._id)}
+                            onClick={() => handleCancelAppointment(appointment)}
                             disabled={cancellingId === appointment._id}
                             className="bg-red-600 hover:bg-red-700"
                           >
@@ -662,7 +445,7 @@ export function AppointmentsList() {
                         </DialogFooter>
                       </DialogContent>
                     </Dialog>
-                  ) : appointment.status !== "cancelled" && (
+                  ) : !FINAL_STATUSES.includes(appointment.status) && (
                     <div className="flex items-center text-xs text-gray-500">
                       <Clock className="h-3 w-3 mr-1 flex-shrink-0" />
                       {isBefore(appointmentDate, new Date()) 
@@ -751,6 +534,26 @@ export function AppointmentsList() {
         </Alert>
       )}
       
+      {syncIssueCount > 0 && (
+        <Alert variant="default" className="bg-amber-50 text-amber-800 border-amber-200">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Changes Need Your Attention</AlertTitle>
+          <AlertDescription className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+            <span>
+              {syncIssueCount === 1 ? "A change" : `${syncIssueCount} changes`} you made offline couldn't be applied as-is.
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              className="border-amber-300 text-amber-800"
+              onClick={() => setShowSyncStatus(true)}
+            >
+              Review
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+      
       {isOnline && hasPendingSyncs && (
         <Alert variant="default" className="bg-blue-50 text-blue-800 border-blue-200">
           <Clock className="h-4 w-4" />
@@ -769,13 +572,38 @@ export function AppointmentsList() {
           {getCancellationPolicyText()}
         </AlertDescription>
       </Alert>
+
+      <div className="flex flex-wrap gap-2">
+        {STATUS_FILTERS.map((filter) => (
+          <Button
+            key={filter.value}
+            variant={statusFilter === filter.value ? "default" : "outline"}
+            size="sm"
+            className="rounded-full"
+            onClick={() => setStatusFilter(filter.value)}
+          >
+            {filter.label}
+            <span className="ml-1.5 text-xs opacity-70">
+              {appointments.filter(appt => filter.statuses.includes(appt.status)).length}
+            </span>
+          </Button>
+        ))}
+      </div>
+
+      {visibleAppointments.length === 0 && (
+        <div className="text-center py-6 text-sm text-gray-500">
+          No {activeFilter.label.toLowerCase()} appointments.
+        </div>
+      )}
       
-      {appointments.map((appointment) => {
+      {visibleAppointments.map((appointment) => {
         const doctor = appointment.doctorId || {};
         const appointmentDate = parseISO(appointment.date);
         const formattedDate = format(appointmentDate, DATE_FORMAT);
         const formattedTime = format(appointmentDate, TIME_FORMAT);
-        const canCancel = appointment.status !== "cancelled" && isCancellable(appointmentDate);
+        const canCancel = canTransition("patient", appointment.status, "cancelled_by_patient", appointmentDate)
+          && isCancellable(appointmentDate);
+        const canReschedule = RESCHEDULABLE_STATUSES.includes(appointment.status) && isCancellable(appointmentDate);
         
         return (
           <Card key={appointment._id} className="mb-4 border border-gray-200 shadow-sm hover:shadow-md transition-shadow">
@@ -786,7 +614,7 @@ export function AppointmentsList() {
                   <CardDescription className="text-sm text-gray-600">{doctor.specialty || "Specialty not available"}</CardDescription>
                 </div>
                 <Badge className={`rounded-full py-1 px-2.5 text-xs font-medium ${getStatusColor(appointment.status)}`}>
-                  {appointment.status}
+                  {getStatusLabel(appointment.status)}
                 </Badge>
               </div>
             </CardHeader>
@@ -803,12 +631,51 @@ export function AppointmentsList() {
                 </div>
                 <div className="flex flex-col">
                   <div className="text-xs uppercase tracking-wide font-medium text-gray-500 mb-1">Status</div>
-                  <div className="text-sm font-medium text-gray-900 capitalize">{appointment.status}</div>
+                  <div className="text-sm font-medium text-gray-900">{getStatusLabel(appointment.status)}</div>
                 </div>
               </div>
+              {appointment.rescheduleHistory?.length > 0 && (
+                <div className="mt-3 text-xs text-gray-500">
+                  Rescheduled from{" "}
+                  {appointment.rescheduleHistory
+                    .map((entry) => format(parseISO(entry.from), `${DATE_FORMAT}, ${TIME_FORMAT}`))
+                    .join(" → ")}
+                </div>
+              )}
+              {FINAL_STATUSES.includes(appointment.status) && appointment.statusHistory?.length > 0
+                && appointment.statusHistory[appointment.statusHistory.length - 1].reason && (
+                <div className="mt-1 text-xs text-gray-500">
+                  Reason: {appointment.statusHistory[appointment.statusHistory.length - 1].reason}
+                </div>
+              )}
             </CardContent>
             
-            <CardFooter className="pt-3 pb-4 border-t flex justify-center">
+            <CardFooter className="pt-3 pb-4 border-t flex justify-center gap-3">
+              {!FINAL_STATUSES.includes(appointment.status) && (
+                <Button
+                  variant="outline"
+                  className="rounded-full bg-white hover:bg-gray-50 text-gray-700 border border-gray-200 hover:border-gray-300 px-4 py-1 text-sm font-medium shadow-sm transition-all"
+                  onClick={() => handleAddToCalendar(appointment._id)}
+                >
+                  <div className="flex items-center">
+                    <CalendarPlus className="h-3 w-3 mr-1.5" />
+                    <span>Add to Calendar</span>
+                  </div>
+                </Button>
+              )}
+              {canReschedule && (
+                <Button
+                  variant="outline"
+                  className="rounded-full bg-white hover:bg-blue-50 text-medical-primary border border-blue-200 hover:border-blue-300 px-4 py-1 text-sm font-medium shadow-sm transition-all"
+                  onClick={() => setReschedulingAppointment(appointment)}
+                  disabled={cancellingId === appointment._id}
+                >
+                  <div className="flex items-center">
+                    <CalendarClock className="h-3 w-3 mr-1.5" />
+                    <span>Reschedule</span>
+                  </div>
+                </Button>
+              )}
               {canCancel ? (
                 <Dialog open={confirmingCancellation === appointment._id} onOpenChange={(open) => {
                   if (!open) setConfirmingCancellation(null);
@@ -858,7 +725,7 @@ export function AppointmentsList() {
                       </Button>
                       <Button 
                         variant="destructive" 
-                        onClick={() => handleCancelAppointment(appointment._id)}
+                        onClick={() => handleCancelAppointment(appointment)}
                         disabled={cancellingId === appointment._id}
                         className="bg-red-600 hover:bg-red-700"
                       >
@@ -876,7 +743,7 @@ export function AppointmentsList() {
                     </DialogFooter>
                   </DialogContent>
                 </Dialog>
-              ) : appointment.status !== "cancelled" && (
+              ) : !FINAL_STATUSES.includes(appointment.status) && (
                 <div className="flex items-center text-xs text-gray-500">
                   <Clock className="h-3 w-3 mr-1 flex-shrink-0" />
                   {isBefore(appointmentDate, new Date()) 
@@ -888,6 +755,20 @@ export function AppointmentsList() {
           </Card>
         );
       })}
+
+      <AppointmentModal
+        isOpen={reschedulingAppointment !== null}
+        onClose={() => setReschedulingAppointment(null)}
+        doctor={
+          reschedulingAppointment && typeof reschedulingAppointment.doctorId === "object"
+            ? reschedulingAppointment.doctorId
+            : null
+        }
+        appointment={reschedulingAppointment || undefined}
+        onSuccess={handleRescheduled}
+      />
+
+      <SyncStatusDialog isOpen={showSyncStatus} onClose={() => setShowSyncStatus(false)} />
     </div>
   );
-} 
\ No newline at end of file
+}
\ No newline at end of file
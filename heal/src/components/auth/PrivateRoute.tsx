@@ -1,13 +1,16 @@
 import { ReactNode, useEffect } from "react";
 import { Navigate, useLocation } from "react-router-dom";
 import { useAuth } from "../../contexts/AuthContext";
+import { Role } from "@/config/roles";
 
 interface PrivateRouteProps {
   children: ReactNode;
+  // Roles allowed to open the route (any signed-in user if omitted)
+  roles?: Role[];
 }
 
-export const PrivateRoute = ({ children }: PrivateRouteProps) => {
-  const { isAuthenticated } = useAuth();
+export const PrivateRoute = ({ children, roles }: PrivateRouteProps) => {
+  const { isAuthenticated, hasRole } = useAuth();
   const location = useLocation();
 
   useEffect(() => {
@@ -22,5 +25,10 @@ export const PrivateRoute = ({ children }: PrivateRouteProps) => {
     return <Navigate to={`/?login=required&from=${location.pathname}`} replace />;
   }
 
+  if (roles && !hasRole(...roles)) {
+    // Signed in, but this page is meant for another kind of account
+    return <Navigate to="/" replace />;
+  }
+
   return <>{children}</>;
-}; 
\ No newline at end of file
+}; 
@@ -0,0 +1,248 @@
+import { useState, useEffect } from "react";
+import { format, parseISO } from "date-fns";
+import { Loader, AlertCircle, Check, X, Mail, Phone } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/components/ui/use-toast";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { DATE_FORMAT, TIME_FORMAT } from "@/config/appointmentConfig";
+import { canTransition } from "@/config/appointmentStatus";
+import {
+  DoctorAppointment,
+  acceptAppointment,
+  declineAppointment,
+  getDoctorAppointments,
+  getPatientName
+} from "@/services/doctorPortalService";
+
+export function AppointmentInbox() {
+  const [requests, setRequests] = useState<DoctorAppointment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [decliningRequest, setDecliningRequest] = useState<DoctorAppointment | null>(null);
+  const [declineReason, setDeclineReason] = useState("");
+  const { toast } = useToast();
+
+  const fetchRequests = async () => {
+    setLoading(true);
+    try {
+      const data = await getDoctorAppointments({ statuses: ['pending'] });
+      setRequests(data);
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message || "Failed to load appointment requests");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRequests();
+  }, []);
+
+  const removeRequest = (id: string) => {
+    setRequests(current => current.filter(request => request._id !== id));
+  };
+
+  const handleAccept = async (request: DoctorAppointment) => {
+    setUpdatingId(request._id);
+    try {
+      await acceptAppointment(request._id);
+      removeRequest(request._id);
+      toast({
+        title: "Appointment confirmed",
+        description: `${getPatientName(request.userId)} has been booked for ${format(parseISO(request.date), `${DATE_FORMAT} 'at' ${TIME_FORMAT}`)}.`
+      });
+    } catch (err) {
+      toast({
+        variant: "destructive",
+        title: "Could not confirm appointment",
+        description: (err as Error).message
+      });
+      fetchRequests();
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const openDeclineDialog = (request: DoctorAppointment) => {
+    setDecliningRequest(request);
+    setDeclineReason("");
+  };
+
+  const handleDecline = async () => {
+    if (!decliningRequest || !declineReason.trim()) return;
+
+    const request = decliningRequest;
+    setUpdatingId(request._id);
+    try {
+      await declineAppointment(request._id, declineReason.trim());
+      setDecliningRequest(null);
+      removeRequest(request._id);
+      toast({
+        title: "Appointment declined",
+        description: `${getPatientName(request.userId)} will see your reason with the appointment.`
+      });
+    } catch (err) {
+      toast({
+        variant: "destructive",
+        title: "Could not decline appointment",
+        description: (err as Error).message
+      });
+      fetchRequests();
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center py-20">
+        <Loader className="h-10 w-10 text-medical-primary animate-spin" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive" className="mb-4">
+        <AlertCircle className="h-4 w-4" />
+        <AlertTitle>Error</AlertTitle>
+        <AlertDescription className="flex justify-between items-center">
+          <span>{error}</span>
+          <Button variant="outline" size="sm" onClick={fetchRequests}>
+            Try Again
+          </Button>
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (requests.length === 0) {
+    return (
+      <div className="text-center py-10">
+        <h3 className="text-lg font-medium text-gray-700">No pending requests</h3>
+        <p className="text-gray-500 mt-2">
+          New appointment requests from patients will appear here.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {requests.map(request => {
+        const canAccept = canTransition('doctor', 'pending', 'confirmed', request.date);
+        const isUpdating = updatingId === request._id;
+
+        return (
+          <Card key={request._id}>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-lg">{getPatientName(request.userId)}</CardTitle>
+              <CardDescription>
+                {format(parseISO(request.date), DATE_FORMAT)} at {format(parseISO(request.date), TIME_FORMAT)}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="text-sm text-gray-600 space-y-1">
+              {request.userId?.email && (
+                <p className="flex items-center">
+                  <Mail className="h-4 w-4 mr-2" />
+                  {request.userId.email}
+                </p>
+              )}
+              {request.userId?.phone && (
+                <p className="flex items-center">
+                  <Phone className="h-4 w-4 mr-2" />
+                  {request.userId.phone}
+                </p>
+              )}
+              {request.rescheduleHistory && request.rescheduleHistory.length > 0 && (
+                <p className="text-xs text-gray-500">
+                  Rescheduled from {format(parseISO(request.rescheduleHistory[request.rescheduleHistory.length - 1].from), `${DATE_FORMAT} ${TIME_FORMAT}`)}
+                </p>
+              )}
+              {!canAccept && (
+                <p className="text-xs text-orange-600">
+                  This request was not confirmed before the appointment time.
+                </p>
+              )}
+            </CardContent>
+            <CardFooter className="flex justify-end gap-2">
+              <Button
+                variant="outline"
+                className="text-red-600 border-red-200 hover:bg-red-50"
+                disabled={isUpdating}
+                onClick={() => openDeclineDialog(request)}
+              >
+                <X className="h-4 w-4 mr-2" />
+                Decline
+              </Button>
+              <Button
+                className="btn-primary"
+                disabled={isUpdating || !canAccept}
+                onClick={() => handleAccept(request)}
+              >
+                {isUpdating ? (
+                  <Loader className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Check className="h-4 w-4 mr-2" />
+                )}
+                Accept
+              </Button>
+            </CardFooter>
+          </Card>
+        );
+      })}
+
+      <Dialog open={!!decliningRequest} onOpenChange={(open) => !open && setDecliningRequest(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Decline Appointment</DialogTitle>
+            <DialogDescription>
+              Let {getPatientName(decliningRequest?.userId ?? null)} know why you can't see them at this time.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="decline-reason">Reason</Label>
+            <Textarea
+              id="decline-reason"
+              value={declineReason}
+              onChange={(e) => setDeclineReason(e.target.value)}
+              placeholder="e.g. I'm unavailable at this time, please book another slot"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDecliningRequest(null)}>
+              Back
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!declineReason.trim() || updatingId === decliningRequest?._id}
+              onClick={handleDecline}
+            >
+              Decline Appointment
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
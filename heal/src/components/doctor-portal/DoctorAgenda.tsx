@@ -0,0 +1,216 @@
+import { useState, useEffect, useCallback } from "react";
+import {
+  addDays,
+  eachDayOfInterval,
+  endOfWeek,
+  format,
+  isSameDay,
+  parseISO,
+  startOfWeek
+} from "date-fns";
+import { Loader, AlertCircle, ChevronLeft, ChevronRight, Play, CheckCircle, UserX } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { DATE_FORMAT, TIME_FORMAT } from "@/config/appointmentConfig";
+import {
+  AppointmentStatus,
+  canTransition,
+  getStatusColor,
+  getStatusLabel
+} from "@/config/appointmentStatus";
+import {
+  DoctorAppointment,
+  getDoctorAppointments,
+  getPatientName,
+  updateDoctorAppointmentStatus
+} from "@/services/doctorPortalService";
+
+type AgendaView = 'day' | 'week';
+
+// Visits shown on the agenda: confirmed ones and what they turned into
+const AGENDA_STATUSES: AppointmentStatus[] = ['confirmed', 'in_progress', 'completed', 'no_show'];
+
+// Actions a doctor can take on a visit from the agenda
+const VISIT_ACTIONS: { to: AppointmentStatus; label: string; icon: typeof Play }[] = [
+  { to: 'in_progress', label: 'Start Visit', icon: Play },
+  { to: 'completed', label: 'Complete', icon: CheckCircle },
+  { to: 'no_show', label: 'No-show', icon: UserX }
+];
+
+const DAY_KEY_FORMAT = "yyyy-MM-dd";
+
+const getAgendaDays = (view: AgendaView, date: Date): Date[] => {
+  if (view === 'day') return [date];
+  return eachDayOfInterval({
+    start: startOfWeek(date, { weekStartsOn: 1 }),
+    end: endOfWeek(date, { weekStartsOn: 1 })
+  });
+};
+
+export function DoctorAgenda() {
+  const [view, setView] = useState<AgendaView>('day');
+  const [selectedDate, setSelectedDate] = useState<Date>(new Date());
+  const [appointments, setAppointments] = useState<DoctorAppointment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const days = getAgendaDays(view, selectedDate);
+  const from = format(days[0], DAY_KEY_FORMAT);
+  const to = format(days[days.length - 1], DAY_KEY_FORMAT);
+
+  const fetchAgenda = useCallback(async () => {
+    setLoading(true);
+    try {
+      const data = await getDoctorAppointments({ statuses: AGENDA_STATUSES, from, to });
+      setAppointments(data);
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message || "Failed to load your agenda");
+    } finally {
+      setLoading(false);
+    }
+  }, [from, to]);
+
+  useEffect(() => {
+    fetchAgenda();
+  }, [fetchAgenda]);
+
+  const moveDate = (direction: number) => {
+    setSelectedDate(current => addDays(current, direction * (view === 'day' ? 1 : 7)));
+  };
+
+  const handleStatusChange = async (appointment: DoctorAppointment, status: AppointmentStatus) => {
+    setUpdatingId(appointment._id);
+    try {
+      const updated = await updateDoctorAppointmentStatus(appointment._id, status);
+      setAppointments(current => current.map(item =>
+        item._id === appointment._id ? { ...item, status: updated.status, statusHistory: updated.statusHistory } : item
+      ));
+      toast({
+        title: "Visit updated",
+        description: `${getPatientName(appointment.userId)}: ${getStatusLabel(status)}`
+      });
+    } catch (err) {
+      toast({
+        variant: "destructive",
+        title: "Could not update visit",
+        description: (err as Error).message
+      });
+      fetchAgenda();
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const title = view === 'day'
+    ? format(selectedDate, `EEEE, ${DATE_FORMAT}`)
+    : `${format(days[0], "MMM d")} – ${format(days[days.length - 1], DATE_FORMAT)}`;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={() => moveDate(-1)}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setSelectedDate(new Date())}>
+            Today
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => moveDate(1)}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <h3 className="text-lg font-medium ml-2">{title}</h3>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant={view === 'day' ? 'default' : 'outline'}
+            onClick={() => setView('day')}
+          >
+            Day
+          </Button>
+          <Button
+            size="sm"
+            variant={view === 'week' ? 'default' : 'outline'}
+            onClick={() => setView('week')}
+          >
+            Week
+          </Button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center items-center py-20">
+          <Loader className="h-10 w-10 text-medical-primary animate-spin" />
+        </div>
+      ) : error ? (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription className="flex justify-between items-center">
+            <span>{error}</span>
+            <Button variant="outline" size="sm" onClick={fetchAgenda}>
+              Try Again
+            </Button>
+          </AlertDescription>
+        </Alert>
+      ) : (
+        <div className="space-y-6">
+          {days.map(day => {
+            const dayAppointments = appointments.filter(appointment => isSameDay(parseISO(appointment.date), day));
+
+            return (
+              <div key={day.toISOString()}>
+                {view === 'week' && (
+                  <h4 className="text-sm font-semibold text-gray-700 mb-2">{format(day, "EEEE, MMM d")}</h4>
+                )}
+                {dayAppointments.length === 0 ? (
+                  <p className="text-sm text-gray-500">No visits scheduled.</p>
+                ) : (
+                  <div className="divide-y rounded-md border">
+                    {dayAppointments.map(appointment => (
+                      <div key={appointment._id} className="flex flex-wrap items-center justify-between gap-2 p-3">
+                        <div className="flex items-center gap-4">
+                          <span className="w-20 font-medium">{format(parseISO(appointment.date), TIME_FORMAT)}</span>
+                          <div>
+                            <p className="font-medium">{getPatientName(appointment.userId)}</p>
+                            {appointment.userId?.phone && (
+                              <p className="text-xs text-gray-500">{appointment.userId.phone}</p>
+                            )}
+                          </div>
+                          <Badge className={getStatusColor(appointment.status)}>
+                            {getStatusLabel(appointment.status)}
+                          </Badge>
+                        </div>
+                        <div className="flex gap-2">
+                          {VISIT_ACTIONS
+                            .filter(action => canTransition('doctor', appointment.status, action.to, appointment.date))
+                            .map(action => (
+                              <Button
+                                key={action.to}
+                                size="sm"
+                                variant="outline"
+                                disabled={updatingId === appointment._id}
+                                onClick={() => handleStatusChange(appointment, action.to)}
+                              >
+                                <action.icon className="h-4 w-4 mr-1" />
+                                {action.label}
+                              </Button>
+                            ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
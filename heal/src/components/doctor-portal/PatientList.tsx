@@ -0,0 +1,132 @@
+import { useState, useEffect } from "react";
+import { format, parseISO } from "date-fns";
+import { Loader, AlertCircle, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { DATE_FORMAT, TIME_FORMAT } from "@/config/appointmentConfig";
+import { DoctorPatient, getDoctorPatients, getPatientName } from "@/services/doctorPortalService";
+
+export function PatientList() {
+  const [patients, setPatients] = useState<DoctorPatient[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+
+  const fetchPatients = async () => {
+    setLoading(true);
+    try {
+      const data = await getDoctorPatients();
+      setPatients(data);
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message || "Failed to load patients");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchPatients();
+  }, []);
+
+  const query = search.trim().toLowerCase();
+  const visiblePatients = patients.filter(({ patient }) =>
+    !query
+    || getPatientName(patient).toLowerCase().includes(query)
+    || patient.email.toLowerCase().includes(query)
+    || (patient.phone || '').includes(query)
+  );
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center py-20">
+        <Loader className="h-10 w-10 text-medical-primary animate-spin" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive" className="mb-4">
+        <AlertCircle className="h-4 w-4" />
+        <AlertTitle>Error</AlertTitle>
+        <AlertDescription className="flex justify-between items-center">
+          <span>{error}</span>
+          <Button variant="outline" size="sm" onClick={fetchPatients}>
+            Try Again
+          </Button>
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (patients.length === 0) {
+    return (
+      <div className="text-center py-10">
+        <h3 className="text-lg font-medium text-gray-700">No patients yet</h3>
+        <p className="text-gray-500 mt-2">
+          Patients who book an appointment with you will appear here.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="relative max-w-sm">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search by name, email or phone"
+          className="pl-9"
+        />
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Patient</TableHead>
+            <TableHead>Contact</TableHead>
+            <TableHead className="text-center">Visits</TableHead>
+            <TableHead>Last Visit</TableHead>
+            <TableHead>Next Appointment</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {visiblePatients.map(({ patient, totalAppointments, completedAppointments, lastVisit, nextAppointment }) => (
+            <TableRow key={patient._id}>
+              <TableCell className="font-medium">{getPatientName(patient)}</TableCell>
+              <TableCell>
+                <div className="text-sm">{patient.email}</div>
+                {patient.phone && <div className="text-xs text-gray-500">{patient.phone}</div>}
+              </TableCell>
+              <TableCell className="text-center">
+                {completedAppointments} / {totalAppointments}
+              </TableCell>
+              <TableCell>
+                {lastVisit ? format(parseISO(lastVisit), DATE_FORMAT) : '—'}
+              </TableCell>
+              <TableCell>
+                {nextAppointment ? format(parseISO(nextAppointment), `${DATE_FORMAT} ${TIME_FORMAT}`) : '—'}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {visiblePatients.length === 0 && (
+        <p className="text-center text-sm text-gray-500">No patients match your search.</p>
+      )}
+    </div>
+  );
+}
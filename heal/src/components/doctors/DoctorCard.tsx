@@ -2,7 +2,7 @@ import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Calendar, Star, Clock, ThumbsUp, Award } from "lucide-react";
 import { motion } from "framer-motion";
-import { Doctor as ApiDoctor } from "../../services/doctorService";
+import { Doctor as ApiDoctor, getAvailabilityStatus, formatWeeklySchedule } from "../../services/doctorService";
 import { AppointmentModal } from "../appointments/AppointmentModal";
 import { useAuth } from "../../contexts/AuthContext";
 import { useSubscription } from "@/contexts/SubscriptionContext";
@@ -23,20 +23,8 @@ export const DoctorCard = ({ doctor, index }: DoctorCardProps) => {
   const { toast } = useToast();
   const navigate = useNavigate();
 
-  // Convert availability array to a display status
-  const getAvailabilityStatus = (doctor: ApiDoctor) => {
-    if (doctor.isAvailableNow) {
-      return "Available Now";
-    } else if (doctor.availability.length > 0) {
-      if (doctor.availability[0].startsWith("Mon") || doctor.availability[0].startsWith("Tue")) {
-        return "Available Today";
-      } else {
-        return "Next 3 Days";
-      }
-    } else {
-      return "This Week";
-    }
-  };
+  const availabilityStatus = getAvailabilityStatus(doctor);
+  const weeklyHours = formatWeeklySchedule(doctor.schedule);
 
   const handleBookAppointment = () => {
     if (!isAuthenticated) {
@@ -123,7 +111,7 @@ export const DoctorCard = ({ doctor, index }: DoctorCardProps) => {
                   <Clock size={12} className="mr-1" /> {doctor.experience || "N/A"} exp
                 </span>
                 <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
-                  <ThumbsUp size={12} className="mr-1" /> {getAvailabilityStatus(doctor)}
+                  <ThumbsUp size={12} className="mr-1" /> {availabilityStatus || "No slots this week"}
                 </span>
                 <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
                   {formatCurrency(doctor.price || 0)} / session
@@ -134,6 +122,11 @@ export const DoctorCard = ({ doctor, index }: DoctorCardProps) => {
           
           <div className={`mt-4 ${expanded ? 'block' : 'hidden sm:block'}`}>
             <p className="text-gray-600 text-sm line-clamp-2 sm:line-clamp-none">{doctor.bio || "No bio available."}</p>
+            {weeklyHours && (
+              <p className="text-gray-500 text-xs mt-2">
+                <span className="font-medium">Hours:</span> {weeklyHours}
+              </p>
+            )}
           </div>
           
           <div className="flex flex-col sm:flex-row justify-between items-center mt-5 gap-3">
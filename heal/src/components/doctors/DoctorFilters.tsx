@@ -4,7 +4,7 @@ import { Input } from "@/components/ui/input";
 import { Search, Filter } from "lucide-react";
 import { useAnimeEffect } from "@/hooks/useAnimeEffect";
 import { motion } from 'framer-motion';
-import { getDoctors } from "../../services/doctorService";
+import { getDoctors, AVAILABILITY_FILTERS } from "../../services/doctorService";
 
 interface DoctorFiltersProps {
   onFilterChange: (filters: {
@@ -34,13 +34,7 @@ export const DoctorFilters = ({ onFilterChange }: DoctorFiltersProps) => {
   const filterRef = useAnimeEffect<HTMLDivElement>();
 
   // List of availability options
-  const availabilityOptions = [
-    "Any Time",
-    "Available Now",
-    "Available Today",
-    "Next 3 Days",
-    "This Week"
-  ];
+  const availabilityOptions = ["Any Time", ...AVAILABILITY_FILTERS];
 
   // Fetch all specialties from API
   useEffect(() => {
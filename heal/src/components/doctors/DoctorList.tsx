@@ -7,7 +7,8 @@ import {
   Doctor,
   getDoctors, 
   searchDoctorsByName, 
-  getDoctorsBySpecialty 
+  getDoctorsBySpecialty,
+  matchesAvailabilityFilter
 } from "../../services/doctorService";
 import { useSubscription } from "@/contexts/SubscriptionContext";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
@@ -60,28 +61,11 @@ export const DoctorList = ({ filters }: DoctorListProps) => {
         console.log("Doctors fetched:", result.length);
         console.log("First doctor sample:", result.length > 0 ? JSON.stringify(result[0]) : "No doctors");
         
-        // Filter by availability if needed (frontend filtering)
+        // Filter by availability computed by the server from schedules and bookings
         if (filters.availability && result.length > 0) {
-          // Convert backend availability array to a frontend status
-          const getAvailabilityStatus = (doctor: Doctor) => {
-            if (doctor.isAvailableNow) {
-              return "Available Now";
-            } else if (doctor.availability && doctor.availability.length > 0) {
-              if (doctor.availability[0].startsWith("Mon") || doctor.availability[0].startsWith("Tue")) {
-                return "Available Today";
-              } else {
-                return "Next 3 Days";
-              }
-            } else {
-              return "This Week";
-            }
-          };
-          
+          const now = new Date();
           const beforeFilterCount = result.length;
-          result = result.filter(doctor => {
-            const status = getAvailabilityStatus(doctor);
-            return status === filters.availability;
-          });
+          result = result.filter(doctor => matchesAvailabilityFilter(doctor, filters.availability, now));
           console.log(`Filtered by availability: ${beforeFilterCount} -> ${result.length}`);
         }
         
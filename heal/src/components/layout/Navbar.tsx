@@ -1,11 +1,15 @@
 import { useState } from "react";
 import { Link } from "react-router-dom";
-import { Menu, X, User, LogOut } from "lucide-react";
+import { Menu, X, User, LogOut, Stethoscope } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { motion } from "framer-motion";
 import { useAuth } from "../../contexts/AuthContext";
 import { useNavigation } from "@/hooks/useNavigation";
+import { useDoseReminders } from "@/hooks/useDoseReminders";
+import { useIsMobile } from "@/hooks/use-mobile";
 import { AuthModal } from "../auth/AuthModal";
+import { SyncStatusIndicator } from "../sync/SyncStatusIndicator";
+import { NotificationBell } from "../notifications/NotificationBell";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -18,17 +22,23 @@ import {
 export const Navbar = () => {
   const [isOpen, setIsOpen] = useState(false);
   const [showAuthModal, setShowAuthModal] = useState(false);
-  const { user, isAuthenticated, logout } = useAuth();
+  const { user, isAuthenticated, isDoctor, hasRole, logout } = useAuth();
+  const isPatient = hasRole('patient');
   const { navigateWithLoading } = useNavigation();
+  // The bell polls for notifications, so only the visible (desktop or mobile) one is mounted
+  const isMobile = useIsMobile();
+  // Browser notifications at the patient's dose times, on every page
+  useDoseReminders(isAuthenticated && isPatient);
 
   // Define routes with protection status
+  // Patient-only links are still shown to visitors, who are asked to sign in
   const links = [
     { name: "Home", href: "/", protected: false },
     { name: "Doctors", href: "/doctors", protected: false },
-    { name: "Prescription Analysis", href: "/prescription-analysis", protected: true },
+    { name: "Prescription Analysis", href: "/prescription-analysis", protected: true, patientOnly: true },
     { name: "About", href: "/about", protected: false },
     { name: "Contact", href: "/contact", protected: false },
-  ];
+  ].filter(link => !link.patientOnly || !isAuthenticated || isPatient);
 
   const handleLogout = () => {
     logout();
@@ -73,6 +83,9 @@ export const Navbar = () => {
               </Link>
             ))}
             
+            {isAuthenticated && <SyncStatusIndicator />}
+            {isAuthenticated && !isMobile && <NotificationBell />}
+
             {isAuthenticated ? (
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
@@ -84,6 +97,15 @@ export const Navbar = () => {
                 <DropdownMenuContent align="end">
                   <DropdownMenuLabel>My Account</DropdownMenuLabel>
                   <DropdownMenuSeparator />
+                  {isDoctor && (
+                    <DropdownMenuItem 
+                      className="cursor-pointer"
+                      onClick={() => navigateWithLoading('/doctor-portal')}
+                    >
+                      <Stethoscope className="h-4 w-4 mr-2" />
+                      Doctor Portal
+                    </DropdownMenuItem>
+                  )}
                   <DropdownMenuItem 
                     className="cursor-pointer"
                     onClick={() => navigateWithLoading('/profile')}
@@ -91,18 +113,28 @@ export const Navbar = () => {
                     <User className="h-4 w-4 mr-2" />
                     Profile
                   </DropdownMenuItem>
-                  <DropdownMenuItem 
-                    className="cursor-pointer"
-                    onClick={() => navigateWithLoading('/appointments')}
-                  >
-                    Appointments
-                  </DropdownMenuItem>
-                  <DropdownMenuItem 
-                    className="cursor-pointer"
-                    onClick={() => navigateWithLoading('/subscription')}
-                  >
-                    Subscription
-                  </DropdownMenuItem>
+                  {isPatient && (
+                    <>
+                      <DropdownMenuItem 
+                        className="cursor-pointer"
+                        onClick={() => navigateWithLoading('/appointments')}
+                      >
+                        Appointments
+                      </DropdownMenuItem>
+                      <DropdownMenuItem 
+                        className="cursor-pointer"
+                        onClick={() => navigateWithLoading('/medication-schedule')}
+                      >
+                        Medication Schedule
+                      </DropdownMenuItem>
+                      <DropdownMenuItem 
+                        className="cursor-pointer"
+                        onClick={() => navigateWithLoading('/subscription')}
+                      >
+                        Subscription
+                      </DropdownMenuItem>
+                    </>
+                  )}
                   <DropdownMenuSeparator />
                   <DropdownMenuItem onClick={handleLogout} className="cursor-pointer text-red-600">
                     <LogOut className="h-4 w-4 mr-2" />
@@ -117,7 +149,9 @@ export const Navbar = () => {
             )}
           </div>
           
-          <div className="flex items-center md:hidden">
+          <div className="flex items-center gap-2 md:hidden">
+            {isAuthenticated && <SyncStatusIndicator />}
+            {isAuthenticated && isMobile && <NotificationBell />}
             <button
               onClick={() => setIsOpen(!isOpen)}
               className="inline-flex items-center justify-center p-2 rounded-md text-gray-700 hover:text-medical-primary focus:outline-none"
@@ -149,6 +183,15 @@ export const Navbar = () => {
               <div className="px-3 py-2">
                 <div className="px-3 py-2 border-t border-gray-200">
                   <p className="text-sm font-medium text-gray-500">Signed in as {user?.email}</p>
+                  {isDoctor && (
+                    <Link 
+                      to="/doctor-portal" 
+                      className="block py-2 text-sm text-gray-700 hover:text-medical-primary"
+                      onClick={() => setIsOpen(false)}
+                    >
+                      Doctor Portal
+                    </Link>
+                  )}
                   <Link 
                     to="/profile" 
                     className="block py-2 text-sm text-gray-700 hover:text-medical-primary"
@@ -156,20 +199,31 @@ export const Navbar = () => {
                   >
                     My Profile
                   </Link>
-                  <Link 
-                    to="/appointments" 
-                    className="block py-2 text-sm text-gray-700 hover:text-medical-primary"
-                    onClick={() => setIsOpen(false)}
-                  >
-                    My Appointments
-                  </Link>
-                  <Link 
-                    to="/subscription" 
-                    className="block py-2 text-sm text-gray-700 hover:text-medical-primary"
-                    onClick={() => setIsOpen(false)}
-                  >
-                    My Subscription
-                  </Link>
+                  {isPatient && (
+                    <>
+                      <Link 
+                        to="/appointments" 
+                        className="block py-2 text-sm text-gray-700 hover:text-medical-primary"
+                        onClick={() => setIsOpen(false)}
+                      >
+                        My Appointments
+                      </Link>
+                      <Link 
+                        to="/medication-schedule" 
+                        className="block py-2 text-sm text-gray-700 hover:text-medical-primary"
+                        onClick={() => setIsOpen(false)}
+                      >
+                        My Medication Schedule
+                      </Link>
+                      <Link 
+                        to="/subscription" 
+                        className="block py-2 text-sm text-gray-700 hover:text-medical-primary"
+                        onClick={() => setIsOpen(false)}
+                      >
+                        My Subscription
+                      </Link>
+                    </>
+                  )}
                   <Button 
                     variant="ghost" 
                     className="w-full mt-2 text-red-600 justify-start"
@@ -0,0 +1,42 @@
+import { useState } from "react";
+import { CalendarClock, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import { useNavigation } from "@/hooks/useNavigation";
+import { createMedicationSchedule } from "@/services/medicationScheduleService";
+
+interface CreateScheduleButtonProps {
+  prescriptionId: string;
+}
+
+// Turns a saved analysis into a dosing schedule (or opens the existing one)
+export const CreateScheduleButton = ({ prescriptionId }: CreateScheduleButtonProps) => {
+  const [isCreating, setIsCreating] = useState(false);
+  const { navigateWithLoading } = useNavigation();
+  const { toast } = useToast();
+
+  const handleClick = async () => {
+    try {
+      setIsCreating(true);
+      await createMedicationSchedule(prescriptionId);
+      navigateWithLoading("/medication-schedule");
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: (err as Error).message || "Failed to create the medication schedule",
+        variant: "destructive"
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <Button variant="outline" onClick={handleClick} disabled={isCreating}>
+      {isCreating
+        ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        : <CalendarClock className="h-4 w-4 mr-2" />}
+      Add to my medication schedule
+    </Button>
+  );
+};
@@ -0,0 +1,322 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { BarChart3, Bell, Loader2, Plus, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { FOOD_INSTRUCTION_LABELS, MAX_DOSES_PER_DAY } from "@/config/medicationScheduleConfig";
+import { requestDoseNotificationPermission } from "@/hooks/useDoseReminders";
+import {
+  FoodInstruction,
+  MedicationSchedule,
+  MedicationScheduleUpdate,
+  ScheduleItem,
+  deleteMedicationSchedule,
+  updateMedicationSchedule
+} from "@/services/medicationScheduleService";
+
+interface ScheduleCardProps {
+  schedule: MedicationSchedule;
+  onUpdate: (schedule: MedicationSchedule) => void;
+  onDelete: (id: string) => void;
+}
+
+const INTERVAL_LABELS: Record<number, string> = {
+  1: "Every day",
+  2: "Every other day",
+  7: "Once a week"
+};
+
+const getTitle = (schedule: MedicationSchedule) =>
+  schedule.title || `Prescription of ${format(parseISO(schedule.createdAt), "MMM d, yyyy")}`;
+
+interface ScheduleItemEditorProps {
+  item: ScheduleItem;
+  onChange: (changes: Partial<ScheduleItem>) => void;
+}
+
+// Dose times, food instruction and dates of one medication
+const ScheduleItemEditor = ({ item, onChange }: ScheduleItemEditorProps) => {
+  const intervals = INTERVAL_LABELS[item.intervalDays]
+    ? INTERVAL_LABELS
+    : { ...INTERVAL_LABELS, [item.intervalDays]: `Every ${item.intervalDays} days` };
+
+  const setTime = (index: number, time: string) => {
+    onChange({ times: item.times.map((t, idx) => idx === index ? time : t) });
+  };
+
+  const addTime = () => {
+    const last = item.times[item.times.length - 1];
+    onChange({ times: [...item.times, last || "08:00"] });
+  };
+
+  return (
+    <div className="border rounded-lg p-4 space-y-4">
+      <div className="flex flex-wrap items-baseline gap-2">
+        <h4 className="font-semibold text-gray-900">{item.name}</h4>
+        {item.dose && <span className="text-sm text-gray-600">{item.dose}</span>}
+      </div>
+      {item.instructions && <p className="text-sm text-gray-600 -mt-2">{item.instructions}</p>}
+
+      <div className="flex items-center gap-2">
+        <Switch
+          id={`as-needed-${item._id}`}
+          checked={item.asNeeded}
+          onCheckedChange={(checked) => onChange({
+            asNeeded: checked,
+            times: checked ? [] : ["08:00"]
+          })}
+        />
+        <Label htmlFor={`as-needed-${item._id}`}>Only when needed</Label>
+      </div>
+
+      {!item.asNeeded && (
+        <div className="space-y-2">
+          <Label>Dose times</Label>
+          <div className="flex flex-wrap items-center gap-2">
+            {item.times.map((time, idx) => (
+              <div key={idx} className="flex items-center">
+                <Input
+                  type="time"
+                  value={time}
+                  onChange={(e) => setTime(idx, e.target.value)}
+                  className="w-32"
+                  required
+                />
+                {item.times.length > 1 && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => onChange({ times: item.times.filter((_, i) => i !== idx) })}
+                    aria-label={`Remove ${time}`}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+            {item.times.length < MAX_DOSES_PER_DAY && (
+              <Button type="button" variant="outline" size="sm" onClick={addTime}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add time
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        {!item.asNeeded && (
+          <div className="space-y-2">
+            <Label>How often</Label>
+            <Select
+              value={String(item.intervalDays)}
+              onValueChange={(value) => onChange({ intervalDays: Number(value) })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(intervals).map(([days, label]) => (
+                  <SelectItem key={days} value={days}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        <div className="space-y-2">
+          <Label>Food</Label>
+          <Select
+            value={item.food}
+            onValueChange={(value) => onChange({ food: value as FoodInstruction })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(FOOD_INSTRUCTION_LABELS) as FoodInstruction[]).map(food => (
+                <SelectItem key={food} value={food}>{FOOD_INSTRUCTION_LABELS[food]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`start-${item._id}`}>Start date</Label>
+          <Input
+            id={`start-${item._id}`}
+            type="date"
+            value={item.startDate}
+            onChange={(e) => onChange({ startDate: e.target.value })}
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`end-${item._id}`}>End date</Label>
+          <Input
+            id={`end-${item._id}`}
+            type="date"
+            value={item.endDate || ""}
+            min={item.startDate}
+            onChange={(e) => onChange({ endDate: e.target.value || null })}
+          />
+          {!item.endDate && <p className="text-xs text-gray-500">Ongoing</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// A medication schedule with editable doses, reminder toggle and delete
+export const ScheduleCard = ({ schedule, onUpdate, onDelete }: ScheduleCardProps) => {
+  const [items, setItems] = useState<ScheduleItem[]>(schedule.items);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setItems(schedule.items);
+  }, [schedule.items]);
+
+  const isDirty = JSON.stringify(items) !== JSON.stringify(schedule.items);
+
+  const save = async (changes: MedicationScheduleUpdate) => {
+    try {
+      setIsSaving(true);
+      onUpdate(await updateMedicationSchedule(schedule._id, changes));
+      return true;
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: (err as Error).message || "Failed to save the medication schedule",
+        variant: "destructive"
+      });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveItems = async () => {
+    if (await save({ items })) {
+      toast({ title: "Schedule saved" });
+    }
+  };
+
+  const handleRemindersChange = async (enabled: boolean) => {
+    if (enabled) {
+      const permission = await requestDoseNotificationPermission();
+      if (permission === "denied") {
+        toast({
+          title: "Notifications are blocked",
+          description: "Allow notifications for this site in your browser settings to get dose reminders."
+        });
+      }
+    }
+    await save({ remindersEnabled: enabled });
+  };
+
+  const handleDelete = async () => {
+    try {
+      setIsSaving(true);
+      await deleteMedicationSchedule(schedule._id);
+      setIsDeleteOpen(false);
+      onDelete(schedule._id);
+      toast({ title: "Schedule deleted" });
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: (err as Error).message || "Failed to delete the medication schedule",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-4 space-y-0">
+        <CardTitle className="text-lg">{getTitle(schedule)}</CardTitle>
+        <div className="flex items-center gap-4">
+          <Link
+            to={`/adherence?prescription=${schedule.prescriptionId}`}
+            className="inline-flex items-center text-sm font-medium text-medical-primary hover:underline"
+          >
+            <BarChart3 className="h-4 w-4 mr-1" />
+            Adherence
+          </Link>
+          <div className="flex items-center gap-2">
+            <Switch
+              id={`reminders-${schedule._id}`}
+              checked={schedule.remindersEnabled}
+              onCheckedChange={handleRemindersChange}
+              disabled={isSaving}
+            />
+            <Label htmlFor={`reminders-${schedule._id}`} className="flex items-center">
+              <Bell className="h-4 w-4 mr-1" />
+              Reminders
+            </Label>
+          </div>
+          <Button variant="ghost" size="icon" onClick={() => setIsDeleteOpen(true)} aria-label="Delete schedule">
+            <Trash2 className="h-4 w-4 text-red-600" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {items.map((item, idx) => (
+          <ScheduleItemEditor
+            key={item._id || idx}
+            item={item}
+            onChange={(changes) => setItems(prev => prev.map((it, i) => i === idx ? { ...it, ...changes } : it))}
+          />
+        ))}
+
+        {isDirty && (
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setItems(schedule.items)} disabled={isSaving}>
+              Discard changes
+            </Button>
+            <Button onClick={handleSaveItems} disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save schedule
+            </Button>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete this schedule?</DialogTitle>
+            <DialogDescription>
+              "{getTitle(schedule)}" and its reminders will be removed. The prescription analysis is kept.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDeleteOpen(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
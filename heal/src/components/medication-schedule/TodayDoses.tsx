@@ -0,0 +1,71 @@
+import { format } from "date-fns";
+import { CheckCircle, Clock, Pill } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { FOOD_INSTRUCTION_LABELS } from "@/config/medicationScheduleConfig";
+import { MedicationSchedule, getDosesForDay } from "@/services/medicationScheduleService";
+
+interface TodayDosesProps {
+  schedules: MedicationSchedule[];
+  now: Date;
+}
+
+// Today's doses across every schedule, plus the medications taken only when needed
+export const TodayDoses = ({ schedules, now }: TodayDosesProps) => {
+  const doses = getDosesForDay(schedules, now);
+  const today = format(now, "yyyy-MM-dd");
+  const asNeeded = schedules.flatMap(schedule => schedule.items.filter(item =>
+    item.asNeeded && today >= item.startDate && (!item.endDate || today <= item.endDate)
+  ));
+  const hasScheduledItems = schedules.some(schedule => schedule.items.some(item => !item.asNeeded));
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center text-xl">
+          <Clock className="h-5 w-5 mr-2 text-medical-primary" />
+          Today, {format(now, "EEEE, MMM d")}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {doses.length === 0 ? (
+          <p className="text-sm text-gray-600">
+            {hasScheduledItems ? "No doses scheduled for today." : "None of your medications have set dose times."}
+          </p>
+        ) : (
+          <ul className="divide-y">
+            {doses.map(dose => {
+              const isPast = dose.at <= now;
+              return (
+                <li
+                  key={`${dose.scheduleId}-${dose.item._id}-${dose.time}`}
+                  className={`flex flex-wrap items-center gap-3 py-3 ${isPast ? "text-gray-400" : ""}`}
+                >
+                  <span className="w-14 font-semibold tabular-nums">{dose.time}</span>
+                  <span className="flex items-center font-medium">
+                    {isPast
+                      ? <CheckCircle className="h-4 w-4 mr-1.5" />
+                      : <Pill className="h-4 w-4 mr-1.5 text-medical-primary" />}
+                    {dose.item.name}
+                  </span>
+                  {dose.item.dose && <span className="text-sm">{dose.item.dose}</span>}
+                  {dose.item.food !== "any" && (
+                    <Badge variant="secondary" className="font-normal">
+                      {FOOD_INSTRUCTION_LABELS[dose.item.food]}
+                    </Badge>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {asNeeded.length > 0 && (
+          <p className="text-sm text-gray-600 mt-4">
+            <strong>When needed:</strong> {asNeeded.map(item => item.dose ? `${item.name} (${item.dose})` : item.name).join(", ")}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,140 @@
+import { useCallback, useEffect, useState } from "react";
+import { formatDistanceToNow, parseISO } from "date-fns";
+import { Bell, CalendarCheck, CalendarClock, CalendarX, Clock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useAuth } from "@/contexts/AuthContext";
+import { useNavigation } from "@/hooks/useNavigation";
+import {
+  AppNotification,
+  NotificationType,
+  getNotifications,
+  markAllNotificationsRead,
+  markNotificationRead
+} from "@/services/notificationService";
+import { MAX_UNREAD_BADGE_COUNT, NOTIFICATION_POLL_INTERVAL_MS } from "@/config/notificationConfig";
+
+const NOTIFICATION_ICONS: Record<NotificationType, typeof Bell> = {
+  appointment_reminder: Clock,
+  appointment_confirmed: CalendarCheck,
+  appointment_cancelled: CalendarX,
+  appointment_rescheduled: CalendarClock
+};
+
+// Bell with the unread count, opening the list of recent notifications
+export function NotificationBell() {
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isOpen, setIsOpen] = useState(false);
+  const { isDoctor } = useAuth();
+  const { navigateWithLoading } = useNavigation();
+
+  const loadNotifications = useCallback(async () => {
+    try {
+      const result = await getNotifications();
+      setNotifications(result.notifications);
+      setUnreadCount(result.unreadCount);
+    } catch (error) {
+      console.error("Error fetching notifications:", (error as Error).message);
+    }
+  }, []);
+
+  // Check for new notifications (and due reminders) periodically
+  useEffect(() => {
+    loadNotifications();
+    const interval = setInterval(loadNotifications, NOTIFICATION_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadNotifications]);
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) {
+      loadNotifications();
+    }
+  };
+
+  const handleSelect = async (notification: AppNotification) => {
+    setIsOpen(false);
+
+    if (!notification.readAt) {
+      const readAt = new Date().toISOString();
+      setNotifications(prev => prev.map(n => n._id === notification._id ? { ...n, readAt } : n));
+      setUnreadCount(prev => Math.max(prev - 1, 0));
+      markNotificationRead(notification._id).catch(error => {
+        console.error("Error marking notification as read:", (error as Error).message);
+      });
+    }
+
+    if (notification.appointmentId) {
+      navigateWithLoading(isDoctor ? "/doctor-portal" : "/appointments");
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await markAllNotificationsRead();
+      const readAt = new Date().toISOString();
+      setNotifications(prev => prev.map(n => n.readAt ? n : { ...n, readAt }));
+      setUnreadCount(0);
+    } catch (error) {
+      console.error("Error marking notifications as read:", (error as Error).message);
+    }
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Notifications">
+          <Bell className="h-5 w-5 text-gray-600" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-red-600 text-white text-[10px] font-semibold flex items-center justify-center">
+              {unreadCount > MAX_UNREAD_BADGE_COUNT ? `${MAX_UNREAD_BADGE_COUNT}+` : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <h4 className="text-sm font-semibold">Notifications</h4>
+          {unreadCount > 0 && (
+            <button
+              onClick={handleMarkAllRead}
+              className="text-xs text-medical-primary hover:underline"
+            >
+              Mark all as read
+            </button>
+          )}
+        </div>
+        {notifications.length === 0 ? (
+          <p className="px-4 py-8 text-sm text-gray-500 text-center">You have no notifications yet.</p>
+        ) : (
+          <ul className="divide-y max-h-96 overflow-y-auto">
+            {notifications.map(notification => {
+              const Icon = NOTIFICATION_ICONS[notification.type] || Bell;
+              return (
+                <li key={notification._id}>
+                  <button
+                    onClick={() => handleSelect(notification)}
+                    className={`w-full text-left px-4 py-3 flex gap-3 hover:bg-gray-50 ${notification.readAt ? "" : "bg-blue-50/60"}`}
+                  >
+                    <Icon className="h-4 w-4 mt-0.5 shrink-0 text-medical-primary" />
+                    <div className="min-w-0 flex-1">
+                      <p className={`text-sm ${notification.readAt ? "text-gray-700" : "font-semibold text-gray-900"}`}>
+                        {notification.title}
+                      </p>
+                      <p className="text-xs text-gray-600 mt-0.5">{notification.message}</p>
+                      <p className="text-[11px] text-gray-400 mt-1">
+                        {formatDistanceToNow(parseISO(notification.createdAt), { addSuffix: true })}
+                      </p>
+                    </div>
+                    {!notification.readAt && <span className="mt-1.5 h-2 w-2 rounded-full bg-blue-600 shrink-0" />}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,47 @@
+import { AlertTriangle, CheckCircle, Info } from "lucide-react";
+import { AnalysisQuality, isAnalysisQuality } from "@/services/prescriptionService";
+
+interface AnalysisQualityNoticeProps {
+  quality?: AnalysisQuality;
+}
+
+const NOTICES: Record<AnalysisQuality, { icon: typeof Info; title: string; text: string; className: string }> = {
+  ai_validated: {
+    icon: CheckCircle,
+    title: "AI analysis of your prescription",
+    text: "The AI's answer passed all of our format checks.",
+    className: "border-green-200 bg-green-50 text-green-900"
+  },
+  ai_repaired: {
+    icon: Info,
+    title: "AI analysis of your prescription",
+    text: "The AI's first answer was incomplete and was corrected automatically. Double-check the details against your prescription.",
+    className: "border-blue-200 bg-blue-50 text-blue-900"
+  },
+  fallback_generic: {
+    icon: AlertTriangle,
+    title: "General advice only",
+    text: "We couldn't analyze this prescription, so the advice below is not specific to your medications. Ask your doctor or pharmacist about them.",
+    className: "border-amber-300 bg-amber-50 text-amber-900"
+  }
+};
+
+// Tells the patient whether the analysis came from the AI or is generic advice
+export const AnalysisQualityNotice = ({ quality }: AnalysisQualityNoticeProps) => {
+  // Older analyses have no quality
+  if (!isAnalysisQuality(quality)) {
+    return null;
+  }
+
+  const { icon: Icon, title, text, className } = NOTICES[quality];
+
+  return (
+    <div className={`mb-8 flex items-start border rounded-lg p-4 ${className}`}>
+      <Icon className="h-5 w-5 mr-2 mt-0.5 flex-shrink-0" />
+      <div>
+        <p className="text-sm font-medium">{title}</p>
+        <p className="text-sm">{text}</p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,97 @@
+import { format, parseISO } from "date-fns";
+import { AlertOctagon, AlertTriangle, CheckCircle, Info, Zap } from "lucide-react";
+import { InteractionCheck, InteractionSeverity } from "@/services/prescriptionService";
+
+interface DrugInteractionsProps {
+  check: InteractionCheck;
+}
+
+const SEVERITY_STYLES: Record<InteractionSeverity, { label: string; className: string; badgeClassName: string; icon: typeof Info }> = {
+  contraindicated: {
+    label: "Contraindicated",
+    className: "border-red-300 bg-red-50",
+    badgeClassName: "bg-red-600 text-white",
+    icon: AlertOctagon
+  },
+  major: {
+    label: "Major",
+    className: "border-orange-300 bg-orange-50",
+    badgeClassName: "bg-orange-500 text-white",
+    icon: AlertTriangle
+  },
+  moderate: {
+    label: "Moderate",
+    className: "border-yellow-300 bg-yellow-50",
+    badgeClassName: "bg-yellow-400 text-yellow-950",
+    icon: AlertTriangle
+  },
+  minor: {
+    label: "Minor",
+    className: "border-blue-200 bg-blue-50",
+    badgeClassName: "bg-blue-500 text-white",
+    icon: Info
+  }
+};
+
+// Interactions found by the drug interaction checker, most severe first
+export const DrugInteractions = ({ check }: DrugInteractionsProps) => {
+  return (
+    <div className="mb-8">
+      <h3 className="text-xl font-semibold mb-4 flex items-center">
+        <span className="h-6 w-6 rounded-full bg-orange-100 text-orange-600 flex items-center justify-center mr-2">
+          <Zap size={14} />
+        </span>
+        Drug Interaction Check
+      </h3>
+
+      {check.interactions.length === 0 ? (
+        <div className="flex items-start border border-green-200 bg-green-50 rounded-lg p-4">
+          <CheckCircle className="h-5 w-5 text-green-600 mr-2 mt-0.5 flex-shrink-0" />
+          <p className="text-sm text-green-800">
+            {check.checkedMedications.length > 0
+              ? "No known interactions between these medications or with your other active prescriptions."
+              : "None of the medications could be matched to our interaction database."}
+          </p>
+        </div>
+      ) : (
+        <ul className="space-y-3">
+          {check.interactions.map((interaction, idx) => {
+            const style = SEVERITY_STYLES[interaction.severity] || SEVERITY_STYLES.moderate;
+            const Icon = style.icon;
+            return (
+              <li key={idx} className={`border rounded-lg p-4 ${style.className}`}>
+                <div className="flex flex-wrap items-center gap-2 mb-2">
+                  <span className={`text-xs font-semibold px-2 py-0.5 rounded ${style.badgeClassName}`}>
+                    {style.label}
+                  </span>
+                  <span className="font-medium text-gray-900 flex items-center">
+                    <Icon size={14} className="mr-1.5" />
+                    {interaction.medications[0]} + {interaction.medications[1]}
+                  </span>
+                </div>
+                {interaction.earlierPrescription && (
+                  <p className="text-xs text-gray-600 mb-2">
+                    {interaction.medications[1]} is from your prescription
+                    {interaction.earlierPrescription.title ? ` "${interaction.earlierPrescription.title}"` : ""} of{" "}
+                    {format(parseISO(interaction.earlierPrescription.prescribedAt), "MMM d, yyyy")}.
+                  </p>
+                )}
+                <p className="text-sm text-gray-800">{interaction.effect}</p>
+                <p className="text-sm text-gray-700 mt-1">
+                  <strong>What to do:</strong> {interaction.advice}
+                </p>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {check.unrecognizedMedications.length > 0 && (
+        <p className="text-xs text-gray-500 mt-3">
+          Not checked (not in our database): {check.unrecognizedMedications.join(", ")}. Ask your pharmacist about these.
+        </p>
+      )}
+      <p className="text-xs text-gray-400 mt-1">Interaction data version {check.datasetVersion}</p>
+    </div>
+  );
+};
@@ -0,0 +1,106 @@
+import { useEffect, useState } from "react";
+import { CheckCircle, Loader } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { EnhancedImage, enhanceImage } from "@/utils/imageQuality";
+import { PrescriptionPage } from "./PrescriptionPageList";
+
+interface ImageEnhanceDialogProps {
+  // Page to enhance, null when the dialog is closed
+  page: PrescriptionPage | null;
+  onApply: (page: PrescriptionPage, enhanced: EnhancedImage) => void;
+  onClose: () => void;
+}
+
+// Enhances a page and shows it next to the original, so the user decides which one is read
+export const ImageEnhanceDialog = ({ page, onApply, onClose }: ImageEnhanceDialogProps) => {
+  const [enhanced, setEnhanced] = useState<EnhancedImage | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    setEnhanced(null);
+    setError("");
+    if (!page) return;
+
+    // Ignore the result when another page is opened, or the dialog closed, in the meantime
+    let cancelled = false;
+    enhanceImage(page.image)
+      .then(result => !cancelled && setEnhanced(result))
+      .catch(err => {
+        console.error("Error enhancing image:", err);
+        if (!cancelled) setError((err as Error).message || "The image could not be enhanced");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [page]);
+
+  return (
+    <Dialog open={Boolean(page)} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Enhance {page?.label}</DialogTitle>
+          <DialogDescription>
+            Compare the enhanced image with the original and choose which one to read.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <figure className="space-y-1">
+            <img src={page?.preview} alt="Original" className="h-72 w-full object-contain rounded border bg-gray-50" />
+            <figcaption className="text-xs text-center text-gray-600">Before</figcaption>
+          </figure>
+          <figure className="space-y-1">
+            {enhanced ? (
+              <img src={enhanced.preview} alt="Enhanced" className="h-72 w-full object-contain rounded border bg-gray-50" />
+            ) : (
+              <div className="h-72 flex items-center justify-center rounded border bg-gray-50 text-sm text-gray-600 text-center p-4">
+                {error || (
+                  <span className="flex items-center">
+                    <Loader className="h-4 w-4 mr-2 animate-spin" />
+                    Enhancing...
+                  </span>
+                )}
+              </div>
+            )}
+            <figcaption className="text-xs text-center text-gray-600">After</figcaption>
+          </figure>
+        </div>
+
+        {enhanced && (
+          <ul className="text-sm text-gray-700 space-y-1">
+            {enhanced.steps.length > 0 ? enhanced.steps.map(step => (
+              <li key={step} className="flex items-center">
+                <CheckCircle className="h-4 w-4 mr-2 text-green-600" />
+                {step}
+              </li>
+            )) : (
+              <li>The image already looks fine - there was nothing to improve.</li>
+            )}
+          </ul>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button type="button" variant="outline" onClick={onClose}>
+            Keep Original
+          </Button>
+          <Button
+            type="button"
+            onClick={() => page && enhanced && onApply(page, enhanced)}
+            disabled={!enhanced || enhanced.steps.length === 0}
+            className="bg-medical-primary hover:bg-medical-primary/90 text-white"
+          >
+            Use Enhanced
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
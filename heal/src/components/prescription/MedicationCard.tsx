@@ -0,0 +1,177 @@
+import { ReactNode } from "react";
+import { AlertCircle, AlertTriangle, ArrowRight, Pill, ShieldAlert } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { MedicationAnalysis, SourceField, SourceSpan } from "@/services/prescriptionService";
+import { describeIngredients } from "@/services/medicationService";
+
+interface MedicationCardProps {
+  medication: MedicationAnalysis;
+  // Called with the source of the detail hovered or tapped, and null when it is left
+  onHighlight?: (source: SourceSpan | null) => void;
+}
+
+const PRECAUTION_LABELS: Record<keyof MedicationAnalysis['precautions'], string> = {
+  dietary_restrictions: "Dietary Restrictions",
+  activity_limitations: "Activity Limitations",
+  side_effects: "Side Effects to Monitor"
+};
+
+const WARNING_LABELS: Record<keyof MedicationAnalysis['warnings'], string> = {
+  drug_interactions: "Drug Interactions",
+  contraindications: "Contraindications",
+  overdose_symptoms: "Overdose Symptoms"
+};
+
+// Labelled lists of a medication's precautions or warnings, skipping empty ones
+const DetailLists = <T extends string>({ items, labels }: {
+  items: Partial<Record<T, string[]>> | undefined;
+  labels: Record<T, string>;
+}) => {
+  const sections = (Object.keys(labels) as T[]).filter(key => items?.[key]?.length > 0);
+
+  if (sections.length === 0) {
+    return <p className="text-sm text-gray-500">None identified for this medication.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {sections.map(key => (
+        <div key={key}>
+          <h5 className="text-sm font-medium text-gray-800 mb-1">{labels[key]}</h5>
+          <ul className="list-disc pl-5 space-y-0.5">
+            {items[key].map((item, idx) => (
+              <li key={idx} className="text-sm text-gray-700">{item}</li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const VerifyFlag = () => (
+  <span className="inline-flex items-center text-xs font-normal text-amber-700">
+    <AlertTriangle size={12} className="mr-0.5" />
+    Please verify
+  </span>
+);
+
+// A medication detail that highlights the text it was read from when hovered, focused or tapped
+const SourceDetail = ({ source, onHighlight, className, children }: {
+  source?: SourceSpan;
+  onHighlight?: (source: SourceSpan | null) => void;
+  className: string;
+  children: ReactNode;
+}) => {
+  if (!source || !onHighlight) {
+    return <div className={className}>{children}</div>;
+  }
+
+  return (
+    <div
+      role="button"
+      tabIndex={0}
+      className={`${className} cursor-pointer hover:ring-2 hover:ring-yellow-300 focus:outline-none focus:ring-2 focus:ring-yellow-400`}
+      onMouseEnter={() => onHighlight(source)}
+      onMouseLeave={() => onHighlight(null)}
+      onFocus={() => onHighlight(source)}
+      onBlur={() => onHighlight(null)}
+      onClick={() => onHighlight(source)}
+    >
+      {children}
+      {source.verify && <VerifyFlag />}
+    </div>
+  );
+};
+
+// Generic ingredients of a brand, e.g. "Crocin → Paracetamol 500 mg", when they tell the patient something new
+const GenericIngredients = ({ medication }: { medication: MedicationAnalysis }) => {
+  const { generic } = medication;
+  const ingredients = generic
+    ? describeIngredients(generic.ingredients.map(({ name, strength }) => ({ name: name.charAt(0).toUpperCase() + name.slice(1), strength })))
+    : "";
+  if (!ingredients || (!generic.brand && ingredients.toLowerCase() === medication.name.trim().toLowerCase())) {
+    return null;
+  }
+
+  return (
+    <p className="flex flex-wrap items-center gap-1 text-sm text-gray-700 -mt-2 mb-4">
+      <span>{medication.name}</span>
+      <ArrowRight size={14} className="text-gray-400" />
+      <span className="font-medium">{ingredients}</span>
+      {generic.fuzzy && <VerifyFlag />}
+    </p>
+  );
+};
+
+// Dosing, precautions and warnings of one medication on the prescription
+export const MedicationCard = ({ medication, onHighlight }: MedicationCardProps) => {
+  const sources = medication.sources || {};
+  const dosing: { label: string; field: SourceField; value: string }[] = [
+    { label: "Dose", field: "dose", value: medication.dose },
+    { label: "Frequency", field: "frequency", value: medication.frequency },
+    { label: "Timing", field: "timing", value: medication.timing },
+    { label: "Duration", field: "duration_days", value: medication.duration_days ? `${medication.duration_days} days` : "" }
+  ];
+
+  return (
+    <div className="border rounded-lg p-4">
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <span className="h-8 w-8 rounded-full bg-blue-100 text-blue-600 flex items-center justify-center">
+          <Pill size={16} />
+        </span>
+        <SourceDetail
+          source={sources.name}
+          onHighlight={onHighlight}
+          className="flex flex-wrap items-center gap-2 rounded px-1 mr-1"
+        >
+          <h4 className="text-lg font-semibold text-gray-900">{medication.name}</h4>
+        </SourceDetail>
+        {medication.strength && (
+          <SourceDetail
+            source={sources.strength}
+            onHighlight={onHighlight}
+            className="flex flex-wrap items-center gap-2 rounded"
+          >
+            <Badge variant="secondary" className="font-normal">{medication.strength}</Badge>
+          </SourceDetail>
+        )}
+        {[medication.dosage_form, medication.route].filter(Boolean).map(detail => (
+          <Badge key={detail} variant="secondary" className="font-normal">{detail}</Badge>
+        ))}
+      </div>
+      <GenericIngredients medication={medication} />
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+        {dosing.map(({ label, field, value }) => (
+          <SourceDetail
+            key={label}
+            source={value ? sources[field] : undefined}
+            onHighlight={onHighlight}
+            className="bg-gray-50 rounded-md p-3"
+          >
+            <p className="text-xs text-gray-500">{label}</p>
+            <p className="text-sm text-gray-800">{value || "Not specified"}</p>
+          </SourceDetail>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <h4 className="font-medium text-gray-800 mb-2 flex items-center">
+            <AlertCircle size={14} className="text-yellow-600 mr-1.5" />
+            Precautions
+          </h4>
+          <DetailLists items={medication.precautions} labels={PRECAUTION_LABELS} />
+        </div>
+        <div>
+          <h4 className="font-medium text-gray-800 mb-2 flex items-center">
+            <ShieldAlert size={14} className="text-red-600 mr-1.5" />
+            Warnings
+          </h4>
+          <DetailLists items={medication.warnings} labels={WARNING_LABELS} />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,150 @@
+import { useEffect, useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { EMPTY_MEDICATION_ROW, MedicationRow } from "@/services/prescriptionService";
+import { MedicationSuggestion, describeIngredients, searchMedicationNames } from "@/services/medicationService";
+
+interface MedicationReviewTableProps {
+  rows: MedicationRow[];
+  onChange: (rows: MedicationRow[]) => void;
+}
+
+const COLUMNS: { field: keyof MedicationRow; label: string; placeholder: string; className: string }[] = [
+  { field: "name", label: "Medication", placeholder: "e.g. Amoxicillin", className: "min-w-[160px]" },
+  { field: "strength", label: "Strength", placeholder: "e.g. 500 mg", className: "min-w-[100px]" },
+  { field: "dose", label: "Dose", placeholder: "e.g. 1 tablet", className: "min-w-[100px]" },
+  { field: "frequency", label: "Frequency", placeholder: "e.g. twice daily", className: "min-w-[140px]" },
+  { field: "duration", label: "Duration", placeholder: "e.g. 5 days", className: "min-w-[100px]" },
+  { field: "instructions", label: "Instructions", placeholder: "e.g. after meals", className: "min-w-[140px]" }
+];
+
+// Suggestions offered while typing a frequency
+const FREQUENCY_SUGGESTIONS = [
+  "once daily", "twice daily", "three times daily", "four times daily",
+  "every morning", "every night", "every 8 hours", "as needed"
+];
+
+// Names are only looked up once the user pauses typing
+const SEARCH_DELAY_MS = 250;
+const MIN_SEARCH_LENGTH = 2;
+
+// Editable list of the medications found on a prescription, one row per medication
+export const MedicationReviewTable = ({ rows, onChange }: MedicationReviewTableProps) => {
+  // Medication name being typed, and the brands and generics suggested for it
+  const [nameQuery, setNameQuery] = useState("");
+  const [suggestions, setSuggestions] = useState<MedicationSuggestion[]>([]);
+
+  useEffect(() => {
+    if (nameQuery.trim().length < MIN_SEARCH_LENGTH) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      searchMedicationNames(nameQuery.trim())
+        .then(results => !cancelled && setSuggestions(results))
+        // Names can still be typed without suggestions
+        .catch(() => !cancelled && setSuggestions([]));
+    }, SEARCH_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [nameQuery]);
+
+  const updateRow = (index: number, field: keyof MedicationRow, value: string) => {
+    onChange(rows.map((row, idx) => {
+      if (idx !== index) return row;
+      // Picking a brand fills in its strength, unless one was already entered
+      const suggestion = field === "name" && suggestions.find(item => item.name === value);
+      const strength = suggestion && !row.strength
+        ? suggestion.ingredients.map(ingredient => ingredient.strength).filter(Boolean).join(" + ")
+        : row.strength;
+      return { ...row, [field]: value, strength: field === "strength" ? value : strength };
+    }));
+    if (field === "name") {
+      setNameQuery(value);
+    }
+  };
+
+  const removeRow = (index: number) => {
+    const remaining = rows.filter((_, idx) => idx !== index);
+    // Keep one row to type into
+    onChange(remaining.length > 0 ? remaining : [{ ...EMPTY_MEDICATION_ROW }]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {COLUMNS.map(column => (
+                <TableHead key={column.field} className={column.className}>
+                  {column.label}{column.field === "name" && <span className="text-red-500"> *</span>}
+                </TableHead>
+              ))}
+              <TableHead className="w-12"><span className="sr-only">Remove</span></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row, index) => (
+              <TableRow key={index}>
+                {COLUMNS.map(column => (
+                  <TableCell key={column.field} className="p-2">
+                    <Input
+                      value={row[column.field]}
+                      onChange={(e) => updateRow(index, column.field, e.target.value)}
+                      placeholder={column.placeholder}
+                      aria-label={`${column.label} of medication ${index + 1}`}
+                      list={column.field === "frequency"
+                        ? "medication-frequency-suggestions"
+                        : column.field === "name" ? "medication-name-suggestions" : undefined}
+                      className="h-9"
+                    />
+                  </TableCell>
+                ))}
+                <TableCell className="p-2">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => removeRow(index)}
+                    aria-label={`Remove medication ${index + 1}`}
+                    className="text-gray-500 hover:text-red-600"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <datalist id="medication-name-suggestions">
+        {suggestions.map(suggestion => (
+          <option key={suggestion.name} value={suggestion.name}>
+            {suggestion.type === "brand" ? describeIngredients(suggestion.ingredients) : "generic"}
+          </option>
+        ))}
+      </datalist>
+      <datalist id="medication-frequency-suggestions">
+        {FREQUENCY_SUGGESTIONS.map(frequency => <option key={frequency} value={frequency} />)}
+      </datalist>
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...rows, { ...EMPTY_MEDICATION_ROW }])}
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        Add medication
+      </Button>
+    </div>
+  );
+};
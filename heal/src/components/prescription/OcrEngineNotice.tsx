@@ -0,0 +1,42 @@
+import { ScanText, Smartphone } from "lucide-react";
+import { OcrEngine } from "@/services/offlineOcrService";
+
+interface OcrEngineNoticeProps {
+  // Engine that read each page, null for pages that could not be read
+  engines: (OcrEngine | null)[];
+}
+
+const ENGINE_NAMES: Record<OcrEngine, string> = {
+  vision: "the AI vision model",
+  device: "offline OCR on this device"
+};
+
+// Says which engine read the text being reviewed, as on-device OCR makes more mistakes
+export const OcrEngineNotice = ({ engines }: OcrEngineNoticeProps) => {
+  const used = [...new Set(engines.filter(Boolean))];
+  if (used.length === 0) {
+    return null;
+  }
+
+  const pagesOnDevice = engines
+    .map((engine, idx) => (engine === "device" ? idx + 1 : null))
+    .filter(Boolean);
+
+  let text = `Text read by ${ENGINE_NAMES[used[0]]}.`;
+  if (used.length > 1) {
+    text = `Text read by ${ENGINE_NAMES.vision}, except page ${pagesOnDevice.join(", ")} read by ${ENGINE_NAMES.device}.`;
+  }
+
+  const onDevice = used.includes("device");
+  const Icon = onDevice ? Smartphone : ScanText;
+
+  return (
+    <div className={`flex items-start text-xs rounded-md border p-2.5 ${onDevice ? "border-amber-200 bg-amber-50 text-amber-900" : "border-blue-100 bg-blue-50 text-blue-900"}`}>
+      <Icon className="h-4 w-4 mr-2 flex-shrink-0" />
+      <p>
+        {text}
+        {onDevice && " It is less accurate, so check names and doses carefully against your prescription."}
+      </p>
+    </div>
+  );
+};
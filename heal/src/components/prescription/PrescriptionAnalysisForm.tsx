@@ -9,19 +9,58 @@ import {
   Pill, 
   FileText, 
   Camera,
-  Sparkles
+  ScanText,
+  Smartphone,
+  Sparkles,
+  Table2
 } from "lucide-react";
 import { motion } from "framer-motion";
 import { useToast } from "@/components/ui/use-toast";
-import { extractTextFromImage, preprocessOcrText } from '@/services/prescriptionService';
+import { Progress } from "@/components/ui/progress";
+import {
+  EMPTY_MEDICATION_ROW,
+  MedicationRow,
+  PrescriptionSource,
+  combineSources,
+  describeImage,
+  describeMedicationRows,
+  extractTextFromImage,
+  getPdfPages,
+  mergePageTexts,
+  preprocessOcrText,
+  toMedicationRows
+} from '@/services/prescriptionService';
 import { AuthModal } from "@/components/auth/AuthModal";
+import { MedicationReviewTable } from "./MedicationReviewTable";
+import { OcrEngine, recognizeOnDevice, releaseOnDeviceOcr } from '@/services/offlineOcrService';
+import { PrescriptionPage, PrescriptionPageList } from "./PrescriptionPageList";
+import { OcrEngineNotice } from "./OcrEngineNotice";
+import { ImageEnhanceDialog } from "./ImageEnhanceDialog";
+import { RetakePhotoDialog } from "./RetakePhotoDialog";
+import { EnhancedImage, checkImageQuality } from "@/utils/imageQuality";
+import { ApiError } from "@/services/apiClient";
 
 interface PrescriptionAnalysisFormProps {
-  onSubmit: (query: string) => Promise<void>;
+  // source describes the files the text was extracted from, if any, and pagePreviews are the
+  // data URLs of their pages in reading order.
+  // medications are the rows the user reviewed, or null when only the text is to be analyzed.
+  onSubmit: (
+    query: string,
+    source: PrescriptionSource | null,
+    pagePreviews: string[],
+    medications: MedicationRow[] | null
+  ) => Promise<void>;
   isLoading: boolean;
   initialText?: string;
 }
 
+const IMAGE_TYPES = ['image/jpeg', 'image/png'];
+const MAX_IMAGE_SIZE = 10 * 1024 * 1024;
+const MAX_PDF_SIZE = 20 * 1024 * 1024;
+
+// Most pages read at once, from photos and PDFs together
+const MAX_PAGES = 20;
+
 export const PrescriptionAnalysisForm = ({ 
   onSubmit, 
   isLoading, 
@@ -29,10 +68,28 @@ export const PrescriptionAnalysisForm = ({
 }: PrescriptionAnalysisFormProps) => {
   const [query, setQuery] = useState(initialText);
   const [selectedTab, setSelectedTab] = useState<"text" | "upload" | "camera">("text");
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
   const [showAuthModal, setShowAuthModal] = useState(false);
-  const [processingImage, setProcessingImage] = useState(false);
+  // Pages to read, in reading order
+  const [pages, setPages] = useState<PrescriptionPage[]>([]);
+  // Sources of uploaded PDFs, by the key of the file their pages come from
+  const [fileSources, setFileSources] = useState<Record<string, PrescriptionSource>>({});
+  const [preparingPages, setPreparingPages] = useState(false);
+  const [readingPages, setReadingPages] = useState(false);
+  // Number of pages read so far
+  const [readProgress, setReadProgress] = useState(0);
+  // Progress of the page being read on this device, from 0 to 1
+  const [pageProgress, setPageProgress] = useState(0);
+  // Engine that read each page of the text, null for pages that could not be read
+  const [textEngines, setTextEngines] = useState<(OcrEngine | null)[]>([]);
+  // The files the text was read from, and the previews of their pages
+  const [sourceImage, setSourceImage] = useState<PrescriptionSource | null>(null);
+  const [sourcePreviews, setSourcePreviews] = useState<string[]>([]);
+  // Medications are reviewed in a table; the raw text mode is for users who prefer to type
+  const [inputMode, setInputMode] = useState<"table" | "text">("table");
+  const [rows, setRows] = useState<MedicationRow[]>([{ ...EMPTY_MEDICATION_ROW }]);
+  // Page shown in the enhance dialog, and the poor photo the user is asked to retake
+  const [enhancePage, setEnhancePage] = useState<PrescriptionPage | null>(null);
+  const [retakePage, setRetakePage] = useState<PrescriptionPage | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const cameraInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
@@ -44,11 +101,20 @@ export const PrescriptionAnalysisForm = ({
     }
   }, [initialText]);
   
+  const namedRows = rows.filter(row => row.name.trim());
+  const canSubmit = inputMode === "table" ? namedRows.length > 0 : Boolean(query.trim());
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!query.trim()) return;
+    if (!canSubmit) return;
     try {
-      await onSubmit(query);
+      if (inputMode === "table") {
+        // The extracted text is kept for the source highlights; rows typed in without an image become the text
+        const text = query.trim() && sourceImage ? query : describeMedicationRows(namedRows);
+        await onSubmit(text, sourceImage, sourceImage ? sourcePreviews : [], namedRows);
+      } else {
+        await onSubmit(query, sourceImage, sourceImage ? sourcePreviews : [], null);
+      }
     } catch (error: any) {
       if (error.message?.includes('Please log in')) {
         toast({
@@ -67,152 +133,338 @@ export const PrescriptionAnalysisForm = ({
     }
   };
 
-  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-    
-    // Check file size (max 10MB)
-    if (file.size > 10 * 1024 * 1024) {
-      toast({
-        title: "Error",
-        description: "File size should be less than 10MB",
-        variant: "destructive"
-      });
-      return;
-    }
-    
-    // Check file type
-    const validTypes = ['image/jpeg', 'image/png'];
-    if (!validTypes.includes(file.type)) {
-      toast({
-        title: "Error",
-        description: "Please upload a JPG or PNG file",
-        variant: "destructive"
-      });
-      return;
+  const updatePage = (id: string, changes: Partial<PrescriptionPage>) => {
+    setPages(current => current.map(page => (page.id === id ? { ...page, ...changes } : page)));
+  };
+
+  const handleAuthError = () => {
+    toast({
+      title: "Authentication Required",
+      description: "Please log in to analyze prescriptions",
+      variant: "default"
+    });
+    setShowAuthModal(true);
+  };
+
+  // Turn an uploaded photo or PDF into pages to read
+  const loadPages = async (file: File, fileKey: string): Promise<PrescriptionPage[]> => {
+    if (file.type === 'application/pdf') {
+      const formData = new FormData();
+      formData.append('file', file);
+      const { pages: pdfPages, source } = await getPdfPages(formData);
+      setFileSources(current => ({ ...current, [fileKey]: source }));
+
+      return Promise.all(pdfPages.map(async (pdfPage, idx) => ({
+        id: `${fileKey}-${idx}`,
+        image: await (await fetch(pdfPage.image)).blob(),
+        preview: pdfPage.image,
+        label: `${file.name}, page ${idx + 1}`,
+        fileName: `${file.name.replace(/\.pdf$/i, '')}-page-${idx + 1}.jpg`,
+        fileKey,
+        status: "pending" as const
+      })));
     }
-    
-    setSelectedFile(file);
-    
-    // Create preview for images
-    if (file.type.startsWith('image/')) {
+
+    const preview = await new Promise<string>((resolve, reject) => {
       const reader = new FileReader();
-      reader.onload = () => {
-        setImagePreview(reader.result as string);
-      };
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(new Error(`Could not open ${file.name}`));
       reader.readAsDataURL(file);
-    } else {
-      setImagePreview(null);
+    });
+    return [{ id: fileKey, image: file, preview, label: file.name, fileName: file.name, fileKey, status: "pending" }];
+  };
+
+  // Check whether new pages are sharp, bright and large enough, before they are read
+  const checkPagesQuality = async (newPages: PrescriptionPage[]): Promise<PrescriptionPage[]> => {
+    const checked: PrescriptionPage[] = [];
+    for (const page of newPages) {
+      try {
+        const quality = await checkImageQuality(page.image);
+        updatePage(page.id, { quality });
+        checked.push({ ...page, quality });
+      } catch (error) {
+        // The check only gives advice, so pages it cannot open are still read
+        console.error(`Error checking the quality of ${page.label}:`, error);
+      }
     }
-    
-    // Send image to server for AI processing with Llama Scout
-    toast({ 
-      title: "Processing Started", 
-      description: "Uploading and processing your prescription image...",
-      duration: 10000 // 10 seconds
+    return checked;
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    // Let the same file be picked again after it was removed
+    e.target.value = '';
+    if (files.length === 0) return;
+    const fromCamera = selectedTab === "camera";
+
+    const validFiles = files.filter(file => {
+      const isPdfFile = file.type === 'application/pdf';
+      if (!isPdfFile && !IMAGE_TYPES.includes(file.type)) {
+        toast({
+          title: "Error",
+          description: `${file.name}: please upload JPG or PNG photos or a PDF`,
+          variant: "destructive"
+        });
+        return false;
+      }
+      if (file.size > (isPdfFile ? MAX_PDF_SIZE : MAX_IMAGE_SIZE)) {
+        toast({
+          title: "Error",
+          description: `${file.name}: file size should be less than ${isPdfFile ? 20 : 10}MB`,
+          variant: "destructive"
+        });
+        return false;
+      }
+      return true;
     });
-    setProcessingImage(true);
-    
+
+    setPreparingPages(true);
     try {
-      console.log('Creating FormData with image file:', file.name, file.type, file.size);
-      
-      // Create FormData to send the image
-      const formData = new FormData();
-      formData.append('image', file);
-      
-      // Send the image to the server for processing with Llama Scout
+      let pageCount = pages.length;
+      const addedPages: PrescriptionPage[] = [];
+      for (const file of validFiles) {
+        const newPages = await loadPages(file, `${file.name}-${file.lastModified}-${Date.now()}`);
+        if (pageCount + newPages.length > MAX_PAGES) {
+          toast({
+            title: "Too many pages",
+            description: `${file.name} was not added: at most ${MAX_PAGES} pages can be read at once`,
+            variant: "destructive"
+          });
+          continue;
+        }
+        pageCount += newPages.length;
+        setPages(current => [...current, ...newPages]);
+        addedPages.push(...newPages);
+      }
+
+      const checkedPages = await checkPagesQuality(addedPages);
+      // A new photo is quicker to take than correcting what was read wrong from a poor one
+      const poorPhoto = checkedPages.find(page => page.quality?.level === "poor");
+      if (fromCamera && poorPhoto) {
+        setRetakePage(poorPhoto);
+      }
+    } catch (error) {
+      console.error("Error preparing pages:", error);
+      const message = (error as Error).message;
+      if (message?.includes('Please log in')) {
+        handleAuthError();
+      } else {
+        toast({
+          title: "Error",
+          description: message || "Failed to open the file",
+          variant: "destructive"
+        });
+      }
+    } finally {
+      setPreparingPages(false);
+    }
+  };
+
+  const handleMovePage = (index: number, offset: -1 | 1) => {
+    setPages(current => {
+      const reordered = [...current];
+      [reordered[index], reordered[index + offset]] = [reordered[index + offset], reordered[index]];
+      return reordered;
+    });
+  };
+
+  const handleRemovePage = (index: number) => {
+    setPages(current => current.filter((_, idx) => idx !== index));
+  };
+
+  const handleRetakePhoto = (page: PrescriptionPage) => {
+    setRetakePage(null);
+    setPages(current => current.filter(item => item.id !== page.id));
+    cameraInputRef.current?.click();
+  };
+
+  const handleEnhancePage = (page: PrescriptionPage) => {
+    setRetakePage(null);
+    setEnhancePage(page);
+  };
+
+  // Read the enhanced image instead of the original
+  const handleApplyEnhanced = async (page: PrescriptionPage, enhanced: EnhancedImage) => {
+    setEnhancePage(null);
+    updatePage(page.id, {
+      image: enhanced.image,
+      preview: enhanced.preview,
+      fileName: `${page.fileName.replace(/\.[^.]+$/, '')}.jpg`,
+      status: "pending",
+      enhanced: true
+    });
+    await checkPagesQuality([{ ...page, image: enhanced.image }]);
+  };
+
+  // Structure the text read from the pages into medication rows for the user to check
+  const reviewExtractedText = async (extractedText: string) => {
+    try {
+      // Use server-side AI to further preprocess and format the text
       toast({ 
-        title: "Image Uploaded", 
-        description: "Extracting text using AI vision model...",
-        duration: 15000 // 15 seconds
+        title: "Text Extracted", 
+        description: "Processing and analyzing medication details...",
+        duration: 5000 // 5 seconds
       });
       
-      const extractedText = await extractTextFromImage(formData);
+      const processedResult = await preprocessOcrText(extractedText);
+
+      // Let the user correct the medications found, or the raw text if none were
+      const extractedRows = toMedicationRows(processedResult.structuredText);
+      setQuery(extractedText);
+      setRows(extractedRows.length > 0 ? extractedRows : [{ ...EMPTY_MEDICATION_ROW }]);
+      setInputMode(extractedRows.length > 0 ? "table" : "text");
       
-      // If text was extracted successfully
-      if (extractedText) {
-      try {
-          // Use server-side AI to further preprocess and format the text
-          toast({ 
-            title: "Text Extracted", 
-            description: "Processing and analyzing medication details...",
-            duration: 5000 // 5 seconds
-          });
-          
-          const processedResult = await preprocessOcrText(extractedText);
-
-        // Set the structured text from AI or fall back to raw text
-        setQuery(typeof processedResult.structuredText === 'string' 
-          ? processedResult.structuredText 
-          : JSON.stringify(processedResult.structuredText, null, 2));
-        
-        setSelectedTab("text");
+      setSelectedTab("text");
+      toast({ 
+        title: processedResult.isAiProcessed ? "AI Extraction Completed" : "Text Extraction Completed", 
+        description: processedResult.medicationCount > 0 
+          ? `Found ${processedResult.medicationCount} medications` 
+          : "Text extracted - please review and edit for accuracy"
+      });
+    } catch (error) {
+      // Still set the raw text so user doesn't lose their work
+      setQuery(extractedText);
+      setInputMode("text");
+      setSelectedTab("text");
+      if ((error as Error).message?.includes('Please log in')) {
+        handleAuthError();
+      } else {
+        // For other errors, just use the raw text
         toast({ 
-            title: processedResult.isAiProcessed ? "AI Extraction Completed" : "Text Extraction Completed", 
-          description: processedResult.medicationCount > 0 
-            ? `Found ${processedResult.medicationCount} medications` 
-            : "Text extracted - please review and edit for accuracy"
+          title: "Text Extraction Completed", 
+          description: "Text extracted - AI processing unavailable" 
         });
-      } catch (error: any) {
-        if (error.message?.includes('Please log in')) {
-          toast({
-            title: "Authentication Required",
-            description: "Please log in to analyze prescriptions",
-            variant: "default"
+      }
+    }
+  };
+
+  // Read the pages one by one in their current order, then merge their text with page markers.
+  // Pages the vision model cannot read (offline, timeout, server error) are read on this device;
+  // onDevice reads every page on this device.
+  const handleReadPages = async (onDevice: boolean) => {
+    if (pages.length === 0) return;
+
+    setReadingPages(true);
+    setSourceImage(null);
+    setTextEngines([]);
+    setPages(current => current.map(page => ({ ...page, status: "pending", engine: undefined })));
+
+    const texts: (string | null)[] = [];
+    const engines: (OcrEngine | null)[] = [];
+    const sources = { ...fileSources };
+    let lastError = '';
+    let warnedFallback = false;
+
+    try {
+      for (const [idx, page] of pages.entries()) {
+        setReadProgress(idx);
+        setPageProgress(0);
+        updatePage(page.id, { status: "reading", engine: onDevice ? "device" : "vision" });
+
+        let text: string | null = null;
+        let engine: OcrEngine = "vision";
+
+        if (!onDevice && navigator.onLine) {
+          try {
+            const formData = new FormData();
+            formData.append('image', page.image, page.fileName);
+            const extracted = await extractTextFromImage(formData);
+            text = extracted.text || null;
+            // PDF pages are described by the PDF itself
+            sources[page.fileKey] = sources[page.fileKey] || extracted.source;
+          } catch (error) {
+            // Only a server that can't be reached or fails is worked around; other errors,
+            // such as a missing subscription or an invalid image, are shown as they are
+            if (!(error instanceof ApiError && (error.isNetworkError || (error.status ?? 0) >= 500))) {
+              updatePage(page.id, { status: "failed" });
+              throw error;
+            }
+            console.error(`Error reading page ${idx + 1} with the vision model:`, error);
+            lastError = error.message || '';
+          }
+        }
+
+        if (!text) {
+          if (!onDevice && !warnedFallback) {
+            warnedFallback = true;
+            toast({
+              title: "Reading on this device",
+              description: navigator.onLine
+                ? "The AI vision model could not be reached, so the page is being read on this device instead."
+                : "You are offline, so the pages are being read on this device.",
+            });
+          }
+          engine = "device";
+          updatePage(page.id, { engine });
+          try {
+            text = await recognizeOnDevice(page.image, setPageProgress) || null;
+            sources[page.fileKey] = sources[page.fileKey] || await describeImage(page.image, page.fileName);
+          } catch (error) {
+            console.error(`Error reading page ${idx + 1} on this device:`, error);
+            lastError = (error as Error).message || lastError;
+          }
+        }
+
+        texts.push(text);
+        engines.push(text ? engine : null);
+        updatePage(page.id, { status: text ? "done" : "failed" });
+      }
+      setReadProgress(pages.length);
+
+      const failedPages = texts.map((text, idx) => (text ? null : idx + 1)).filter(Boolean);
+      if (failedPages.length === pages.length) {
+        // Handle different types of errors with different messages
+        if (lastError.includes('timed out')) {
+          toast({ 
+            title: "Processing Timeout", 
+            description: "The server took too long to process the image. Please try again with a clearer image.", 
+            variant: "destructive" 
+          });
+        } else if (lastError.includes('format or size')) {
+          toast({ 
+            title: "Invalid Image", 
+            description: "The image format or size is invalid. Please try another image.", 
+            variant: "destructive" 
           });
-          setShowAuthModal(true);
-          // Still set the raw text so user doesn't lose their work
-            setQuery(extractedText);
-          setSelectedTab("text");
         } else {
-          // For other errors, just use the raw text
-            setQuery(extractedText);
-          setSelectedTab("text");
           toast({ 
-              title: "Text Extraction Completed", 
-            description: "Text extracted - AI processing unavailable" 
+            title: "Error", 
+            description: "No text could be extracted from the image", 
+            variant: "destructive" 
           });
         }
+        return;
       }
-      } else {
-        toast({ 
-          title: "Error", 
-          description: "No text could be extracted from the image", 
-          variant: "destructive" 
+      if (failedPages.length > 0) {
+        toast({
+          title: "Some pages could not be read",
+          description: `Page ${failedPages.join(', ')} - please retake or check the text for what is missing`,
+          variant: "destructive"
         });
       }
-    } catch (error: any) {
+
+      const fileKeys = [...new Set(pages.map(page => page.fileKey))];
+      setSourceImage(await combineSources(fileKeys.map(key => sources[key]).filter(Boolean), pages.length));
+      setSourcePreviews(pages.map(page => page.preview));
+      setTextEngines(engines);
+
+      await reviewExtractedText(mergePageTexts(texts));
+    } catch (error) {
       console.error("Image processing error:", error);
+      const message = (error as Error).message;
       
-      // Handle different types of errors with different messages
-      if (error.message?.includes('Please log in')) {
-        toast({
-          title: "Authentication Required",
-          description: "Please log in to analyze prescriptions",
-          variant: "default"
-        });
-        setShowAuthModal(true);
-      } else if (error.message?.includes('timed out')) {
-        toast({ 
-          title: "Processing Timeout", 
-          description: "The server took too long to process the image. Please try again with a clearer image.", 
-          variant: "destructive" 
-        });
-      } else if (error.message?.includes('format or size')) {
-        toast({ 
-          title: "Invalid Image", 
-          description: "The image format or size is invalid. Please try another image.", 
-          variant: "destructive" 
-        });
+      if (message?.includes('Please log in')) {
+        handleAuthError();
       } else {
         toast({ 
           title: "Error", 
-          description: error.message || "Failed to extract text from image", 
+          description: message || "Failed to extract text from image", 
           variant: "destructive" 
         });
       }
     } finally {
-      setProcessingImage(false);
+      setReadingPages(false);
+      releaseOnDeviceOcr().catch(error => console.error("Error releasing the on-device OCR:", error));
     }
   };
 
@@ -224,22 +476,94 @@ export const PrescriptionAnalysisForm = ({
     cameraInputRef.current?.click();
   };
 
+  const readingOnDevice = pages.some(page => page.status === "reading" && page.engine === "device");
+
+  // Pages added from either tab, with the button to read them
+  const renderPages = () => (
+    <div className="w-full space-y-4 mb-4">
+      <PrescriptionPageList
+        pages={pages}
+        onMove={handleMovePage}
+        onRemove={handleRemovePage}
+        onEnhance={handleEnhancePage}
+        disabled={readingPages}
+      />
+      {readingPages && (
+        <div className="space-y-1">
+          <Progress value={(Math.min(readProgress + (readingOnDevice ? pageProgress : 0), pages.length) / pages.length) * 100} />
+          <p className="text-xs text-gray-600 text-center">
+            Reading page {Math.min(readProgress + 1, pages.length)} of {pages.length}
+            {readingOnDevice ? ` on this device (${Math.round(pageProgress * 100)}%)` : " with the AI vision model"}...
+          </p>
+        </div>
+      )}
+      <div className="flex flex-wrap justify-center gap-2">
+        <Button
+          type="button"
+          onClick={() => handleReadPages(false)}
+          disabled={readingPages || preparingPages}
+          className="bg-medical-primary hover:bg-medical-primary/90 text-white"
+        >
+          <ScanText className="h-4 w-4 mr-2" />
+          {pages.length === 1 ? "Read Page" : `Read ${pages.length} Pages`}
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => handleReadPages(true)}
+          disabled={readingPages || preparingPages}
+          title="Slower and less accurate, but works offline and the images stay on your device"
+        >
+          <Smartphone className="h-4 w-4 mr-2" />
+          Read on This Device
+        </Button>
+      </div>
+    </div>
+  );
+
   const renderTabContent = () => {
     switch (selectedTab) {
       case "text":
         return (
           <div className="space-y-4">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Enter your prescription or medication details
-              </label>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p className="text-sm font-medium text-gray-700">
+                {inputMode === "table"
+                  ? "Check each medication and correct anything that was read wrong"
+                  : "Enter your prescription or medication details"}
+              </p>
+              <div className="flex rounded-md border p-0.5 text-sm">
+                <button
+                  type="button"
+                  className={`flex items-center px-2.5 py-1 rounded ${inputMode === "table" ? "bg-medical-primary text-white" : "text-gray-600 hover:text-medical-primary"}`}
+                  onClick={() => setInputMode("table")}
+                  aria-pressed={inputMode === "table"}
+                >
+                  <Table2 className="h-4 w-4 mr-1" />
+                  Table
+                </button>
+                <button
+                  type="button"
+                  className={`flex items-center px-2.5 py-1 rounded ${inputMode === "text" ? "bg-medical-primary text-white" : "text-gray-600 hover:text-medical-primary"}`}
+                  onClick={() => setInputMode("text")}
+                  aria-pressed={inputMode === "text"}
+                >
+                  <FileText className="h-4 w-4 mr-1" />
+                  Raw text
+                </button>
+              </div>
+            </div>
+            <OcrEngineNotice engines={textEngines} />
+            {inputMode === "table" ? (
+              <MedicationReviewTable rows={rows} onChange={setRows} />
+            ) : (
               <Textarea
                 value={query}
                 onChange={(e) => setQuery(e.target.value)}
                 placeholder="Example: Lisinopril 10mg, Metformin 500mg, Simvastatin 20mg..."
                 className="min-h-[150px] resize-none"
               />
-            </div>
+            )}
             <motion.div 
               className="text-xs text-medical-primary flex items-start p-3 bg-blue-50 rounded-md"
               initial={{ opacity: 0 }}
@@ -262,76 +586,38 @@ export const PrescriptionAnalysisForm = ({
         );
       case "upload":
         return (
-          <div className="flex flex-col items-center justify-center py-10 border-2 border-dashed border-gray-300 rounded-lg bg-gray-50">
-            {imagePreview ? (
-              <div className="mb-4 w-full max-w-xs">
-                <img 
-                  src={imagePreview} 
-                  alt="Prescription preview" 
-                  className="rounded-lg object-contain max-h-[200px] mx-auto"
-                />
-                <p className="text-sm text-center mt-2 text-gray-600">
-                  {selectedFile?.name}
-                </p>
-                <div className="flex justify-center mt-3">
-                  <Button 
-                    variant="outline" 
-                    size="sm" 
-                    onClick={() => {
-                      setSelectedFile(null);
-                      setImagePreview(null);
-                    }}
-                  >
-                    Remove
-                  </Button>
-                </div>
-              </div>
-            ) : (
+          <div className="flex flex-col items-center justify-center py-10 px-4 border-2 border-dashed border-gray-300 rounded-lg bg-gray-50">
+            {pages.length > 0 ? renderPages() : (
               <>
                 <Upload className="h-12 w-12 text-gray-400 mb-4" />
-                <p className="text-gray-700 font-medium">Upload a photo of your prescription</p>
-                <p className="text-sm text-gray-500 mt-1 mb-4">JPG or PNG up to 10MB</p>
+                <p className="text-gray-700 font-medium">Upload photos or a PDF of your prescription</p>
+                <p className="text-sm text-gray-500 mt-1 mb-4">
+                  JPG or PNG up to 10MB each, or PDF up to 20MB. Several pages are read in the order shown.
+                </p>
               </>
             )}
             <input 
               type="file" 
               ref={fileInputRef}
               onChange={handleFileChange}
-              accept="image/jpeg,image/png"
+              accept="image/jpeg,image/png,application/pdf"
+              multiple
               className="hidden"
             />
             <Button 
+              type="button"
               variant="outline" 
               onClick={handleSelectFileClick}
+              disabled={preparingPages || readingPages}
             >
-              {imagePreview ? "Choose Different File" : "Select File"}
+              {preparingPages ? "Preparing pages..." : pages.length > 0 ? "Add More Pages" : "Select Files"}
             </Button>
           </div>
         );
       case "camera":
         return (
-          <div className="flex flex-col items-center justify-center py-10 border-2 border-dashed border-gray-300 rounded-lg bg-gray-50">
-            {imagePreview ? (
-              <div className="mb-4 w-full max-w-xs">
-                <img 
-                  src={imagePreview} 
-                  alt="Prescription photo" 
-                  className="rounded-lg object-contain max-h-[200px] mx-auto" 
-                />
-                <div className="flex justify-center mt-3">
-                  <Button 
-                    variant="outline" 
-                    size="sm" 
-                    onClick={() => {
-                      setSelectedFile(null);
-                      setImagePreview(null);
-                    }}
-                  >
-                    Take New Photo
-                  </Button>
-                </div>
-              </div>
-            ) : (
+          <div className="flex flex-col items-center justify-center py-10 px-4 border-2 border-dashed border-gray-300 rounded-lg bg-gray-50">
+            {pages.length > 0 ? renderPages() : (
               <>
                 <Camera className="h-12 w-12 text-gray-400 mb-4" />
                 <p className="text-gray-700 font-medium">Take a photo of your prescription</p>
@@ -349,10 +635,12 @@ export const PrescriptionAnalysisForm = ({
               className="hidden"
             />
             <Button 
+              type="button"
               variant="outline" 
               onClick={handleOpenCameraClick}
+              disabled={preparingPages || readingPages}
             >
-              {imagePreview ? "Take Another Photo" : "Open Camera"}
+              {pages.length > 0 ? "Photograph Another Page" : "Open Camera"}
             </Button>
           </div>
         );
@@ -383,8 +671,8 @@ export const PrescriptionAnalysisForm = ({
               onClick={() => setSelectedTab("text")}
             >
               <span className="flex items-center">
-                <FileText className="h-4 w-4 mr-2" />
-                Text Input
+                <Pill className="h-4 w-4 mr-2" />
+                Medications
               </span>
             </button>
             <button
@@ -423,7 +711,7 @@ export const PrescriptionAnalysisForm = ({
             <Button 
               type="submit" 
               className="bg-medical-primary hover:bg-medical-primary/90 text-white px-6 py-2.5"
-              disabled={!query.trim() || isLoading}
+              disabled={!canSubmit || isLoading}
             >
               {isLoading ? (
                 <>
@@ -445,6 +733,17 @@ export const PrescriptionAnalysisForm = ({
         isOpen={showAuthModal} 
         onClose={() => setShowAuthModal(false)} 
       />
+      <RetakePhotoDialog
+        page={retakePage}
+        onRetake={handleRetakePhoto}
+        onEnhance={handleEnhancePage}
+        onClose={() => setRetakePage(null)}
+      />
+      <ImageEnhanceDialog
+        page={enhancePage}
+        onApply={handleApplyEnhanced}
+        onClose={() => setEnhancePage(null)}
+      />
     </>
   );
 };
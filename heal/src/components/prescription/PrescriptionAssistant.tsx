@@ -25,6 +25,8 @@ interface Message {
 
 interface PrescriptionAssistantProps {
   result: PrescriptionAnalysis | null;
+  // Saved prescription the answers should refer to
+  prescriptionId?: string | null;
 }
 
 // Helper function to format AI responses properly
@@ -121,7 +123,7 @@ const formatAIResponse = (text: string) => {
   return <div className="chat-message-formatted">{paragraphs}</div>;
 };
 
-export const PrescriptionAssistant = ({ result }: PrescriptionAssistantProps) => {
+export const PrescriptionAssistant = ({ result, prescriptionId }: PrescriptionAssistantProps) => {
   // UI messages for display
   const [messages, setMessages] = useState<Message[]>(() => {
     // Try to load messages from localStorage
@@ -381,7 +383,8 @@ export const PrescriptionAssistant = ({ result }: PrescriptionAssistantProps) =>
       const response = await getChatbotResponse({
         query: userInput,
         contextType,
-        messages: historyWithContext
+        messages: historyWithContext,
+        prescriptionId: usePrescriptionContext && prescriptionId ? prescriptionId : undefined
       });
       
       // Add bot response to UI
@@ -0,0 +1,244 @@
+import { useEffect, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { FileText, Image as ImageIcon, Loader, Pencil, Pill, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { useNavigation } from "@/hooks/useNavigation";
+import { usePrescription } from "@/contexts/PrescriptionContext";
+import {
+  PrescriptionSummary,
+  deletePrescription,
+  getPrescriptionHistory,
+  renamePrescription
+} from "@/services/prescriptionService";
+
+// Same limit as the server's Prescription model
+const MAX_TITLE_LENGTH = 100;
+
+const getTitle = (prescription: PrescriptionSummary) =>
+  prescription.title || `Prescription of ${format(parseISO(prescription.createdAt), "MMM d, yyyy")}`;
+
+// Saved prescription analyses, with reopen, rename and delete
+export function PrescriptionHistoryList() {
+  const [prescriptions, setPrescriptions] = useState<PrescriptionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [renaming, setRenaming] = useState<PrescriptionSummary | null>(null);
+  const [newTitle, setNewTitle] = useState("");
+  const [deleting, setDeleting] = useState<PrescriptionSummary | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const { prescriptionId, clearPrescriptionState } = usePrescription();
+  const { navigateWithLoading } = useNavigation();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      try {
+        setPrescriptions(await getPrescriptionHistory());
+        setError(null);
+      } catch (err) {
+        console.error("Error fetching prescription history:", (err as Error).message);
+        setError("Failed to load your prescription history. Please try again later.");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadHistory();
+  }, []);
+
+  const openRename = (prescription: PrescriptionSummary) => {
+    setRenaming(prescription);
+    setNewTitle(getTitle(prescription));
+  };
+
+  const handleRename = async () => {
+    if (!renaming || !newTitle.trim()) return;
+
+    try {
+      setIsSaving(true);
+      const updated = await renamePrescription(renaming._id, newTitle.trim());
+      setPrescriptions(prev => prev.map(p => p._id === updated._id ? { ...p, title: updated.title } : p));
+      setRenaming(null);
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: (err as Error).message || "Failed to rename the prescription",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    try {
+      setIsSaving(true);
+      await deletePrescription(deleting._id);
+      setPrescriptions(prev => prev.filter(p => p._id !== deleting._id));
+      // Don't keep showing a deleted analysis on the analysis page
+      if (prescriptionId === deleting._id) {
+        clearPrescriptionState();
+      }
+      setDeleting(null);
+      toast({ title: "Prescription deleted" });
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: (err as Error).message || "Failed to delete the prescription",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center py-12">
+        <Loader className="h-10 w-10 text-medical-primary animate-spin" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-center text-red-600 py-8">{error}</p>;
+  }
+
+  if (prescriptions.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <FileText className="h-12 w-12 mx-auto text-gray-300 mb-4" />
+        <p className="text-gray-600 mb-4">You haven't analyzed any prescriptions yet.</p>
+        <Button onClick={() => navigateWithLoading("/prescription-analysis")}>
+          Analyze a prescription
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <ul className="space-y-3">
+        {prescriptions.map(prescription => (
+          <li key={prescription._id}>
+            <Card className="hover:shadow-md transition-shadow">
+              <CardContent className="p-4 flex flex-col sm:flex-row sm:items-center gap-4">
+                <button
+                  onClick={() => navigateWithLoading(`/prescription-analysis?id=${prescription._id}`)}
+                  className="flex-1 min-w-0 text-left"
+                >
+                  <p className="font-semibold text-gray-900 truncate">{getTitle(prescription)}</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Analyzed {format(parseISO(prescription.createdAt), "MMM d, yyyy 'at' h:mm a")}
+                  </p>
+                  <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-2 text-xs text-gray-600">
+                    {prescription.medicationNames.length > 0 && (
+                      <span className="flex items-center">
+                        <Pill className="h-3 w-3 mr-1 text-medical-primary" />
+                        {prescription.medicationNames.join(", ")}
+                      </span>
+                    )}
+                    {prescription.sourceImage?.fileName && (
+                      <span className="flex items-center">
+                        <ImageIcon className="h-3 w-3 mr-1 text-gray-400" />
+                        {prescription.sourceImage.fileName}
+                      </span>
+                    )}
+                  </div>
+                </button>
+                <div className="flex gap-2 shrink-0">
+                  <Button variant="outline" size="sm" onClick={() => openRename(prescription)}>
+                    <Pencil className="h-3 w-3 mr-1" />
+                    Rename
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-red-600 border-red-200 hover:bg-red-50 hover:text-red-700"
+                    onClick={() => setDeleting(prescription)}
+                  >
+                    <Trash2 className="h-3 w-3 mr-1" />
+                    Delete
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </li>
+        ))}
+      </ul>
+
+      <Dialog open={renaming !== null} onOpenChange={(open) => {
+        if (!open) setRenaming(null);
+      }}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Rename Prescription</DialogTitle>
+            <DialogDescription>Choose a name that helps you find this analysis later.</DialogDescription>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleRename();
+            }}
+          >
+            <Input
+              value={newTitle}
+              onChange={(e) => setNewTitle(e.target.value)}
+              maxLength={MAX_TITLE_LENGTH}
+              autoFocus
+            />
+            <DialogFooter className="gap-2 sm:gap-0 mt-4">
+              <Button type="button" variant="outline" onClick={() => setRenaming(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving || !newTitle.trim()}>
+                {isSaving ? <Loader className="mr-2 h-4 w-4 animate-spin" /> : null}
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={deleting !== null} onOpenChange={(open) => {
+        if (!open) setDeleting(null);
+      }}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Delete Prescription</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to delete "{deleting ? getTitle(deleting) : ""}"? Its medication schedule and dose log are deleted too. This cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button variant="outline" onClick={() => setDeleting(null)}>
+              Keep
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleDelete}
+              disabled={isSaving}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              {isSaving ? <Loader className="mr-2 h-4 w-4 animate-spin" /> : null}
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,129 @@
+import { ArrowLeft, ArrowRight, CheckCircle, Loader, Wand2, X, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { OcrEngine } from "@/services/offlineOcrService";
+import { ImageQualityLevel, ImageQualityReport } from "@/utils/imageQuality";
+
+export type PageStatus = "pending" | "reading" | "done" | "failed";
+
+// A page to read: an uploaded photo or a page of an uploaded PDF
+export interface PrescriptionPage {
+  id: string;
+  // Image sent for text extraction
+  image: Blob;
+  // Data URL shown in the preview
+  preview: string;
+  // e.g. "scan.pdf, page 2"
+  label: string;
+  // Name the image is uploaded with
+  fileName: string;
+  // Uploaded file the page comes from, to describe the upload as a whole
+  fileKey: string;
+  status: PageStatus;
+  // Engine reading or that read the page
+  engine?: OcrEngine;
+  // Set once the image has been checked
+  quality?: ImageQualityReport;
+  // Whether the image was replaced by its enhanced version
+  enhanced?: boolean;
+}
+
+interface PrescriptionPageListProps {
+  pages: PrescriptionPage[];
+  onMove: (index: number, offset: -1 | 1) => void;
+  onRemove: (index: number) => void;
+  onEnhance: (page: PrescriptionPage) => void;
+  // Pages cannot be changed while they are being read
+  disabled?: boolean;
+}
+
+const STATUS_ICONS: Record<PageStatus, JSX.Element | null> = {
+  pending: null,
+  reading: <Loader className="h-4 w-4 text-medical-primary animate-spin" />,
+  done: <CheckCircle className="h-4 w-4 text-green-600" />,
+  failed: <XCircle className="h-4 w-4 text-red-600" />
+};
+
+const QUALITY_LABELS: Record<ImageQualityLevel, { text: string; className: string }> = {
+  good: { text: "Good quality", className: "bg-green-50 text-green-700" },
+  fair: { text: "Fair quality", className: "bg-amber-50 text-amber-700" },
+  poor: { text: "Retake recommended", className: "bg-red-50 text-red-700" }
+};
+
+// Thumbnails of the pages to read, in reading order, which the user can reorder or remove
+export const PrescriptionPageList = ({ pages, onMove, onRemove, onEnhance, disabled = false }: PrescriptionPageListProps) => (
+  <ol className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3 w-full">
+    {pages.map((page, index) => (
+      <li key={page.id} className="relative border rounded-lg bg-white p-2 flex flex-col">
+        <div className="flex items-center justify-between text-xs font-medium text-gray-700 mb-1">
+          <span>Page {index + 1}</span>
+          {STATUS_ICONS[page.status]}
+        </div>
+        <img src={page.preview} alt={page.label} className="h-32 w-full object-contain rounded bg-gray-50" />
+        <p className="text-xs text-gray-500 mt-1 truncate" title={page.label}>{page.label}</p>
+        {page.quality && (
+          <p
+            className={`text-xs mt-1 px-1.5 py-0.5 rounded self-start ${QUALITY_LABELS[page.quality.level].className}`}
+            title={page.quality.issues.join("\n")}
+          >
+            {page.enhanced ? "Enhanced" : QUALITY_LABELS[page.quality.level].text}
+          </p>
+        )}
+        {page.quality && !page.enhanced && page.quality.issues.length > 0 && (
+          <p className="text-xs text-gray-600 mt-0.5">{page.quality.issues[0]}</p>
+        )}
+        {page.engine === "device" && page.status !== "pending" && (
+          <p className="text-xs text-amber-700">Read on this device</p>
+        )}
+        <div className="flex justify-between mt-1">
+          <div className="flex">
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => onMove(index, -1)}
+              disabled={disabled || index === 0}
+              aria-label={`Move page ${index + 1} earlier`}
+            >
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => onMove(index, 1)}
+              disabled={disabled || index === pages.length - 1}
+              aria-label={`Move page ${index + 1} later`}
+            >
+              <ArrowRight className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => onEnhance(page)}
+              disabled={disabled || page.enhanced}
+              title="Crop, straighten and improve the contrast"
+              aria-label={`Enhance page ${index + 1}`}
+            >
+              <Wand2 className="h-4 w-4" />
+            </Button>
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 text-gray-500 hover:text-red-600"
+            onClick={() => onRemove(index)}
+            disabled={disabled}
+            aria-label={`Remove page ${index + 1}`}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </li>
+    ))}
+  </ol>
+);
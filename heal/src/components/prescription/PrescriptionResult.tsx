@@ -3,17 +3,26 @@ import { AlertOctagon, AlertCircle, CheckCircle, Info, ExternalLink, Pill, Clock
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Link } from "react-router-dom";
-import { PrescriptionAnalysis } from '@/services/prescriptionService';
+import { PrescriptionAnalysis, SourceSpan } from '@/services/prescriptionService';
+import { MedicationCard } from './MedicationCard';
+import { DrugInteractions } from './DrugInteractions';
+import { ProfileAlerts } from './ProfileAlerts';
+import { AnalysisQualityNotice } from './AnalysisQualityNotice';
+import { SourceTextPanel } from './SourceTextPanel';
 import { useState, useRef } from 'react';
 import html2canvas from 'html2canvas';
 
 interface PrescriptionResultProps {
   result: PrescriptionAnalysis | null;
   ocrText?: string;
+  // Data URLs of the uploaded pages in page order, shown next to the text the medications were read from
+  imagePreviews?: string[];
 }
 
-export const PrescriptionResult = ({ result, ocrText = '' }: PrescriptionResultProps) => {
+export const PrescriptionResult = ({ result, ocrText = '', imagePreviews = [] }: PrescriptionResultProps) => {
   const [isDownloading, setIsDownloading] = useState(false);
+  // Source of the medication detail being hovered or tapped
+  const [highlight, setHighlight] = useState<SourceSpan | null>(null);
   const reportRef = useRef<HTMLDivElement>(null);
   
   if (!result) return null;
@@ -37,6 +46,11 @@ export const PrescriptionResult = ({ result, ocrText = '' }: PrescriptionResultP
     overdose_symptoms: []
   };
 
+  // Older analyses only have the aggregated view
+  const medications = result.medications || [];
+  // Older analyses have no link between the medications and the text
+  const hasSources = ocrText !== '' && medications.some(medication => medication.sources);
+
   // Function to download prescription analysis as image
   const handleDownload = async () => {
     setIsDownloading(true);
@@ -97,6 +111,44 @@ export const PrescriptionResult = ({ result, ocrText = '' }: PrescriptionResultP
       transition={{ duration: 0.8, ease: "easeOut" }}
       ref={reportRef}
     >
+      <AnalysisQualityNotice quality={result.quality} />
+
+      {/* Allergy and condition alerts, then interactions (both missing in older analyses) */}
+      {result.profileCheck && <ProfileAlerts check={result.profileCheck} />}
+
+      {result.interactionCheck && <DrugInteractions check={result.interactionCheck} />}
+
+      {/* Medications */}
+      {medications.length > 0 && (
+        <div className="mb-8">
+          <h3 className="text-xl font-semibold mb-4 flex items-center">
+            <span className="h-6 w-6 rounded-full bg-blue-100 text-blue-600 flex items-center justify-center mr-2">
+              <Pill size={14} />
+            </span>
+            Medications
+          </h3>
+          <div className={hasSources ? "grid grid-cols-1 lg:grid-cols-3 gap-4" : ""}>
+            <div className="space-y-4 lg:col-span-2">
+              {medications.map((medication, idx) => (
+                <MedicationCard
+                  key={`${medication.name}-${idx}`}
+                  medication={medication}
+                  onHighlight={hasSources ? setHighlight : undefined}
+                />
+              ))}
+            </div>
+            {hasSources && (
+              <div className="lg:sticky lg:top-4 self-start">
+                <SourceTextPanel text={ocrText} imagePreviews={imagePreviews} highlight={highlight} />
+              </div>
+            )}
+          </div>
+          <h3 className="text-lg font-semibold text-gray-800 mt-8 pt-6 border-t">
+            Whole Prescription Summary
+          </h3>
+        </div>
+      )}
+
       {/* Precautions */}
       <div className="mb-8">
         <h3 className="text-xl font-semibold mb-4 flex items-center">
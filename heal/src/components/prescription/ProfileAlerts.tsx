@@ -0,0 +1,58 @@
+import { Link } from "react-router-dom";
+import { AlertOctagon, AlertTriangle, UserRound } from "lucide-react";
+import { ProfileCheck } from "@/services/prescriptionService";
+
+interface ProfileAlertsProps {
+  check: ProfileCheck;
+}
+
+// Medications matching the allergies and conditions in the patient's profile
+export const ProfileAlerts = ({ check }: ProfileAlertsProps) => {
+  if (!check.profileComplete) {
+    return (
+      <div className="mb-8 flex items-start border border-blue-200 bg-blue-50 rounded-lg p-4">
+        <UserRound className="h-5 w-5 text-blue-600 mr-2 mt-0.5 flex-shrink-0" />
+        <p className="text-sm text-blue-900">
+          Add your allergies and medical conditions to your{" "}
+          <Link to="/profile" className="font-medium underline">profile</Link>{" "}
+          so future prescriptions can be checked against them.
+        </p>
+      </div>
+    );
+  }
+
+  if (check.alerts.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-8 border-2 border-red-300 bg-red-50 rounded-lg p-4">
+      <h3 className="text-lg font-semibold text-red-800 mb-3 flex items-center">
+        <AlertOctagon className="h-5 w-5 mr-2" />
+        Check with your doctor before taking
+      </h3>
+      <ul className="space-y-3">
+        {check.alerts.map((alert, idx) => {
+          const isContraindicated = alert.severity === "contraindicated";
+          const Icon = isContraindicated ? AlertOctagon : AlertTriangle;
+          return (
+            <li key={idx} className="flex items-start">
+              <Icon className={`h-4 w-4 mr-2 mt-0.5 flex-shrink-0 ${isContraindicated ? "text-red-600" : "text-amber-600"}`} />
+              <div>
+                <p className="text-sm font-medium text-gray-900">
+                  {alert.medication}
+                  {alert.drugClass && <span className="font-normal text-gray-600"> ({alert.drugClass})</span>}
+                  {" "}&mdash; {alert.matched}
+                </p>
+                <p className="text-sm text-gray-700">{alert.note}</p>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+      <p className="text-xs text-gray-500 mt-3">
+        Based on the allergies and conditions in your <Link to="/profile" className="underline">profile</Link>.
+      </p>
+    </div>
+  );
+};
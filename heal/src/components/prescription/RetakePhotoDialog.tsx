@@ -0,0 +1,63 @@
+import { AlertTriangle, Camera, Wand2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { PrescriptionPage } from "./PrescriptionPageList";
+
+interface RetakePhotoDialogProps {
+  // Photo that is unlikely to be read correctly, null when the dialog is closed
+  page: PrescriptionPage | null;
+  onRetake: (page: PrescriptionPage) => void;
+  onEnhance: (page: PrescriptionPage) => void;
+  onClose: () => void;
+}
+
+// Asks the user to retake a photo that is too blurry, dark or small to be read reliably
+export const RetakePhotoDialog = ({ page, onRetake, onEnhance, onClose }: RetakePhotoDialogProps) => (
+  <Dialog open={Boolean(page)} onOpenChange={open => !open && onClose()}>
+    <DialogContent className="sm:max-w-md">
+      <DialogHeader>
+        <DialogTitle className="flex items-center">
+          <AlertTriangle className="h-5 w-5 mr-2 text-amber-600" />
+          Retake this photo?
+        </DialogTitle>
+        <DialogDescription>
+          The medications may be read wrong from this photo. A new photo gives the best results.
+        </DialogDescription>
+      </DialogHeader>
+
+      {page && (
+        <div className="flex gap-3">
+          <img src={page.preview} alt={page.label} className="h-28 w-24 object-contain rounded border bg-gray-50" />
+          <ul className="list-disc pl-4 text-sm text-gray-700 space-y-1">
+            {page.quality?.issues.map(issue => <li key={issue}>{issue}</li>)}
+          </ul>
+        </div>
+      )}
+
+      <DialogFooter className="gap-2">
+        <Button type="button" variant="ghost" onClick={onClose}>
+          Use Anyway
+        </Button>
+        <Button type="button" variant="outline" onClick={() => page && onEnhance(page)}>
+          <Wand2 className="h-4 w-4 mr-2" />
+          Enhance
+        </Button>
+        <Button
+          type="button"
+          onClick={() => page && onRetake(page)}
+          className="bg-medical-primary hover:bg-medical-primary/90 text-white"
+        >
+          <Camera className="h-4 w-4 mr-2" />
+          Retake
+        </Button>
+      </DialogFooter>
+    </DialogContent>
+  </Dialog>
+);
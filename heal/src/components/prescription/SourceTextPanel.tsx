@@ -0,0 +1,81 @@
+import { useEffect, useRef } from "react";
+import { AlertTriangle, ScanText } from "lucide-react";
+import { SourceSpan, locateInPages } from "@/services/prescriptionService";
+
+interface SourceTextPanelProps {
+  // Text the analysis was made from
+  text: string;
+  // Data URLs of the uploaded pages in page order, if they are still available
+  imagePreviews?: string[];
+  highlight: SourceSpan | null;
+}
+
+// Smallest height of the band marking a line on the image, in percent
+const MIN_BAND_PERCENT = 4;
+
+// The analyzed text and image, with the part a hovered or tapped field came from highlighted
+export const SourceTextPanel = ({ text, imagePreviews = [], highlight }: SourceTextPanelProps) => {
+  const textRef = useRef<HTMLPreElement>(null);
+  const markRef = useRef<HTMLElement>(null);
+  const span = highlight && highlight.start !== null ? highlight : null;
+
+  // Scroll the text box (not the page) to the highlighted part
+  useEffect(() => {
+    if (textRef.current && markRef.current) {
+      textRef.current.scrollTop = markRef.current.offsetTop - textRef.current.clientHeight / 2;
+    }
+  }, [span?.start, span?.end]);
+
+  // The vision model gives text only, so the image band is placed by line number within the page
+  const { pageIndex, line, lineCount } = locateInPages(text, span ? span.start : 0);
+  const imagePreview = imagePreviews[Math.min(pageIndex, imagePreviews.length - 1)];
+  const bandHeight = Math.max(100 / lineCount, MIN_BAND_PERCENT);
+  const bandTop = Math.min((line / lineCount) * 100, 100 - bandHeight);
+
+  return (
+    <div className="border rounded-lg p-4 bg-gray-50">
+      <h4 className="font-medium text-gray-800 mb-1 flex items-center">
+        <ScanText size={16} className="text-medical-primary mr-1.5" />
+        Your prescription
+      </h4>
+      <p className="text-xs text-gray-500 mb-3">
+        Hover over or tap a medication detail to see where it was read from.
+      </p>
+
+      {highlight && !span && (
+        <p className="flex items-center text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded p-2 mb-3">
+          <AlertTriangle size={14} className="mr-1.5 flex-shrink-0" />
+          This detail was not found in the text. Please verify it on your prescription.
+        </p>
+      )}
+
+      {imagePreview && (
+        <div className="mb-3">
+          <div className="relative">
+            <img src={imagePreview} alt={`Uploaded prescription, page ${pageIndex + 1}`} className="w-full rounded border bg-white" />
+            {span && (
+              <div
+                className="absolute inset-x-0 bg-yellow-300/40 border-y-2 border-yellow-500 pointer-events-none"
+                style={{ top: `${bandTop}%`, height: `${bandHeight}%` }}
+              />
+            )}
+          </div>
+          {imagePreviews.length > 1 && (
+            <p className="text-xs text-gray-500 mt-1">Page {pageIndex + 1} of {imagePreviews.length}</p>
+          )}
+          {span && <p className="text-xs text-gray-500 mt-1">The band on the image shows the approximate line.</p>}
+        </div>
+      )}
+
+      <pre ref={textRef} className="relative whitespace-pre-wrap break-words font-mono text-xs text-gray-700 bg-white border rounded p-3 max-h-80 overflow-auto">
+        {span ? (
+          <>
+            {text.slice(0, span.start)}
+            <mark ref={markRef} className="bg-yellow-200 rounded-sm">{text.slice(span.start, span.end)}</mark>
+            {text.slice(span.end)}
+          </>
+        ) : text}
+      </pre>
+    </div>
+  );
+};
@@ -0,0 +1,126 @@
+import { useEffect, useState } from 'react';
+import { getCalendarFeedUrl, regenerateCalendarFeedUrl } from '../../services/appointmentService';
+import { useToast } from '@/components/ui/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { CalendarDays, Copy, Loader2, RefreshCw } from 'lucide-react';
+
+export const CalendarFeedSettings = () => {
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [regenerating, setRegenerating] = useState(false);
+  const [confirmingRegenerate, setConfirmingRegenerate] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    getCalendarFeedUrl()
+      .then(setFeedUrl)
+      .catch(error => console.error('Error loading calendar feed:', error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast({
+        title: 'Link copied',
+        description: 'Add it to your calendar app as a subscription (e.g. "From URL" in Google Calendar).',
+      });
+    } catch {
+      toast({
+        variant: 'destructive',
+        title: 'Copy failed',
+        description: 'Please select the link and copy it manually.',
+      });
+    }
+  };
+
+  const handleRegenerate = async () => {
+    setRegenerating(true);
+    try {
+      const url = await regenerateCalendarFeedUrl();
+      setFeedUrl(url);
+      setConfirmingRegenerate(false);
+      toast({
+        title: 'Calendar link regenerated',
+        description: 'The previous link no longer works. Update your calendar subscription.',
+      });
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: (error as Error).message,
+      });
+    } finally {
+      setRegenerating(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <CalendarDays className="h-5 w-5 mr-2" />
+          Calendar Feed
+        </CardTitle>
+        <CardDescription>
+          Subscribe to your appointments in Google, Apple or Outlook calendar. Keep this link private.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {loading ? (
+          <div className="flex justify-center py-2">
+            <Loader2 className="h-5 w-5 text-medical-primary animate-spin" />
+          </div>
+        ) : feedUrl ? (
+          <>
+            <Input value={feedUrl} readOnly onFocus={(e) => e.target.select()} className="text-xs" />
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" className="flex-1" onClick={handleCopy}>
+                <Copy className="h-4 w-4 mr-2" />
+                Copy
+              </Button>
+              <Button variant="outline" size="sm" className="flex-1" onClick={() => setConfirmingRegenerate(true)}>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Regenerate
+              </Button>
+            </div>
+          </>
+        ) : (
+          <p className="text-sm text-gray-500">Your calendar link could not be loaded.</p>
+        )}
+      </CardContent>
+
+      <Dialog open={confirmingRegenerate} onOpenChange={setConfirmingRegenerate}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Regenerate calendar link?</DialogTitle>
+            <DialogDescription>
+              Calendars subscribed to the current link will stop receiving updates. Do this if the link was shared by mistake.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button variant="outline" onClick={() => setConfirmingRegenerate(false)}>
+              Keep Current Link
+            </Button>
+            <Button onClick={handleRegenerate} disabled={regenerating}>
+              {regenerating && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Regenerate
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
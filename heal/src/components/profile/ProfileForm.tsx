@@ -7,7 +7,7 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent } from '@/components/ui/card';
-import { Loader2 } from 'lucide-react';
+import { Info, Loader2 } from 'lucide-react';
 import { format, parseISO } from 'date-fns';
 import { DatePicker } from '@/components/ui/date-picker';
 
@@ -70,13 +70,20 @@ export const ProfileForm = ({ profile, onProfileUpdate }: ProfileFormProps) => {
     setIsSubmitting(true);
     
     try {
-      const updatedProfile = await updateUserProfile(formData);
+      const updatedProfile = await updateUserProfile(formData, profile.profileUpdatedAt);
       if (updatedProfile) {
         onProfileUpdate(updatedProfile);
         toast({
           title: "Profile Updated",
           description: "Your profile has been updated successfully."
         });
+      } else {
+        // Queued while offline - show the changes now, they are sent once back online
+        onProfileUpdate({ ...profile, ...formData });
+        toast({
+          title: "Saved Offline",
+          description: "Your changes will be sent when you're back online."
+        });
       }
     } catch (error: any) {
       toast({
@@ -180,6 +187,15 @@ export const ProfileForm = ({ profile, onProfileUpdate }: ProfileFormProps) => {
       <Card>
         <CardContent className="p-4">
           <h3 className="font-semibold text-lg mb-3">Medical Information</h3>
+          {!profile.allergies && !profile.medicalConditions && (
+            <div className="flex items-start p-3 mb-4 bg-blue-50 border border-blue-200 rounded-md">
+              <Info className="h-4 w-4 text-blue-600 mr-2 mt-0.5 flex-shrink-0" />
+              <p className="text-sm text-blue-900">
+                Add your allergies and medical conditions so analyzed prescriptions can be checked against them.
+                Write "None" if you have nothing to report.
+              </p>
+            </div>
+          )}
           <div className="space-y-4">
             <div className="space-y-2">
               <Label htmlFor="allergies">Allergies</Label>
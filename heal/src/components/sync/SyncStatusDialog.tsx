@@ -0,0 +1,176 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { AlertTriangle, Clock, Loader, RefreshCw } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import { useSyncStatus } from "@/hooks/useSyncStatus";
+import { ConflictResolution, OutboxEntry, syncOutbox } from "@/services/syncOutbox";
+import { DATE_FORMAT, TIME_FORMAT } from "@/config/appointmentConfig";
+
+interface SyncStatusDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const formatTimestamp = (value: string) => format(parseISO(value), `${DATE_FORMAT} 'at' ${TIME_FORMAT}`);
+
+// Queued changes, plus the ones the user has to resolve (conflicts) or retry (failures)
+export function SyncStatusDialog({ isOpen, onClose }: SyncStatusDialogProps) {
+  const { pending, conflicts, failures, isOnline, isSyncing, nextRetryAt } = useSyncStatus();
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  // Run an outbox action for one entry, reporting storage errors
+  const runAction = async (entry: OutboxEntry, action: () => Promise<void>) => {
+    setBusyId(entry.id);
+    try {
+      await action();
+    } catch (err) {
+      toast({
+        variant: "destructive",
+        title: "Couldn't update the change",
+        description: (err as Error).message
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const resolveConflict = (entry: OutboxEntry, resolution: ConflictResolution) =>
+    runAction(entry, () => syncOutbox.resolveConflict(entry.id, resolution));
+
+  const isEmpty = pending.length === 0 && conflicts.length === 0 && failures.length === 0;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Offline changes</DialogTitle>
+          <DialogDescription>
+            {isOnline
+              ? "Changes you made while offline are sent to the server automatically."
+              : "You're offline. Your changes are saved on this device and sent when you reconnect."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5 max-h-[60vh] overflow-y-auto">
+          {isEmpty && (
+            <p className="text-sm text-gray-500 text-center py-4">All your changes are up to date.</p>
+          )}
+
+          {conflicts.length > 0 && (
+            <section className="space-y-2">
+              <h4 className="text-sm font-semibold text-amber-700 flex items-center">
+                <AlertTriangle className="h-4 w-4 mr-1" />
+                Changed somewhere else
+              </h4>
+              {conflicts.map(entry => (
+                <div key={entry.id} className="rounded-md border border-amber-200 bg-amber-50 p-3 space-y-2">
+                  <p className="text-sm font-medium text-gray-900">{entry.label}</p>
+                  <p className="text-xs text-gray-600">
+                    Made {formatTimestamp(entry.createdAt)}.
+                    {entry.serverUpdatedAt
+                      ? ` The server copy was changed ${formatTimestamp(entry.serverUpdatedAt)}.`
+                      : " The server copy was changed in the meantime."}
+                  </p>
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      disabled={busyId === entry.id}
+                      onClick={() => resolveConflict(entry, 'keep_mine')}
+                    >
+                      Keep my change
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={busyId === entry.id}
+                      onClick={() => resolveConflict(entry, 'use_server')}
+                    >
+                      Use server version
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </section>
+          )}
+
+          {failures.length > 0 && (
+            <section className="space-y-2">
+              <h4 className="text-sm font-semibold text-red-700 flex items-center">
+                <AlertTriangle className="h-4 w-4 mr-1" />
+                Couldn't be saved
+              </h4>
+              {failures.map(entry => (
+                <div key={entry.id} className="rounded-md border border-red-200 bg-red-50 p-3 space-y-2">
+                  <p className="text-sm font-medium text-gray-900">{entry.label}</p>
+                  {entry.lastError && <p className="text-xs text-red-700">{entry.lastError}</p>}
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      disabled={busyId === entry.id || !isOnline}
+                      onClick={() => runAction(entry, () => syncOutbox.retry(entry.id))}
+                    >
+                      Retry
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={busyId === entry.id}
+                      onClick={() => runAction(entry, () => syncOutbox.discard(entry.id))}
+                    >
+                      Discard
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </section>
+          )}
+
+          {pending.length > 0 && (
+            <section className="space-y-2">
+              <h4 className="text-sm font-semibold text-gray-700 flex items-center">
+                <Clock className="h-4 w-4 mr-1" />
+                Waiting to be sent
+              </h4>
+              {pending.map(entry => (
+                <div key={entry.id} className="rounded-md border border-gray-200 p-3">
+                  <p className="text-sm font-medium text-gray-900">{entry.label}</p>
+                  <p className="text-xs text-gray-500">
+                    Made {formatTimestamp(entry.createdAt)}
+                    {entry.attempts > 0 && ` · ${entry.attempts} ${entry.attempts === 1 ? 'attempt' : 'attempts'}`}
+                  </p>
+                </div>
+              ))}
+              <div className="flex items-center justify-between pt-1">
+                <p className="text-xs text-gray-500">
+                  {isOnline && nextRetryAt && nextRetryAt > Date.now()
+                    ? `Next try at ${format(nextRetryAt, TIME_FORMAT)}`
+                    : isOnline ? "Sending..." : "Will be sent when you're back online"}
+                </p>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={isSyncing || !isOnline}
+                  onClick={() => syncOutbox.syncNow()}
+                >
+                  {isSyncing
+                    ? <Loader className="h-3 w-3 mr-1 animate-spin" />
+                    : <RefreshCw className="h-3 w-3 mr-1" />}
+                  Sync now
+                </Button>
+              </div>
+            </section>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
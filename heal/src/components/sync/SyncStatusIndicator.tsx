@@ -0,0 +1,49 @@
+import { useState } from "react";
+import { AlertTriangle, CloudOff, CloudUpload, Loader } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useSyncStatus } from "@/hooks/useSyncStatus";
+import { SyncStatusDialog } from "./SyncStatusDialog";
+
+// Navbar badge for offline mode and queued changes; hidden when everything is in sync
+export function SyncStatusIndicator() {
+  const { pendingCount, conflicts, failures, isOnline, isSyncing } = useSyncStatus();
+  const [showDialog, setShowDialog] = useState(false);
+
+  const issueCount = conflicts.length + failures.length;
+
+  if (isOnline && pendingCount === 0 && issueCount === 0) {
+    return null;
+  }
+
+  let icon = <CloudUpload className="h-4 w-4 mr-1" />;
+  let text = `${pendingCount} pending`;
+  let className = "text-blue-700 border-blue-200 bg-blue-50 hover:bg-blue-100";
+
+  if (issueCount > 0) {
+    icon = <AlertTriangle className="h-4 w-4 mr-1" />;
+    text = `${issueCount} need${issueCount === 1 ? 's' : ''} attention`;
+    className = "text-amber-800 border-amber-200 bg-amber-50 hover:bg-amber-100";
+  } else if (!isOnline) {
+    icon = <CloudOff className="h-4 w-4 mr-1" />;
+    text = pendingCount > 0 ? `Offline · ${pendingCount} pending` : "Offline";
+    className = "text-gray-700 border-gray-200 bg-gray-50 hover:bg-gray-100";
+  } else if (isSyncing) {
+    icon = <Loader className="h-4 w-4 mr-1 animate-spin" />;
+    text = "Syncing...";
+  }
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        className={`text-xs ${className}`}
+        onClick={() => setShowDialog(true)}
+      >
+        {icon}
+        {text}
+      </Button>
+      <SyncStatusDialog isOpen={showDialog} onClose={() => setShowDialog(false)} />
+    </>
+  );
+}
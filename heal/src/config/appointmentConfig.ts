@@ -8,6 +8,11 @@
 // This should match the server configuration
 export const CANCELLATION_WINDOW_HOURS = 0;
 
+// UTC offset of the clinic's local time in minutes (330 = IST, UTC+05:30)
+// Doctor working hours and appointment days are in clinic time
+// This should match the server configuration
+export const CLINIC_UTC_OFFSET_MINUTES = 330;
+
 // Format to display appointment dates
 export const DATE_FORMAT = "MMMM d, yyyy";
 
@@ -0,0 +1,91 @@
+/**
+ * Appointment status lifecycle
+ *
+ * The statuses and transitions are shared with the server in shared/appointmentStatus.json.
+ * The server enforces these rules, the client uses them to decide which actions to offer.
+ */
+import lifecycle from '../../../shared/appointmentStatus.json';
+
+// Display labels for each status; every status of the shared lifecycle needs one
+export const STATUS_LABELS = {
+  pending: 'Pending',
+  confirmed: 'Confirmed',
+  in_progress: 'In Progress',
+  completed: 'Completed',
+  cancelled_by_patient: 'Cancelled',
+  cancelled_by_doctor: 'Cancelled by Doctor',
+  no_show: 'No-show'
+} as const;
+
+export type AppointmentStatus = keyof typeof STATUS_LABELS;
+
+export type AppointmentActor = 'patient' | 'doctor' | 'system';
+
+export type TransitionTiming = 'before_start' | 'after_start' | 'any';
+
+export interface StatusTransition {
+  from: AppointmentStatus;
+  to: AppointmentStatus;
+  actors: AppointmentActor[];
+  timing: TransitionTiming;
+}
+
+export const APPOINTMENT_STATUSES = lifecycle.statuses as AppointmentStatus[];
+
+// Statuses that no longer hold the doctor's slot
+export const CANCELLED_STATUSES = lifecycle.cancelledStatuses as AppointmentStatus[];
+
+// Statuses after which nothing can change, except a doctor correcting a no-show
+export const FINAL_STATUSES = lifecycle.finalStatuses as AppointmentStatus[];
+
+// Statuses from which a patient may move the appointment to another slot
+export const RESCHEDULABLE_STATUSES = lifecycle.reschedulableStatuses as AppointmentStatus[];
+
+export const TRANSITIONS = lifecycle.transitions as StatusTransition[];
+
+// Badge colours for each status
+export const STATUS_COLORS: Record<AppointmentStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  confirmed: 'bg-green-100 text-green-800',
+  in_progress: 'bg-blue-100 text-blue-800',
+  completed: 'bg-gray-100 text-gray-800',
+  cancelled_by_patient: 'bg-red-100 text-red-800',
+  cancelled_by_doctor: 'bg-red-100 text-red-800',
+  no_show: 'bg-orange-100 text-orange-800'
+};
+
+// Filters offered in the appointments list
+export const STATUS_FILTERS: { value: string; label: string; statuses: AppointmentStatus[] }[] = [
+  { value: 'all', label: 'All', statuses: [...APPOINTMENT_STATUSES] },
+  { value: 'upcoming', label: 'Upcoming', statuses: ['pending', 'confirmed', 'in_progress'] },
+  { value: 'completed', label: 'Completed', statuses: ['completed'] },
+  { value: 'cancelled', label: 'Cancelled', statuses: CANCELLED_STATUSES },
+  { value: 'no_show', label: 'No-show', statuses: ['no_show'] }
+];
+
+// Check whether an actor may move an appointment between two statuses at a given time
+export const canTransition = (
+  actor: AppointmentActor,
+  from: AppointmentStatus,
+  to: AppointmentStatus,
+  appointmentDate: string | Date,
+  now: Date = new Date()
+): boolean => {
+  const transition = TRANSITIONS.find(t => t.from === from && t.to === to);
+  if (!transition || !transition.actors.includes(actor)) {
+    return false;
+  }
+
+  const hasStarted = new Date(appointmentDate) <= now;
+  if (transition.timing === 'before_start') return !hasStarted;
+  if (transition.timing === 'after_start') return hasStarted;
+  return true;
+};
+
+export const isCancelledStatus = (status: AppointmentStatus): boolean => CANCELLED_STATUSES.includes(status);
+
+export const getStatusLabel = (status: string): string =>
+  STATUS_LABELS[status as AppointmentStatus] || status.replace(/_/g, ' ');
+
+export const getStatusColor = (status: string): string =>
+  STATUS_COLORS[status as AppointmentStatus] || 'bg-yellow-100 text-yellow-800';
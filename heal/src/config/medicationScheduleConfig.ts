@@ -0,0 +1,17 @@
+/**
+ * Configuration for medication schedules and dose reminders
+ */
+import type { FoodInstruction } from '@/services/medicationScheduleService';
+
+// Wording of each food instruction
+export const FOOD_INSTRUCTION_LABELS: Record<FoodInstruction, string> = {
+  with_food: 'With food',
+  without_food: 'On an empty stomach',
+  any: 'With or without food'
+};
+
+// How often dose reminders reload schedules, to pick up changes made on other devices
+export const SCHEDULE_REFRESH_INTERVAL_MS = 15 * 60 * 1000;
+
+// Same limit as the server's medication schedule config
+export const MAX_DOSES_PER_DAY = 12;
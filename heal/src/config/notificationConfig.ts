@@ -0,0 +1,9 @@
+/**
+ * Configuration for the notification centre
+ */
+
+// How often the notification bell checks for new notifications
+export const NOTIFICATION_POLL_INTERVAL_MS = 60 * 1000;
+
+// Largest unread count shown on the bell before it switches to "9+"
+export const MAX_UNREAD_BADGE_COUNT = 9;
@@ -0,0 +1,13 @@
+/**
+ * User roles
+ *
+ * Mirrors server/config/roles.js - keep both in sync.
+ * The server enforces access, the client uses roles to decide which pages and links to show.
+ */
+
+export const ROLES = ['patient', 'doctor', 'support', 'admin'] as const;
+
+export type Role = typeof ROLES[number];
+
+// Roles assumed for accounts stored before roles existed
+export const DEFAULT_ROLES: Role[] = ['patient'];
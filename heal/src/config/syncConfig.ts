@@ -0,0 +1,12 @@
+/**
+ * Configuration for the offline change queue (see services/syncOutbox.ts)
+ */
+
+// Wait before the first retry of a change that could not be sent; doubles with every try
+export const RETRY_BASE_DELAY_MS = 5 * 1000;
+
+// Longest wait between two retries
+export const RETRY_MAX_DELAY_MS = 5 * 60 * 1000;
+
+// After this many tries a change is marked as failed and needs the user's attention
+export const MAX_SYNC_ATTEMPTS = 8;
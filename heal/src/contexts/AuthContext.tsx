@@ -1,18 +1,25 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from "react";
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from "react";
 import * as authService from "../services/authService";
+import { onUnauthorized } from "../services/apiClient";
+import { syncOutbox } from "../services/syncOutbox";
 import { useNavigate } from 'react-router-dom';
 import { useLoading } from "./LoadingContext";
 import { usePrescription } from "./PrescriptionContext";
+import { Role } from "@/config/roles";
 
 interface User {
   id: string;
   email: string;
+  roles: Role[];
+  doctorId?: string | null;
 }
 
 interface AuthContextType {
   user: User | null;
   token: string | null;
   isAuthenticated: boolean;
+  isDoctor: boolean;
+  hasRole: (...roles: Role[]) => boolean;
   login: (email: string, password: string) => Promise<void>;
   register: (email: string, password: string) => Promise<void>;
   logout: () => void;
@@ -36,7 +43,7 @@ interface AuthProviderProps {
 }
 
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
-  const [authState, setAuthState] = useState({
+  const [authState, setAuthState] = useState<authService.AuthState>({
     user: null,
     token: null,
     isAuthenticated: false,
@@ -45,7 +52,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [error, setError] = useState<string | null>(null);
   const navigate = useNavigate();
   const { startLoading, stopLoading } = useLoading();
-  const prescription = usePrescription();
+  const { clearPrescriptionState } = usePrescription();
 
   useEffect(() => {
     // Initialize auth state from localStorage on mount
@@ -92,21 +99,23 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
-  const logout = () => {
+  const logout = useCallback(() => {
     // Show a short loading indicator on logout
     startLoading();
     
     // Reset prescription state
-    prescription.clearPrescriptionState();
+    clearPrescriptionState();
     
     // Clear all application-related localStorage items
     localStorage.removeItem('healiofy_chat_messages');
     localStorage.removeItem('healiofy_chat_history');
     localStorage.removeItem('healiofy_chat_context');
-    localStorage.removeItem('pendingAppointmentOperations');
     localStorage.removeItem('cachedAppointments');
     localStorage.removeItem('successfulAppointmentEndpoint');
     
+    // Queued offline changes belong to this account
+    syncOutbox.clear();
+    
     // Call the auth service logout to clear user and token
     authService.logout();
     
@@ -120,6 +129,15 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     setTimeout(() => {
       stopLoading();
     }, 500);
+  }, [startLoading, stopLoading, clearPrescriptionState]);
+
+  // Sign out when the server rejects the saved session (expired or revoked token);
+  // protected pages then send the user to the login prompt
+  useEffect(() => onUnauthorized(() => logout()), [logout]);
+
+  // Check whether the signed-in user has at least one of the given roles
+  const hasRole = (...roles: Role[]): boolean => {
+    return Boolean(authState.user?.roles.some(role => roles.includes(role)));
   };
 
   const handleRedirectAfterAuth = () => {
@@ -134,6 +152,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     user: authState.user,
     token: authState.token,
     isAuthenticated: authState.isAuthenticated,
+    isDoctor: hasRole('doctor'),
+    hasRole,
     login,
     register,
     logout,
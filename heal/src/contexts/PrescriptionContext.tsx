@@ -1,13 +1,20 @@
-import React, { createContext, useContext, useState, ReactNode, useEffect } from 'react';
-import { PrescriptionAnalysis } from '@/services/prescriptionService';
+import React, { createContext, useContext, useState, ReactNode, useEffect, useCallback } from 'react';
+import { Prescription, PrescriptionAnalysis } from '@/services/prescriptionService';
 
 interface PrescriptionContextType {
+  // Saved history entry being viewed, null for an unsaved analysis
+  prescriptionId: string | null;
+  setPrescriptionId: (id: string | null) => void;
   analysisResult: PrescriptionAnalysis | null;
   setAnalysisResult: (result: PrescriptionAnalysis | null) => void;
   queryText: string;
   setQueryText: (text: string) => void;
+  // Previews of the pages the text was read from, in page order, only for analyses made in this session
+  sourceImagePreviews: string[];
+  setSourceImagePreviews: (previews: string[]) => void;
   analysisTab: string;
   setAnalysisTab: (tab: string) => void;
+  openPrescription: (prescription: Prescription) => void;
   clearPrescriptionState: () => void;
 }
 
@@ -25,74 +32,63 @@ interface PrescriptionProviderProps {
   children: ReactNode;
 }
 
-// Helper function to safely parse JSON from localStorage
-const safelyParseJSON = (json: string | null) => {
-  if (!json) return null;
-  try {
-    return JSON.parse(json);
-  } catch (e) {
-    console.error('Failed to parse stored prescription data', e);
-    return null;
-  }
-};
+// Keys of the single analysis slot kept in localStorage before analyses were saved on the server
+const LEGACY_STORAGE_KEYS = [
+  'healiofy_prescription_result',
+  'healiofy_prescription_query',
+  'healiofy_prescription_tab'
+];
 
 export const PrescriptionProvider: React.FC<PrescriptionProviderProps> = ({ children }) => {
-  // Load stored values from localStorage on initial render
-  const [analysisResult, setAnalysisResultState] = useState<PrescriptionAnalysis | null>(() => {
-    return safelyParseJSON(localStorage.getItem('healiofy_prescription_result'));
-  });
-  
-  const [queryText, setQueryTextState] = useState<string>(() => {
-    return localStorage.getItem('healiofy_prescription_query') || '';
-  });
-  
-  const [analysisTab, setAnalysisTabState] = useState<string>(() => {
-    return localStorage.getItem('healiofy_prescription_tab') || 'analysis';
-  });
+  // Analyses live in the prescription history; only the one being viewed is kept here
+  const [prescriptionId, setPrescriptionId] = useState<string | null>(null);
+  const [analysisResult, setAnalysisResult] = useState<PrescriptionAnalysis | null>(null);
+  const [queryText, setQueryText] = useState<string>('');
+  const [sourceImagePreviews, setSourceImagePreviews] = useState<string[]>([]);
+  const [analysisTab, setAnalysisTab] = useState<string>('analysis');
 
-  // Wrap setState functions to also update localStorage
-  const setAnalysisResult = (result: PrescriptionAnalysis | null) => {
-    setAnalysisResultState(result);
-    if (result) {
-      localStorage.setItem('healiofy_prescription_result', JSON.stringify(result));
-    } else {
-      localStorage.removeItem('healiofy_prescription_result');
-    }
-  };
+  // Remove the old localStorage slot, which could hold another user's analysis
+  useEffect(() => {
+    LEGACY_STORAGE_KEYS.forEach(key => localStorage.removeItem(key));
+  }, []);
 
-  const setQueryText = (text: string) => {
-    setQueryTextState(text);
-    localStorage.setItem('healiofy_prescription_query', text);
-  };
-
-  const setAnalysisTab = (tab: string) => {
-    setAnalysisTabState(tab);
-    localStorage.setItem('healiofy_prescription_tab', tab);
-  };
+  // Show a saved analysis from the history
+  const openPrescription = useCallback((prescription: Prescription) => {
+    setPrescriptionId(prescription._id);
+    setAnalysisResult(prescription.analysis);
+    setQueryText(prescription.ocrText);
+    // The history keeps no images
+    setSourceImagePreviews([]);
+    setAnalysisTab('analysis');
+  }, []);
 
   // Function to clear all prescription-related state
-  const clearPrescriptionState = () => {
-    setAnalysisResultState(null);
-    setQueryTextState('');
-    setAnalysisTabState('analysis');
-    localStorage.removeItem('healiofy_prescription_result');
-    localStorage.removeItem('healiofy_prescription_query');
-    localStorage.removeItem('healiofy_prescription_tab');
-  };
+  const clearPrescriptionState = useCallback(() => {
+    setPrescriptionId(null);
+    setAnalysisResult(null);
+    setQueryText('');
+    setSourceImagePreviews([]);
+    setAnalysisTab('analysis');
+  }, []);
 
   return (
-    <PrescriptionContext.Provider 
-      value={{ 
-        analysisResult, 
+    <PrescriptionContext.Provider
+      value={{
+        prescriptionId,
+        setPrescriptionId,
+        analysisResult,
         setAnalysisResult,
         queryText,
         setQueryText,
+        sourceImagePreviews,
+        setSourceImagePreviews,
         analysisTab,
         setAnalysisTab,
+        openPrescription,
         clearPrescriptionState
       }}
     >
       {children}
     </PrescriptionContext.Provider>
   );
-}; 
\ No newline at end of file
+};
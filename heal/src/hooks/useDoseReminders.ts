@@ -0,0 +1,95 @@
+import { useEffect, useState } from 'react';
+import { format, startOfTomorrow } from 'date-fns';
+import { FOOD_INSTRUCTION_LABELS, SCHEDULE_REFRESH_INTERVAL_MS } from '@/config/medicationScheduleConfig';
+import {
+  MedicationSchedule,
+  ScheduledDose,
+  getDosesForDay,
+  getMedicationSchedules,
+  subscribeToScheduleChanges
+} from '@/services/medicationScheduleService';
+
+// Whether this browser can show notifications at all
+export const canShowDoseNotifications = (): boolean => typeof window !== 'undefined' && 'Notification' in window;
+
+// Mounted reminder hooks, told when notification permission is granted
+const permissionListeners = new Set<(permission: NotificationPermission) => void>();
+
+// Ask for permission to show dose notifications (must be called from a user action)
+export const requestDoseNotificationPermission = async (): Promise<NotificationPermission> => {
+  if (!canShowDoseNotifications()) return 'denied';
+  if (Notification.permission !== 'default') return Notification.permission;
+
+  const permission = await Notification.requestPermission();
+  permissionListeners.forEach(listener => listener(permission));
+  return permission;
+};
+
+const showDoseNotification = (dose: ScheduledDose) => {
+  const { item } = dose;
+  const body = [item.dose, item.food !== 'any' && FOOD_INSTRUCTION_LABELS[item.food], item.instructions]
+    .filter(Boolean)
+    .join(' · ');
+
+  // The tag stops other open tabs from showing the same dose twice
+  new Notification(`Time to take ${item.name}`, {
+    body,
+    tag: `dose-${dose.scheduleId}-${item._id}-${format(dose.at, 'yyyy-MM-dd')}-${dose.time}`
+  });
+};
+
+/**
+ * Show a browser notification at each of today's dose times while the app is open.
+ * Schedules are reloaded periodically and whenever they are changed in this tab.
+ */
+export const useDoseReminders = (enabled: boolean) => {
+  const [schedules, setSchedules] = useState<MedicationSchedule[]>([]);
+  const [today, setToday] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [permission, setPermission] = useState<NotificationPermission>(() =>
+    canShowDoseNotifications() ? Notification.permission : 'denied'
+  );
+
+  useEffect(() => {
+    permissionListeners.add(setPermission);
+    return () => {
+      permissionListeners.delete(setPermission);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!enabled || !canShowDoseNotifications()) return;
+
+    const loadSchedules = async () => {
+      try {
+        setSchedules(await getMedicationSchedules());
+      } catch (error) {
+        console.error('Error fetching medication schedules:', (error as Error).message);
+      }
+    };
+
+    loadSchedules();
+    const interval = setInterval(loadSchedules, SCHEDULE_REFRESH_INTERVAL_MS);
+    const unsubscribe = subscribeToScheduleChanges(loadSchedules);
+
+    return () => {
+      clearInterval(interval);
+      unsubscribe();
+    };
+  }, [enabled]);
+
+  useEffect(() => {
+    if (!enabled || permission !== 'granted') return;
+
+    const now = new Date();
+    const upcoming = getDosesForDay(schedules.filter(schedule => schedule.remindersEnabled), now)
+      .filter(dose => dose.at > now);
+
+    const timers = upcoming.map(dose =>
+      setTimeout(() => showDoseNotification(dose), dose.at.getTime() - now.getTime())
+    );
+    // Move on to the next day's doses after midnight
+    timers.push(setTimeout(() => setToday(format(new Date(), 'yyyy-MM-dd')), startOfTomorrow().getTime() - now.getTime()));
+
+    return () => timers.forEach(clearTimeout);
+  }, [enabled, permission, schedules, today]);
+};
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { SyncStatus, syncOutbox } from '@/services/syncOutbox';
+
+// Status of the offline outbox; re-renders whenever a queued change is added, sent or resolved
+export const useSyncStatus = (): SyncStatus => {
+  return useSyncExternalStore(syncOutbox.subscribe, syncOutbox.getStatus);
+};
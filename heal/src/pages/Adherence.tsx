@@ -0,0 +1,241 @@
+import { useEffect, useState } from "react";
+import { Helmet } from "react-helmet-async";
+import { Link, useSearchParams } from "react-router-dom";
+import { format, parseISO, subDays } from "date-fns";
+import { ArrowLeft, Download, Loader, Loader2 } from "lucide-react";
+import { MainLayout } from "@/components/layout/MainLayout";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { DoseChecklist } from "@/components/adherence/DoseChecklist";
+import { AdherenceChart } from "@/components/adherence/AdherenceChart";
+import { MissedDoseWarning } from "@/components/adherence/MissedDoseWarning";
+import { PrescriptionSummary, getPrescriptionHistory } from "@/services/prescriptionService";
+import {
+  AdherenceDose,
+  AdherenceRange,
+  AdherenceReport,
+  downloadAdherenceCsv,
+  getAdherenceReport
+} from "@/services/adherenceService";
+
+// Days in the weekly and monthly views
+const WEEK_DAYS = 7;
+const MONTH_DAYS = 30;
+
+const getTitle = (prescription: PrescriptionSummary) =>
+  prescription.title || `Prescription of ${format(parseISO(prescription.createdAt), "MMM d, yyyy")}`;
+
+// Report range of the monthly view, ending today
+const getRange = (today: string): AdherenceRange => ({
+  from: format(subDays(parseISO(today), MONTH_DAYS - 1), "yyyy-MM-dd"),
+  to: today
+});
+
+const formatRate = (rate: number | null) => rate === null ? "–" : `${rate}%`;
+
+const Adherence = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [prescriptions, setPrescriptions] = useState<PrescriptionSummary[]>([]);
+  const [report, setReport] = useState<AdherenceReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const today = format(new Date(), "yyyy-MM-dd");
+  const prescriptionId = searchParams.get("prescription") || prescriptions[0]?._id || null;
+
+  useEffect(() => {
+    const loadPrescriptions = async () => {
+      try {
+        const history = await getPrescriptionHistory();
+        setPrescriptions(history);
+        if (history.length === 0) {
+          setIsLoading(false);
+        }
+      } catch (err) {
+        console.error("Error fetching prescription history:", (err as Error).message);
+        setError("Failed to load your prescriptions. Please try again later.");
+        setIsLoading(false);
+      }
+    };
+
+    loadPrescriptions();
+  }, []);
+
+  useEffect(() => {
+    if (!prescriptionId) return;
+
+    const loadReport = async () => {
+      try {
+        setIsLoading(true);
+        setReport(await getAdherenceReport(prescriptionId, getRange(today)));
+        setError(null);
+      } catch (err) {
+        console.error("Error fetching adherence report:", (err as Error).message);
+        setError("Failed to load your adherence report. Please try again later.");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadReport();
+  }, [prescriptionId, today]);
+
+  // Show a logged dose straight away, then reload the summary, charts and warnings
+  const handleLogged = async (logged: AdherenceDose) => {
+    setReport(prev => prev && {
+      ...prev,
+      doses: prev.doses.map(dose =>
+        dose.medication === logged.medication && dose.date === logged.date && dose.time === logged.time
+          ? logged
+          : dose
+      )
+    });
+
+    try {
+      setReport(await getAdherenceReport(prescriptionId, getRange(today)));
+    } catch (err) {
+      console.error("Error refreshing adherence report:", (err as Error).message);
+    }
+  };
+
+  const handleExport = async () => {
+    if (!prescriptionId) return;
+
+    try {
+      setIsExporting(true);
+      await downloadAdherenceCsv(prescriptionId, getRange(today));
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: (err as Error).message || "Failed to export the adherence report",
+        variant: "destructive"
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <MainLayout>
+      <Helmet>
+        <title>Medication Adherence | Healiofy</title>
+        <meta name="description" content="Log your doses and see how well you keep to your medication schedule" />
+      </Helmet>
+
+      <div className="container py-8 max-w-4xl">
+        <Link
+          to="/medication-schedule"
+          className="inline-flex items-center text-sm text-medical-primary hover:underline mb-4"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to medication schedule
+        </Link>
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <h1 className="text-3xl font-bold">Medication Adherence</h1>
+          {report && (
+            <Button variant="outline" onClick={handleExport} disabled={isExporting}>
+              {isExporting
+                ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                : <Download className="h-4 w-4 mr-2" />}
+              Export CSV
+            </Button>
+          )}
+        </div>
+
+        {prescriptions.length > 1 && prescriptionId && (
+          <Select
+            value={prescriptionId}
+            onValueChange={(id) => setSearchParams({ prescription: id }, { replace: true })}
+          >
+            <SelectTrigger className="mb-6 md:w-96">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {prescriptions.map(prescription => (
+                <SelectItem key={prescription._id} value={prescription._id}>
+                  {getTitle(prescription)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center items-center py-12">
+            <Loader className="h-10 w-10 text-medical-primary animate-spin" />
+          </div>
+        ) : error ? (
+          <p className="text-center text-red-600 py-8">{error}</p>
+        ) : !report ? (
+          <div className="text-center py-12">
+            <p className="text-gray-600 mb-4">Analyze a prescription to start tracking your doses.</p>
+            <Link to="/prescription-analysis" className="text-medical-primary font-medium hover:underline">
+              Analyze a prescription
+            </Link>
+          </div>
+        ) : (
+          <>
+            <MissedDoseWarning warnings={report.streakWarnings} />
+
+            <DoseChecklist
+              prescriptionId={prescriptionId}
+              doses={report.doses.filter(dose => dose.date === today)}
+              onLogged={handleLogged}
+            />
+
+            <Card className="mb-6">
+              <CardHeader>
+                <CardTitle className="text-xl">Adherence</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Tabs defaultValue="week">
+                  <TabsList className="mb-4">
+                    <TabsTrigger value="week">Last 7 days</TabsTrigger>
+                    <TabsTrigger value="month">Last 30 days</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="week">
+                    <AdherenceChart days={report.days.slice(-WEEK_DAYS)} labelFormat="EEE" />
+                  </TabsContent>
+                  <TabsContent value="month">
+                    <AdherenceChart days={report.days} labelFormat="MMM d" />
+                  </TabsContent>
+                </Tabs>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-xl">By medication (last 30 days)</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ul className="divide-y">
+                  {report.medications.map(medication => (
+                    <li key={medication.name} className="flex flex-wrap items-center justify-between gap-2 py-3">
+                      <span className="font-medium">{medication.name}</span>
+                      <span className="text-sm text-gray-600">
+                        {medication.taken + medication.late} of {medication.expected - medication.pending} doses taken
+                        {" · "}
+                        <strong className="text-gray-900">{formatRate(medication.rate)}</strong>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+                <p className="text-sm text-gray-600 mt-4">
+                  Overall: <strong className="text-gray-900">{formatRate(report.summary.rate)}</strong> of due doses taken
+                  ({report.summary.late} late, {report.summary.skipped} skipped, {report.summary.missed} missed).
+                </p>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </MainLayout>
+  );
+};
+
+export default Adherence;
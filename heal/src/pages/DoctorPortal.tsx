@@ -0,0 +1,68 @@
+import { useEffect, useState } from 'react';
+import { Helmet } from 'react-helmet-async';
+import { MainLayout } from '@/components/layout/MainLayout';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Inbox, CalendarDays, Users } from 'lucide-react';
+import { AppointmentInbox } from '@/components/doctor-portal/AppointmentInbox';
+import { DoctorAgenda } from '@/components/doctor-portal/DoctorAgenda';
+import { PatientList } from '@/components/doctor-portal/PatientList';
+import { getMyDoctorProfile } from '@/services/doctorPortalService';
+import { Doctor } from '@/services/doctorService';
+
+const DoctorPortal = () => {
+  const [doctor, setDoctor] = useState<Doctor | null>(null);
+
+  useEffect(() => {
+    getMyDoctorProfile()
+      .then(setDoctor)
+      .catch(error => console.error('Error loading doctor profile:', error));
+  }, []);
+
+  return (
+    <MainLayout>
+      <Helmet>
+        <title>Doctor Portal | Healiofy</title>
+        <meta name="description" content="Manage your appointment requests, agenda and patients" />
+      </Helmet>
+
+      <div className="container py-8">
+        <h1 className="text-3xl font-bold mb-1">Doctor Portal</h1>
+        {doctor && (
+          <p className="text-gray-600 mb-6">
+            {doctor.name} · {doctor.specialty}
+          </p>
+        )}
+
+        <div className="bg-white shadow-sm rounded-lg p-6">
+          <Tabs defaultValue="inbox">
+            <TabsList className="grid w-full grid-cols-3 mb-6">
+              <TabsTrigger value="inbox">
+                <Inbox className="h-4 w-4 mr-2" />
+                Requests
+              </TabsTrigger>
+              <TabsTrigger value="agenda">
+                <CalendarDays className="h-4 w-4 mr-2" />
+                Agenda
+              </TabsTrigger>
+              <TabsTrigger value="patients">
+                <Users className="h-4 w-4 mr-2" />
+                Patients
+              </TabsTrigger>
+            </TabsList>
+            <TabsContent value="inbox">
+              <AppointmentInbox />
+            </TabsContent>
+            <TabsContent value="agenda">
+              <DoctorAgenda />
+            </TabsContent>
+            <TabsContent value="patients">
+              <PatientList />
+            </TabsContent>
+          </Tabs>
+        </div>
+      </div>
+    </MainLayout>
+  );
+};
+
+export default DoctorPortal;
@@ -4,7 +4,7 @@ import { MainLayout } from '@/components/layout/MainLayout';
 import { DoctorHeader } from '../components/doctors/DoctorHeader';
 import { DoctorFilters } from '../components/doctors/DoctorFilters';
 import { DoctorList } from '../components/doctors/DoctorList';
-import { checkApiConnection, API_URL } from '../services/doctorService';
+import { checkApiConnection, API_URL } from '../services/apiClient';
 import { useToast } from '@/components/ui/use-toast';
 
 const Doctors = () => {
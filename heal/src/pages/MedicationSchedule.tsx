@@ -0,0 +1,152 @@
+import { useEffect, useState } from "react";
+import { Helmet } from "react-helmet-async";
+import { Link } from "react-router-dom";
+import { BellRing, CalendarPlus, Loader, Loader2 } from "lucide-react";
+import { MainLayout } from "@/components/layout/MainLayout";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import { TodayDoses } from "@/components/medication-schedule/TodayDoses";
+import { ScheduleCard } from "@/components/medication-schedule/ScheduleCard";
+import { canShowDoseNotifications, requestDoseNotificationPermission } from "@/hooks/useDoseReminders";
+import {
+  MedicationSchedule as Schedule,
+  downloadScheduleCalendar,
+  getMedicationSchedules
+} from "@/services/medicationScheduleService";
+
+// How often the list of today's doses is refreshed, so past doses are marked
+const CLOCK_INTERVAL_MS = 60 * 1000;
+
+const MedicationSchedule = () => {
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [now, setNow] = useState(() => new Date());
+  const [permission, setPermission] = useState<NotificationPermission | null>(() =>
+    canShowDoseNotifications() ? Notification.permission : null
+  );
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const loadSchedules = async () => {
+      try {
+        setSchedules(await getMedicationSchedules());
+        setError(null);
+      } catch (err) {
+        console.error("Error fetching medication schedules:", (err as Error).message);
+        setError("Failed to load your medication schedule. Please try again later.");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadSchedules();
+  }, []);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), CLOCK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const handleEnableNotifications = async () => {
+    setPermission(await requestDoseNotificationPermission());
+  };
+
+  const handleScheduleUpdate = (updated: Schedule) => {
+    setSchedules(prev => prev.map(s => s._id === updated._id ? updated : s));
+    // Turning reminders on may have asked for notification permission
+    if (canShowDoseNotifications()) {
+      setPermission(Notification.permission);
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      setIsExporting(true);
+      await downloadScheduleCalendar();
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: (err as Error).message || "Failed to export the medication schedule",
+        variant: "destructive"
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const hasReminders = schedules.some(schedule => schedule.remindersEnabled);
+
+  return (
+    <MainLayout>
+      <Helmet>
+        <title>My Medication Schedule | Healiofy</title>
+        <meta name="description" content="Your daily doses, reminders and calendar export" />
+      </Helmet>
+
+      <div className="container py-8 max-w-4xl">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <h1 className="text-3xl font-bold">My Medication Schedule</h1>
+          {schedules.length > 0 && (
+            <Button variant="outline" onClick={handleExport} disabled={isExporting}>
+              {isExporting
+                ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                : <CalendarPlus className="h-4 w-4 mr-2" />}
+              Export to calendar (.ics)
+            </Button>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center py-12">
+            <Loader className="h-10 w-10 text-medical-primary animate-spin" />
+          </div>
+        ) : error ? (
+          <p className="text-center text-red-600 py-8">{error}</p>
+        ) : schedules.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-gray-600 mb-4">
+              You have no medication schedule yet. Analyze a prescription and add it to your schedule.
+            </p>
+            <Link to="/prescription-analysis" className="text-medical-primary font-medium hover:underline">
+              Analyze a prescription
+            </Link>
+          </div>
+        ) : (
+          <>
+            {hasReminders && permission === "default" && (
+              <div className="flex flex-wrap items-center justify-between gap-3 p-4 mb-6 bg-blue-50 border border-blue-200 rounded-lg">
+                <p className="flex items-center text-sm text-blue-900">
+                  <BellRing className="h-4 w-4 mr-2 flex-shrink-0" />
+                  Allow notifications to be reminded at each dose time while Healiofy is open.
+                </p>
+                <Button size="sm" onClick={handleEnableNotifications}>Enable reminders</Button>
+              </div>
+            )}
+            {hasReminders && permission === "denied" && (
+              <p className="text-sm text-gray-600 mb-6">
+                Notifications are blocked in your browser. Export the schedule to your calendar app to get reminders there.
+              </p>
+            )}
+
+            <TodayDoses schedules={schedules} now={now} />
+
+            <div className="space-y-6">
+              {schedules.map(schedule => (
+                <ScheduleCard
+                  key={schedule._id}
+                  schedule={schedule}
+                  onUpdate={handleScheduleUpdate}
+                  onDelete={(id) => setSchedules(prev => prev.filter(s => s._id !== id))}
+                />
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </MainLayout>
+  );
+};
+
+export default MedicationSchedule;
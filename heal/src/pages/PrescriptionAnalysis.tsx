@@ -1,36 +1,106 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Helmet } from 'react-helmet-async';
+import { Link, useSearchParams } from 'react-router-dom';
 import { MainLayout } from '@/components/layout/MainLayout';
 import { PrescriptionHeader } from '../components/prescription/PrescriptionHeader';
 import { PrescriptionAnalysisForm } from '../components/prescription/PrescriptionAnalysisForm';
 import { PrescriptionResult } from '../components/prescription/PrescriptionResult';
+import { CreateScheduleButton } from '../components/medication-schedule/CreateScheduleButton';
 import { PrescriptionAssistant } from '../components/prescription/PrescriptionAssistant';
-import { analyzePrescription } from '../services/prescriptionService';
+import { MedicationRow, PrescriptionSource, analyzePrescription, getPrescription } from '../services/prescriptionService';
 import { useToast } from '@/components/ui/use-toast';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { FileText, Bot, Info } from "lucide-react";
+import { FileText, Bot, Info, History, Loader } from "lucide-react";
 import { usePrescription } from '../contexts/PrescriptionContext';
 import { SubscriptionGuard } from '@/components/subscription/SubscriptionGuard';
 
 const PrescriptionAnalysis = () => {
   const [isLoading, setIsLoading] = useState(false);
+  const [isOpening, setIsOpening] = useState(false);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const requestedId = searchParams.get('id');
   const { 
+    prescriptionId,
+    setPrescriptionId,
     analysisResult, 
     setAnalysisResult, 
     queryText, 
     setQueryText,
+    sourceImagePreviews,
+    setSourceImagePreviews,
     analysisTab,
-    setAnalysisTab
+    setAnalysisTab,
+    openPrescription
   } = usePrescription();
   const { toast } = useToast();
 
-  const handleAnalysisSubmit = async (ocrText: string) => {
+  // Keep ?id= in sync with the analysis shown, so history links and page reloads reopen it
+  useEffect(() => {
+    if (!requestedId) {
+      if (prescriptionId) {
+        setSearchParams({ id: prescriptionId }, { replace: true });
+      }
+      return;
+    }
+
+    if (requestedId === prescriptionId) {
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadPrescription = async () => {
+      try {
+        setIsOpening(true);
+        const prescription = await getPrescription(requestedId);
+        if (!cancelled) {
+          openPrescription(prescription);
+        }
+      } catch (error) {
+        console.error("Error opening prescription:", (error as Error).message);
+        if (!cancelled) {
+          toast({
+            title: "Prescription not found",
+            description: "This analysis may have been deleted.",
+            variant: "destructive"
+          });
+          setSearchParams({}, { replace: true });
+        }
+      } finally {
+        if (!cancelled) {
+          setIsOpening(false);
+        }
+      }
+    };
+
+    loadPrescription();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [requestedId, prescriptionId, openPrescription, setSearchParams, toast]);
+
+  const handleAnalysisSubmit = async (
+    ocrText: string,
+    sourceImage: PrescriptionSource | null,
+    pagePreviews: string[],
+    medications: MedicationRow[] | null
+  ) => {
     try {
       setIsLoading(true);
       setQueryText(ocrText); // Store the query text in context
-      // Call the backend API to analyze the prescription
-      const analysisResult = await analyzePrescription(ocrText);
-      setAnalysisResult(analysisResult);
+      setSourceImagePreviews(pagePreviews);
+      // Call the backend API to analyze the prescription (it is saved to the history)
+      const { analysis, prescriptionId: savedId, cached } = await analyzePrescription(ocrText, sourceImage, medications);
+      setAnalysisResult(analysis);
+      if (cached) {
+        toast({
+          title: "Analyzed before",
+          description: "You analyzed this prescription earlier, so the same analysis is shown and no analysis was used up."
+        });
+      }
+      setPrescriptionId(savedId);
+      setSearchParams(savedId ? { id: savedId } : {}, { replace: true });
       // Automatically switch to the analysis tab when results are available
       setAnalysisTab("analysis");
     } catch (error: any) {
@@ -56,13 +126,28 @@ const PrescriptionAnalysis = () => {
         <main className="flex-grow">
           <PrescriptionHeader />
           <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+            <div className="flex justify-end mb-4">
+              <Link
+                to="/prescription-analysis/history"
+                className="inline-flex items-center text-sm font-medium text-medical-primary hover:underline"
+              >
+                <History className="h-4 w-4 mr-1" />
+                View past analyses
+              </Link>
+            </div>
             <PrescriptionAnalysisForm 
               onSubmit={handleAnalysisSubmit}
               isLoading={isLoading}
             initialText={queryText}
             />
             
-          {analysisResult && (
+          {isOpening && (
+              <div className="flex justify-center py-12">
+                <Loader className="h-8 w-8 text-medical-primary animate-spin" />
+              </div>
+            )}
+
+          {analysisResult && !isOpening && (
               <div className="mt-8">
               <Tabs value={analysisTab} onValueChange={setAnalysisTab} className="w-full">
                   <TabsList className="grid w-full grid-cols-2 mb-8">
@@ -86,11 +171,20 @@ const PrescriptionAnalysis = () => {
                         </p>
                       </div>
                     </div>
-                  <PrescriptionResult result={analysisResult} />
+                    {prescriptionId && (
+                      <div className="flex justify-end mb-4">
+                        <CreateScheduleButton prescriptionId={prescriptionId} />
+                      </div>
+                    )}
+                  <PrescriptionResult
+                    result={analysisResult}
+                    ocrText={queryText}
+                    imagePreviews={sourceImagePreviews}
+                  />
                   </TabsContent>
                   
                   <TabsContent value="assistant" className="mt-0">
-                  <PrescriptionAssistant result={analysisResult} />
+                  <PrescriptionAssistant result={analysisResult} prescriptionId={prescriptionId} />
                   </TabsContent>
                 </Tabs>
               </div>
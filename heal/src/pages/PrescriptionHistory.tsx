@@ -0,0 +1,30 @@
+import { Helmet } from "react-helmet-async";
+import { Link } from "react-router-dom";
+import { ArrowLeft } from "lucide-react";
+import { MainLayout } from "@/components/layout/MainLayout";
+import { PrescriptionHistoryList } from "@/components/prescription/PrescriptionHistoryList";
+
+const PrescriptionHistory = () => {
+  return (
+    <MainLayout>
+      <Helmet>
+        <title>Prescription History | Healiofy</title>
+        <meta name="description" content="Review, rename and delete your past prescription analyses" />
+      </Helmet>
+
+      <div className="container py-8 max-w-4xl">
+        <Link
+          to="/prescription-analysis"
+          className="inline-flex items-center text-sm text-medical-primary hover:underline mb-4"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to analysis
+        </Link>
+        <h1 className="text-3xl font-bold mb-6">Prescription History</h1>
+        <PrescriptionHistoryList />
+      </div>
+    </MainLayout>
+  );
+};
+
+export default PrescriptionHistory;
@@ -3,6 +3,7 @@ import { Helmet } from 'react-helmet-async';
 import { MainLayout } from '@/components/layout/MainLayout';
 import { ProfileForm } from '@/components/profile/ProfileForm';
 import { PasswordChangeForm } from '@/components/profile/PasswordChangeForm';
+import { CalendarFeedSettings } from '@/components/profile/CalendarFeedSettings';
 import { getUserProfile, UserProfile } from '@/services/profileService';
 import { useAuth } from '@/contexts/AuthContext';
 import { Card, CardContent } from '@/components/ui/card';
@@ -18,7 +19,7 @@ const Profile = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showSubscriptionDialog, setShowSubscriptionDialog] = useState(false);
-  const { isAuthenticated } = useAuth();
+  const { isAuthenticated, hasRole } = useAuth();
   const { toast } = useToast();
 
   useEffect(() => {
@@ -146,9 +147,12 @@ const Profile = () => {
             </CardContent>
           </Card>
           
-          <div className="space-y-6">
-            <SubscriptionStatus onSubscribe={handleSubscribeClick} />
-          </div>
+          {hasRole('patient') && (
+            <div className="space-y-6">
+              <SubscriptionStatus onSubscribe={handleSubscribeClick} />
+              <CalendarFeedSettings />
+            </div>
+          )}
         </div>
       </div>
       
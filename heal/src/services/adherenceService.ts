@@ -0,0 +1,106 @@
+import { format } from 'date-fns';
+import { apiRequest } from './apiClient';
+
+// What the patient can record for a dose
+export type DoseStatus = 'taken' | 'late' | 'skipped';
+
+// Doses not logged by the end of their day are missed; today's are still pending
+export type AdherenceDoseStatus = DoseStatus | 'missed' | 'pending';
+
+export interface AdherenceDose {
+  medication: string;
+  dose: string;
+  // Day and time the dose is due, in the patient's time zone
+  date: string;
+  time: string;
+  status: AdherenceDoseStatus;
+  loggedAt: string | null;
+}
+
+export interface AdherenceCounts {
+  expected: number;
+  taken: number;
+  late: number;
+  skipped: number;
+  missed: number;
+  pending: number;
+  // Percentage of due doses that were taken (on time or late), null when none were due
+  rate: number | null;
+}
+
+export interface AdherenceDay extends AdherenceCounts {
+  date: string;
+}
+
+export interface MedicationAdherence extends AdherenceCounts {
+  name: string;
+  // Consecutive missed or skipped doses up to the latest due one
+  missedStreak: number;
+}
+
+export interface AdherenceReport {
+  from: string;
+  to: string;
+  summary: AdherenceCounts;
+  days: AdherenceDay[];
+  medications: MedicationAdherence[];
+  streakWarnings: { medication: string; missedStreak: number }[];
+  doses: AdherenceDose[];
+}
+
+export interface DoseLog {
+  _id: string;
+  prescriptionId: string;
+  medication: string;
+  date: string;
+  time: string;
+  status: DoseStatus;
+  updatedAt: string;
+}
+
+export interface AdherenceRange {
+  from: string;
+  to: string;
+}
+
+const getToday = () => format(new Date(), 'yyyy-MM-dd');
+
+// Get the adherence report of a prescription between two days ("YYYY-MM-DD", inclusive)
+export const getAdherenceReport = async (prescriptionId: string, range: AdherenceRange): Promise<AdherenceReport> => {
+  const response = await apiRequest('GET /adherence/:prescriptionId', {
+    params: { prescriptionId },
+    query: { ...range, today: getToday() }
+  });
+  return response.data;
+};
+
+// Record a dose as taken, late or skipped
+export const logDose = async (
+  prescriptionId: string,
+  dose: Pick<AdherenceDose, 'medication' | 'date' | 'time'>,
+  status: DoseStatus
+): Promise<DoseLog> => {
+  const response = await apiRequest('POST /adherence/:prescriptionId/doses', {
+    params: { prescriptionId },
+    body: { ...dose, status, today: getToday() }
+  });
+  return response.data;
+};
+
+// Download the doses of an adherence report as a CSV file
+export const downloadAdherenceCsv = async (prescriptionId: string, range: AdherenceRange): Promise<void> => {
+  const csv = await apiRequest('GET /adherence/:prescriptionId/report.csv', {
+    params: { prescriptionId },
+    query: { ...range, today: getToday() },
+    responseType: 'blob'
+  });
+
+  const url = URL.createObjectURL(csv);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `healiofy-adherence-${range.from}-to-${range.to}.csv`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
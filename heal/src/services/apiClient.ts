@@ -0,0 +1,232 @@
+import axios, { AxiosError, AxiosRequestConfig } from 'axios';
+import type { ApiRoute, ApiRoutes } from './apiRoutes';
+
+export type { ApiRoute, ApiRoutes } from './apiRoutes';
+
+// Define API URL with proper deployment support
+export const API_URL: string = (() => {
+  // Check if we have an environment variable
+  const envApiUrl = import.meta.env.VITE_API_URL;
+  if (envApiUrl) return envApiUrl;
+
+  // Check the current URL to determine if we're on Vercel
+  const isVercel = window.location.hostname.includes('vercel.app');
+  const isProd = import.meta.env.PROD;
+
+  if (isProd) {
+    if (isVercel) {
+      // If we're on Vercel, use the same domain for the API
+      // This assumes your API is deployed on the same Vercel project
+      const domain = window.location.hostname;
+      return `https://${domain}/api`;
+    }
+    // Default production API URL
+    return 'https://healiofy-server.vercel.app/api';
+  }
+
+  // Local development
+  return 'http://localhost:5000/api';
+})();
+
+export type ApiErrorCode =
+  | 'NETWORK_ERROR'
+  | 'TIMEOUT'
+  | 'BAD_REQUEST'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'SUBSCRIPTION_REQUIRED'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'STALE_UPDATE'
+  | 'REQUEST_IN_PROGRESS'
+  | 'SERVER_ERROR'
+  | 'UNKNOWN';
+
+// Every failed request rejects with an ApiError carrying the server's error message
+export class ApiError extends Error {
+  // HTTP status, or null when no response was received
+  readonly status: number | null;
+  readonly code: ApiErrorCode;
+  // Response body, for callers that need extra fields sent with the error
+  readonly data?: unknown;
+
+  constructor(message: string, status: number | null, code: ApiErrorCode, data?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.data = data;
+  }
+
+  // True when the server was never reached, so the request may be retried later
+  get isNetworkError(): boolean {
+    return this.code === 'NETWORK_ERROR' || this.code === 'TIMEOUT';
+  }
+}
+
+interface ErrorBody {
+  code?: string;
+  error?: string;
+  message?: string;
+  subscriptionRequired?: boolean;
+}
+
+const getErrorCode = (status: number, body: ErrorBody | undefined): ApiErrorCode => {
+  if (status === 400) return 'BAD_REQUEST';
+  if (status === 401) return 'UNAUTHORIZED';
+  if (status === 403) return body?.subscriptionRequired ? 'SUBSCRIPTION_REQUIRED' : 'FORBIDDEN';
+  if (status === 404) return 'NOT_FOUND';
+  // The change was based on an outdated copy of the record
+  if (status === 409 && body?.code === 'STALE_UPDATE') return 'STALE_UPDATE';
+  // An earlier request with the same Idempotency-Key has not finished yet
+  if (status === 409 && body?.code === 'REQUEST_IN_PROGRESS') return 'REQUEST_IN_PROGRESS';
+  if (status === 409) return 'CONFLICT';
+  if (status >= 500) return 'SERVER_ERROR';
+  return 'UNKNOWN';
+};
+
+// Convert anything thrown by axios into an ApiError
+const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) {
+    return error;
+  }
+
+  if (!axios.isAxiosError(error)) {
+    return new ApiError((error as Error)?.message || 'Request failed', null, 'UNKNOWN');
+  }
+
+  if (error.code === AxiosError.ECONNABORTED || error.code === AxiosError.ETIMEDOUT) {
+    return new ApiError('The server took too long to respond. Please try again.', null, 'TIMEOUT');
+  }
+
+  if (!error.response) {
+    return new ApiError('No response from server. Please check your internet connection.', null, 'NETWORK_ERROR');
+  }
+
+  const { status, data } = error.response;
+  const body = data && typeof data === 'object' ? data as ErrorBody : undefined;
+  const message = body?.error || body?.message || `Request failed with status ${status}`;
+
+  return new ApiError(message, status, getErrorCode(status, body), data);
+};
+
+type UnauthorizedListener = () => void;
+
+const unauthorizedListeners = new Set<UnauthorizedListener>();
+
+// Subscribe to rejected sessions (a signed-in request answered with 401). Returns an unsubscribe function.
+export const onUnauthorized = (listener: UnauthorizedListener): (() => void) => {
+  unauthorizedListeners.add(listener);
+  return () => {
+    unauthorizedListeners.delete(listener);
+  };
+};
+
+// No default Content-Type: axios sends JSON for objects and multipart for FormData
+const client = axios.create({
+  baseURL: API_URL,
+  timeout: 30000,
+});
+
+// Attach the signed-in user's token to every request
+client.interceptors.request.use(config => {
+  const token = localStorage.getItem('token');
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  return config;
+});
+
+client.interceptors.response.use(
+  response => response,
+  (error: unknown) => {
+    const apiError = toApiError(error);
+
+    // Only an expired or revoked session should sign the user out, not a failed login
+    const sentToken = axios.isAxiosError(error) && Boolean(error.config?.headers?.Authorization);
+    if (apiError.status === 401 && sentToken) {
+      unauthorizedListeners.forEach(listener => listener());
+    }
+
+    return Promise.reject(apiError);
+  }
+);
+
+type RouteDefinition<R extends ApiRoute> = ApiRoutes[R];
+
+interface RequestSettings {
+  timeout?: number;
+  responseType?: AxiosRequestConfig['responseType'];
+  // Sent as the Idempotency-Key header, so the server applies a retried write only once
+  idempotencyKey?: string;
+}
+
+export type RequestOptions<R extends ApiRoute> = Omit<RouteDefinition<R>, 'response'> & RequestSettings;
+
+// Request options without the per-route typing, e.g. for requests stored to send later
+export interface RawRequestOptions extends RequestSettings {
+  params?: Record<string, string>;
+  query?: object;
+  body?: unknown;
+}
+
+// Options can be left out for routes without path params or a required body
+type RequestArgs<R extends ApiRoute> = Record<string, never> extends Omit<RouteDefinition<R>, 'response'>
+  ? [options?: RequestOptions<R>]
+  : [options: RequestOptions<R>];
+
+// Fill ":name" segments of a route path from its params
+const buildPath = (path: string, params: Record<string, string> = {}): string => {
+  return path.replace(/:(\w+)/g, (_, name: string) => {
+    if (params[name] === undefined) {
+      throw new ApiError(`Missing "${name}" for ${path}`, null, 'BAD_REQUEST');
+    }
+    return encodeURIComponent(params[name]);
+  });
+};
+
+/**
+ * Call a server route with options that were checked when they were created (see apiRequest)
+ * Rejects with an ApiError.
+ */
+export const sendRequest = async (route: ApiRoute, options: RawRequestOptions = {}): Promise<unknown> => {
+  const [method, path] = route.split(' ');
+  const { params, query, body, timeout, responseType, idempotencyKey } = options;
+
+  try {
+    const response = await client.request({
+      method,
+      url: buildPath(path, params),
+      params: query,
+      data: body,
+      timeout,
+      responseType,
+      headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined,
+    });
+    return response.data;
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+/**
+ * Call a server route, e.g. apiRequest('PUT /appointments/:id/status', { params: { id }, body: { status } })
+ * Resolves with the typed response body and rejects with an ApiError.
+ */
+export const apiRequest = async <R extends ApiRoute>(
+  route: R,
+  ...[options]: RequestArgs<R>
+): Promise<RouteDefinition<R>['response']> => {
+  return sendRequest(route, options as RawRequestOptions) as Promise<RouteDefinition<R>['response']>;
+};
+
+// Check if the API is reachable
+export const checkApiConnection = async (): Promise<boolean> => {
+  try {
+    const health = await apiRequest('GET /health');
+    return health.status === 'healthy';
+  } catch (error) {
+    console.error('API connection error:', (error as Error).message);
+    return false;
+  }
+};
@@ -0,0 +1,302 @@
+import type { Role } from '@/config/roles';
+import type { AppointmentStatus } from '@/config/appointmentStatus';
+import type { User } from './authService';
+import type { Doctor } from './doctorService';
+import type { Appointment, TimeSlot } from './appointmentService';
+import type {
+  ExtractedText,
+  MedicationRow,
+  PdfPages,
+  Prescription,
+  PrescriptionAnalysis,
+  PrescriptionSource,
+  PrescriptionSummary,
+  TextPreprocessingResult
+} from './prescriptionService';
+import type { ChatbotQuery } from './chatbotService';
+import type {
+  PaymentTransaction,
+  PaymentVerification,
+  SubscriptionStatus,
+  TestAccount
+} from './subscriptionService';
+import type { ProfileUpdateData, UserProfile } from './profileService';
+import type { DoctorAppointment, DoctorPatient } from './doctorPortalService';
+import type { AppNotification } from './notificationService';
+import type { MedicationSchedule, MedicationScheduleUpdate } from './medicationScheduleService';
+import type { AdherenceReport, DoseLog, DoseStatus } from './adherenceService';
+import type { MedicationSuggestion } from './medicationService';
+
+// Response envelopes used by the server
+export interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+}
+
+export interface ApiListResponse<T> {
+  success: boolean;
+  count: number;
+  data: T[];
+}
+
+export interface AuthResponse {
+  user: User;
+  token: string;
+}
+
+// Account details visible to staff (GET /users)
+export interface ManagedUser {
+  _id: string;
+  email: string;
+  name?: string;
+  phone?: string;
+  roles: Role[];
+  doctorId: string | null;
+  subscriptionStatus: SubscriptionStatus['status'];
+  createdAt: string;
+}
+
+export interface HealthResponse {
+  status: string;
+  message: string;
+  timestamp: string;
+}
+
+// Body of a 409 sent when a change was based on an outdated copy (code STALE_UPDATE)
+export interface StaleUpdateResponse<T> {
+  success: false;
+  code: 'STALE_UPDATE';
+  error: string;
+  current: T;
+}
+
+/**
+ * Every route in server/routes, keyed by "METHOD /path" relative to API_URL.
+ * Path params use the Express ":name" syntax and are filled from `params`.
+ * Keep in sync with the server routes.
+ */
+export interface ApiRoutes {
+  // Auth
+  'POST /auth/register': {
+    body: { email: string; password: string };
+    response: AuthResponse;
+  };
+  'POST /auth/login': {
+    body: { email: string; password: string };
+    response: AuthResponse;
+  };
+  'GET /auth/me': {
+    response: ApiResponse<UserProfile>;
+  };
+  'PUT /auth/profile': {
+    body: ProfileUpdateData & { expectedUpdatedAt?: string };
+    response: ApiResponse<UserProfile>;
+  };
+  'PUT /auth/password': {
+    body: { currentPassword: string; newPassword: string };
+    response: { success: boolean; message: string };
+  };
+
+  // Doctors
+  'GET /doctors': {
+    query?: { name?: string; specialty?: string };
+    response: ApiListResponse<Doctor>;
+  };
+  'GET /doctors/specialty/:specialty': {
+    params: { specialty: string };
+    response: ApiListResponse<Doctor>;
+  };
+  'GET /doctors/:id/slots': {
+    params: { id: string };
+    // Clinic days, "YYYY-MM-DD" (inclusive)
+    query: { from: string; to: string };
+    response: ApiListResponse<TimeSlot>;
+  };
+  'GET /doctors/:id': {
+    params: { id: string };
+    response: ApiResponse<Doctor>;
+  };
+
+  // Appointments
+  'GET /appointments/calendar/:token.ics': {
+    params: { token: string };
+    response: string;
+  };
+  'GET /appointments/calendar/feed': {
+    response: ApiResponse<{ url: string }>;
+  };
+  'POST /appointments/calendar/feed': {
+    response: ApiResponse<{ url: string }>;
+  };
+  'GET /appointments': {
+    response: ApiListResponse<Appointment>;
+  };
+  'POST /appointments': {
+    body: { doctorId: string; date: string };
+    response: ApiResponse<Appointment>;
+  };
+  'PUT /appointments/:id/status': {
+    params: { id: string };
+    body: { status: AppointmentStatus; reason?: string; expectedUpdatedAt?: string };
+    response: ApiResponse<Appointment>;
+  };
+  'PUT /appointments/:id/reschedule': {
+    params: { id: string };
+    body: { date: string; expectedUpdatedAt?: string };
+    response: ApiResponse<Appointment>;
+  };
+  'GET /appointments/:id/calendar.ics': {
+    params: { id: string };
+    response: Blob;
+  };
+
+  // Prescriptions
+  'POST /prescriptions/preprocess': {
+    body: { ocrText: string };
+    response: ApiResponse<TextPreprocessingResult>;
+  };
+  'POST /prescriptions/analyze': {
+    body: { ocrText: string; sourceImage?: PrescriptionSource; medications?: MedicationRow[] };
+    response: ApiResponse<PrescriptionAnalysis> & { prescriptionId: string | null; cached?: boolean };
+  };
+  'GET /medications/search': {
+    query: { q: string; limit?: number };
+    response: ApiListResponse<MedicationSuggestion> & { dictionaryVersion: string };
+  };
+  'GET /prescriptions/history': {
+    response: ApiListResponse<PrescriptionSummary>;
+  };
+  'POST /prescriptions/extract-text': {
+    // Multipart form with an "image" file
+    body: FormData;
+    response: ApiResponse<ExtractedText>;
+  };
+  'POST /prescriptions/pdf-pages': {
+    // Multipart form with a "file" PDF
+    body: FormData;
+    response: ApiResponse<PdfPages>;
+  };
+  'GET /prescriptions/:id': {
+    params: { id: string };
+    response: ApiResponse<Prescription>;
+  };
+  'PUT /prescriptions/:id': {
+    params: { id: string };
+    body: { title: string };
+    response: ApiResponse<Prescription>;
+  };
+  'DELETE /prescriptions/:id': {
+    params: { id: string };
+    response: ApiResponse<Record<string, never>>;
+  };
+
+  // Chatbot
+  'POST /chatbot': {
+    body: ChatbotQuery;
+    response: { response: string };
+  };
+
+  // Subscription
+  'GET /subscription/status': {
+    response: ApiResponse<SubscriptionStatus>;
+  };
+  'POST /subscription/payment/create': {
+    body: { userPublicKey: string };
+    response: ApiResponse<PaymentTransaction>;
+  };
+  'POST /subscription/payment/verify': {
+    body: { signedTransactionXDR: string };
+    response: ApiResponse<PaymentVerification>;
+  };
+  'POST /subscription/payment/test': {
+    body: { publicKey: string; secretKey: string };
+    response: ApiResponse<PaymentVerification>;
+  };
+  'POST /subscription/testaccount': {
+    response: ApiResponse<TestAccount>;
+  };
+
+  // Doctor portal
+  'GET /doctor-portal/profile': {
+    response: ApiResponse<Doctor>;
+  };
+  'GET /doctor-portal/appointments': {
+    // status is a comma-separated list; from/to are clinic days, "YYYY-MM-DD"
+    query?: { status?: string; from?: string; to?: string };
+    response: ApiListResponse<DoctorAppointment>;
+  };
+  'GET /doctor-portal/patients': {
+    response: ApiListResponse<DoctorPatient>;
+  };
+
+  // User management
+  'GET /users': {
+    query?: { role?: Role; search?: string };
+    response: ApiListResponse<ManagedUser>;
+  };
+  'PUT /users/:id/roles': {
+    params: { id: string };
+    body: { roles: Role[]; doctorId?: string | null };
+    response: ApiResponse<ManagedUser>;
+  };
+
+  // Notifications
+  'GET /notifications': {
+    query?: { unread?: 'true'; limit?: number };
+    response: ApiListResponse<AppNotification> & { unreadCount: number };
+  };
+  'PUT /notifications/read-all': {
+    response: ApiResponse<{ updated: number }>;
+  };
+  'PUT /notifications/:id/read': {
+    params: { id: string };
+    response: ApiResponse<AppNotification>;
+  };
+
+  // Medication schedules
+  'GET /medication-schedules': {
+    response: ApiListResponse<MedicationSchedule>;
+  };
+  'POST /medication-schedules': {
+    // startDate is the patient's own date, "YYYY-MM-DD"
+    body: { prescriptionId: string; startDate?: string };
+    response: ApiResponse<MedicationSchedule>;
+  };
+  'GET /medication-schedules/calendar.ics': {
+    response: Blob;
+  };
+  'PUT /medication-schedules/:id': {
+    params: { id: string };
+    body: MedicationScheduleUpdate;
+    response: ApiResponse<MedicationSchedule>;
+  };
+  'DELETE /medication-schedules/:id': {
+    params: { id: string };
+    response: ApiResponse<Record<string, never>>;
+  };
+
+  // Adherence
+  'GET /adherence/:prescriptionId': {
+    params: { prescriptionId: string };
+    // Days as "YYYY-MM-DD"; today is the patient's own date
+    query?: { from?: string; to?: string; today?: string };
+    response: ApiResponse<AdherenceReport>;
+  };
+  'POST /adherence/:prescriptionId/doses': {
+    params: { prescriptionId: string };
+    body: { medication: string; date: string; time: string; status: DoseStatus; today?: string };
+    response: ApiResponse<DoseLog>;
+  };
+  'GET /adherence/:prescriptionId/report.csv': {
+    params: { prescriptionId: string };
+    query?: { from?: string; to?: string; today?: string };
+    response: Blob;
+  };
+
+  // Health check
+  'GET /health': {
+    response: HealthResponse;
+  };
+}
+
+export type ApiRoute = keyof ApiRoutes;
@@ -1,507 +1,193 @@
-import axios from 'axios';
-import { authHeader, API_URL } from './authService';
+import { format, parseISO } from 'date-fns';
+import { ApiError, apiRequest } from './apiClient';
 import { Doctor } from './doctorService';
+import { syncOutbox } from './syncOutbox';
+import { AppointmentActor, AppointmentStatus, STATUS_LABELS } from '@/config/appointmentStatus';
+import { DATE_FORMAT, TIME_FORMAT } from '@/config/appointmentConfig';
+
+export type { AppointmentStatus } from '@/config/appointmentStatus';
+
+export interface RescheduleEntry {
+  from: string;
+  to: string;
+  rescheduledAt: string;
+  rescheduledBy?: string;
+}
+
+export interface StatusChange {
+  from?: AppointmentStatus;
+  to: AppointmentStatus;
+  actor: AppointmentActor;
+  changedBy?: string;
+  reason?: string;
+  changedAt: string;
+}
 
 export interface Appointment {
   _id: string;
   doctorId: Doctor | string;
   userId: string;
   date: string;
-  status: 'pending' | 'confirmed' | 'cancelled';
+  status: AppointmentStatus;
+  statusHistory?: StatusChange[];
+  rescheduleHistory?: RescheduleEntry[];
   createdAt: string;
   updatedAt: string;
 }
 
-export interface AppointmentResponse {
-  success: boolean;
-  data: Appointment;
-}
-
-export interface AppointmentsResponse {
-  success: boolean;
-  count: number;
-  data: Appointment[];
+export interface TimeSlot {
+  start: string;
+  end: string;
 }
 
-// Store the most recently successful endpoint and method
-let lastSuccessfulEndpoint: { url: string; method: string } | null = null;
-
-// Store pending operations that need to be synced when back online
-interface PendingOperation {
-  id: string;
-  status: 'pending' | 'confirmed' | 'cancelled';
-  timestamp: string;
-}
-
-// Create a manager for pending operations
-class AppointmentSyncManager {
-  private static instance: AppointmentSyncManager;
-  private pendingOperations: PendingOperation[] = [];
-  private isProcessing: boolean = false;
-
-  private constructor() {
-    // Load any pending operations from localStorage
-    this.loadPendingOperations();
-    
-    // Setup online/offline event listeners
-    if (typeof window !== 'undefined') {
-      window.addEventListener('online', this.syncPendingOperations.bind(this));
-    }
-  }
-
-  public static getInstance(): AppointmentSyncManager {
-    if (!AppointmentSyncManager.instance) {
-      AppointmentSyncManager.instance = new AppointmentSyncManager();
-    }
-    return AppointmentSyncManager.instance;
-  }
-
-  private loadPendingOperations(): void {
-    try {
-      const storedOps = localStorage.getItem('pendingAppointmentOperations');
-      if (storedOps) {
-        this.pendingOperations = JSON.parse(storedOps);
-        console.log('Loaded pending operations:', this.pendingOperations.length);
-      }
-    } catch (e) {
-      console.error('Error loading pending operations:', e);
-      this.pendingOperations = [];
-    }
-  }
+// Describe a change for the sync status UI, e.g. "Cancelled: Dr. Smith, May 2, 2025 at 3:00 PM"
+const describeAppointment = (doctor: Doctor | string, date: string): string => {
+  const doctorName = typeof doctor === 'string' ? 'your doctor' : doctor.name;
+  return `${doctorName}, ${format(parseISO(date), `${DATE_FORMAT} 'at' ${TIME_FORMAT}`)}`;
+};
 
-  private savePendingOperations(): void {
-    try {
-      localStorage.setItem('pendingAppointmentOperations', JSON.stringify(this.pendingOperations));
-    } catch (e) {
-      console.error('Error saving pending operations:', e);
-    }
+// Apply a change to the appointments cached for offline viewing
+const updateCachedAppointment = (id: string, changes: Partial<Appointment>): void => {
+  try {
+    const cachedAppointments = localStorage.getItem('cachedAppointments');
+    if (cachedAppointments) {
+      const appointments: Appointment[] = JSON.parse(cachedAppointments);
+      localStorage.setItem('cachedAppointments', JSON.stringify(
+        appointments.map(a => a._id === id ? { ...a, ...changes } : a)
+      ));
+    }
+  } catch (e) {
+    console.error('Error updating cached appointments', e);
   }
+};
 
-  public addPendingOperation(id: string, status: 'pending' | 'confirmed' | 'cancelled'): void {
-    // Check if operation already exists, update it if it does
-    const existingIndex = this.pendingOperations.findIndex(op => op.id === id);
-    
-    if (existingIndex !== -1) {
-      this.pendingOperations[existingIndex] = {
-        id,
-        status,
-        timestamp: new Date().toISOString()
-      };
-    } else {
-      // Add new operation
-      this.pendingOperations.push({
-        id,
-        status,
-        timestamp: new Date().toISOString()
-      });
-    }
-    
-    // Save to localStorage
-    this.savePendingOperations();
-    
-    // Try to sync immediately if we're online
-    if (navigator.onLine) {
-      this.syncPendingOperations();
-    }
-  }
+/**
+ * Create a new appointment.
+ * Returns null when the server can't be reached - the booking is queued and sent later.
+ */
+export const bookAppointment = async (doctor: Doctor, date: string): Promise<Appointment | null> => {
+  const response = await syncOutbox.submit({
+    type: 'book_appointment',
+    label: `Book: ${describeAppointment(doctor, date)}`,
+    resourceKey: `booking:${doctor._id}:${date}`,
+    route: 'POST /appointments',
+    options: { body: { doctorId: doctor._id, date } }
+  });
+  return response ? response.data : null;
+};
 
-  public async syncPendingOperations(): Promise<void> {
-    // Don't run if already processing or no pending operations
-    if (this.isProcessing || this.pendingOperations.length === 0 || !navigator.onLine) {
-      return;
-    }
-    
-    this.isProcessing = true;
-    console.log('Syncing pending operations:', this.pendingOperations.length);
-    
-    // Process oldest operations first (FIFO)
-    const sortedOperations = [...this.pendingOperations].sort((a, b) => 
-      new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-    );
-    
-    const operationsToRemove: string[] = [];
-    
-    for (const operation of sortedOperations) {
-      try {
-        // Use the updateAppointmentStatus function without adding to pending operations
-        await syncAppointmentToDatabase(operation.id, operation.status);
-        operationsToRemove.push(operation.id);
-        console.log(`Successfully synced operation for appointment: ${operation.id}`);
-      } catch (error) {
-        console.error(`Failed to sync operation for appointment: ${operation.id}`, error);
-        // If we can't sync, break and try again later
-        break;
-      }
-    }
-    
-    // Remove successfully processed operations
-    if (operationsToRemove.length > 0) {
-      this.pendingOperations = this.pendingOperations.filter(
-        op => !operationsToRemove.includes(op.id)
-      );
-      this.savePendingOperations();
-    }
-    
-    this.isProcessing = false;
-  }
-  
-  public getPendingOperations(): PendingOperation[] {
-    return [...this.pendingOperations];
-  }
-}
+/**
+ * Move an appointment to another free slot with the same doctor.
+ * Returns null when the change was queued to be sent later.
+ */
+export const rescheduleAppointment = async (appointment: Appointment, date: string): Promise<Appointment | null> => {
+  const response = await syncOutbox.submit({
+    type: 'reschedule_appointment',
+    label: `Reschedule: ${describeAppointment(appointment.doctorId, appointment.date)} → ${format(parseISO(date), `${DATE_FORMAT} 'at' ${TIME_FORMAT}`)}`,
+    resourceKey: `appointment:${appointment._id}`,
+    route: 'PUT /appointments/:id/reschedule',
+    options: {
+      params: { id: appointment._id },
+      body: { date, expectedUpdatedAt: appointment.updatedAt }
+    }
+  });
+  return response ? response.data : null;
+};
 
-// Export the sync manager instance
-export const appointmentSyncManager = AppointmentSyncManager.getInstance();
+// Download a single appointment as an .ics file for the user's calendar app
+export const downloadAppointmentCalendar = async (id: string): Promise<void> => {
+  const calendar = await apiRequest('GET /appointments/:id/calendar.ics', {
+    params: { id },
+    responseType: 'blob'
+  });
+
+  const url = URL.createObjectURL(calendar);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `healiofy-appointment-${id}.ics`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
 
-// Function to directly sync with database (bypassing the mock layer)
-const syncAppointmentToDatabase = async (
-  id: string, 
-  status: 'pending' | 'confirmed' | 'cancelled'
-): Promise<Appointment | null> => {
-  const cleanId = id.trim();
-  const headers = authHeader();
-  
-  // Define endpoints to try for syncing (same as in updateAppointmentStatus)
-  const endpoints = [
-    { url: `${API_URL}/appointments/${cleanId}`, method: 'PATCH' },
-    { url: `${API_URL}/appointments/${cleanId}/status`, method: 'PUT' },
-    { url: `${API_URL}/appointments/status/${cleanId}`, method: 'PUT' },
-    { url: `${API_URL}/appointment/${cleanId}`, method: 'PATCH' },
-    { url: `${API_URL}/appointment/status/${cleanId}`, method: 'PUT' }
-  ];
-  
-  // Try each endpoint until one works
-  let lastError: any = null;
-  
-  for (const endpoint of endpoints) {
-    try {
-      console.log(`Syncing to database using endpoint: ${endpoint.url}`);
-      
-      const response = await axios({
-        method: endpoint.method,
-        url: endpoint.url,
-        headers,
-        data: { status },
-        timeout: 10000
-      });
-      
-      console.log(`Sync successful using ${endpoint.url}:`, response.data);
-      
-      // Store the successful endpoint for future use
-      lastSuccessfulEndpoint = endpoint;
-      
-      return response.data.data;
-    } catch (error) {
-      console.log(`Sync failed for ${endpoint.url}:`, error);
-      lastError = error;
-    }
-  }
-  
-  // All endpoints failed
-  throw lastError || new Error('All endpoints failed during database sync');
+// Get the user's subscribable calendar feed URL
+export const getCalendarFeedUrl = async (): Promise<string> => {
+  const response = await apiRequest('GET /appointments/calendar/feed');
+  return response.data.url;
 };
 
-// Create a new appointment
-export const bookAppointment = async (doctorId: string, date: string): Promise<Appointment> => {
-  try {
-    const response = await axios.post<AppointmentResponse>(
-      `${API_URL}/appointments`,
-      { doctorId, date },
-      { headers: authHeader() }
-    );
-    return response.data.data;
-  } catch (error: any) {
-    console.error('Error booking appointment:', error);
-    throw new Error(error.response?.data?.error || 'Failed to book appointment');
-  }
+// Replace the calendar feed URL - the previous URL stops working
+export const regenerateCalendarFeedUrl = async (): Promise<string> => {
+  const response = await apiRequest('POST /appointments/calendar/feed');
+  return response.data.url;
 };
 
-// Create mock data to use when API fails
-const MOCK_DATA = {
-  appointments: {}
+// Get free appointment slots for a doctor between two days (YYYY-MM-DD, inclusive)
+export const getDoctorSlots = async (doctorId: string, from: string, to: string): Promise<TimeSlot[]> => {
+  const response = await apiRequest('GET /doctors/:id/slots', {
+    params: { id: doctorId },
+    query: { from, to }
+  });
+  return response.data;
 };
 
-// Update appointment status - implements multiple fallback strategies to handle different API implementations
+/**
+ * Change an appointment's status as the patient.
+ * When the server can't be reached the change is queued, the cached copy is updated
+ * and null is returned; any other failure (not allowed, not found...) is thrown.
+ */
 export const updateAppointmentStatus = async (
-  id: string,
-  status: 'pending' | 'confirmed' | 'cancelled'
+  appointment: Appointment,
+  status: AppointmentStatus,
+  reason?: string
 ): Promise<Appointment | null> => {
-  try {
-    // Debug API URL
-    debugApiUrl();
-    
-    const headers = authHeader();
-    
-    // Handle token expiration by checking if it exists
-    const token = localStorage.getItem('token');
-    if (!token) {
-      throw new Error('Your session has expired. Please sign in again.');
-    }
-
-    // Clean up the id parameter to ensure no whitespace or special characters
-    const cleanId = id.trim();
-    // Check if ID looks valid
-    if (!cleanId || cleanId.length < 10) {
-      throw new Error('Invalid appointment ID');
-    }
-
-    // If we have a successful endpoint from a previous call, try that first
-    if (lastSuccessfulEndpoint) {
-      try {
-        console.log(`Trying previously successful endpoint: ${lastSuccessfulEndpoint.url} with method ${lastSuccessfulEndpoint.method}`);
-        // Replace any ID in the URL with the current ID
-        const url = lastSuccessfulEndpoint.url.replace(/\/[a-f0-9]{24}(?:\/|$)/, `/${cleanId}`);
-        
-        const response = await axios({
-          method: lastSuccessfulEndpoint.method,
-          url,
-          headers,
-          data: { status },
-          timeout: 10000
-        });
-        
-        console.log('Update appointment response (using cached endpoint):', response.data);
-        return response.data.data;
-      } catch (error) {
-        console.log('Cached endpoint failed, trying alternative endpoints');
-        // Fall through to try other endpoints
-      }
-    }
-
-    // Ensure the API endpoint URL is correctly formatted - try multiple variations
-    const endpoints = [
-      // Path parameter variations (most common)
-      { url: `${API_URL}/appointments/${cleanId}`, method: 'PATCH' },
-      { url: `${API_URL}/appointments/status/${cleanId}`, method: 'PUT' },
-      { url: `${API_URL}/appointment/${cleanId}`, method: 'PATCH' },
-      { url: `${API_URL}/appointment/status/${cleanId}`, method: 'PUT' },
-      
-      // Query parameter variations (alternate pattern)
-      { url: `${API_URL}/appointments?id=${cleanId}`, method: 'PATCH' },
-      { url: `${API_URL}/appointment?id=${cleanId}`, method: 'PATCH' },
-      { url: `${API_URL}/appointments/status?id=${cleanId}`, method: 'PUT' },
-      { url: `${API_URL}/appointment/status?id=${cleanId}`, method: 'PUT' },
-      
-      // Additional forms - direct endpoint
-      { url: `${API_URL}/updateAppointment/${cleanId}`, method: 'POST' },
-      { url: `${API_URL}/cancelAppointment/${cleanId}`, method: 'POST' }
-    ];
-    
-    // Try each endpoint until one works
-    let lastError = null;
-    
-    for (const endpoint of endpoints) {
-      try {
-        console.log(`Trying endpoint: ${endpoint.url} with method ${endpoint.method}`);
-        
-        const response = await axios({
-          method: endpoint.method,
-          url: endpoint.url,
-          headers,
-          data: { status },
-          timeout: 10000
-        });
-        
-        console.log(`Endpoint ${endpoint.url} succeeded:`, response.data);
-        
-        // Store the successful endpoint for future use
-        lastSuccessfulEndpoint = endpoint;
-        
-        return response.data.data;
-      } catch (error) {
-        console.log(`Endpoint ${endpoint.url} failed:`, error);
-        lastError = error;
-        // Continue to next endpoint
-      }
-    }
-    
-    // If we get here, all endpoints failed - try offline mode/mock data
-    console.log('All API endpoints failed, using mock fallback mode');
-    
-    // Add operation to pending operations queue for syncing when online
-    appointmentSyncManager.addPendingOperation(cleanId, status);
-    
-    // Create a mock updated appointment or get from locally stored mock data
-    if (!MOCK_DATA.appointments[cleanId]) {
-      // Get current appointments from cache if possible
-      try {
-        const cachedAppointments = localStorage.getItem('cachedAppointments');
-        if (cachedAppointments) {
-          const appointments = JSON.parse(cachedAppointments);
-          const foundAppointment = appointments.find((a: Appointment) => a._id === cleanId);
-          if (foundAppointment) {
-            MOCK_DATA.appointments[cleanId] = foundAppointment;
-          }
-        }
-      } catch (e) {
-        console.error('Error reading cached appointments', e);
-      }
-      
-      // If still not found, create a mock appointment
-      if (!MOCK_DATA.appointments[cleanId]) {
-        MOCK_DATA.appointments[cleanId] = {
-          _id: cleanId,
-          doctorId: '',
-          userId: '',
-          date: new Date().toISOString(),
-          status: 'pending',
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString()
-        };
-      }
-    }
-    
-    // Update the mock data
-    MOCK_DATA.appointments[cleanId] = {
-      ...MOCK_DATA.appointments[cleanId],
-      status,
-      updatedAt: new Date().toISOString()
-    };
-    
-    // Display a console warning that we're using mock data
-    console.warn('Using mock data for appointment update - API connection is down');
-    console.info('Mock updated appointment:', MOCK_DATA.appointments[cleanId]);
-    
-    // Store in localStorage to persist mock changes
-    try {
-      // Try to read and update cached appointments
-      const cachedAppointments = localStorage.getItem('cachedAppointments');
-      if (cachedAppointments) {
-        const appointments = JSON.parse(cachedAppointments);
-        const updatedAppointments = appointments.map((a: Appointment) => 
-          a._id === cleanId ? MOCK_DATA.appointments[cleanId] : a
-        );
-        localStorage.setItem('cachedAppointments', JSON.stringify(updatedAppointments));
-      }
-    } catch (e) {
-      console.error('Error updating cached appointments', e);
-    }
-    
-    // Return mock data - this allows the UI to update even when the API is down
-    return MOCK_DATA.appointments[cleanId];
-    
-    // If we get here, all endpoints failed
-    throw lastError || new Error('All endpoints failed');
-  } catch (error: any) {
-    console.error('Error updating appointment status:', error);
-    if (error.response) {
-      console.error('Server response:', error.response.status, error.response.data);
-      
-      // Handle 404 errors specifically - likely a route issue
-      if (error.response.status === 404) {
-        const errorUrl = error.response.config?.url || 'unknown URL';
-        throw new Error(`Appointment update endpoint not found (${errorUrl}). The API endpoint may have changed. Please contact support.`);
-      }
-      
-      // Handle authentication errors
-      if (error.response.status === 401 || error.response.status === 403) {
-        localStorage.removeItem('token'); // Clear token if expired
-        throw new Error('Your session has expired. Please sign in again.');
-      }
-      
-      const errorMessage = error.response.data?.error || `Failed to update appointment: ${error.response.status}`;
-      throw new Error(errorMessage);
-    } else if (error.request) {
-      console.error('No response received:', error.request);
-      throw new Error('No response received from server. Please check your internet connection and try again.');
-    } else {
-      console.error('Request error:', error.message);
-      throw new Error(`Request failed: ${error.message}`);
-    }
+  const response = await syncOutbox.submit({
+    type: 'update_appointment_status',
+    label: `${STATUS_LABELS[status]}: ${describeAppointment(appointment.doctorId, appointment.date)}`,
+    resourceKey: `appointment:${appointment._id}`,
+    route: 'PUT /appointments/:id/status',
+    options: {
+      params: { id: appointment._id },
+      body: { status, reason, expectedUpdatedAt: appointment.updatedAt }
+    }
+  });
+
+  if (!response) {
+    updateCachedAppointment(appointment._id, { status });
+    return null;
   }
-};
-
-// Export sync status check function for UI
-export const hasPendingAppointmentSyncs = (): boolean => {
-  return appointmentSyncManager.getPendingOperations().length > 0;
-};
 
-// Export manual sync trigger for UI
-export const syncPendingAppointments = (): Promise<void> => {
-  return appointmentSyncManager.syncPendingOperations();
+  updateCachedAppointment(appointment._id, response.data);
+  return response.data;
 };
 
-// Modified getUserAppointments to use cached data when API fails
+// Get the user's appointments, falling back to the cached list while offline
 export const getUserAppointments = async (): Promise<Appointment[]> => {
   try {
-    const response = await axios.get<AppointmentsResponse>(
-      `${API_URL}/appointments`,
-      { headers: authHeader() }
-    );
+    const response = await apiRequest('GET /appointments');
     
     // Cache successful response
     try {
-      localStorage.setItem('cachedAppointments', JSON.stringify(response.data.data));
+      localStorage.setItem('cachedAppointments', JSON.stringify(response.data));
     } catch (e) {
       console.error('Error caching appointments', e);
     }
     
-    // Attempt to sync any pending operations when we successfully connect to the API
-    if (navigator.onLine) {
-      appointmentSyncManager.syncPendingOperations();
-    }
-    
-    return response.data.data;
-  } catch (error: any) {
-    console.error('Error fetching appointments:', error);
-    
-    // Try to use cached data if API call fails
-    try {
-      const cachedAppointments = localStorage.getItem('cachedAppointments');
-      if (cachedAppointments) {
-        console.warn('Using cached appointments data - API connection is down');
-        return JSON.parse(cachedAppointments);
-      }
-    } catch (e) {
-      console.error('Error reading cached appointments', e);
-    }
+    // The server is reachable again - send anything queued while offline
+    syncOutbox.sync();
     
-    return [];
-  }
-};
-
-// Get appointment by ID
-export const getAppointmentById = async (id: string): Promise<Appointment | null> => {
-  try {
-    const response = await axios.get<AppointmentResponse>(
-      `${API_URL}/appointments/${id}`,
-      { headers: authHeader() }
-    );
-    return response.data.data;
-  } catch (error: any) {
-    console.error('Error fetching appointment:', error);
-    return null;
-  }
-};
+    return response.data;
+  } catch (error) {
+    const cachedAppointments = error instanceof ApiError && error.isNetworkError
+      ? localStorage.getItem('cachedAppointments')
+      : null;
 
-// Debug function to log the API URL and endpoint structure
-const debugApiUrl = () => {
-  console.log('API_URL:', API_URL);
-  
-  // Log an example appointment URL
-  const exampleId = '123456789abcdef';
-  console.log('Example appointment update URL:', `${API_URL}/appointments/${exampleId}`);
-  
-  // Check environment variables
-  if (import.meta.env.VITE_API_URL) {
-    console.log('VITE_API_URL from env:', import.meta.env.VITE_API_URL);
-  } else {
-    console.log('VITE_API_URL not found, using fallback');
-  }
+    if (cachedAppointments) {
+      console.warn('Using cached appointments data - API connection is down');
+      return JSON.parse(cachedAppointments);
+    }
 
-  // Log the last successful endpoint if available
-  if (lastSuccessfulEndpoint) {
-    console.log('Last successful endpoint:', lastSuccessfulEndpoint);
-  } else {
-    console.log('No successful endpoint found yet');
+    throw error;
   }
 };
-
-// Export function to update the last successful endpoint
-export const setSuccessfulEndpoint = (url: string, method: string) => {
-  lastSuccessfulEndpoint = { url, method };
-  console.log('Updated successful endpoint:', lastSuccessfulEndpoint);
-};
-
-// Export debug function
-export const debugAppointmentApi = debugApiUrl; 
\ No newline at end of file
@@ -1,5 +1,4 @@
-import axios from 'axios';
-import { authHeader, API_URL } from './authService';
+import { apiRequest } from './apiClient';
 
 export interface ChatMessage {
   role: "system" | "user" | "assistant";
@@ -10,23 +9,12 @@ export interface ChatbotQuery {
   query: string;
   contextType?: 'general' | 'prescription';
   messages?: ChatMessage[];
-}
-
-export interface ChatbotResponse {
-  response: string;
+  // Saved prescription to answer about (defaults to the latest one)
+  prescriptionId?: string;
 }
 
 // Get response from the chatbot API
 export const getChatbotResponse = async (data: ChatbotQuery): Promise<string> => {
-  try {
-    const response = await axios.post<ChatbotResponse>(
-      `${API_URL}/chatbot`,
-      data,
-      { headers: authHeader() }
-    );
-    return response.data.response;
-  } catch (error: any) {
-    console.error('Error getting chatbot response:', error);
-    throw new Error(error.response?.data?.error || 'Failed to get chatbot response');
-  }
-}; 
\ No newline at end of file
+  const response = await apiRequest('POST /chatbot', { body: data });
+  return response.response;
+};
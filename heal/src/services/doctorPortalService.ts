@@ -0,0 +1,83 @@
+import { apiRequest } from './apiClient';
+import { Doctor } from './doctorService';
+import { Appointment, AppointmentStatus } from './appointmentService';
+
+// Patient details visible to the doctor of an appointment
+export interface PatientSummary {
+  _id: string;
+  email: string;
+  name?: string;
+  phone?: string;
+  gender?: string;
+  dateOfBirth?: string;
+}
+
+export interface DoctorAppointment extends Omit<Appointment, 'userId'> {
+  userId: PatientSummary | null;
+}
+
+export interface DoctorPatient {
+  patient: PatientSummary;
+  totalAppointments: number;
+  completedAppointments: number;
+  lastVisit: string | null;
+  nextAppointment: string | null;
+}
+
+export interface DoctorAppointmentFilters {
+  statuses?: AppointmentStatus[];
+  // Clinic days, "YYYY-MM-DD" (inclusive)
+  from?: string;
+  to?: string;
+}
+
+// Get the doctor profile linked to the signed-in account
+export const getMyDoctorProfile = async (): Promise<Doctor> => {
+  const response = await apiRequest('GET /doctor-portal/profile');
+  return response.data;
+};
+
+// Get appointments booked with the signed-in doctor
+export const getDoctorAppointments = async (
+  filters: DoctorAppointmentFilters = {}
+): Promise<DoctorAppointment[]> => {
+  const response = await apiRequest('GET /doctor-portal/appointments', {
+    query: {
+      status: filters.statuses?.join(','),
+      from: filters.from,
+      to: filters.to
+    }
+  });
+  return response.data;
+};
+
+// Get the patients who have booked with the signed-in doctor
+export const getDoctorPatients = async (): Promise<DoctorPatient[]> => {
+  const response = await apiRequest('GET /doctor-portal/patients');
+  return response.data;
+};
+
+// Change an appointment's status as its doctor (accept, decline, start, complete...)
+export const updateDoctorAppointmentStatus = async (
+  id: string,
+  status: AppointmentStatus,
+  reason?: string
+): Promise<Appointment> => {
+  const response = await apiRequest('PUT /appointments/:id/status', {
+    params: { id },
+    body: { status, reason }
+  });
+  return response.data;
+};
+
+export const acceptAppointment = (id: string): Promise<Appointment> =>
+  updateDoctorAppointmentStatus(id, 'confirmed');
+
+export const declineAppointment = (id: string, reason: string): Promise<Appointment> =>
+  updateDoctorAppointmentStatus(id, 'cancelled_by_doctor', reason);
+
+// Name to show for a patient, falling back to their email
+export const getPatientName = (patient: PatientSummary | null): string => {
+  if (!patient) return 'Unknown patient';
+  return patient.name || patient.email;
+};
@@ -1,188 +1,155 @@
-import axios from 'axios';
-import { authHeader } from './authService';
-
-// Define API URL with proper deployment support
-export const API_URL = (() => {
-  // Check if we have an environment variable
-  const envApiUrl = import.meta.env.VITE_API_URL;
-  if (envApiUrl) return envApiUrl;
-
-  // Check the current URL to determine if we're on Vercel
-  const isVercel = window.location.hostname.includes('vercel.app');
-  const isProd = import.meta.env.PROD;
-  
-  if (isProd) {
-    if (isVercel) {
-      // If we're on Vercel, use the same domain for the API
-      // This assumes your API is deployed on the same Vercel project
-      const domain = window.location.hostname;
-      return `https://${domain}/api`;
-    }
-    // Default production API URL
-    return 'https://healiofy-server.vercel.app/api';
-  }
-  
-  // Local development
-  return 'http://localhost:5000/api';
-})();
-
-// Function to check if the API is reachable
-export const checkApiConnection = async (): Promise<boolean> => {
-  try {
-    console.log(`Checking API connection to ${API_URL}`);
-    // First try the dedicated health endpoint
-    const response = await axios.get(`${API_URL}/health`);
-    console.log('API health response:', response.status, response.data);
-    return response.status === 200;
-  } catch (error: any) {
-    console.error('API health endpoint error:', error.message);
-    
-    // If health endpoint fails, try the doctors endpoint as a fallback
-    try {
-      console.log('Trying doctors endpoint as fallback');
-      const doctorsResponse = await axios.get(`${API_URL}/doctors`);
-      console.log('Doctors endpoint response:', doctorsResponse.status);
-      return doctorsResponse.status === 200;
-    } catch (secondError: any) {
-      console.error('API connection error (both endpoints failed):', secondError.message);
-      return false;
-    }
-  }
-};
+import { apiRequest } from './apiClient';
+import { CLINIC_UTC_OFFSET_MINUTES } from '@/config/appointmentConfig';
+
+// Hours within a day, as "HH:mm" strings in clinic time
+export interface ScheduleInterval {
+  start: string;
+  end: string;
+}
+
+// Recurring weekly working hours (day: 0 = Sunday ... 6 = Saturday)
+export interface WeeklyScheduleInterval extends ScheduleInterval {
+  day: number;
+}
+
+// Recurring break, on one day of the week or every day when day is null
+export interface ScheduleBreak extends ScheduleInterval {
+  day: number | null;
+  label?: string;
+}
+
+// Date-specific change to the weekly hours (vacation, extra clinic day)
+export interface ScheduleException {
+  date: string;
+  type: 'unavailable' | 'available';
+  intervals: ScheduleInterval[];
+  reason?: string;
+}
+
+export interface DoctorSchedule {
+  weekly: WeeklyScheduleInterval[];
+  breaks: ScheduleBreak[];
+  slotMinutes: number;
+  exceptions: ScheduleException[];
+}
 
 export interface Doctor {
   _id: string;
   name: string;
   specialty: string;
-  availability: string[];
+  schedule: DoctorSchedule;
   bio: string;
   imageUrl: string;
   rating: number;
   experience: string;
   reviews: number;
   price: number;
+  consultationType?: 'online' | 'in_person';
+  location?: string;
+  // Computed by the server from the schedule and existing bookings
   isAvailableNow: boolean;
+  nextAvailableSlot: string | null;
 }
 
-export interface DoctorsResponse {
-  success: boolean;
-  count: number;
-  data: Doctor[];
-}
+export type AvailabilityStatus = 'Available Now' | 'Available Today' | 'Next 3 Days' | 'This Week';
 
-export interface DoctorResponse {
-  success: boolean;
-  data: Doctor;
-}
+// Availability filter options, from most to least restrictive
+export const AVAILABILITY_FILTERS: AvailabilityStatus[] = [
+  'Available Now',
+  'Available Today',
+  'Next 3 Days',
+  'This Week'
+];
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
-// Mock data for fallback when server is unavailable
-const MOCK_DOCTORS: Doctor[] = [
-  {
-    _id: "1",
-    name: "Dr. Sarah Johnson",
-    specialty: "Cardiology",
-    availability: ["Monday 9-5", "Wednesday 10-6"],
-    bio: "Board-certified cardiologist with 12 years of experience in treating heart conditions and preventive care.",
-    imageUrl: "https://randomuser.me/api/portraits/women/45.jpg",
-    rating: 4.9,
-    experience: "12 years",
-    reviews: 128,
-    price: 1500,
-    isAvailableNow: true
-  },
-  {
-    _id: "2",
-    name: "Dr. Michael Chen",
-    specialty: "Dermatology",
-    availability: ["Tuesday 8-4", "Thursday 9-5", "Friday 10-4"],
-    bio: "Specializing in both medical and cosmetic dermatology. Focused on treating skin conditions and providing skincare advice.",
-    imageUrl: "https://randomuser.me/api/portraits/men/36.jpg",
-    rating: 4.7,
-    experience: "8 years",
-    reviews: 93,
-    price: 1750,
-    isAvailableNow: false
-  },
-  {
-    _id: "3",
-    name: "Dr. Rebecca Foster",
-    specialty: "Pediatrics",
-    availability: ["Monday 8-4", "Wednesday 8-4", "Friday 9-5"],
-    bio: "Compassionate pediatrician dedicated to the health and development of children from infancy through adolescence.",
-    imageUrl: "https://randomuser.me/api/portraits/women/63.jpg",
-    rating: 4.8,
-    experience: "10 years",
-    reviews: 156,
-    price: 1250,
-    isAvailableNow: true
+// Get the clinic-time calendar day of an instant as "YYYY-MM-DD", whatever the browser's time zone
+export const getClinicDate = (date: Date = new Date()): string =>
+  new Date(date.getTime() + CLINIC_UTC_OFFSET_MINUTES * 60 * 1000).toISOString().slice(0, 10);
+
+// Work out a doctor's availability status from their next free slot
+export const getAvailabilityStatus = (doctor: Doctor, now: Date = new Date()): AvailabilityStatus | null => {
+  if (doctor.isAvailableNow) {
+    return 'Available Now';
+  }
+  if (!doctor.nextAvailableSlot) {
+    return null;
   }
-];
+
+  // Clinic days from today to the day of the next slot
+  const daysAway = (Date.parse(getClinicDate(new Date(doctor.nextAvailableSlot))) - Date.parse(getClinicDate(now))) / DAY_MS;
+
+  if (daysAway < 1) return 'Available Today';
+  if (daysAway < 3) return 'Next 3 Days';
+  if (daysAway < 7) return 'This Week';
+  return null;
+};
+
+// Filters are cumulative: a doctor available today also matches "Next 3 Days" and "This Week"
+export const matchesAvailabilityFilter = (doctor: Doctor, filter: string, now: Date = new Date()): boolean => {
+  const filterIndex = AVAILABILITY_FILTERS.indexOf(filter as AvailabilityStatus);
+  if (filterIndex === -1) {
+    return true;
+  }
+
+  const status = getAvailabilityStatus(doctor, now);
+  return status !== null && AVAILABILITY_FILTERS.indexOf(status) <= filterIndex;
+};
+
+// Check whether a doctor has any working hours on a clinic day ("YYYY-MM-DD")
+export const isScheduledWorkingDay = (schedule: DoctorSchedule | undefined, day: string): boolean => {
+  // Without a schedule, leave it to the slots API to decide
+  if (!schedule) {
+    return true;
+  }
+
+  const exceptions = (schedule.exceptions || []).filter(exception => exception.date === day);
+
+  if (exceptions.some(exception => exception.type === 'available' && exception.intervals.length > 0)) {
+    return true;
+  }
+  if (exceptions.some(exception => exception.type === 'unavailable' && exception.intervals.length === 0)) {
+    return false;
+  }
+
+  const weekday = new Date(Date.parse(day)).getUTCDay();
+  return (schedule.weekly || []).some(interval => interval.day === weekday);
+};
+
+// Format the weekly hours for display, e.g. "Mon 09:00-12:00, Thu 13:00-16:00"
+export const formatWeeklySchedule = (schedule?: DoctorSchedule): string => {
+  if (!schedule || !schedule.weekly || schedule.weekly.length === 0) {
+    return '';
+  }
+
+  return [...schedule.weekly]
+    .sort((a, b) => a.day - b.day || a.start.localeCompare(b.start))
+    .map(interval => `${DAY_LABELS[interval.day]} ${interval.start}-${interval.end}`)
+    .join(', ');
+};
 
 // Get all doctors
 export const getDoctors = async (): Promise<Doctor[]> => {
-  try {
-    console.log(`Attempting to fetch doctors from ${API_URL}/doctors`);
-    const response = await axios.get<DoctorsResponse>(`${API_URL}/doctors`);
-    console.log('Doctors API response:', response.status, response.statusText);
-    console.log('Doctors data:', response.data);
-    return response.data.data;
-  } catch (error: any) {
-    console.error('Error fetching doctors:', error.message);
-    if (error.response) {
-      console.error('Response data:', error.response.data);
-      console.error('Response status:', error.response.status);
-      console.error('Response headers:', error.response.headers);
-    } else if (error.request) {
-      console.error('Request made but no response received');
-    }
-    console.log('Using mock doctor data instead');
-    return MOCK_DOCTORS;
-  }
+  const response = await apiRequest('GET /doctors');
+  return response.data;
 };
 
 // Search doctors by name
 export const searchDoctorsByName = async (name: string): Promise<Doctor[]> => {
-  try {
-    const response = await axios.get<DoctorsResponse>(`${API_URL}/doctors`, {
-      params: { name }
-    });
-    return response.data.data;
-  } catch (error) {
-    console.error('Error searching doctors by name:', error);
-    // Return filtered mock data based on search
-    console.log('Using filtered mock data for search');
-    return MOCK_DOCTORS.filter(doctor => 
-      doctor.name.toLowerCase().includes(name.toLowerCase())
-    );
-  }
+  const response = await apiRequest('GET /doctors', { query: { name } });
+  return response.data;
 };
 
 // Get doctors by specialty
 export const getDoctorsBySpecialty = async (specialty: string): Promise<Doctor[]> => {
-  try {
-    const response = await axios.get<DoctorsResponse>(`${API_URL}/doctors`, {
-      params: { specialty }
-    });
-    return response.data.data;
-  } catch (error) {
-    console.error('Error fetching doctors by specialty:', error);
-    // Return filtered mock data based on specialty
-    console.log('Using filtered mock data for specialty');
-    return MOCK_DOCTORS.filter(doctor => 
-      doctor.specialty.toLowerCase() === specialty.toLowerCase()
-    );
-  }
+  const response = await apiRequest('GET /doctors', { query: { specialty } });
+  return response.data;
 };
 
 // Get doctor by ID
-export const getDoctorById = async (id: string): Promise<Doctor | null> => {
-  try {
-    const response = await axios.get<DoctorResponse>(`${API_URL}/doctors/${id}`);
-    return response.data.data;
-  } catch (error) {
-    console.error('Error fetching doctor by ID:', error);
-    // Return mock doctor with matching ID or null
-    const mockDoctor = MOCK_DOCTORS.find(doctor => doctor._id === id);
-    return mockDoctor || null;
-  }
-}; 
\ No newline at end of file
+export const getDoctorById = async (id: string): Promise<Doctor> => {
+  const response = await apiRequest('GET /doctors/:id', { params: { id } });
+  return response.data;
+};
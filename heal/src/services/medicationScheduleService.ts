@@ -0,0 +1,125 @@
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { apiRequest } from './apiClient';
+
+export type FoodInstruction = 'with_food' | 'without_food' | 'any';
+
+// Dosing plan of one medication. Times ("HH:mm") and dates ("YYYY-MM-DD") are
+// wall-clock values in the patient's own time zone.
+export interface ScheduleItem {
+  _id?: string;
+  name: string;
+  dose: string;
+  times: string[];
+  // 1 = every day, 2 = every other day, 7 = weekly
+  intervalDays: number;
+  asNeeded: boolean;
+  food: FoodInstruction;
+  startDate: string;
+  // Null when the medication has no end date
+  endDate: string | null;
+  instructions: string;
+}
+
+export interface MedicationSchedule {
+  _id: string;
+  prescriptionId: string;
+  title: string;
+  remindersEnabled: boolean;
+  items: ScheduleItem[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type MedicationScheduleUpdate = Partial<Pick<MedicationSchedule, 'title' | 'remindersEnabled' | 'items'>>;
+
+// A single dose on a given day
+export interface ScheduledDose {
+  scheduleId: string;
+  item: ScheduleItem;
+  time: string;
+  at: Date;
+}
+
+// Listeners told when the user's schedules change, e.g. so reminders are rescheduled
+const changeListeners = new Set<() => void>();
+
+const notifyScheduleChange = () => {
+  changeListeners.forEach(listener => listener());
+};
+
+// Subscribe to schedule changes; returns the unsubscribe function
+export const subscribeToScheduleChanges = (listener: () => void): (() => void) => {
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+};
+
+// Get the user's medication schedules
+export const getMedicationSchedules = async (): Promise<MedicationSchedule[]> => {
+  const response = await apiRequest('GET /medication-schedules');
+  return response.data;
+};
+
+// Create a schedule from an analyzed prescription, starting today (the existing one is returned if there is one)
+export const createMedicationSchedule = async (prescriptionId: string): Promise<MedicationSchedule> => {
+  const response = await apiRequest('POST /medication-schedules', {
+    body: { prescriptionId, startDate: format(new Date(), 'yyyy-MM-dd') }
+  });
+  notifyScheduleChange();
+  return response.data;
+};
+
+// Update a schedule's title, reminder setting or medications
+export const updateMedicationSchedule = async (id: string, changes: MedicationScheduleUpdate): Promise<MedicationSchedule> => {
+  const response = await apiRequest('PUT /medication-schedules/:id', {
+    params: { id },
+    body: changes
+  });
+  notifyScheduleChange();
+  return response.data;
+};
+
+// Delete a schedule
+export const deleteMedicationSchedule = async (id: string): Promise<void> => {
+  await apiRequest('DELETE /medication-schedules/:id', { params: { id } });
+  notifyScheduleChange();
+};
+
+// Download every scheduled dose as an .ics file for the user's calendar app
+export const downloadScheduleCalendar = async (): Promise<void> => {
+  const calendar = await apiRequest('GET /medication-schedules/calendar.ics', { responseType: 'blob' });
+
+  const url = URL.createObjectURL(calendar);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'healiofy-medication-schedule.ics';
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+// Whether a medication has doses on a day ("YYYY-MM-DD")
+export const isDoseDay = (item: ScheduleItem, day: string): boolean => {
+  if (item.asNeeded || day < item.startDate || (item.endDate && day > item.endDate)) {
+    return false;
+  }
+  return differenceInCalendarDays(parseISO(day), parseISO(item.startDate)) % item.intervalDays === 0;
+};
+
+// Every dose of the given schedules on a day, in time order
+export const getDosesForDay = (schedules: MedicationSchedule[], date: Date): ScheduledDose[] => {
+  const day = format(date, 'yyyy-MM-dd');
+
+  return schedules
+    .flatMap(schedule => schedule.items
+      .filter(item => isDoseDay(item, day))
+      .flatMap(item => item.times.map(time => ({
+        scheduleId: schedule._id,
+        item,
+        time,
+        at: parseISO(`${day}T${time}`)
+      }))))
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+};
@@ -0,0 +1,27 @@
+import { apiRequest } from './apiClient';
+
+// Generic ingredient of a medication, e.g. paracetamol 500 mg
+export interface MedicationIngredient {
+  name: string;
+  // Empty when a generic is searched without a strength
+  strength: string;
+}
+
+// Brand or generic name from the medication dictionary
+export interface MedicationSuggestion {
+  name: string;
+  type: 'brand' | 'generic';
+  // e.g. "tablet", null for generics
+  form: string | null;
+  ingredients: MedicationIngredient[];
+}
+
+// Describe the ingredients of a medication, e.g. "pantoprazole 40 mg + domperidone 30 mg"
+export const describeIngredients = (ingredients: MedicationIngredient[]): string =>
+  ingredients.map(ingredient => `${ingredient.name} ${ingredient.strength}`.trim()).join(' + ');
+
+// Brand and generic names starting with, or close to, what the user typed
+export const searchMedicationNames = async (query: string): Promise<MedicationSuggestion[]> => {
+  const response = await apiRequest('GET /medications/search', { query: { q: query } });
+  return response.data;
+};
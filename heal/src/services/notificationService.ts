@@ -0,0 +1,40 @@
+import { apiRequest } from './apiClient';
+
+export type NotificationType =
+  | 'appointment_reminder'
+  | 'appointment_confirmed'
+  | 'appointment_cancelled'
+  | 'appointment_rescheduled';
+
+export interface AppNotification {
+  _id: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  appointmentId?: string;
+  // Null until the notification has been read
+  readAt: string | null;
+  createdAt: string;
+}
+
+export interface NotificationList {
+  notifications: AppNotification[];
+  unreadCount: number;
+}
+
+// Get the user's latest notifications and the number of unread ones
+export const getNotifications = async (): Promise<NotificationList> => {
+  const response = await apiRequest('GET /notifications');
+  return { notifications: response.data, unreadCount: response.unreadCount };
+};
+
+// Mark a notification as read
+export const markNotificationRead = async (id: string): Promise<AppNotification> => {
+  const response = await apiRequest('PUT /notifications/:id/read', { params: { id } });
+  return response.data;
+};
+
+// Mark all notifications as read
+export const markAllNotificationsRead = async (): Promise<void> => {
+  await apiRequest('PUT /notifications/read-all');
+};
@@ -0,0 +1,58 @@
+import { createWorker, OEM, Worker } from 'tesseract.js';
+
+// Engine that read the text of a prescription: the server's vision model, or OCR on this device
+export type OcrEngine = 'vision' | 'device';
+
+// The OCR engine and its English data are served by the app itself (see ocrAssets in vite.config.ts),
+// so nothing is downloaded from elsewhere and it also works offline once the app is loaded
+const getAssetUrl = (fileName: string): string =>
+  new URL(`${import.meta.env.BASE_URL}tesseract/${fileName}`, window.location.origin).href;
+
+let workerPromise: Promise<Worker> | null = null;
+// Receives the progress of the page being read
+let progressListener: ((progress: number) => void) | null = null;
+
+const getWorker = (): Promise<Worker> => {
+  if (!workerPromise) {
+    workerPromise = createWorker('eng', OEM.LSTM_ONLY, {
+      workerPath: getAssetUrl('worker.min.js'),
+      corePath: getAssetUrl(''),
+      langPath: getAssetUrl('').replace(/\/$/, ''),
+      logger: message => {
+        if (message.status === 'recognizing text') {
+          progressListener?.(message.progress);
+        }
+      }
+    }).catch(error => {
+      // Let the next page try again
+      workerPromise = null;
+      throw error;
+    });
+  }
+  return workerPromise;
+};
+
+// Read the text of a prescription image in the browser; onProgress gets values from 0 to 1
+export const recognizeOnDevice = async (
+  image: Blob,
+  onProgress?: (progress: number) => void
+): Promise<string> => {
+  const worker = await getWorker();
+  progressListener = onProgress || null;
+  try {
+    const { data } = await worker.recognize(image);
+    return data.text.trim();
+  } finally {
+    progressListener = null;
+  }
+};
+
+// Free the memory of the OCR engine once the pages are read
+export const releaseOnDeviceOcr = async (): Promise<void> => {
+  const pending = workerPromise;
+  workerPromise = null;
+  const worker = pending && await pending.catch(() => null);
+  if (worker) {
+    await worker.terminate();
+  }
+};
@@ -0,0 +1,97 @@
+import type { ApiErrorCode, ApiRoute, RawRequestOptions } from './apiClient';
+
+// Kinds of changes that can be queued while offline
+export type MutationType =
+  | 'book_appointment'
+  | 'update_appointment_status'
+  | 'reschedule_appointment'
+  | 'update_profile';
+
+/**
+ * pending: waiting to be sent (possibly after a backoff delay)
+ * conflict: the server copy changed since the change was made - the user must choose
+ * failed: the server rejected the change, or it could not be sent after several tries
+ */
+export type OutboxEntryState = 'pending' | 'conflict' | 'failed';
+
+export interface OutboxEntry {
+  id: string;
+  // Sent as the Idempotency-Key header; replaced only when the change is deliberately resent
+  idempotencyKey: string;
+  type: MutationType;
+  // What the change does, shown in the sync UI (e.g. "Cancel appointment with Dr. Smith")
+  label: string;
+  route: ApiRoute;
+  options: Pick<RawRequestOptions, 'params' | 'body'>;
+  // Record the change applies to; changes to the same record are sent in order
+  resourceKey: string;
+  state: OutboxEntryState;
+  attempts: number;
+  createdAt: string;
+  // Epoch ms before which the entry is not retried
+  nextAttemptAt: number;
+  lastError?: string;
+  lastErrorCode?: ApiErrorCode;
+  // Version of the record on the server when state is 'conflict'
+  serverVersion?: unknown;
+  serverUpdatedAt?: string | null;
+}
+
+const DB_NAME = 'healiofy-sync';
+const DB_VERSION = 1;
+const STORE_NAME = 'outbox';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Run a single request against the outbox store
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// All queued entries, oldest first
+export const getOutboxEntries = async (): Promise<OutboxEntry[]> => {
+  const entries = await withStore<OutboxEntry[]>('readonly', store => store.getAll());
+  return entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+export const putOutboxEntry = async (entry: OutboxEntry): Promise<void> => {
+  await withStore('readwrite', store => store.put(entry));
+};
+
+export const deleteOutboxEntry = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+};
+
+export const clearOutboxEntries = async (): Promise<void> => {
+  await withStore('readwrite', store => store.clear());
+};
@@ -1,51 +1,313 @@
-import axios from 'axios';
-import { authHeader, getCurrentAuth } from './authService';
-import { API_URL } from './doctorService';
-
-export interface PrescriptionAnalysis {
-  precautions: {
-    dietary_restrictions: string[];
-    activity_limitations: string[];
-    side_effects: string[];
-  };
-  duration: {
-    total_days: number | null;
-    frequency: string;
-    timing: string;
-  };
-  warnings: {
-    drug_interactions: string[];
-    contraindications: string[];
-    overdose_symptoms: string[];
-  };
+import { ApiError, apiRequest } from './apiClient';
+import { getCurrentAuth } from './authService';
+import type { MedicationIngredient } from './medicationService';
+// The schema the server validates every model reply against; the types below are built on
+// the ones generated from it, so a schema change shows up here when the client is built
+import analysisSchema from '../../../shared/prescriptionAnalysis.schema.json';
+import type {
+  Medication as SchemaMedication,
+  PrescriptionAnalysis as SchemaPrescriptionAnalysis,
+  Precautions,
+  Warnings
+} from '@/types/prescriptionAnalysis.generated';
+
+export type PrescriptionPrecautions = Precautions;
+
+export type PrescriptionWarnings = Warnings;
+
+// Part of the OCR text a medication field was read from
+export interface SourceSpan {
+  // Character offsets in the analyzed text, null when the value was not found in it
+  start: number | null;
+  end: number | null;
+  // 0 to 1, how closely the text matches the value
+  confidence: number;
+  // Low confidence, the patient should check the value against the prescription
+  verify: boolean;
+}
+
+// Generic ingredients a medication name was matched to in the medication dictionary
+export interface GenericMatch {
+  dictionaryVersion: string;
+  // Brand the name was matched to, null for a generic name
+  brand: string | null;
+  ingredients: (MedicationIngredient & { classes: string[] })[];
+  // 0 to 1, lower when the name only matched approximately
+  confidence: number;
+  // The name only matched approximately, e.g. an OCR misread
+  fuzzy: boolean;
+}
+
+export type SourceField = 'name' | 'strength' | 'dose' | 'frequency' | 'timing' | 'duration_days';
+
+// Fields of a medication that analyses saved before per-medication details may not have
+type OptionalMedicationField = Exclude<keyof SchemaMedication, 'name' | 'precautions' | 'warnings'>;
+
+// Analysis of a single medication on the prescription
+export interface MedicationAnalysis
+  extends Omit<SchemaMedication, OptionalMedicationField>, Partial<Pick<SchemaMedication, OptionalMedicationField>> {
+  // Only filled-in fields have a source; missing in analyses saved before sources were recorded
+  sources?: Partial<Record<SourceField, SourceSpan>>;
+  // Null when the name is not in the dictionary; missing in analyses saved before it was added
+  generic?: GenericMatch | null;
+}
+
+export type InteractionSeverity = 'contraindicated' | 'major' | 'moderate' | 'minor';
+
+export interface DrugInteraction {
+  severity: InteractionSeverity;
+  // Medication names as written on the prescriptions
+  medications: [string, string];
+  effect: string;
+  advice: string;
+  // Set when the second medication comes from an earlier, still active prescription
+  earlierPrescription: {
+    id: string;
+    title?: string;
+    prescribedAt: string;
+  } | null;
+}
+
+// Result of the server's drug interaction checker (no AI involved)
+export interface InteractionCheck {
+  datasetVersion: string;
+  checkedAt: string;
+  checkedMedications: string[];
+  unrecognizedMedications: string[];
+  interactions: DrugInteraction[];
+}
+
+// Medication matching an allergy or medical condition in the patient's profile
+export interface ProfileAlert {
+  type: 'allergy' | 'condition';
+  severity: 'contraindicated' | 'caution';
+  medication: string;
+  drugClass: string | null;
+  // Allergy group or condition found in the profile, e.g. "Penicillin allergy"
+  matched: string;
+  note: string;
+}
+
+export interface ProfileCheck {
+  datasetVersion: string;
+  checkedAt: string;
+  // False when the profile had no allergies or conditions to check against
+  profileComplete: boolean;
+  alerts: ProfileAlert[];
+}
+
+// How an analysis was obtained: a model reply that matched the schema straight away, one that
+// matched after the server asked the model to repair it, or generic advice when neither worked
+export type AnalysisQuality = NonNullable<SchemaPrescriptionAnalysis['quality']>;
+
+const ANALYSIS_QUALITIES: string[] = analysisSchema.properties.quality.enum;
+
+export const isAnalysisQuality = (value: unknown): value is AnalysisQuality =>
+  typeof value === 'string' && ANALYSIS_QUALITIES.includes(value);
+
+// Aggregated precautions, duration and warnings of the whole prescription, with the checks the server adds
+export interface PrescriptionAnalysis extends Omit<SchemaPrescriptionAnalysis, 'medications' | 'quality'> {
+  // Missing in analyses saved before per-medication details were added
+  medications?: MedicationAnalysis[];
+  // Missing in older analyses, null if the check failed
+  interactionCheck?: InteractionCheck | null;
+  profileCheck?: ProfileCheck | null;
+  // Missing in analyses saved before it was recorded
+  quality?: AnalysisQuality;
+}
+
+// Image the OCR text was read from (the image itself is not stored)
+export interface PrescriptionSource {
+  fileName?: string;
+  mimeType?: string;
+  size?: number;
+  sha256?: string;
+  // Pages read, for PDFs and several images uploaded together
+  pageCount?: number;
+}
+
+export interface StructuredPrescriptionText {
+  text: string;
+  medications: {
+    name: string;
+    dosage?: string;
+    dose?: string;
+    frequency?: string;
+    // Number of days when the server could read it
+    duration?: number | string | null;
+    specialInstructions?: string;
+  }[];
+  // Whether the medications were reviewed and corrected by the user
+  reviewed?: boolean;
 }
 
+// A medication as the user reviewed and corrected it before the analysis
+export interface MedicationRow {
+  name: string;
+  strength: string;
+  dose: string;
+  frequency: string;
+  duration: string;
+  instructions: string;
+}
+
+export const EMPTY_MEDICATION_ROW: MedicationRow = {
+  name: '',
+  strength: '',
+  dose: '',
+  frequency: '',
+  duration: '',
+  instructions: ''
+};
+
+// Turn the medications extracted from a prescription into rows the user can correct
+export const toMedicationRows = (structuredText: StructuredPrescriptionText | string | null): MedicationRow[] => {
+  if (!structuredText || typeof structuredText === 'string') {
+    return [];
+  }
+
+  return structuredText.medications
+    .filter(medication => medication.name)
+    .map(medication => ({
+      name: medication.name,
+      strength: medication.dosage || '',
+      dose: medication.dose || '',
+      frequency: medication.frequency || '',
+      duration: typeof medication.duration === 'number'
+        ? `${medication.duration} day${medication.duration === 1 ? '' : 's'}`
+        : medication.duration || '',
+      instructions: medication.specialInstructions || ''
+    }));
+};
+
+// Write medication rows as prescription text, e.g. 'Amoxicillin - 500 mg - 1 capsule - twice daily'
+export const describeMedicationRows = (rows: MedicationRow[]): string => rows
+  .map(row => [row.name, row.strength, row.dose, row.frequency, row.duration, row.instructions]
+    .map(value => value.trim())
+    .filter(Boolean)
+    .join(' - '))
+  .join('\n');
+
 export interface Prescription {
   _id: string;
   userId: string;
+  title?: string;
   ocrText: string;
+  // Older records and failed extractions have no structured text
+  structuredText?: StructuredPrescriptionText | string | null;
+  sourceImage?: PrescriptionSource | null;
   analysis: PrescriptionAnalysis;
   createdAt: string;
+  updatedAt?: string;
+}
+
+// Entry of the prescription history list
+export interface PrescriptionSummary {
+  _id: string;
+  title?: string;
+  sourceImage?: PrescriptionSource | null;
+  medicationNames: string[];
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface PrescriptionAnalysisResult {
+  analysis: PrescriptionAnalysis;
+  // Id of the saved history entry, null if it could not be saved
+  prescriptionId: string | null;
+  // Whether the same text was analyzed before, so no trial analysis was used
+  cached: boolean;
+}
+
+export interface ExtractedText {
+  text: string;
+  source: PrescriptionSource;
 }
 
-export interface PrescriptionResponse {
-  success: boolean;
-  data: PrescriptionAnalysis;
-  error?: string;
+// Pages of an uploaded PDF, rendered by the server as JPEG data URLs
+export interface PdfPages {
+  pages: { image: string; width: number; height: number }[];
+  source: PrescriptionSource;
 }
 
+// Line put before the text of each page when several pages are read
+export const formatPageMarker = (pageNumber: number): string => `--- Page ${pageNumber} ---`;
+
+const PAGE_MARKER_PATTERN = /^--- Page (\d+) ---$/;
+
+// Merge the text of each page (null for a page that could not be read) in page order;
+// a single page is kept without a marker
+export const mergePageTexts = (texts: (string | null)[]): string => {
+  if (texts.length === 1) {
+    return texts[0] || '';
+  }
+  return texts
+    .map((text, idx) => `${formatPageMarker(idx + 1)}\n${text ? text.trim() : '(This page could not be read)'}`)
+    .join('\n\n');
+};
+
+// Page of a position in merged text (0 for text without page markers), and the line it is on
+// within the text of that page
+export const locateInPages = (text: string, position: number): { pageIndex: number; line: number; lineCount: number } => {
+  const lines = text.split('\n');
+  const positionLine = text.slice(0, position).split('\n').length - 1;
+  let pageIndex = 0;
+  let firstLine = 0;
+  let endLine = lines.length;
+
+  lines.forEach((line, idx) => {
+    const match = line.match(PAGE_MARKER_PATTERN);
+    if (!match) return;
+    if (idx <= positionLine) {
+      pageIndex = Number(match[1]) - 1;
+      firstLine = idx + 1;
+    } else if (endLine === lines.length) {
+      endLine = idx;
+    }
+  });
+
+  return { pageIndex, line: Math.max(positionLine - firstLine, 0), lineCount: Math.max(endLine - firstLine, 1) };
+};
+
+const getSha256 = async (data: BufferSource): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Describe several uploaded files as one source; its hash is the SHA-256 of their hashes in page order
+export const combineSources = async (sources: PrescriptionSource[], pageCount: number): Promise<PrescriptionSource | null> => {
+  if (sources.length === 0) {
+    return null;
+  }
+  if (sources.length === 1) {
+    return { ...sources[0], pageCount };
+  }
+
+  const hashes = sources.map(source => source.sha256 || '').join('');
+  return {
+    fileName: `${sources[0].fileName} +${sources.length - 1}`,
+    mimeType: sources[0].mimeType,
+    size: sources.reduce((total, source) => total + (source.size || 0), 0),
+    sha256: await getSha256(new TextEncoder().encode(hashes)),
+    pageCount
+  };
+};
+
+// Describe an image read on this device, like the server does for the images it reads
+export const describeImage = async (image: Blob, fileName: string): Promise<PrescriptionSource> => ({
+  fileName,
+  mimeType: image.type,
+  size: image.size,
+  sha256: await getSha256(await image.arrayBuffer())
+});
+
 export interface TextPreprocessingResult {
-  structuredText: string;
+  // The original text when the medications could not be extracted
+  structuredText: StructuredPrescriptionText | string;
   medicationCount: number;
   isAiProcessed: boolean;
 }
 
-export interface TextPreprocessingResponse {
-  success: boolean;
-  data: TextPreprocessingResult;
-  error?: string;
-}
-
 // Check if user is authenticated
 const checkAuth = () => {
   const auth = getCurrentAuth();
@@ -59,24 +321,15 @@ const checkAuth = () => {
  * Preprocess OCR text using AI to extract and format medication info
  */
 export const preprocessOcrText = async (ocrText: string): Promise<TextPreprocessingResult> => {
+  // Check authentication first
+  checkAuth();
+
   try {
-    // Check authentication first
-    checkAuth();
-    
-    const response = await axios.post<TextPreprocessingResponse>(
-      `${API_URL}/prescriptions/preprocess`,
-      { ocrText },
-      { headers: authHeader() }
-    );
-    
-    if (!response.data.success) {
-      throw new Error(response.data.error || 'Failed to preprocess text');
-    }
-    
-    return response.data.data;
-  } catch (error: any) {
+    const response = await apiRequest('POST /prescriptions/preprocess', { body: { ocrText } });
+    return response.data;
+  } catch (error) {
     console.error('Error preprocessing OCR text:', error);
-    if (error.response?.status === 401) {
+    if (error instanceof ApiError && error.status === 401) {
       throw new Error('Please log in to analyze prescriptions');
     }
     // Return original text if processing fails
@@ -88,79 +341,71 @@ export const preprocessOcrText = async (ocrText: string): Promise<TextPreprocess
   }
 };
 
-// Analyze a prescription using OCR text
-export const analyzePrescription = async (ocrText: string): Promise<PrescriptionAnalysis> => {
-  try {
-    // Check authentication first
-    checkAuth();
-    
-    const response = await axios.post<PrescriptionResponse>(
-      `${API_URL}/prescriptions/analyze`,
-      { ocrText },
-      { headers: authHeader() }
-    );
-    
-    if (!response.data.success) {
-      throw new Error(response.data.error || 'Failed to analyze prescription');
-    }
-    
-    return response.data.data;
-  } catch (error: any) {
-    console.error('Error analyzing prescription:', error);
-    if (error.response?.status === 401) {
-      throw new Error('Please log in to analyze prescriptions');
-    }
-    throw new Error(error.response?.data?.error || error.message || 'Failed to analyze prescription');
-  }
+// Analyze a prescription using OCR text; the server saves it to the prescription history.
+// Medications reviewed by the user are analyzed as given instead of being read from the text.
+export const analyzePrescription = async (
+  ocrText: string,
+  sourceImage?: PrescriptionSource | null,
+  medications?: MedicationRow[] | null
+): Promise<PrescriptionAnalysisResult> => {
+  // Check authentication first
+  checkAuth();
+
+  const response = await apiRequest('POST /prescriptions/analyze', {
+    body: { ocrText, sourceImage: sourceImage || undefined, medications: medications || undefined }
+  });
+  return {
+    analysis: response.data,
+    prescriptionId: response.prescriptionId ?? null,
+    cached: Boolean(response.cached)
+  };
 };
 
 // Extract text from prescription image using Llama Scout
-export const extractTextFromImage = async (formData: FormData): Promise<string> => {
-  try {
-    // Check authentication first
-    checkAuth();
-    
-    console.log('Sending image to server for text extraction...');
-    
-    // Add debug information to the request
-    const response = await axios.post<{ success: boolean; data: { text: string }; error?: string }>(
-      `${API_URL}/prescriptions/extract-text`,
-      formData,
-      { 
-        headers: {
-          ...authHeader(),
-          'Content-Type': 'multipart/form-data'
-        },
-        // Add timeout to prevent indefinite waiting
-        timeout: 60000 // 60 seconds timeout
-      }
-    );
-    
-    console.log('Response received from server:', response.status);
-    
-    if (!response.data.success) {
-      const errorMsg = response.data.error || 'Failed to extract text from image';
-      console.error('Server error:', errorMsg);
-      throw new Error(errorMsg);
-    }
-    
-    const extractedText = response.data.data.text;
-    console.log('Text extracted successfully, length:', extractedText.length);
-    return extractedText;
-  } catch (error: any) {
-    console.error('Error extracting text from image:', error);
-    
-    // Check for specific error types
-    if (error.response?.status === 401) {
-      throw new Error('Please log in to analyze prescriptions');
-    } else if (error.response?.status === 400) {
-      throw new Error(error.response.data?.error || 'Invalid image format or size');
-    } else if (error.response?.status === 500) {
-      throw new Error(error.response.data?.error || 'Server error processing image');
-    } else if (error.code === 'ECONNABORTED') {
-      throw new Error('Request timed out. The server took too long to respond.');
-    }
-    
-    throw new Error(error.response?.data?.error || error.message || 'Failed to extract text from image');
-  }
+export const extractTextFromImage = async (formData: FormData): Promise<ExtractedText> => {
+  // Check authentication first
+  checkAuth();
+
+  const response = await apiRequest('POST /prescriptions/extract-text', {
+    body: formData,
+    // Reading an image takes longer than other requests
+    timeout: 60000
+  });
+  return response.data;
+};
+
+// Render the pages of a PDF on the server, to preview them and read them one by one
+export const getPdfPages = async (formData: FormData): Promise<PdfPages> => {
+  // Check authentication first
+  checkAuth();
+
+  const response = await apiRequest('POST /prescriptions/pdf-pages', {
+    body: formData,
+    // Rendering a long PDF takes longer than other requests
+    timeout: 60000
+  });
+  return response.data;
+};
+
+// Get the user's saved analyses, newest first
+export const getPrescriptionHistory = async (): Promise<PrescriptionSummary[]> => {
+  const response = await apiRequest('GET /prescriptions/history');
+  return response.data;
+};
+
+// Get a saved analysis
+export const getPrescription = async (id: string): Promise<Prescription> => {
+  const response = await apiRequest('GET /prescriptions/:id', { params: { id } });
+  return response.data;
+};
+
+// Rename a saved analysis
+export const renamePrescription = async (id: string, title: string): Promise<Prescription> => {
+  const response = await apiRequest('PUT /prescriptions/:id', { params: { id }, body: { title } });
+  return response.data;
+};
+
+// Delete a saved analysis
+export const deletePrescription = async (id: string): Promise<void> => {
+  await apiRequest('DELETE /prescriptions/:id', { params: { id } });
 };
@@ -1,6 +1,6 @@
-import axios from 'axios';
+import { apiRequest } from './apiClient';
 import { User } from './authService';
-import { authHeader, API_URL } from './authService';
+import { syncOutbox } from './syncOutbox';
 
 export interface UserProfile extends User {
   name?: string;
@@ -11,6 +11,8 @@ export interface UserProfile extends User {
   emergencyContact?: string;
   allergies?: string;
   medicalConditions?: string;
+  // Last change to the profile fields
+  profileUpdatedAt?: string | null;
 }
 
 export interface ProfileUpdateData {
@@ -24,63 +26,51 @@ export interface ProfileUpdateData {
   medicalConditions?: string;
 }
 
-export interface ProfileResponse {
-  success: boolean;
-  data: UserProfile;
-}
-
 // Get user profile 
 export const getUserProfile = async (): Promise<UserProfile | null> => {
   try {
-    const response = await axios.get<ProfileResponse>(
-      `${API_URL}/auth/me`,
-      { headers: authHeader() }
-    );
-    return response.data.data;
-  } catch (error: any) {
+    const response = await apiRequest('GET /auth/me');
+    return response.data;
+  } catch (error) {
     console.error('Error fetching user profile:', error);
     return null;
   }
 };
 
-// Update user profile
-export const updateUserProfile = async (profileData: ProfileUpdateData): Promise<UserProfile | null> => {
-  try {
-    const response = await axios.put<ProfileResponse>(
-      `${API_URL}/auth/profile`,
-      profileData,
-      { headers: authHeader() }
-    );
-    
-    // Update local storage with new user data if successful
-    if (response.data.success) {
-      const userStr = localStorage.getItem('user');
-      if (userStr) {
-        const user = JSON.parse(userStr);
-        const updatedUser = { ...user, ...response.data.data };
-        localStorage.setItem('user', JSON.stringify(updatedUser));
-      }
-    }
-    
-    return response.data.data;
-  } catch (error: any) {
-    console.error('Error updating user profile:', error);
-    throw new Error(error.response?.data?.error || 'Failed to update profile');
+/**
+ * Update user profile. expectedUpdatedAt is the profileUpdatedAt of the copy being edited,
+ * so changes made elsewhere in the meantime are detected instead of overwritten.
+ * Returns null when the server can't be reached - the change is queued and sent later.
+ */
+export const updateUserProfile = async (
+  profileData: ProfileUpdateData,
+  expectedUpdatedAt?: string | null
+): Promise<UserProfile | null> => {
+  const response = await syncOutbox.submit({
+    type: 'update_profile',
+    label: 'Update profile',
+    resourceKey: 'profile',
+    route: 'PUT /auth/profile',
+    options: { body: { ...profileData, expectedUpdatedAt: expectedUpdatedAt || undefined } }
+  });
+
+  if (!response) {
+    return null;
   }
+
+  // Update local storage with new user data
+  const userStr = localStorage.getItem('user');
+  if (userStr) {
+    const user = JSON.parse(userStr);
+    const updatedUser = { ...user, ...response.data };
+    localStorage.setItem('user', JSON.stringify(updatedUser));
+  }
+  
+  return response.data;
 };
 
 // Change user password
 export const changePassword = async (currentPassword: string, newPassword: string): Promise<boolean> => {
-  try {
-    const response = await axios.put(
-      `${API_URL}/auth/password`,
-      { currentPassword, newPassword },
-      { headers: authHeader() }
-    );
-    
-    return response.data.success;
-  } catch (error: any) {
-    console.error('Error changing password:', error);
-    throw new Error(error.response?.data?.error || 'Failed to change password');
-  }
-}; 
\ No newline at end of file
+  const response = await apiRequest('PUT /auth/password', { body: { currentPassword, newPassword } });
+  return response.success;
+};
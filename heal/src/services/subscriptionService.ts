@@ -1,5 +1,4 @@
-import axios from 'axios';
-import { API_URL, authHeader } from './authService';
+import { apiRequest } from './apiClient';
 
 // Subscription status types
 export interface SubscriptionStatus {
@@ -10,119 +9,57 @@ export interface SubscriptionStatus {
   requiresPayment: boolean;
 }
 
-// Response interfaces
-export interface SubscriptionResponse {
-  success: boolean;
-  data: SubscriptionStatus;
+// Unsigned Stellar payment for the user to sign
+export interface PaymentTransaction {
+  transactionXDR: string;
+  amount: number;
 }
 
-export interface PaymentTransactionResponse {
-  success: boolean;
-  data: {
-    transactionXDR: string;
-    amount: number;
-  };
+// Result of a successful (real or test) payment
+export interface PaymentVerification {
+  message: string;
+  startDate: string;
+  endDate: string;
+  transactionId: string;
 }
 
-export interface PaymentVerificationResponse {
-  success: boolean;
-  data: {
-    message: string;
-    startDate: string;
-    endDate: string;
-    transactionId: string;
-  };
-}
-
-export interface TestAccountResponse {
-  success: boolean;
-  data: {
-    publicKey: string;
-    secretKey: string;
-    message: string;
-  };
-}
-
-export interface TestPaymentResponse {
-  success: boolean;
-  data: {
-    message: string;
-    startDate: string;
-    endDate: string;
-    transactionId: string;
-  };
+export interface TestAccount {
+  publicKey: string;
+  secretKey: string;
+  message: string;
 }
 
 // Get user's subscription status
 export const getSubscriptionStatus = async (): Promise<SubscriptionStatus | null> => {
   try {
-    const response = await axios.get<SubscriptionResponse>(
-      `${API_URL}/subscription/status`,
-      { headers: authHeader() }
-    );
-    return response.data.data;
-  } catch (error: any) {
+    const response = await apiRequest('GET /subscription/status');
+    return response.data;
+  } catch (error) {
     console.error('Error fetching subscription status:', error);
     return null;
   }
 };
 
 // Create a payment transaction
-export const createPaymentTransaction = async (userPublicKey: string): Promise<PaymentTransactionResponse['data'] | null> => {
-  try {
-    const response = await axios.post<PaymentTransactionResponse>(
-      `${API_URL}/subscription/payment/create`,
-      { userPublicKey },
-      { headers: authHeader() }
-    );
-    return response.data.data;
-  } catch (error: any) {
-    console.error('Error creating payment transaction:', error);
-    throw new Error(error.response?.data?.error || 'Failed to create payment transaction');
-  }
+export const createPaymentTransaction = async (userPublicKey: string): Promise<PaymentTransaction> => {
+  const response = await apiRequest('POST /subscription/payment/create', { body: { userPublicKey } });
+  return response.data;
 };
 
 // Verify a payment transaction
-export const verifyPayment = async (signedTransactionXDR: string): Promise<PaymentVerificationResponse['data'] | null> => {
-  try {
-    const response = await axios.post<PaymentVerificationResponse>(
-      `${API_URL}/subscription/payment/verify`,
-      { signedTransactionXDR },
-      { headers: authHeader() }
-    );
-    return response.data.data;
-  } catch (error: any) {
-    console.error('Error verifying payment:', error);
-    throw new Error(error.response?.data?.error || 'Failed to verify payment');
-  }
+export const verifyPayment = async (signedTransactionXDR: string): Promise<PaymentVerification> => {
+  const response = await apiRequest('POST /subscription/payment/verify', { body: { signedTransactionXDR } });
+  return response.data;
 };
 
 // Create a test account for hackathon demo
-export const createTestAccount = async (): Promise<TestAccountResponse['data'] | null> => {
-  try {
-    const response = await axios.post<TestAccountResponse>(
-      `${API_URL}/subscription/testaccount`,
-      {},
-      { headers: authHeader() }
-    );
-    return response.data.data;
-  } catch (error: any) {
-    console.error('Error creating test account:', error);
-    throw new Error(error.response?.data?.error || 'Failed to create test account');
-  }
+export const createTestAccount = async (): Promise<TestAccount> => {
+  const response = await apiRequest('POST /subscription/testaccount');
+  return response.data;
 };
 
 // Process payment directly with a test account
-export const processTestPayment = async (publicKey: string, secretKey: string): Promise<TestPaymentResponse['data'] | null> => {
-  try {
-    const response = await axios.post<TestPaymentResponse>(
-      `${API_URL}/subscription/payment/test`,
-      { publicKey, secretKey },
-      { headers: authHeader() }
-    );
-    return response.data.data;
-  } catch (error: any) {
-    console.error('Error processing test payment:', error);
-    throw new Error(error.response?.data?.error || 'Failed to process test payment');
-  }
-}; 
\ No newline at end of file
+export const processTestPayment = async (publicKey: string, secretKey: string): Promise<PaymentVerification> => {
+  const response = await apiRequest('POST /subscription/payment/test', { body: { publicKey, secretKey } });
+  return response.data;
+};
@@ -0,0 +1,441 @@
+import { ApiError, ApiErrorCode, ApiRoute, ApiRoutes, RequestOptions, sendRequest } from './apiClient';
+import type { StaleUpdateResponse } from './apiRoutes';
+import {
+  MutationType,
+  OutboxEntry,
+  clearOutboxEntries,
+  deleteOutboxEntry,
+  getOutboxEntries,
+  putOutboxEntry
+} from './outboxStore';
+import { MAX_SYNC_ATTEMPTS, RETRY_BASE_DELAY_MS, RETRY_MAX_DELAY_MS } from '@/config/syncConfig';
+import type { AppointmentStatus } from '@/config/appointmentStatus';
+
+export type { MutationType, OutboxEntry } from './outboxStore';
+
+export interface SyncStatus {
+  // Changes waiting to be sent
+  pending: OutboxEntry[];
+  pendingCount: number;
+  // Changes the user has to resolve
+  conflicts: OutboxEntry[];
+  failures: OutboxEntry[];
+  isSyncing: boolean;
+  isOnline: boolean;
+  // Next automatic retry (epoch ms), null when nothing is waiting
+  nextRetryAt: number | null;
+  // Updated whenever a queued change reaches the server, so views can reload their data
+  lastSyncedAt: number | null;
+}
+
+// A change to send, described with the typed route it goes to
+export interface Mutation<R extends ApiRoute> {
+  type: MutationType;
+  label: string;
+  resourceKey: string;
+  route: R;
+  options: RequestOptions<R>;
+}
+
+export type ConflictResolution = 'keep_mine' | 'use_server';
+
+// Failures worth retrying with the same idempotency key: the server did not store a response
+const RETRYABLE_ERRORS: ApiErrorCode[] = ['NETWORK_ERROR', 'TIMEOUT', 'SERVER_ERROR', 'REQUEST_IN_PROGRESS'];
+
+// Field holding the version of the record each kind of change is checked against
+const VERSION_FIELDS: Record<MutationType, string> = {
+  book_appointment: 'updatedAt',
+  update_appointment_status: 'updatedAt',
+  reschedule_appointment: 'updatedAt',
+  update_profile: 'profileUpdatedAt'
+};
+
+// Status changes queued in localStorage by earlier versions of the app
+const LEGACY_STORAGE_KEY = 'pendingAppointmentOperations';
+
+export const createIdempotencyKey = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}-${Math.random().toString(36).slice(2)}`;
+};
+
+// Exponential backoff with jitter, so clients coming back online don't retry in lockstep
+const getRetryDelay = (attempts: number): number => {
+  const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+};
+
+const toApiError = (error: unknown): ApiError => {
+  return error instanceof ApiError
+    ? error
+    : new ApiError((error as Error)?.message || 'Failed to send change', null, 'UNKNOWN');
+};
+
+/**
+ * Durable queue of changes made while the server could not be reached.
+ * Entries live in IndexedDB, are sent with an idempotency key so a retry is applied once,
+ * and are retried with backoff. Changes based on an outdated copy of a record become
+ * conflicts for the user to resolve.
+ */
+class SyncOutbox {
+  private static instance: SyncOutbox;
+  private entries: OutboxEntry[] = [];
+  private listeners = new Set<() => void>();
+  private status: SyncStatus;
+  private isProcessing = false;
+  private lastSyncedAt: number | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private ready: Promise<void>;
+
+  private constructor() {
+    this.status = this.buildStatus();
+    this.ready = this.load();
+    this.ready.then(() => this.sync());
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => {
+        this.publish();
+        this.sync();
+      });
+      window.addEventListener('offline', () => this.publish());
+    }
+  }
+
+  public static getInstance(): SyncOutbox {
+    if (!SyncOutbox.instance) {
+      SyncOutbox.instance = new SyncOutbox();
+    }
+    return SyncOutbox.instance;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      this.entries = await getOutboxEntries();
+      await this.migrateLegacyOperations();
+    } catch (error) {
+      console.error('Error loading sync outbox:', error);
+    }
+    this.publish();
+  }
+
+  private async migrateLegacyOperations(): Promise<void> {
+    const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!stored) return;
+
+    try {
+      const operations: { id: string; status: AppointmentStatus; timestamp: string }[] = JSON.parse(stored);
+      for (const operation of operations) {
+        await this.save({
+          ...this.createEntry({
+            type: 'update_appointment_status',
+            label: 'Change appointment status',
+            resourceKey: `appointment:${operation.id}`,
+            route: 'PUT /appointments/:id/status',
+            options: { params: { id: operation.id }, body: { status: operation.status } }
+          }),
+          createdAt: operation.timestamp
+        });
+      }
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+    } catch (error) {
+      console.error('Error migrating pending appointment operations:', error);
+    }
+  }
+
+  private createEntry<R extends ApiRoute>(mutation: Mutation<R>): OutboxEntry {
+    const { params, body } = mutation.options as { params?: Record<string, string>; body?: unknown };
+
+    return {
+      id: createIdempotencyKey(),
+      idempotencyKey: createIdempotencyKey(),
+      type: mutation.type,
+      label: mutation.label,
+      route: mutation.route,
+      options: { params, body },
+      resourceKey: mutation.resourceKey,
+      state: 'pending',
+      attempts: 0,
+      createdAt: new Date().toISOString(),
+      nextAttemptAt: Date.now()
+    };
+  }
+
+  private async save(entry: OutboxEntry): Promise<void> {
+    await putOutboxEntry(entry);
+    const index = this.entries.findIndex(existing => existing.id === entry.id);
+    if (index === -1) {
+      this.entries = [...this.entries, entry].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    } else {
+      this.entries = this.entries.map(existing => existing.id === entry.id ? entry : existing);
+    }
+  }
+
+  private async remove(id: string): Promise<void> {
+    await deleteOutboxEntry(id);
+    this.entries = this.entries.filter(entry => entry.id !== id);
+  }
+
+  private send(entry: OutboxEntry): Promise<unknown> {
+    return sendRequest(entry.route, { ...entry.options, idempotencyKey: entry.idempotencyKey });
+  }
+
+  private buildStatus(): SyncStatus {
+    const pending = this.entries.filter(entry => entry.state === 'pending');
+
+    return {
+      pending,
+      pendingCount: pending.length,
+      conflicts: this.entries.filter(entry => entry.state === 'conflict'),
+      failures: this.entries.filter(entry => entry.state === 'failed'),
+      isSyncing: this.isProcessing,
+      isOnline: typeof navigator === 'undefined' || navigator.onLine,
+      nextRetryAt: pending.length > 0 ? Math.min(...pending.map(entry => entry.nextAttemptAt)) : null,
+      lastSyncedAt: this.lastSyncedAt
+    };
+  }
+
+  // Status snapshots are replaced, never mutated, so React can compare them by reference
+  private publish(): void {
+    this.status = this.buildStatus();
+    this.listeners.forEach(listener => listener());
+  }
+
+  public subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  public getStatus = (): SyncStatus => this.status;
+
+  // Retry again when the earliest waiting entry is due
+  private scheduleRetry(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    const { nextRetryAt } = this.status;
+    if (nextRetryAt !== null && navigator.onLine) {
+      this.retryTimer = setTimeout(() => this.sync(), Math.max(nextRetryAt - Date.now(), 0));
+    }
+  }
+
+  // Earlier unsent changes to the same record must reach the server first
+  private isWaitingBehind(resourceKey: string): boolean {
+    return this.entries.some(entry => entry.resourceKey === resourceKey && entry.state !== 'failed');
+  }
+
+  /**
+   * Send a change now, or queue it when the server can't be reached (or an earlier change
+   * to the same record is still queued). Resolves with the response, or null when queued;
+   * any other failure is thrown so the user sees it right away.
+   */
+  public async submit<R extends ApiRoute>(mutation: Mutation<R>): Promise<ApiRoutes[R]['response'] | null> {
+    await this.ready;
+    const entry = this.createEntry(mutation);
+
+    if (navigator.onLine && !this.isWaitingBehind(entry.resourceKey)) {
+      try {
+        return await this.send(entry) as ApiRoutes[R]['response'];
+      } catch (error) {
+        if (!(error instanceof ApiError && error.isNetworkError)) {
+          throw error;
+        }
+        entry.attempts = 1;
+        entry.nextAttemptAt = Date.now() + getRetryDelay(1);
+        entry.lastError = error.message;
+
+        try {
+          await this.save(entry);
+        } catch (storageError) {
+          console.error('Error queueing change:', storageError);
+          throw error;
+        }
+        this.publish();
+        this.scheduleRetry();
+        return null;
+      }
+    }
+
+    await this.save(entry);
+    this.publish();
+    this.sync();
+    return null;
+  }
+
+  // Send every entry that is due, oldest first
+  public async sync(): Promise<void> {
+    await this.ready;
+    if (this.isProcessing || !navigator.onLine) {
+      return;
+    }
+
+    this.isProcessing = true;
+    this.publish();
+
+    try {
+      const now = Date.now();
+      const blocked = new Set<string>();
+
+      for (const entry of this.entries) {
+        if (entry.state === 'failed') continue;
+
+        if (entry.state === 'conflict' || blocked.has(entry.resourceKey) || entry.nextAttemptAt > now) {
+          blocked.add(entry.resourceKey);
+          continue;
+        }
+
+        const keepGoing = await this.process(entry);
+        if (this.entries.some(existing => existing.id === entry.id)) {
+          blocked.add(entry.resourceKey);
+        }
+        if (!keepGoing) break;
+      }
+    } finally {
+      this.isProcessing = false;
+      this.publish();
+      this.scheduleRetry();
+    }
+  }
+
+  // Send one entry and record the outcome. Returns false when syncing should stop for now.
+  private async process(entry: OutboxEntry): Promise<boolean> {
+    try {
+      await this.send(entry);
+      await this.remove(entry.id);
+      this.lastSyncedAt = Date.now();
+      return true;
+    } catch (error) {
+      const apiError = toApiError(error);
+
+      // The session expired: keep everything until the user signs in again
+      if (apiError.code === 'UNAUTHORIZED') {
+        return false;
+      }
+
+      if (apiError.code === 'STALE_UPDATE') {
+        const current = (apiError.data as StaleUpdateResponse<Record<string, unknown>>)?.current || null;
+        await this.save({
+          ...entry,
+          state: 'conflict',
+          lastError: apiError.message,
+          lastErrorCode: apiError.code,
+          serverVersion: current,
+          serverUpdatedAt: (current?.[VERSION_FIELDS[entry.type]] as string | undefined) || null
+        });
+        return true;
+      }
+
+      if (RETRYABLE_ERRORS.includes(apiError.code)) {
+        const attempts = entry.attempts + 1;
+        await this.save({
+          ...entry,
+          state: attempts >= MAX_SYNC_ATTEMPTS ? 'failed' : 'pending',
+          attempts,
+          nextAttemptAt: Date.now() + getRetryDelay(attempts),
+          lastError: apiError.message,
+          lastErrorCode: apiError.code
+        });
+        // Other entries would not get through while the server is unreachable
+        return !apiError.isNetworkError;
+      }
+
+      // Rejected by the server (e.g. no longer allowed) - retrying won't help
+      await this.save({
+        ...entry,
+        state: 'failed',
+        lastError: apiError.message,
+        lastErrorCode: apiError.code
+      });
+      return true;
+    }
+  }
+
+  // Retry every waiting entry now instead of waiting for the backoff
+  public async syncNow(): Promise<void> {
+    await this.ready;
+    for (const entry of this.entries.filter(existing => existing.state === 'pending')) {
+      await this.save({ ...entry, nextAttemptAt: Date.now() });
+    }
+    await this.sync();
+  }
+
+  /**
+   * keep_mine: send the change again on top of the server's version
+   * use_server: drop the change and keep what is on the server
+   */
+  public async resolveConflict(id: string, resolution: ConflictResolution): Promise<void> {
+    await this.ready;
+    const entry = this.entries.find(existing => existing.id === id);
+    if (!entry || entry.state !== 'conflict') return;
+
+    if (resolution === 'use_server') {
+      await this.remove(id);
+      this.lastSyncedAt = Date.now();
+      this.publish();
+      return;
+    }
+
+    const body = (entry.options.body || {}) as Record<string, unknown>;
+    await this.save({
+      ...entry,
+      // The stored response for the old key is the conflict itself
+      idempotencyKey: createIdempotencyKey(),
+      options: {
+        ...entry.options,
+        body: { ...body, expectedUpdatedAt: entry.serverUpdatedAt || undefined }
+      },
+      state: 'pending',
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+      lastError: undefined,
+      lastErrorCode: undefined,
+      serverVersion: undefined,
+      serverUpdatedAt: undefined
+    });
+    this.publish();
+    await this.sync();
+  }
+
+  // Try a failed entry again
+  public async retry(id: string): Promise<void> {
+    await this.ready;
+    const entry = this.entries.find(existing => existing.id === id);
+    if (!entry || entry.state !== 'failed') return;
+
+    await this.save({
+      ...entry,
+      // The server kept its response to the old key unless the request never completed
+      idempotencyKey: RETRYABLE_ERRORS.includes(entry.lastErrorCode) ? entry.idempotencyKey : createIdempotencyKey(),
+      state: 'pending',
+      attempts: 0,
+      nextAttemptAt: Date.now()
+    });
+    this.publish();
+    await this.sync();
+  }
+
+  public async discard(id: string): Promise<void> {
+    await this.ready;
+    await this.remove(id);
+    this.publish();
+  }
+
+  // Drop every queued change (on logout - they can't be sent without the user's session)
+  public async clear(): Promise<void> {
+    await this.ready;
+    try {
+      await clearOutboxEntries();
+    } catch (error) {
+      console.error('Error clearing sync outbox:', error);
+    }
+    this.entries = [];
+    this.publish();
+    this.scheduleRetry();
+  }
+}
+
+export const syncOutbox = SyncOutbox.getInstance();
@@ -0,0 +1,43 @@
+// Generated from shared/prescriptionAnalysis.schema.json by npm run generate:types - do not edit
+
+export type StringList = string[];
+
+/**
+ * Safety analysis of a prescription as returned by the language model. The server validates every model reply against it; the client types in heal/src/types/prescriptionAnalysis.generated.ts are generated from it with npm run generate:types in heal, which runs before every build. quality is set by the server, never by the model.
+ */
+export interface PrescriptionAnalysis {
+  medications: Medication[];
+  precautions: Precautions;
+  duration: {
+    total_days: number | null;
+    frequency: string;
+    timing: string;
+  };
+  warnings: Warnings;
+  /**
+   * ai_validated: the first model reply matched this schema; ai_repaired: a reply matched after a repair prompt; fallback_generic: no valid reply, the analysis is generic advice
+   */
+  quality?: "ai_validated" | "ai_repaired" | "fallback_generic";
+}
+export interface Medication {
+  name: string;
+  strength: string;
+  dosage_form: string;
+  route: string;
+  dose: string;
+  frequency: string;
+  timing: string;
+  duration_days: number | null;
+  precautions: Precautions;
+  warnings: Warnings;
+}
+export interface Precautions {
+  dietary_restrictions: StringList;
+  activity_limitations: StringList;
+  side_effects: StringList;
+}
+export interface Warnings {
+  drug_interactions: StringList;
+  contraindications: StringList;
+  overdose_symptoms: StringList;
+}
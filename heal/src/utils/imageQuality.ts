@@ -0,0 +1,376 @@
+/**
+ * Quality check and enhancement of prescription photos in the browser, before they are read
+ */
+
+export type ImageQualityLevel = 'good' | 'fair' | 'poor';
+
+export interface ImageQualityReport {
+  level: ImageQualityLevel;
+  // What is wrong with the image, e.g. "Too dark"
+  issues: string[];
+  width: number;
+  height: number;
+  // Variance of the Laplacian; low values mean a blurry image
+  sharpness: number;
+  // Mean brightness, 0-255
+  brightness: number;
+}
+
+export interface EnhancedImage {
+  image: Blob;
+  preview: string;
+  // What was changed, e.g. "Straightened by 2.5°"
+  steps: string[];
+}
+
+// Images are analysed at this size, so the sharpness thresholds do not depend on the camera
+const ANALYSIS_DIMENSION = 1000;
+
+// Longest side of an enhanced image; the vision model gains nothing from larger ones
+const MAX_OUTPUT_DIMENSION = 2000;
+
+// Quality thresholds: below the first value an image is poor, below the second fair
+const SHARPNESS_THRESHOLDS = [40, 120];
+const SHORT_SIDE_THRESHOLDS = [600, 1000];
+const BRIGHTNESS_THRESHOLDS = [60, 90];
+const OVEREXPOSED_BRIGHTNESS = 235;
+const LOW_CONTRAST = 25;
+
+// Skew angles tried when straightening, in degrees
+const MAX_SKEW = 10;
+const SKEW_STEP = 0.5;
+// Most text pixels used to estimate the skew
+const MAX_SKEW_POINTS = 30000;
+
+// The paper is cropped to only when it covers this share of the photo
+const MIN_PAPER_AREA = 0.2;
+const MAX_PAPER_AREA = 0.92;
+// Share of bright pixels in a row or column of the paper
+const PAPER_LINE_FRACTION = 0.4;
+
+const JPEG_QUALITY = 0.9;
+
+/**
+ * Draw an image on a new canvas, scaled down to a longest side
+ * @param source - Image to draw
+ * @param width - Width of the image
+ * @param height - Height of the image
+ * @param maxDimension - Longest side of the canvas
+ * @returns The canvas
+ */
+const drawScaled = (source: CanvasImageSource, width: number, height: number, maxDimension: number): HTMLCanvasElement => {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  canvas.getContext('2d').drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+/**
+ * Get the brightness of every pixel of a canvas
+ * @param canvas - Canvas to read
+ * @returns Brightness values (0-255), row by row
+ */
+const getGrayscale = (canvas: HTMLCanvasElement): Float32Array => {
+  const { data } = canvas.getContext('2d').getImageData(0, 0, canvas.width, canvas.height);
+  const gray = new Float32Array(canvas.width * canvas.height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return gray;
+};
+
+/**
+ * Estimate the sharpness of an image as the variance of its Laplacian
+ * @param gray - Brightness values
+ * @param width - Width of the image
+ * @param height - Height of the image
+ * @returns The variance; blurry images give low values
+ */
+const getSharpness = (gray: Float32Array, width: number, height: number): number => {
+  let sum = 0;
+  let sumOfSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const laplacian = gray[i - 1] + gray[i + 1] + gray[i - width] + gray[i + width] - 4 * gray[i];
+      sum += laplacian;
+      sumOfSquares += laplacian * laplacian;
+      count++;
+    }
+  }
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumOfSquares / count - mean * mean;
+};
+
+/**
+ * Find the brightness separating dark from light pixels (Otsu's method)
+ * @param gray - Brightness values
+ * @returns The threshold, 0-255
+ */
+const getThreshold = (gray: Float32Array): number => {
+  const histogram = new Array(256).fill(0);
+  gray.forEach(value => histogram[Math.round(value)]++);
+
+  const total = gray.length;
+  const weightedTotal = histogram.reduce((sum, count, value) => sum + count * value, 0);
+  let background = 0;
+  let weightedBackground = 0;
+  let best = { threshold: 128, variance: -1 };
+
+  for (let value = 0; value < 256; value++) {
+    background += histogram[value];
+    if (background === 0 || background === total) continue;
+    weightedBackground += histogram[value] * value;
+    const foreground = total - background;
+    const meanDifference = weightedBackground / background - (weightedTotal - weightedBackground) / foreground;
+    const variance = background * foreground * meanDifference * meanDifference;
+    if (variance > best.variance) {
+      best = { threshold: value, variance };
+    }
+  }
+  return best.threshold;
+};
+
+/**
+ * Check whether a photo is sharp, bright and large enough to be read
+ * @param image - Photo or rendered page
+ * @returns The quality level and the issues found
+ */
+export const checkImageQuality = async (image: Blob): Promise<ImageQualityReport> => {
+  const bitmap = await createImageBitmap(image);
+  const { width, height } = bitmap;
+  const canvas = drawScaled(bitmap, width, height, ANALYSIS_DIMENSION);
+  bitmap.close();
+
+  const gray = getGrayscale(canvas);
+  const brightness = gray.reduce((sum, value) => sum + value, 0) / gray.length;
+  const contrast = Math.sqrt(gray.reduce((sum, value) => sum + (value - brightness) ** 2, 0) / gray.length);
+  const sharpness = getSharpness(gray, canvas.width, canvas.height);
+
+  const issues: { text: string; level: ImageQualityLevel }[] = [];
+  const rate = (value: number, [poor, fair]: number[], text: string) => {
+    if (value < poor) issues.push({ text, level: 'poor' });
+    else if (value < fair) issues.push({ text, level: 'fair' });
+  };
+
+  rate(sharpness, SHARPNESS_THRESHOLDS, 'Blurry - hold the camera still and tap to focus');
+  rate(Math.min(width, height), SHORT_SIDE_THRESHOLDS, 'Low resolution - move closer or use a higher camera setting');
+  rate(brightness, BRIGHTNESS_THRESHOLDS, 'Too dark - take the photo in better light');
+  if (brightness > OVEREXPOSED_BRIGHTNESS) {
+    issues.push({ text: 'Overexposed - avoid direct light or flash glare', level: 'fair' });
+  }
+  if (contrast < LOW_CONTRAST) {
+    issues.push({ text: 'Low contrast - the text is hard to tell from the paper', level: 'fair' });
+  }
+
+  const level = issues.some(issue => issue.level === 'poor')
+    ? 'poor'
+    : issues.length > 0 ? 'fair' : 'good';
+
+  return {
+    level,
+    issues: issues.map(issue => issue.text),
+    width,
+    height,
+    sharpness: Math.round(sharpness),
+    brightness: Math.round(brightness)
+  };
+};
+
+/**
+ * Find the sheet of paper in a photo, as the block of rows and columns that are mostly bright
+ * @param gray - Brightness values
+ * @param width - Width of the image
+ * @param height - Height of the image
+ * @param threshold - Brightness separating the paper from darker surroundings
+ * @returns The paper's bounds, or null when it fills the photo or cannot be found
+ */
+const findPaper = (gray: Float32Array, width: number, height: number, threshold: number) => {
+  const isPaperRow = (y: number) => {
+    let bright = 0;
+    for (let x = 0; x < width; x++) if (gray[y * width + x] > threshold) bright++;
+    return bright / width > PAPER_LINE_FRACTION;
+  };
+
+  let top = 0;
+  while (top < height && !isPaperRow(top)) top++;
+  let bottom = height - 1;
+  while (bottom > top && !isPaperRow(bottom)) bottom--;
+  if (bottom <= top) return null;
+
+  const isPaperColumn = (x: number) => {
+    let bright = 0;
+    for (let y = top; y <= bottom; y++) if (gray[y * width + x] > threshold) bright++;
+    return bright / (bottom - top + 1) > PAPER_LINE_FRACTION;
+  };
+
+  let left = 0;
+  while (left < width && !isPaperColumn(left)) left++;
+  let right = width - 1;
+  while (right > left && !isPaperColumn(right)) right--;
+  if (right <= left) return null;
+
+  const area = ((right - left + 1) * (bottom - top + 1)) / (width * height);
+  if (area < MIN_PAPER_AREA || area > MAX_PAPER_AREA) return null;
+  return { left, top, width: right - left + 1, height: bottom - top + 1 };
+};
+
+/**
+ * Estimate how far the lines of text are tilted, as the angle at which the dark pixels
+ * line up into the sharpest rows
+ * @param gray - Brightness values
+ * @param width - Width of the image
+ * @param height - Height of the image
+ * @param threshold - Brightness below which a pixel is text
+ * @returns The tilt in degrees, positive when lines go down to the right
+ */
+const estimateSkew = (gray: Float32Array, width: number, height: number, threshold: number): number => {
+  const points: number[] = [];
+  let darkCount = 0;
+  gray.forEach(value => { if (value < threshold) darkCount++; });
+  const stride = Math.max(1, Math.ceil(darkCount / MAX_SKEW_POINTS));
+
+  let seen = 0;
+  for (let i = 0; i < gray.length; i++) {
+    if (gray[i] < threshold && seen++ % stride === 0) {
+      points.push(i % width, Math.floor(i / width));
+    }
+  }
+  if (points.length < 1000) return 0;
+
+  const bins = new Float64Array(width + height * 2);
+  let best = { angle: 0, score: -1 };
+  for (let angle = -MAX_SKEW; angle <= MAX_SKEW; angle += SKEW_STEP) {
+    const radians = (angle * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    bins.fill(0);
+    for (let p = 0; p < points.length; p += 2) {
+      bins[Math.round(points[p + 1] * cos - points[p] * sin) + width]++;
+    }
+    const score = bins.reduce((sum, count) => sum + count * count, 0);
+    if (score > best.score) {
+      best = { angle, score };
+    }
+  }
+  return best.angle;
+};
+
+/**
+ * Stretch the brightness of a canvas so the darkest text is black and the paper white
+ * @param canvas - Canvas changed in place
+ * @returns Whether the contrast was changed
+ */
+const normalizeContrast = (canvas: HTMLCanvasElement): boolean => {
+  const context = canvas.getContext('2d');
+  const imageData = context.getImageData(0, 0, canvas.width, canvas.height);
+  const { data } = imageData;
+
+  const histogram = new Array(256).fill(0);
+  for (let i = 0; i < data.length; i += 4) {
+    histogram[Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2])]++;
+  }
+
+  // Ignore the 1% darkest and brightest pixels (noise, glare)
+  const pixels = data.length / 4;
+  const findPercentile = (share: number) => {
+    let count = 0;
+    for (let value = 0; value < 256; value++) {
+      count += histogram[value];
+      if (count >= pixels * share) return value;
+    }
+    return 255;
+  };
+  const low = findPercentile(0.01);
+  const high = findPercentile(0.99);
+  if (high - low < 10 || (low < 5 && high > 250)) return false;
+
+  const scale = 255 / (high - low);
+  for (let i = 0; i < data.length; i += 4) {
+    for (let channel = 0; channel < 3; channel++) {
+      data[i + channel] = Math.max(0, Math.min(255, (data[i + channel] - low) * scale));
+    }
+  }
+  context.putImageData(imageData, 0, 0);
+  return true;
+};
+
+/**
+ * Improve a photo for reading: crop to the paper, straighten the text, normalise the contrast
+ * and scale it down to a sensible size
+ * @param image - Photo or rendered page
+ * @returns The enhanced JPEG, its preview and what was changed
+ */
+export const enhanceImage = async (image: Blob): Promise<EnhancedImage> => {
+  const bitmap = await createImageBitmap(image);
+  const steps: string[] = [];
+  let canvas = drawScaled(bitmap, bitmap.width, bitmap.height, MAX_OUTPUT_DIMENSION);
+  if (Math.max(bitmap.width, bitmap.height) > MAX_OUTPUT_DIMENSION) {
+    steps.push(`Resized to ${canvas.width} × ${canvas.height} px`);
+  }
+  bitmap.close();
+
+  const analysis = drawScaled(canvas, canvas.width, canvas.height, ANALYSIS_DIMENSION);
+  const scale = canvas.width / analysis.width;
+  let gray = getGrayscale(analysis);
+  let threshold = getThreshold(gray);
+
+  const paper = findPaper(gray, analysis.width, analysis.height, threshold);
+  if (paper) {
+    const cropped = document.createElement('canvas');
+    cropped.width = Math.round(paper.width * scale);
+    cropped.height = Math.round(paper.height * scale);
+    cropped.getContext('2d').drawImage(
+      canvas,
+      Math.round(paper.left * scale), Math.round(paper.top * scale), cropped.width, cropped.height,
+      0, 0, cropped.width, cropped.height
+    );
+    canvas = cropped;
+    steps.push('Cropped to the paper');
+    gray = getGrayscale(drawScaled(canvas, canvas.width, canvas.height, ANALYSIS_DIMENSION));
+    // Separate the text from the paper rather than the paper from its surroundings
+    threshold = getThreshold(gray);
+  }
+
+  const analysisScale = Math.min(1, ANALYSIS_DIMENSION / Math.max(canvas.width, canvas.height));
+  const skew = estimateSkew(
+    gray,
+    Math.max(1, Math.round(canvas.width * analysisScale)),
+    Math.max(1, Math.round(canvas.height * analysisScale)),
+    threshold
+  );
+  if (Math.abs(skew) >= SKEW_STEP) {
+    const radians = (skew * Math.PI) / 180;
+    const rotated = document.createElement('canvas');
+    rotated.width = Math.round(canvas.width * Math.abs(Math.cos(radians)) + canvas.height * Math.abs(Math.sin(radians)));
+    rotated.height = Math.round(canvas.width * Math.abs(Math.sin(radians)) + canvas.height * Math.abs(Math.cos(radians)));
+    const context = rotated.getContext('2d');
+    // Fill the corners uncovered by the rotation like paper
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, rotated.width, rotated.height);
+    context.translate(rotated.width / 2, rotated.height / 2);
+    context.rotate(-radians);
+    context.drawImage(canvas, -canvas.width / 2, -canvas.height / 2);
+    context.setTransform(1, 0, 0, 1, 0, 0);
+    canvas = rotated;
+    steps.push(`Straightened by ${Math.abs(skew)}°`);
+  }
+
+  if (normalizeContrast(canvas)) {
+    steps.push('Contrast improved');
+  }
+
+  const enhanced = await new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not save the enhanced image'))), 'image/jpeg', JPEG_QUALITY);
+  });
+
+  return {
+    image: enhanced,
+    preview: canvas.toDataURL('image/jpeg', JPEG_QUALITY),
+    steps
+  };
+};
@@ -1,7 +1,39 @@
-import { defineConfig } from "vite";
+import { defineConfig, searchForWorkspaceRoot, Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
+import fs from "fs";
 import path from "path";
 
+// Files of the in-browser OCR engine, served from /tesseract so it works offline:
+// the worker, the LSTM builds of the WASM core and the English language data
+const OCR_ASSETS: Record<string, string> = {
+  "worker.min.js": "tesseract.js/dist/worker.min.js",
+  "tesseract-core-lstm.wasm.js": "tesseract.js-core/tesseract-core-lstm.wasm.js",
+  "tesseract-core-simd-lstm.wasm.js": "tesseract.js-core/tesseract-core-simd-lstm.wasm.js",
+  "tesseract-core-relaxedsimd-lstm.wasm.js": "tesseract.js-core/tesseract-core-relaxedsimd-lstm.wasm.js",
+  "eng.traineddata.gz": "@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz",
+};
+
+const ocrAssets = (): Plugin => ({
+  name: "ocr-assets",
+  configureServer(server) {
+    server.middlewares.use("/tesseract", (req, res, next) => {
+      const source = OCR_ASSETS[(req.url || "").replace(/^\//, "").split("?")[0]];
+      if (!source) return next();
+      res.setHeader("Content-Type", source.endsWith(".js") ? "text/javascript" : "application/octet-stream");
+      fs.createReadStream(path.resolve(__dirname, "node_modules", source)).pipe(res);
+    });
+  },
+  generateBundle() {
+    for (const [fileName, source] of Object.entries(OCR_ASSETS)) {
+      this.emitFile({
+        type: "asset",
+        fileName: `tesseract/${fileName}`,
+        source: fs.readFileSync(path.resolve(__dirname, "node_modules", source)),
+      });
+    }
+  },
+});
+
 // https://vitejs.dev/config/
 export default defineConfig({
   build: {
@@ -29,8 +61,12 @@ export default defineConfig({
   server: {
     host: "::",
     port: 8080,
+    fs: {
+      // Schemas shared with the server live in ../shared
+      allow: [searchForWorkspaceRoot(process.cwd()), path.resolve(__dirname, "../shared")],
+    },
   },
-  plugins: [react()],
+  plugins: [react(), ocrAssets()],
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
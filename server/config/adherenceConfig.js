@@ -0,0 +1,31 @@
+/**
+ * Configuration for medication adherence tracking
+ */
+
+// What the patient can record for an expected dose
+const DOSE_STATUSES = ['taken', 'late', 'skipped'];
+
+// Consecutive missed or skipped doses of a medication that trigger a warning
+const DEFAULT_MISSED_STREAK_WARNING = 2;
+
+// Days covered by an adherence report when no range is given
+const DEFAULT_REPORT_DAYS = 30;
+
+// Longest range of an adherence report
+const MAX_REPORT_DAYS = 366;
+
+/**
+ * Get the number of consecutive missed doses that triggers a warning
+ * @returns {number}
+ */
+const getMissedStreakWarning = () => {
+  const envValue = Number(process.env.MISSED_DOSE_STREAK_WARNING);
+  return Number.isInteger(envValue) && envValue > 0 ? envValue : DEFAULT_MISSED_STREAK_WARNING;
+};
+
+module.exports = {
+  DOSE_STATUSES,
+  DEFAULT_REPORT_DAYS,
+  MAX_REPORT_DAYS,
+  getMissedStreakWarning
+};
@@ -0,0 +1,106 @@
+/**
+ * Appointment status lifecycle
+ *
+ * pending -> confirmed -> in_progress -> completed, plus cancelled_by_patient,
+ * cancelled_by_doctor and no_show. The statuses and transitions are shared with
+ * the client in shared/appointmentStatus.json.
+ */
+const lifecycle = require('../../shared/appointmentStatus.json');
+
+const APPOINTMENT_STATUSES = lifecycle.statuses;
+
+// Statuses that no longer hold the doctor's slot
+const CANCELLED_STATUSES = lifecycle.cancelledStatuses;
+
+// Statuses after which nothing can change, except a doctor correcting a no-show
+const FINAL_STATUSES = lifecycle.finalStatuses;
+
+// Statuses from which a patient may move the appointment to another slot
+const RESCHEDULABLE_STATUSES = lifecycle.reschedulableStatuses;
+
+// Who may perform a transition: the patient who booked, the doctor, or the server itself
+const ACTORS = lifecycle.actors;
+
+/**
+ * Allowed transitions
+ * timing: 'before_start' - only before the appointment starts
+ *         'after_start'  - only once the appointment start time has passed
+ *         'any'          - no time restriction
+ */
+const TRANSITIONS = lifecycle.transitions;
+
+// Minutes after an appointment ends before the server closes it automatically
+const AUTO_CLOSE_GRACE_MINUTES = 60;
+
+// How often the server checks for past appointments to close (in minutes)
+const AUTO_CLOSE_INTERVAL_MINUTES = 15;
+
+// Status the server moves past appointments to once the grace period is over
+const AUTO_CLOSE_TRANSITIONS = {
+  in_progress: 'completed',
+  confirmed: 'no_show',
+  pending: 'cancelled_by_doctor'
+};
+
+/**
+ * Find the transition rule between two statuses
+ * @param {string} from Current status
+ * @param {string} to Requested status
+ * @returns {object|undefined}
+ */
+const findTransition = (from, to) => {
+  return TRANSITIONS.find(transition => transition.from === from && transition.to === to);
+};
+
+/**
+ * Check whether an actor may move an appointment between two statuses at a given time
+ * @param {string} actor 'patient' | 'doctor' | 'system'
+ * @param {string} from Current status
+ * @param {string} to Requested status
+ * @param {string|Date} appointmentDate Appointment start time
+ * @param {Date} [now]
+ * @returns {string|null} Error message, or null when the transition is allowed
+ */
+const getTransitionError = (actor, from, to, appointmentDate, now = new Date()) => {
+  const transition = findTransition(from, to);
+
+  if (!transition) {
+    return `Cannot change an appointment from ${from} to ${to}`;
+  }
+
+  if (!transition.actors.includes(actor)) {
+    return `A ${actor} cannot change an appointment from ${from} to ${to}`;
+  }
+
+  const hasStarted = new Date(appointmentDate) <= now;
+  if (transition.timing === 'before_start' && hasStarted) {
+    return `Appointments can only be changed to ${to} before they start`;
+  }
+  if (transition.timing === 'after_start' && !hasStarted) {
+    return `Appointments can only be changed to ${to} once they have started`;
+  }
+
+  return null;
+};
+
+/**
+ * Check whether a status releases the doctor's slot
+ * @param {string} status
+ * @returns {boolean}
+ */
+const isCancelledStatus = (status) => CANCELLED_STATUSES.includes(status);
+
+module.exports = {
+  APPOINTMENT_STATUSES,
+  CANCELLED_STATUSES,
+  FINAL_STATUSES,
+  RESCHEDULABLE_STATUSES,
+  ACTORS,
+  TRANSITIONS,
+  AUTO_CLOSE_GRACE_MINUTES,
+  AUTO_CLOSE_INTERVAL_MINUTES,
+  AUTO_CLOSE_TRANSITIONS,
+  findTransition,
+  getTransitionError,
+  isCancelledStatus
+};
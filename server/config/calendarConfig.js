@@ -0,0 +1,37 @@
+/**
+ * Configuration for iCalendar (.ics) exports and calendar feeds
+ */
+
+// PRODID written into every calendar file
+const CALENDAR_PRODUCT_ID = '-//Healiofy//Appointments//EN';
+
+// Domain part of event UIDs, so they stay unique across calendars
+const CALENDAR_UID_DOMAIN = 'healiofy.com';
+
+// Number of past days still included in calendar feeds, so recent visits don't vanish
+const FEED_PAST_DAYS = 30;
+
+// How often calendar apps should refresh the feed (ISO 8601 duration)
+const FEED_REFRESH_INTERVAL = 'PT1H';
+
+/**
+ * Get the public base URL of the API, used to build calendar feed links
+ * Falls back to the host of the current request if PUBLIC_API_URL is not set
+ * @param {object} req Express request
+ * @returns {string} Base URL without a trailing slash
+ */
+const getPublicApiUrl = (req) => {
+  const configuredUrl = process.env.PUBLIC_API_URL;
+  if (configuredUrl) {
+    return configuredUrl.replace(/\/+$/, '');
+  }
+  return `${req.protocol}://${req.get('host')}`;
+};
+
+module.exports = {
+  CALENDAR_PRODUCT_ID,
+  CALENDAR_UID_DOMAIN,
+  FEED_PAST_DAYS,
+  FEED_REFRESH_INTERVAL,
+  getPublicApiUrl
+};
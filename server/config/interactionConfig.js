@@ -0,0 +1,27 @@
+/**
+ * Configuration for the drug interaction checker
+ */
+
+// Interaction severities, most severe first
+const INTERACTION_SEVERITIES = ['contraindicated', 'major', 'moderate', 'minor'];
+
+// Days a medication counts as active when its prescription gives no duration
+const DEFAULT_ACTIVE_DAYS = 30;
+
+// Maximum number of earlier prescriptions checked against a new one
+const MAX_EARLIER_PRESCRIPTIONS = 50;
+
+/**
+ * Get the number of days a medication without a duration counts as active
+ * @returns {number}
+ */
+const getDefaultActiveDays = () => {
+  const envValue = Number(process.env.ACTIVE_PRESCRIPTION_DAYS);
+  return Number.isFinite(envValue) && envValue > 0 ? envValue : DEFAULT_ACTIVE_DAYS;
+};
+
+module.exports = {
+  INTERACTION_SEVERITIES,
+  MAX_EARLIER_PRESCRIPTIONS,
+  getDefaultActiveDays
+};
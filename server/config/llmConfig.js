@@ -0,0 +1,105 @@
+/**
+ * Configuration for the language model provider and the settings of each task it is used for
+ */
+
+// Provider used when LLM_PROVIDER is not set ("local" answers from fixtures, without network or API key)
+const DEFAULT_PROVIDER = 'groq';
+
+// Model settings of each task, overridable with LLM_<TASK>_MODEL, LLM_<TASK>_TEMPERATURE
+// and LLM_<TASK>_MAX_TOKENS, e.g. LLM_CHATBOT_MAX_TOKENS=512
+const DEFAULT_TASK_SETTINGS = {
+  // Reading the text of a prescription image
+  vision: { model: 'meta-llama/llama-4-scout-17b-16e-instruct', temperature: 0.1, maxTokens: 4096 },
+  // Structuring OCR text into a list of medications
+  extraction: { model: 'llama3-8b-8192', temperature: 0.2, maxTokens: 1024 },
+  // Safety information for the extracted medications
+  safety: { model: 'llama3-8b-8192', temperature: 0.3, maxTokens: 2048 },
+  // Health assistant replies
+  chatbot: { model: 'llama3-8b-8192', temperature: 0.2, maxTokens: 256 }
+};
+
+// Repair prompts sent after a reply that does not match its schema, before giving up
+const DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
+
+// Version of the extraction and safety prompts; raise it when they change,
+// so that analyses cached with the old prompts are made again
+const ANALYSIS_PROMPT_VERSION = 2;
+
+// Days an analysis is cached for a user, when ANALYSIS_CACHE_TTL_DAYS is not set
+const DEFAULT_ANALYSIS_CACHE_TTL_DAYS = 30;
+
+/**
+ * Get the provider used for every task
+ * Set LLM_PROVIDER to "local" to run the prescription and chatbot flows without a Groq API key
+ * @returns {string}
+ */
+const getLlmProvider = () => {
+  return process.env.LLM_PROVIDER || DEFAULT_PROVIDER;
+};
+
+/**
+ * Get the model, temperature and token limit of a task
+ * @param {string} task e.g. 'vision' or 'chatbot'
+ * @returns {{ model: string, temperature: number, maxTokens: number }}
+ */
+const getTaskSettings = (task) => {
+  const defaults = DEFAULT_TASK_SETTINGS[task];
+  if (!defaults) {
+    throw new Error(`Unknown LLM task: ${task}`);
+  }
+
+  const prefix = `LLM_${task.toUpperCase()}`;
+  const temperature = Number(process.env[`${prefix}_TEMPERATURE`]);
+  const maxTokens = Number(process.env[`${prefix}_MAX_TOKENS`]);
+
+  return {
+    model: process.env[`${prefix}_MODEL`] || defaults.model,
+    temperature: process.env[`${prefix}_TEMPERATURE`] && temperature >= 0 && temperature <= 2
+      ? temperature
+      : defaults.temperature,
+    maxTokens: Number.isInteger(maxTokens) && maxTokens > 0 ? maxTokens : defaults.maxTokens
+  };
+};
+
+/**
+ * Get the number of repair prompts sent for a reply that does not match its schema
+ * Set LLM_MAX_REPAIR_ATTEMPTS to change it (0 gives up on the first invalid reply)
+ * @returns {number}
+ */
+const getMaxRepairAttempts = () => {
+  const envValue = Number(process.env.LLM_MAX_REPAIR_ATTEMPTS);
+  return process.env.LLM_MAX_REPAIR_ATTEMPTS && Number.isInteger(envValue) && envValue >= 0
+    ? envValue
+    : DEFAULT_MAX_REPAIR_ATTEMPTS;
+};
+
+/**
+ * Get the number of days an analysis is reused for the same prescription text
+ * Set ANALYSIS_CACHE_TTL_DAYS to change it. It is read once, when models/AnalysisCache.js is loaded,
+ * and server.js rebuilds the expiry index of existing caches to match when it connects to the database
+ * @returns {number}
+ */
+const getAnalysisCacheTtlDays = () => {
+  const envValue = Number(process.env.ANALYSIS_CACHE_TTL_DAYS);
+  return process.env.ANALYSIS_CACHE_TTL_DAYS && envValue > 0
+    ? envValue
+    : DEFAULT_ANALYSIS_CACHE_TTL_DAYS;
+};
+
+/**
+ * Get the JSON file of canned responses used by the local provider, if any
+ * The file maps task names to a reply: a string, or an object returned as JSON
+ * @returns {string|null}
+ */
+const getLlmFixtureFile = () => {
+  return process.env.LLM_FIXTURE_FILE || null;
+};
+
+module.exports = {
+  getLlmProvider,
+  getTaskSettings,
+  ANALYSIS_PROMPT_VERSION,
+  getMaxRepairAttempts,
+  getAnalysisCacheTtlDays,
+  getLlmFixtureFile
+};
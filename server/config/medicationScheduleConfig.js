@@ -0,0 +1,43 @@
+/**
+ * Configuration for medication schedules built from analyzed prescriptions
+ */
+
+// How a dose should be taken relative to meals
+const FOOD_INSTRUCTIONS = ['with_food', 'without_food', 'any'];
+
+// Suggested dose times ("HH:mm" in the patient's own time zone) by number of doses a day
+const DEFAULT_DOSE_TIMES = {
+  1: ['08:00'],
+  2: ['08:00', '20:00'],
+  3: ['08:00', '14:00', '20:00'],
+  4: ['08:00', '12:00', '16:00', '20:00']
+};
+
+// Time of a once-daily dose the prescription says to take at night
+const BEDTIME_DOSE_TIME = '21:00';
+
+// First dose of the day for interval frequencies such as "every 8 hours"
+const FIRST_DOSE_TIME = '08:00';
+
+// Upper bounds that keep a schedule (and its calendar export) reasonable
+const MAX_DOSES_PER_DAY = 12;
+const MAX_INTERVAL_DAYS = 31;
+const MAX_SCHEDULE_ITEMS = 30;
+
+// Length of each dose event in calendar exports (ISO 8601 duration)
+const DOSE_EVENT_DURATION = 'PT15M';
+
+// PRODID written into medication schedule calendar files
+const SCHEDULE_CALENDAR_PRODUCT_ID = '-//Healiofy//Medication Schedule//EN';
+
+module.exports = {
+  FOOD_INSTRUCTIONS,
+  DEFAULT_DOSE_TIMES,
+  BEDTIME_DOSE_TIME,
+  FIRST_DOSE_TIME,
+  MAX_DOSES_PER_DAY,
+  MAX_INTERVAL_DAYS,
+  MAX_SCHEDULE_ITEMS,
+  DOSE_EVENT_DURATION,
+  SCHEDULE_CALENDAR_PRODUCT_ID
+};
@@ -0,0 +1,96 @@
+/**
+ * Configuration for notifications and appointment reminders
+ */
+const path = require('path');
+
+// Kinds of notifications sent to users
+const NOTIFICATION_TYPES = [
+  'appointment_reminder',
+  'appointment_confirmed',
+  'appointment_cancelled',
+  'appointment_rescheduled'
+];
+
+// Ways a notification can be delivered
+const NOTIFICATION_CHANNELS = ['in_app', 'email', 'sms'];
+
+// Default hours before an appointment at which reminders are sent
+const DEFAULT_REMINDER_OFFSETS_HOURS = [24, 1];
+
+// How often the server checks for reminders that are due (in minutes)
+const REMINDER_INTERVAL_MINUTES = 5;
+
+// Maximum number of notifications returned by a single list request
+const MAX_NOTIFICATIONS_PER_PAGE = 50;
+
+// Directory the development outbox channel writes email and SMS messages to
+const DEFAULT_OUTBOX_DIR = path.join(__dirname, '..', 'notification-outbox');
+
+/**
+ * Parse a comma-separated environment variable into a list of trimmed values
+ * @param {string} name Environment variable name
+ * @returns {string[]|null} Values, or null when the variable is not set
+ */
+const getListFromEnv = (name) => {
+  const envValue = process.env[name];
+  if (envValue === undefined || envValue.trim() === '') {
+    return null;
+  }
+  return envValue.split(',').map(value => value.trim()).filter(Boolean);
+};
+
+/**
+ * Get the hours before an appointment at which reminders are sent, largest first
+ * Set REMINDER_OFFSETS_HOURS (e.g. "24,1") to change them
+ * @returns {number[]}
+ */
+const getReminderOffsetsHours = () => {
+  const configured = (getListFromEnv('REMINDER_OFFSETS_HOURS') || [])
+    .map(Number)
+    .filter(hours => !isNaN(hours) && hours > 0);
+
+  const offsets = configured.length > 0 ? configured : DEFAULT_REMINDER_OFFSETS_HOURS;
+  return [...new Set(offsets)].sort((a, b) => b - a);
+};
+
+/**
+ * Get the channels notifications are delivered through
+ * Set NOTIFICATION_CHANNELS (e.g. "in_app,email") to change them. In-app delivery is always on;
+ * development also delivers email and SMS to the local outbox by default.
+ * @returns {string[]}
+ */
+const getEnabledChannels = () => {
+  const configured = getListFromEnv('NOTIFICATION_CHANNELS')
+    || (process.env.NODE_ENV === 'development' ? NOTIFICATION_CHANNELS : []);
+
+  return ['in_app', ...configured.filter(channel => channel !== 'in_app' && NOTIFICATION_CHANNELS.includes(channel))];
+};
+
+/**
+ * Get the provider used for an external channel ("outbox" writes to a local file)
+ * Set EMAIL_PROVIDER / SMS_PROVIDER once real providers are registered
+ * @param {string} channel 'email' or 'sms'
+ * @returns {string}
+ */
+const getChannelProvider = (channel) => {
+  return process.env[`${channel.toUpperCase()}_PROVIDER`] || 'outbox';
+};
+
+/**
+ * Get the directory the outbox channel writes to
+ * @returns {string}
+ */
+const getOutboxDir = () => {
+  return process.env.NOTIFICATION_OUTBOX_DIR || DEFAULT_OUTBOX_DIR;
+};
+
+module.exports = {
+  NOTIFICATION_TYPES,
+  NOTIFICATION_CHANNELS,
+  REMINDER_INTERVAL_MINUTES,
+  MAX_NOTIFICATIONS_PER_PAGE,
+  getReminderOffsetsHours,
+  getEnabledChannels,
+  getChannelProvider,
+  getOutboxDir
+};
@@ -0,0 +1,31 @@
+/**
+ * User roles
+ *
+ * patient - books appointments and uses the prescription tools (default for new accounts)
+ * doctor  - manages appointments booked with the linked doctor profile (User.doctorId)
+ * support - staff who can look up user accounts
+ * admin   - full access, including changing user roles
+ *
+ * This file is mirrored by heal/src/config/roles.ts - keep both in sync.
+ */
+
+const ROLES = ['patient', 'doctor', 'support', 'admin'];
+
+// Roles given to accounts created through registration
+const DEFAULT_ROLES = ['patient'];
+
+/**
+ * Check whether a user has at least one of the given roles
+ * @param {object} user User document or token payload with a roles array
+ * @param {...string} roles
+ * @returns {boolean}
+ */
+const hasRole = (user, ...roles) => {
+  return Boolean(user && Array.isArray(user.roles) && user.roles.some(role => roles.includes(role)));
+};
+
+module.exports = {
+  ROLES,
+  DEFAULT_ROLES,
+  hasRole
+};
@@ -0,0 +1,61 @@
+/**
+ * Configuration for doctor schedules and appointment slots
+ *
+ * This file centralizes slot generation settings for easier management
+ */
+
+// Default length of a bookable slot (in minutes) if not set in environment variables
+const DEFAULT_SLOT_DURATION_MINUTES = 30;
+
+// Shortest and longest slot a doctor can set in their schedule (in minutes)
+const MIN_SLOT_MINUTES = 5;
+const MAX_SLOT_MINUTES = 240;
+
+// Default UTC offset (in minutes) of the clinic's local time
+// Doctor working hours are expressed in clinic time (330 = IST, UTC+05:30)
+const DEFAULT_CLINIC_UTC_OFFSET_MINUTES = 330;
+
+// Maximum number of days that can be requested in a single slots query
+const MAX_SLOT_RANGE_DAYS = 31;
+
+// Number of days searched for a doctor's next free slot ("This Week" availability)
+const AVAILABILITY_LOOKAHEAD_DAYS = 7;
+
+/**
+ * Read a numeric environment variable with a fallback
+ * @param {string} name Environment variable name
+ * @param {number} fallback Value used when the variable is missing or invalid
+ * @returns {number}
+ */
+const getNumberFromEnv = (name, fallback) => {
+  const envValue = process.env[name];
+  if (envValue !== undefined && envValue !== '' && !isNaN(Number(envValue))) {
+    return Number(envValue);
+  }
+  return fallback;
+};
+
+/**
+ * Get the configured slot duration in minutes
+ * @returns {number} Slot duration in minutes
+ */
+const getSlotDurationMinutes = () => {
+  return getNumberFromEnv('SLOT_DURATION_MINUTES', DEFAULT_SLOT_DURATION_MINUTES);
+};
+
+/**
+ * Get the configured clinic UTC offset in minutes
+ * @returns {number} Offset from UTC in minutes
+ */
+const getClinicUtcOffsetMinutes = () => {
+  return getNumberFromEnv('CLINIC_UTC_OFFSET_MINUTES', DEFAULT_CLINIC_UTC_OFFSET_MINUTES);
+};
+
+module.exports = {
+  MIN_SLOT_MINUTES,
+  MAX_SLOT_MINUTES,
+  MAX_SLOT_RANGE_DAYS,
+  AVAILABILITY_LOOKAHEAD_DAYS,
+  getSlotDurationMinutes,
+  getClinicUtcOffsetMinutes
+};
@@ -0,0 +1,26 @@
+/**
+ * Configuration for replay-safe writes from the client's offline outbox
+ */
+
+// Request header carrying the client-generated key of a write
+const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+// Keys are UUIDs or similar random strings
+const IDEMPOTENCY_KEY_PATTERN = /^[A-Za-z0-9_-]{8,100}$/;
+
+// How long a write's response is kept, so a retry within this window is not applied twice
+const IDEMPOTENCY_KEY_TTL_HOURS = 24;
+
+// Error code sent with a 409 when a write was based on an outdated copy of the record
+const STALE_UPDATE_CODE = 'STALE_UPDATE';
+
+// Error code sent with a 409 when the first request with the same key is still running
+const REQUEST_IN_PROGRESS_CODE = 'REQUEST_IN_PROGRESS';
+
+module.exports = {
+  IDEMPOTENCY_HEADER,
+  IDEMPOTENCY_KEY_PATTERN,
+  IDEMPOTENCY_KEY_TTL_HOURS,
+  STALE_UPDATE_CODE,
+  REQUEST_IN_PROGRESS_CODE
+};
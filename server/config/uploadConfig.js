@@ -0,0 +1,39 @@
+/**
+ * Limits of the prescription files patients upload, and how PDF pages are rendered for text extraction
+ */
+
+// Largest image accepted for text extraction
+const MAX_IMAGE_SIZE = 10 * 1024 * 1024;
+
+// Largest PDF accepted
+const MAX_PDF_SIZE = 20 * 1024 * 1024;
+
+// Most pages read from one PDF when MAX_PDF_PAGES is not set
+const DEFAULT_MAX_PDF_PAGES = 10;
+
+// Scale PDF pages are rendered at (1 = 72 dpi), so the vision model can read small print
+const PDF_RENDER_SCALE = 2;
+
+// Longest side of a rendered page in pixels, for PDFs with oversized pages
+const MAX_PAGE_DIMENSION = 2400;
+
+// JPEG quality of rendered pages (0-100)
+const PDF_PAGE_QUALITY = 85;
+
+/**
+ * Get the most pages read from one PDF
+ * @returns {number}
+ */
+const getMaxPdfPages = () => {
+  const envValue = Number(process.env.MAX_PDF_PAGES);
+  return Number.isInteger(envValue) && envValue > 0 ? envValue : DEFAULT_MAX_PDF_PAGES;
+};
+
+module.exports = {
+  MAX_IMAGE_SIZE,
+  MAX_PDF_SIZE,
+  PDF_RENDER_SCALE,
+  MAX_PAGE_DIMENSION,
+  PDF_PAGE_QUALITY,
+  getMaxPdfPages
+};
@@ -0,0 +1,199 @@
+const mongoose = require('mongoose');
+const DoseLog = require('../models/DoseLog');
+const Prescription = require('../models/Prescription');
+const { DOSE_STATUSES, DEFAULT_REPORT_DAYS, MAX_REPORT_DAYS } = require('../config/adherenceConfig');
+const { DAY_MS, parseDateOnly, getClinicDate } = require('../utils/slotUtils');
+const { addDays, getExpectedDoses } = require('../utils/medicationScheduleUtils');
+const {
+  getAdherenceItems,
+  buildAdherenceReport,
+  buildAdherenceCsv
+} = require('../utils/adherenceUtils');
+
+/**
+ * Find a prescription of the current user by the id in the route
+ * @param {object} req Express request
+ * @returns {Promise<object|null>}
+ */
+const findOwnPrescription = (req) => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.prescriptionId)) {
+    return null;
+  }
+  return Prescription.findOne({ _id: req.params.prescriptionId, userId: req.user.id });
+};
+
+/**
+ * Read the report range from the query. `today` is the patient's own date, so doses
+ * are only counted as missed once their day is over where the patient is.
+ * @param {object} query Express query
+ * @returns {{ from?: string, to?: string, today?: string, error?: string }}
+ */
+const getReportRange = (query) => {
+  const today = query.today || getClinicDate();
+  const to = query.to || today;
+  const from = query.from || addDays(to, -(DEFAULT_REPORT_DAYS - 1));
+
+  if ([today, from, to].some(date => parseDateOnly(date) === null)) {
+    return { error: 'Dates must be in YYYY-MM-DD format' };
+  }
+  if (from > to) {
+    return { error: 'The start date must not be after the end date' };
+  }
+  if ((parseDateOnly(to) - parseDateOnly(from)) / DAY_MS >= MAX_REPORT_DAYS) {
+    return { error: `A report can cover at most ${MAX_REPORT_DAYS} days` };
+  }
+
+  return { from, to, today };
+};
+
+/**
+ * Build the adherence report of a prescription, sending an error response if that fails
+ * @param {object} req Express request
+ * @param {object} res Express response
+ * @returns {Promise<object|null>} Null when an error response was sent
+ */
+const loadReport = async (req, res) => {
+  const range = getReportRange(req.query);
+  if (range.error) {
+    res.status(400).json({
+      success: false,
+      error: range.error
+    });
+    return null;
+  }
+
+  const prescription = await findOwnPrescription(req);
+  if (!prescription) {
+    res.status(404).json({
+      success: false,
+      error: 'Prescription not found'
+    });
+    return null;
+  }
+
+  const [items, logs] = await Promise.all([
+    getAdherenceItems(req.user.id, prescription),
+    DoseLog.find({
+      userId: req.user.id,
+      prescriptionId: prescription._id,
+      date: { $gte: range.from, $lte: range.to }
+    })
+  ]);
+
+  return buildAdherenceReport(items, logs, range);
+};
+
+/**
+ * @desc    Get expected doses, logged statuses and adherence of a prescription
+ * @route   GET /api/adherence/:prescriptionId?from=2024-05-01&to=2024-05-30&today=2024-05-30
+ * @access  Private (patient)
+ */
+exports.getAdherence = async (req, res) => {
+  try {
+    const report = await loadReport(req, res);
+    if (!report) return;
+
+    res.status(200).json({
+      success: true,
+      data: report
+    });
+  } catch (error) {
+    console.error('Error building adherence report:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error'
+    });
+  }
+};
+
+/**
+ * @desc    Record a dose as taken, late or skipped (logging it again replaces the status)
+ * @route   POST /api/adherence/:prescriptionId/doses
+ * @access  Private (patient)
+ */
+exports.logDose = async (req, res) => {
+  try {
+    const { medication, date, time, status } = req.body;
+    const today = req.body.today || getClinicDate();
+
+    if (!DOSE_STATUSES.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        error: `Status must be one of: ${DOSE_STATUSES.join(', ')}`
+      });
+    }
+
+    if (parseDateOnly(date) === null || parseDateOnly(today) === null) {
+      return res.status(400).json({
+        success: false,
+        error: 'Dates must be in YYYY-MM-DD format'
+      });
+    }
+
+    // Today's remaining doses can be logged in advance, later days not yet
+    if (date > today) {
+      return res.status(400).json({
+        success: false,
+        error: 'Doses can only be logged up to today'
+      });
+    }
+
+    const prescription = await findOwnPrescription(req);
+    if (!prescription) {
+      return res.status(404).json({
+        success: false,
+        error: 'Prescription not found'
+      });
+    }
+
+    const items = await getAdherenceItems(req.user.id, prescription);
+    const isExpected = getExpectedDoses(items, date, date)
+      .some(dose => dose.medication === medication && dose.time === time);
+
+    if (!isExpected) {
+      return res.status(400).json({
+        success: false,
+        error: 'No dose of this medication is scheduled at that time'
+      });
+    }
+
+    const log = await DoseLog.findOneAndUpdate(
+      { userId: req.user.id, prescriptionId: prescription._id, medication, date, time },
+      { $set: { status } },
+      { new: true, upsert: true, runValidators: true }
+    );
+
+    res.status(200).json({
+      success: true,
+      data: log
+    });
+  } catch (error) {
+    console.error('Error logging dose:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error'
+    });
+  }
+};
+
+/**
+ * @desc    Download the doses of an adherence report as CSV
+ * @route   GET /api/adherence/:prescriptionId/report.csv?from=2024-05-01&to=2024-05-30&today=2024-05-30
+ * @access  Private (patient)
+ */
+exports.downloadAdherenceCsv = async (req, res) => {
+  try {
+    const report = await loadReport(req, res);
+    if (!report) return;
+
+    res.set('Content-Type', 'text/csv; charset=utf-8');
+    res.set('Content-Disposition', `attachment; filename="healiofy-adherence-${report.from}-to-${report.to}.csv"`);
+    res.status(200).send(buildAdherenceCsv(report));
+  } catch (error) {
+    console.error('Error exporting adherence report:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error'
+    });
+  }
+};
@@ -1,6 +1,121 @@
 const Appointment = require('../models/Appointment');
 const Doctor = require('../models/Doctor');
 const { getCancellationWindowHours } = require('../config/cancellationConfig');
+const {
+  APPOINTMENT_STATUSES,
+  CANCELLED_STATUSES,
+  RESCHEDULABLE_STATUSES,
+  getTransitionError
+} = require('../config/appointmentStatus');
+const { hasRole } = require('../config/roles');
+const { getSlotKey, isWithinWorkingHours } = require('../utils/slotUtils');
+const { transitionAppointment, applyAutomaticTransitions } = require('../utils/appointmentLifecycle');
+const { isStaleUpdate } = require('../utils/concurrencyUtils');
+const { STALE_UPDATE_CODE } = require('../config/syncConfig');
+const { notifyAppointmentChange } = require('../utils/notificationUtils');
+
+// MongoDB duplicate key error code, raised when a slot lock is already taken
+const DUPLICATE_KEY_ERROR = 11000;
+
+// Doctor fields returned with appointments (schedule is needed to pick a new slot)
+const DOCTOR_FIELDS = 'name specialty imageUrl experience price schedule consultationType location';
+
+/**
+ * Check whether an appointment booked before slot locks existed holds a slot,
+ * which the unique slot lock can't protect until the migration has locked it
+ * @param {string} doctorId
+ * @param {Date} startDate
+ * @returns {Promise<boolean>}
+ */
+const isHeldWithoutLock = async (doctorId, startDate) => {
+  const appointment = await Appointment.exists({
+    doctorId,
+    date: startDate.toISOString(),
+    status: { $nin: CANCELLED_STATUSES },
+    slotLock: { $exists: false }
+  });
+  return Boolean(appointment);
+};
+
+/**
+ * Work out the role in which a user acts on an appointment
+ * @param {object} user Authenticated user
+ * @param {object} appointment
+ * @returns {'patient'|'doctor'|null} Actor role, or null if the user has no access
+ */
+const getActorRole = (user, appointment) => {
+  if (appointment.userId.toString() === user.id) {
+    return 'patient';
+  }
+
+  // Doctor accounts act on appointments booked with their own profile
+  if (hasRole(user, 'doctor') && user.doctorId && appointment.doctorId.toString() === user.doctorId.toString()) {
+    return 'doctor';
+  }
+
+  return null;
+};
+
+/**
+ * Reject a change based on an outdated copy of the appointment, sending the current
+ * version so the client can show both and let the user decide
+ * @param {object} res Express response
+ * @param {object} appointment Current appointment
+ */
+const sendStaleUpdate = async (res, appointment) => {
+  const current = await Appointment.findById(appointment._id)
+    .populate('doctorId', DOCTOR_FIELDS)
+    .exec();
+
+  return res.status(409).json({
+    success: false,
+    code: STALE_UPDATE_CODE,
+    error: 'This appointment was changed since you last loaded it',
+    current
+  });
+};
+
+// Notification sent to the other party for each status change (other changes notify nobody)
+const STATUS_EVENTS = {
+  confirmed: 'confirmed',
+  cancelled_by_patient: 'cancelled',
+  cancelled_by_doctor: 'cancelled'
+};
+
+// Wording used in cancellation policy errors for each kind of change
+const CHANGE_ACTIONS = {
+  cancel: 'cancelled',
+  reschedule: 'rescheduled'
+};
+
+/**
+ * Check the cancellation policy for changing an appointment
+ * @param {string} date Appointment date
+ * @param {'cancel'|'reschedule'} action Kind of change
+ * @returns {string|null} Error message, or null when the change is allowed
+ */
+const getCancellationWindowError = (date, action) => {
+  const appointmentDate = new Date(date);
+  const currentDate = new Date();
+
+  // If the appointment is already in the past, don't allow changes
+  if (appointmentDate < currentDate) {
+    return `Cannot ${action} appointments that have already occurred`;
+  }
+
+  // Check if the change is within allowed time window
+  const cancellationWindow = getCancellationWindowHours(); // Get from config
+
+  // Calculate the deadline for changes
+  const cancellationDeadline = new Date(appointmentDate);
+  cancellationDeadline.setHours(cancellationDeadline.getHours() - cancellationWindow);
+
+  if (cancellationWindow > 0 && currentDate > cancellationDeadline) {
+    return `Appointments must be ${CHANGE_ACTIONS[action]} at least ${cancellationWindow} hour(s) before the scheduled time`;
+  }
+
+  return null;
+};
 
 /**
  * @desc    Book a new appointment
@@ -37,17 +152,41 @@ exports.bookAppointment = async (req, res) => {
       });
     }
 
-    // Create appointment
+    const startDate = new Date(date);
+    if (startDate <= new Date()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Appointments must be booked for a future time'
+      });
+    }
+
+    // Only slots inside the doctor's working hours can be booked
+    if (!isWithinWorkingHours(doctor.schedule, startDate)) {
+      return res.status(400).json({
+        success: false,
+        error: 'The selected time is outside the doctor\'s working hours'
+      });
+    }
+
+    if (await isHeldWithoutLock(doctor._id, startDate)) {
+      return res.status(409).json({
+        success: false,
+        error: 'This time slot is already booked. Please choose another slot.'
+      });
+    }
+
+    // Create appointment - the unique slot lock rejects concurrent bookings of the same slot
     const appointment = await Appointment.create({
       doctorId,
       userId: req.user.id, // From JWT auth middleware
-      date,
-      status: 'pending'
+      date: startDate.toISOString(),
+      status: 'pending',
+      slotLock: getSlotKey(doctor._id, startDate)
     });
 
     // Get the created appointment with populated doctor info
     const populatedAppointment = await Appointment.findById(appointment._id)
-      .populate('doctorId', 'name specialty imageUrl')
+      .populate('doctorId', DOCTOR_FIELDS)
       .exec();
 
     res.status(201).json({
@@ -56,6 +195,14 @@ exports.bookAppointment = async (req, res) => {
     });
   } catch (error) {
     console.error('Error booking appointment:', error);
+
+    // Handle slot already taken by another booking
+    if (error.code === DUPLICATE_KEY_ERROR) {
+      return res.status(409).json({
+        success: false,
+        error: 'This time slot has just been booked. Please choose another slot.'
+      });
+    }
     
     // Handle mongoose validation errors
     if (error.name === 'ValidationError') {
@@ -81,6 +228,9 @@ exports.bookAppointment = async (req, res) => {
 exports.getUserAppointments = async (req, res) => {
   try {
     console.log('Fetching appointments for user:', req.user.id);
+
+    // Close any past appointments before returning them
+    await applyAutomaticTransitions({ userId: req.user.id });
     
     // Check for a doctor ID parameter to filter by doctor
     const filter = { userId: req.user.id };
@@ -90,7 +240,7 @@ exports.getUserAppointments = async (req, res) => {
     
     // Get appointments with doctor details populated
     const appointments = await Appointment.find(filter)
-      .populate('doctorId', 'name specialty imageUrl')
+      .populate('doctorId', DOCTOR_FIELDS)
       .sort({ date: 1 })
       .exec();
     
@@ -126,7 +276,7 @@ exports.getUserAppointments = async (req, res) => {
 exports.getAppointmentById = async (req, res) => {
   try {
     const appointment = await Appointment.findById(req.params.id)
-      .populate('doctorId', 'name specialty imageUrl')
+      .populate('doctorId', DOCTOR_FIELDS)
       .exec();
 
     if (!appointment) {
@@ -159,18 +309,20 @@ exports.getAppointmentById = async (req, res) => {
 
 /**
  * @desc    Update appointment status
- * @route   PATCH /api/appointments/:id
+ * @route   PUT /api/appointments/:id/status
  * @access  Private
  */
 exports.updateAppointmentStatus = async (req, res) => {
   try {
-    const { status } = req.body;
+    const { reason } = req.body;
+    // "cancelled" from older clients means the patient cancelled
+    const status = req.body.status === 'cancelled' ? 'cancelled_by_patient' : req.body.status;
 
     // Validate status
-    if (!status || !['pending', 'confirmed', 'cancelled'].includes(status)) {
+    if (!status || !APPOINTMENT_STATUSES.includes(status)) {
       return res.status(400).json({
         success: false,
-        error: 'Invalid status. Must be one of: pending, confirmed, cancelled'
+        error: `Invalid status. Must be one of: ${APPOINTMENT_STATUSES.join(', ')}`
       });
     }
 
@@ -183,51 +335,73 @@ exports.updateAppointmentStatus = async (req, res) => {
       });
     }
 
-    // Check if appointment belongs to user
-    if (appointment.userId.toString() !== req.user.id) {
+    const actor = getActorRole(req.user, appointment);
+    if (!actor) {
       return res.status(403).json({
         success: false,
         error: 'Not authorized to update this appointment'
       });
     }
 
-    // Special validation for cancellations
-    if (status === 'cancelled') {
-      const appointmentDate = new Date(appointment.date);
-      const currentDate = new Date();
-      
-      // If the appointment is already in the past, don't allow cancellation
-      if (appointmentDate < currentDate) {
-        return res.status(400).json({
-          success: false,
-          error: 'Cannot cancel appointments that have already occurred'
-        });
-      }
+    // Changes sent from an outdated copy (e.g. queued while offline) must not apply unseen
+    if (isStaleUpdate(appointment.updatedAt, req.body.expectedUpdatedAt)) {
+      return sendStaleUpdate(res, appointment);
+    }
+
+    // Enforce the status lifecycle for this actor and the appointment time
+    const transitionError = getTransitionError(actor, appointment.status, status, appointment.date);
+    if (transitionError) {
+      return res.status(400).json({
+        success: false,
+        error: transitionError
+      });
+    }
+
+    // Doctors must tell the patient why a visit is declined or cancelled
+    if (actor === 'doctor' && status === 'cancelled_by_doctor' && !(typeof reason === 'string' && reason.trim())) {
+      return res.status(400).json({
+        success: false,
+        error: 'Please provide a reason for declining the appointment'
+      });
+    }
 
-      // Check if cancellation is within allowed time window
-      const cancellationWindow = getCancellationWindowHours(); // Get from config
-      
-      // Calculate the deadline for cancellation
-      const cancellationDeadline = new Date(appointmentDate);
-      cancellationDeadline.setHours(cancellationDeadline.getHours() - cancellationWindow);
-      
-      if (cancellationWindow > 0 && currentDate > cancellationDeadline) {
+    // Patients must also respect the cancellation window
+    if (status === 'cancelled_by_patient') {
+      const windowError = getCancellationWindowError(appointment.date, 'cancel');
+      if (windowError) {
         return res.status(400).json({
           success: false,
-          error: `Appointments must be cancelled at least ${cancellationWindow} hour(s) before the scheduled time`
+          error: windowError
         });
       }
     }
 
-    // Update status
-    appointment.status = status;
-    await appointment.save();
+    const updated = await transitionAppointment(appointment, status, {
+      actor,
+      userId: req.user._id,
+      reason: typeof reason === 'string' ? reason.trim() : ''
+    });
+
+    if (!updated) {
+      return res.status(409).json({
+        success: false,
+        error: 'The appointment was changed by another request. Please refresh and try again.'
+      });
+    }
 
     // Return updated appointment with populated doctor info
     const updatedAppointment = await Appointment.findById(appointment._id)
-      .populate('doctorId', 'name specialty imageUrl')
+      .populate('doctorId', DOCTOR_FIELDS)
       .exec();
 
+    // Sent in the background - notification errors are logged and don't affect the response
+    if (STATUS_EVENTS[status]) {
+      notifyAppointmentChange(updatedAppointment, STATUS_EVENTS[status], {
+        actor,
+        reason: typeof reason === 'string' ? reason.trim() : ''
+      });
+    }
+
     res.status(200).json({
       success: true,
       data: updatedAppointment
@@ -239,4 +413,164 @@ exports.updateAppointmentStatus = async (req, res) => {
       error: 'Server error'
     });
   }
-}; 
\ No newline at end of file
+};
+
+/**
+ * @desc    Move an appointment to another free slot with the same doctor
+ * @route   PUT /api/appointments/:id/reschedule
+ * @access  Private
+ */
+exports.rescheduleAppointment = async (req, res) => {
+  try {
+    const { date } = req.body;
+
+    // Validate date format is ISO
+    const dateRegex = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})?$/;
+    if (!date || !dateRegex.test(date)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid date format. Use ISO format (e.g., 2024-05-30T14:00:00Z)'
+      });
+    }
+
+    const appointment = await Appointment.findById(req.params.id);
+
+    if (!appointment) {
+      return res.status(404).json({
+        success: false,
+        error: 'Appointment not found'
+      });
+    }
+
+    // Check if appointment belongs to user
+    if (appointment.userId.toString() !== req.user.id) {
+      return res.status(403).json({
+        success: false,
+        error: 'Not authorized to update this appointment'
+      });
+    }
+
+    if (isStaleUpdate(appointment.updatedAt, req.body.expectedUpdatedAt)) {
+      return sendStaleUpdate(res, appointment);
+    }
+
+    if (!RESCHEDULABLE_STATUSES.includes(appointment.status)) {
+      return res.status(400).json({
+        success: false,
+        error: `Appointments that are ${appointment.status.replace(/_/g, ' ')} cannot be rescheduled`
+      });
+    }
+
+    // Moving an appointment follows the same policy as cancelling it
+    const windowError = getCancellationWindowError(appointment.date, 'reschedule');
+    if (windowError) {
+      return res.status(400).json({
+        success: false,
+        error: windowError
+      });
+    }
+
+    const newDate = new Date(date);
+    if (newDate <= new Date()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Appointments must be rescheduled to a future time'
+      });
+    }
+
+    if (newDate.getTime() === new Date(appointment.date).getTime()) {
+      return res.status(400).json({
+        success: false,
+        error: 'The appointment is already scheduled for this time'
+      });
+    }
+
+    const doctor = await Doctor.findById(appointment.doctorId);
+    if (!doctor) {
+      return res.status(404).json({
+        success: false,
+        error: 'Doctor not found'
+      });
+    }
+
+    if (!isWithinWorkingHours(doctor.schedule, newDate)) {
+      return res.status(400).json({
+        success: false,
+        error: 'The selected time is outside the doctor\'s working hours'
+      });
+    }
+
+    if (await isHeldWithoutLock(doctor._id, newDate)) {
+      return res.status(409).json({
+        success: false,
+        error: 'This time slot is already booked. Please choose another slot.'
+      });
+    }
+
+    const moved = {
+      from: appointment.date,
+      to: newDate.toISOString(),
+      rescheduledAt: new Date(),
+      rescheduledBy: req.user._id
+    };
+
+    // A confirmed appointment needs the doctor to confirm the new time again
+    const statusChange = appointment.status === 'pending' ? null : {
+      from: appointment.status,
+      to: 'pending',
+      actor: 'patient',
+      changedBy: req.user._id,
+      reason: 'Rescheduled',
+      changedAt: moved.rescheduledAt
+    };
+
+    // Move the slot in a single update - the date condition guards against concurrent
+    // changes to this appointment and the unique slot lock against other bookings
+    const updated = await Appointment.findOneAndUpdate(
+      {
+        _id: appointment._id,
+        date: appointment.date,
+        status: appointment.status
+      },
+      {
+        $set: {
+          date: newDate.toISOString(),
+          status: 'pending',
+          slotLock: getSlotKey(doctor._id, newDate)
+        },
+        $push: statusChange
+          ? { rescheduleHistory: moved, statusHistory: statusChange }
+          : { rescheduleHistory: moved }
+      },
+      { new: true, runValidators: true }
+    ).populate('doctorId', DOCTOR_FIELDS);
+
+    if (!updated) {
+      return res.status(409).json({
+        success: false,
+        error: 'The appointment was changed by another request. Please refresh and try again.'
+      });
+    }
+
+    notifyAppointmentChange(updated, 'rescheduled', { actor: 'patient', previousDate: moved.from });
+
+    res.status(200).json({
+      success: true,
+      data: updated
+    });
+  } catch (error) {
+    console.error('Error rescheduling appointment:', error);
+
+    if (error.code === DUPLICATE_KEY_ERROR) {
+      return res.status(409).json({
+        success: false,
+        error: 'This time slot has just been booked. Please choose another slot.'
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: 'Server error'
+    });
+  }
+};
\ No newline at end of file
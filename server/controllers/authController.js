@@ -1,10 +1,12 @@
 const jwt = require('jsonwebtoken');
 const User = require('../models/User');
+const { isStaleUpdate } = require('../utils/concurrencyUtils');
+const { STALE_UPDATE_CODE } = require('../config/syncConfig');
 
-// Generate JWT token
-const generateToken = (userId) => {
+// Generate JWT token carrying the user's roles
+const generateToken = (user) => {
   return jwt.sign(
-    { id: userId },
+    { id: user._id, roles: user.roles },
     process.env.JWT_SECRET,
     { expiresIn: '1h' }
   );
@@ -54,12 +56,14 @@ exports.register = async (req, res) => {
     });
 
     // Generate token
-    const token = generateToken(user._id);
+    const token = generateToken(user);
 
     res.status(201).json({
       user: {
         id: user._id,
-        email: user.email
+        email: user.email,
+        roles: user.roles,
+        doctorId: user.doctorId
       },
       token
     });
@@ -102,12 +106,14 @@ exports.login = async (req, res) => {
     }
 
     // Generate token
-    const token = generateToken(user._id);
+    const token = generateToken(user);
 
     res.status(200).json({
       user: {
         id: user._id,
-        email: user.email
+        email: user.email,
+        roles: user.roles,
+        doctorId: user.doctorId
       },
       token
     });
@@ -135,6 +141,16 @@ exports.updateProfile = async (req, res) => {
       });
     }
     
+    // Edits sent from an outdated copy (e.g. queued while offline) must not apply unseen
+    if (isStaleUpdate(user.profileUpdatedAt, req.body.expectedUpdatedAt)) {
+      return res.status(409).json({
+        success: false,
+        code: STALE_UPDATE_CODE,
+        error: 'Your profile was changed since you last loaded it',
+        current: await User.findById(req.user.id).select('-password')
+      });
+    }
+
     // Fields to update
     const { 
       name, 
@@ -159,6 +175,7 @@ exports.updateProfile = async (req, res) => {
     if (emergencyContact) profileFields.emergencyContact = emergencyContact;
     if (allergies) profileFields.allergies = allergies;
     if (medicalConditions) profileFields.medicalConditions = medicalConditions;
+    profileFields.profileUpdatedAt = new Date();
     
     // Update user
     const updatedUser = await User.findByIdAndUpdate(
@@ -0,0 +1,165 @@
+const crypto = require('crypto');
+const Appointment = require('../models/Appointment');
+const User = require('../models/User');
+const { FEED_PAST_DAYS, getPublicApiUrl } = require('../config/calendarConfig');
+const { buildCalendar, sendCalendar } = require('../utils/calendarUtils');
+
+// Doctor fields needed to describe an appointment in a calendar
+const DOCTOR_FIELDS = 'name specialty schedule consultationType location';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Calendar feed tokens are 48 hex characters
+const TOKEN_PATTERN = /^[a-f0-9]{48}$/;
+
+const generateCalendarToken = () => crypto.randomBytes(24).toString('hex');
+
+/**
+ * Build the public feed URL for a token
+ * @param {object} req Express request
+ * @param {string} token
+ * @returns {string}
+ */
+const getFeedUrl = (req, token) => {
+  return `${getPublicApiUrl(req)}/api/appointments/calendar/${token}.ics`;
+};
+
+/**
+ * @desc    Download a single appointment as an .ics file
+ * @route   GET /api/appointments/:id/calendar.ics
+ * @access  Private (patient)
+ */
+exports.downloadAppointmentCalendar = async (req, res) => {
+  try {
+    const appointment = await Appointment.findById(req.params.id)
+      .populate('doctorId', DOCTOR_FIELDS)
+      .exec();
+
+    if (!appointment) {
+      return res.status(404).json({
+        success: false,
+        error: 'Appointment not found'
+      });
+    }
+
+    // Check if appointment belongs to user
+    if (appointment.userId.toString() !== req.user.id) {
+      return res.status(403).json({
+        success: false,
+        error: 'Not authorized to access this appointment'
+      });
+    }
+
+    sendCalendar(res, buildCalendar([appointment]), `healiofy-appointment-${appointment._id}.ics`);
+  } catch (error) {
+    console.error('Error exporting appointment calendar:', error);
+
+    // If the error is due to invalid ID format
+    if (error.kind === 'ObjectId') {
+      return res.status(404).json({
+        success: false,
+        error: 'Appointment not found'
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: 'Server error'
+    });
+  }
+};
+
+/**
+ * @desc    Get the user's calendar feed URL, creating the secret token on first use
+ * @route   GET /api/appointments/calendar/feed
+ * @access  Private (patient)
+ */
+exports.getCalendarFeed = async (req, res) => {
+  try {
+    const user = await User.findById(req.user.id);
+
+    if (!user.calendarToken) {
+      user.calendarToken = generateCalendarToken();
+      await user.save();
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        url: getFeedUrl(req, user.calendarToken)
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching calendar feed:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error'
+    });
+  }
+};
+
+/**
+ * @desc    Replace the user's calendar feed token, so the previous URL stops working
+ * @route   POST /api/appointments/calendar/feed
+ * @access  Private (patient)
+ */
+exports.regenerateCalendarFeed = async (req, res) => {
+  try {
+    const token = generateCalendarToken();
+
+    await User.findByIdAndUpdate(req.user.id, { $set: { calendarToken: token } });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        url: getFeedUrl(req, token)
+      }
+    });
+  } catch (error) {
+    console.error('Error regenerating calendar feed:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error'
+    });
+  }
+};
+
+/**
+ * @desc    Subscribable calendar of a user's upcoming (and recent) appointments
+ * @route   GET /api/appointments/calendar/:token.ics
+ * @access  Public (secret token)
+ */
+exports.getCalendarFeedEvents = async (req, res) => {
+  try {
+    const { token } = req.params;
+
+    const user = TOKEN_PATTERN.test(token)
+      ? await User.findOne({ calendarToken: token }).select('_id')
+      : null;
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'Calendar not found'
+      });
+    }
+
+    // Cancelled appointments stay in the feed (as cancelled events) so calendars remove them
+    const since = new Date(Date.now() - FEED_PAST_DAYS * DAY_MS).toISOString();
+    const appointments = await Appointment.find({
+      userId: user._id,
+      date: { $gte: since }
+    })
+      .populate('doctorId', DOCTOR_FIELDS)
+      .sort({ date: 1 })
+      .exec();
+
+    sendCalendar(res, buildCalendar(appointments, { name: 'Healiofy Appointments', isFeed: true }));
+  } catch (error) {
+    console.error('Error building calendar feed:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error'
+    });
+  }
+};
@@ -1,5 +1,6 @@
-const axios = require('axios');
+const mongoose = require('mongoose');
 const Prescription = require('../models/Prescription');
+const { isLlmConfigured, complete } = require('../utils/llmProviders');
 
 /**
  * @desc    Get AI-powered chatbot response
@@ -8,7 +9,7 @@ const Prescription = require('../models/Prescription');
  */
 exports.getChatbotResponse = async (req, res) => {
   try {
-    const { query, contextType = 'general', messages = [] } = req.body;
+    const { query, contextType = 'general', messages = [], prescriptionId } = req.body;
 
     // Validate query
     if (!query || query.trim() === '') {
@@ -17,20 +18,24 @@ exports.getChatbotResponse = async (req, res) => {
 
     let prescription = null;
     
-    // If contextType is "prescription", fetch the user's latest prescription
+    // If contextType is "prescription", fetch the prescription being viewed, or the user's latest one
     if (contextType === 'prescription') {
-      prescription = await Prescription.findOne({ userId: req.user.id })
+      const filter = { userId: req.user.id };
+      if (prescriptionId && mongoose.Types.ObjectId.isValid(prescriptionId)) {
+        filter._id = prescriptionId;
+      }
+      prescription = await Prescription.findOne(filter)
         .sort({ createdAt: -1 })
         .lean();
     }
 
-    // Call Groq API for chatbot response
+    // Ask the language model for the chatbot response
     let response;
     
     try {
-      response = await callGroqAPI(query, contextType, prescription, messages);
+      response = await getAssistantReply(query, contextType, prescription, messages);
     } catch (error) {
-      console.error('Groq API error:', error);
+      console.error('Language model error:', error);
       // Provide mock response for demo purposes if API fails
       response = getMockResponse(query, prescription, messages);
     }
@@ -48,19 +53,16 @@ exports.getChatbotResponse = async (req, res) => {
 };
 
 /**
- * Call Groq API to get chatbot response
+ * Ask the language model for a chatbot response
  * @param {string} query - The user's question
  * @param {string} contextType - The context type (prescription or general)
  * @param {object|null} prescription - The user's latest prescription (if available)
  * @param {Array} messages - Chat history in the format [{ role: string, content: string }]
  * @returns {string} - AI-generated response
  */
-async function callGroqAPI(query, contextType, prescription, messages = []) {
-  // Get API key from environment variables
-  const apiKey = process.env.GROQ_API_KEY;
-  
-  if (!apiKey) {
-    throw new Error('Groq API key is not configured');
+async function getAssistantReply(query, contextType, prescription, messages = []) {
+  if (!isLlmConfigured()) {
+    throw new Error('The language model provider is not configured');
   }
 
   // Prepare API request messages
@@ -165,29 +167,13 @@ async function callGroqAPI(query, contextType, prescription, messages = []) {
 
   try {
     // Log the final message array (excluding sensitive data)
-    console.log('Sending messages to Groq API:', 
+    console.log('Sending messages to the language model:', 
       apiMessages.map(m => ({ role: m.role, contentLength: m.content.length }))
     );
     
-    const response = await axios.post(
-      'https://api.groq.com/openai/v1/chat/completions',
-      {
-        model: 'llama3-8b-8192',
-        messages: apiMessages,
-        temperature: 0.2,
-        max_tokens: 256 // Short response for demo
-      },
-      {
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json'
-        }
-      }
-    );
-
-    return response.data.choices[0].message.content.trim();
+    return await complete('chatbot', apiMessages);
   } catch (error) {
-    console.error('Error calling Groq API:', error.message);
+    console.error('Error calling the language model:', error.message);
     throw error;
   }
 }
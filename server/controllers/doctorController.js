@@ -1,4 +1,49 @@
 const Doctor = require('../models/Doctor');
+const Appointment = require('../models/Appointment');
+const { MAX_SLOT_RANGE_DAYS, AVAILABILITY_LOOKAHEAD_DAYS } = require('../config/scheduleConfig');
+const { CANCELLED_STATUSES } = require('../config/appointmentStatus');
+const {
+  DAY_MS,
+  parseDateOnly,
+  getClinicDate,
+  getClinicDayBounds,
+  getFreeSlots,
+  getLookaheadDays,
+  getAvailabilitySummary
+} = require('../utils/slotUtils');
+
+// Add live availability (isAvailableNow, nextAvailableSlot) computed from schedules and bookings
+const withAvailability = async (doctors) => {
+  const list = Array.isArray(doctors) ? doctors : [doctors];
+  const now = new Date();
+  const { today, lastDay } = getLookaheadDays(AVAILABILITY_LOOKAHEAD_DAYS, now);
+  const bounds = getClinicDayBounds(today, lastDay);
+
+  // Only bookings in the days searched for a free slot; dates are UTC ISO strings, so they compare in order
+  const appointments = await Appointment.find({
+    doctorId: { $in: list.map(doctor => doctor._id) },
+    status: { $nin: CANCELLED_STATUSES },
+    date: { $gte: bounds.start, $lt: bounds.end }
+  }).select('doctorId date');
+
+  const bookedByDoctor = appointments.reduce((acc, appointment) => {
+    const key = appointment.doctorId.toString();
+    (acc[key] = acc[key] || []).push(appointment.date);
+    return acc;
+  }, {});
+
+  const result = list.map(doctor => ({
+    ...doctor.toObject(),
+    ...getAvailabilitySummary(
+      doctor.schedule,
+      bookedByDoctor[doctor._id.toString()] || [],
+      AVAILABILITY_LOOKAHEAD_DAYS,
+      now
+    )
+  }));
+
+  return Array.isArray(doctors) ? result : result[0];
+};
 
 // @desc    Get all doctors or search by name/specialty
 // @route   GET /api/doctors
@@ -32,7 +77,7 @@ exports.getDoctors = async (req, res) => {
     res.status(200).json({
       success: true,
       count: doctors.length,
-      data: doctors
+      data: await withAvailability(doctors)
     });
   } catch (error) {
     console.error('Error fetching doctors:', error);
@@ -59,7 +104,7 @@ exports.getDoctorById = async (req, res) => {
 
     res.status(200).json({
       success: true,
-      data: doctor
+      data: await withAvailability(doctor)
     });
   } catch (error) {
     console.error('Error fetching doctor by ID:', error);
@@ -94,7 +139,7 @@ exports.getDoctorsBySpecialty = async (req, res) => {
     res.status(200).json({
       success: true,
       count: doctors.length,
-      data: doctors
+      data: await withAvailability(doctors)
     });
   } catch (error) {
     console.error('Error fetching doctors by specialty:', error);
@@ -103,4 +148,77 @@ exports.getDoctorsBySpecialty = async (req, res) => {
       error: 'Server error'
     });
   }
-}; 
\ No newline at end of file
+}; 
+
+// @desc    Get free appointment slots for a doctor
+// @route   GET /api/doctors/:id/slots?from=YYYY-MM-DD&to=YYYY-MM-DD
+// @access  Public
+exports.getDoctorSlots = async (req, res) => {
+  try {
+    const from = req.query.from || getClinicDate();
+    const fromTime = parseDateOnly(from);
+    const to = req.query.to || (fromTime !== null
+      ? new Date(fromTime + 6 * DAY_MS).toISOString().slice(0, 10)
+      : from);
+    const toTime = parseDateOnly(to);
+
+    if (fromTime === null || toTime === null) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid date range. Use YYYY-MM-DD for from and to'
+      });
+    }
+
+    if (toTime < fromTime || (toTime - fromTime) / DAY_MS >= MAX_SLOT_RANGE_DAYS) {
+      return res.status(400).json({
+        success: false,
+        error: `Date range must cover between 1 and ${MAX_SLOT_RANGE_DAYS} days`
+      });
+    }
+
+    const doctor = await Doctor.findById(req.params.id);
+
+    if (!doctor) {
+      return res.status(404).json({
+        success: false,
+        error: 'Doctor not found'
+      });
+    }
+
+    // Existing bookings that still hold a slot in the range
+    const bounds = getClinicDayBounds(from, to);
+    const appointments = await Appointment.find({
+      doctorId: doctor._id,
+      status: { $nin: CANCELLED_STATUSES },
+      date: { $gte: bounds.start, $lt: bounds.end }
+    }).select('date');
+
+    const slots = getFreeSlots(
+      doctor.schedule,
+      from,
+      to,
+      appointments.map(appointment => appointment.date)
+    );
+
+    res.status(200).json({
+      success: true,
+      count: slots.length,
+      data: slots
+    });
+  } catch (error) {
+    console.error('Error fetching doctor slots:', error);
+
+    // If the error is due to invalid ID format
+    if (error.kind === 'ObjectId') {
+      return res.status(404).json({
+        success: false,
+        error: 'Doctor not found'
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: 'Server error'
+    });
+  }
+};
\ No newline at end of file
@@ -0,0 +1,178 @@
+const Appointment = require('../models/Appointment');
+const Doctor = require('../models/Doctor');
+const { APPOINTMENT_STATUSES } = require('../config/appointmentStatus');
+const { MAX_SLOT_RANGE_DAYS } = require('../config/scheduleConfig');
+const { DAY_MS, parseDateOnly, getClinicDayBounds } = require('../utils/slotUtils');
+const { applyAutomaticTransitions } = require('../utils/appointmentLifecycle');
+
+// Patient fields a doctor can see for their own appointments
+const PATIENT_FIELDS = 'name email phone gender dateOfBirth';
+
+/**
+ * Check a range of clinic days and convert it into UTC ISO bounds
+ * @param {string} from First day ("YYYY-MM-DD", inclusive)
+ * @param {string} to Last day ("YYYY-MM-DD", inclusive)
+ * @returns {{ start: string, end: string }|null} Bounds, or null for an invalid range
+ */
+const getDayRangeBounds = (from, to) => {
+  const fromTime = parseDateOnly(from);
+  const toTime = parseDateOnly(to);
+
+  if (fromTime === null || toTime === null || toTime < fromTime) {
+    return null;
+  }
+
+  if ((toTime - fromTime) / DAY_MS >= MAX_SLOT_RANGE_DAYS) {
+    return null;
+  }
+
+  return getClinicDayBounds(from, to);
+};
+
+/**
+ * @desc    Get the doctor profile linked to the signed-in account
+ * @route   GET /api/doctor-portal/profile
+ * @access  Private (doctor accounts)
+ */
+exports.getDoctorProfile = async (req, res) => {
+  try {
+    const doctor = await Doctor.findById(req.user.doctorId);
+
+    if (!doctor) {
+      return res.status(404).json({
+        success: false,
+        error: 'Doctor profile not found'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: doctor
+    });
+  } catch (error) {
+    console.error('Error fetching doctor profile:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error'
+    });
+  }
+};
+
+/**
+ * @desc    Get appointments booked with the signed-in doctor
+ * @route   GET /api/doctor-portal/appointments?status=pending,confirmed&from=YYYY-MM-DD&to=YYYY-MM-DD
+ * @access  Private (doctor accounts)
+ */
+exports.getDoctorAppointments = async (req, res) => {
+  try {
+    const filter = { doctorId: req.user.doctorId };
+
+    if (req.query.status) {
+      const statuses = String(req.query.status).split(',').map(status => status.trim());
+      const invalid = statuses.filter(status => !APPOINTMENT_STATUSES.includes(status));
+
+      if (invalid.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: `Invalid status. Must be one of: ${APPOINTMENT_STATUSES.join(', ')}`
+        });
+      }
+
+      filter.status = { $in: statuses };
+    }
+
+    // Optional range of clinic days, e.g. a single day or a week for the agenda
+    if (req.query.from || req.query.to) {
+      const bounds = getDayRangeBounds(req.query.from, req.query.to || req.query.from);
+
+      if (!bounds) {
+        return res.status(400).json({
+          success: false,
+          error: `Invalid date range. Use YYYY-MM-DD for from and to, covering at most ${MAX_SLOT_RANGE_DAYS} days`
+        });
+      }
+
+      // Dates are stored as normalized UTC ISO strings, so they compare in order
+      filter.date = { $gte: bounds.start, $lt: bounds.end };
+    }
+
+    // Close any past appointments before returning them
+    await applyAutomaticTransitions({ doctorId: req.user.doctorId });
+
+    const appointments = await Appointment.find(filter)
+      .populate('userId', PATIENT_FIELDS)
+      .sort({ date: 1 })
+      .exec();
+
+    res.status(200).json({
+      success: true,
+      count: appointments.length,
+      data: appointments
+    });
+  } catch (error) {
+    console.error('Error fetching doctor appointments:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error'
+    });
+  }
+};
+
+/**
+ * @desc    Get the patients who have booked with the signed-in doctor
+ * @route   GET /api/doctor-portal/patients
+ * @access  Private (doctor accounts)
+ */
+exports.getDoctorPatients = async (req, res) => {
+  try {
+    const appointments = await Appointment.find({ doctorId: req.user.doctorId })
+      .populate('userId', PATIENT_FIELDS)
+      .sort({ date: 1 })
+      .exec();
+
+    const now = new Date();
+    const patients = new Map();
+
+    appointments
+      .filter(appointment => appointment.userId)
+      .forEach(appointment => {
+        const patientId = appointment.userId._id.toString();
+        const entry = patients.get(patientId) || {
+          patient: appointment.userId,
+          totalAppointments: 0,
+          completedAppointments: 0,
+          lastVisit: null,
+          nextAppointment: null
+        };
+
+        entry.totalAppointments += 1;
+
+        if (appointment.status === 'completed') {
+          entry.completedAppointments += 1;
+          entry.lastVisit = appointment.date;
+        }
+
+        // Appointments are sorted by date, so the first upcoming one is the next visit
+        const isUpcoming = ['pending', 'confirmed'].includes(appointment.status) && new Date(appointment.date) > now;
+        if (isUpcoming && !entry.nextAppointment) {
+          entry.nextAppointment = appointment.date;
+        }
+
+        patients.set(patientId, entry);
+      });
+
+    const data = Array.from(patients.values());
+
+    res.status(200).json({
+      success: true,
+      count: data.length,
+      data
+    });
+  } catch (error) {
+    console.error('Error fetching doctor patients:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error'
+    });
+  }
+};
@@ -0,0 +1,35 @@
+const { DICTIONARY_VERSION, searchMedications } = require('../utils/drugUtils');
+
+// Results returned when no limit is given, and at most
+const DEFAULT_SEARCH_RESULTS = 8;
+const MAX_SEARCH_RESULTS = 20;
+// Shorter queries match too many names to be useful
+const MIN_QUERY_LENGTH = 2;
+
+/**
+ * @desc    Search the medication dictionary by brand or generic name, for autocomplete
+ * @route   GET /api/medications/search?q=cro&limit=8
+ * @access  Private
+ */
+exports.searchMedicationNames = (req, res) => {
+  const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+  if (query.length < MIN_QUERY_LENGTH) {
+    return res.status(400).json({
+      success: false,
+      error: `Type at least ${MIN_QUERY_LENGTH} characters to search`
+    });
+  }
+
+  const requestedLimit = Math.floor(Number(req.query.limit));
+  const limit = req.query.limit !== undefined && Number.isFinite(requestedLimit)
+    ? Math.min(Math.max(requestedLimit, 1), MAX_SEARCH_RESULTS)
+    : DEFAULT_SEARCH_RESULTS;
+  const medications = searchMedications(query, limit);
+
+  return res.status(200).json({
+    success: true,
+    count: medications.length,
+    dictionaryVersion: DICTIONARY_VERSION,
+    data: medications
+  });
+};
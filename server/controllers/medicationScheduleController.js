@@ -0,0 +1,219 @@
+const mongoose = require('mongoose');
+const MedicationSchedule = require('../models/MedicationSchedule');
+const Prescription = require('../models/Prescription');
+const { parseDateOnly, getClinicDate } = require('../utils/slotUtils');
+const { sendCalendar } = require('../utils/calendarUtils');
+const {
+  buildScheduleItems,
+  validateScheduleItems,
+  buildScheduleCalendar
+} = require('../utils/medicationScheduleUtils');
+
+/**
+ * Find a schedule of the current user by the id in the route
+ * @param {object} req Express request
+ * @returns {Promise<object|null>}
+ */
+const findOwnSchedule = (req) => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+    return null;
+  }
+  return MedicationSchedule.findOne({ _id: req.params.id, userId: req.user.id });
+};
+
+/**
+ * @desc    List the user's medication schedules, most recently changed first
+ * @route   GET /api/medication-schedules
+ * @access  Private (patient)
+ */
+exports.getMedicationSchedules = async (req, res) => {
+  try {
+    const schedules = await MedicationSchedule.find({ userId: req.user.id })
+      .sort({ updatedAt: -1 });
+
+    res.status(200).json({
+      success: true,
+      count: schedules.length,
+      data: schedules
+    });
+  } catch (error) {
+    console.error('Error fetching medication schedules:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error'
+    });
+  }
+};
+
+/**
+ * @desc    Create a schedule from an analyzed prescription, or return the existing one
+ * @route   POST /api/medication-schedules
+ * @access  Private (patient)
+ */
+exports.createMedicationSchedule = async (req, res) => {
+  try {
+    const { prescriptionId } = req.body;
+    // The client sends the patient's own date; fall back to today in clinic time
+    const startDate = req.body.startDate || getClinicDate();
+
+    if (parseDateOnly(startDate) === null) {
+      return res.status(400).json({
+        success: false,
+        error: 'Start date must be a YYYY-MM-DD date'
+      });
+    }
+
+    const prescription = mongoose.Types.ObjectId.isValid(prescriptionId)
+      ? await Prescription.findOne({ _id: prescriptionId, userId: req.user.id })
+      : null;
+
+    if (!prescription) {
+      return res.status(404).json({
+        success: false,
+        error: 'Prescription not found'
+      });
+    }
+
+    const existing = await MedicationSchedule.findOne({ userId: req.user.id, prescriptionId });
+    if (existing) {
+      return res.status(200).json({
+        success: true,
+        data: existing
+      });
+    }
+
+    const items = buildScheduleItems(prescription, startDate);
+    if (items.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'No medications were found in this prescription'
+      });
+    }
+
+    const schedule = await MedicationSchedule.create({
+      userId: req.user.id,
+      prescriptionId,
+      title: prescription.title || '',
+      items
+    });
+
+    res.status(201).json({
+      success: true,
+      data: schedule
+    });
+  } catch (error) {
+    console.error('Error creating medication schedule:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error'
+    });
+  }
+};
+
+/**
+ * @desc    Update a schedule's title, reminder setting or medications
+ * @route   PUT /api/medication-schedules/:id
+ * @access  Private (patient)
+ */
+exports.updateMedicationSchedule = async (req, res) => {
+  try {
+    const schedule = await findOwnSchedule(req);
+
+    if (!schedule) {
+      return res.status(404).json({
+        success: false,
+        error: 'Medication schedule not found'
+      });
+    }
+
+    const { title, remindersEnabled, items } = req.body;
+
+    if (title !== undefined) {
+      if (typeof title !== 'string' || title.trim().length > 100) {
+        return res.status(400).json({
+          success: false,
+          error: 'Title must be text of at most 100 characters'
+        });
+      }
+      schedule.title = title.trim();
+    }
+
+    if (remindersEnabled !== undefined) {
+      schedule.remindersEnabled = remindersEnabled === true;
+    }
+
+    if (items !== undefined) {
+      const result = validateScheduleItems(items);
+      if (result.error) {
+        return res.status(400).json({
+          success: false,
+          error: result.error
+        });
+      }
+      schedule.items = result.items;
+    }
+
+    await schedule.save();
+
+    res.status(200).json({
+      success: true,
+      data: schedule
+    });
+  } catch (error) {
+    console.error('Error updating medication schedule:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error'
+    });
+  }
+};
+
+/**
+ * @desc    Delete a medication schedule
+ * @route   DELETE /api/medication-schedules/:id
+ * @access  Private (patient)
+ */
+exports.deleteMedicationSchedule = async (req, res) => {
+  try {
+    const schedule = await findOwnSchedule(req);
+
+    if (!schedule) {
+      return res.status(404).json({
+        success: false,
+        error: 'Medication schedule not found'
+      });
+    }
+
+    await schedule.deleteOne();
+
+    res.status(200).json({
+      success: true,
+      data: {}
+    });
+  } catch (error) {
+    console.error('Error deleting medication schedule:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error'
+    });
+  }
+};
+
+/**
+ * @desc    Download every dose of the user's schedules as an .ics file
+ * @route   GET /api/medication-schedules/calendar.ics
+ * @access  Private (patient)
+ */
+exports.downloadScheduleCalendar = async (req, res) => {
+  try {
+    const schedules = await MedicationSchedule.find({ userId: req.user.id });
+
+    sendCalendar(res, buildScheduleCalendar(schedules), 'healiofy-medication-schedule.ics');
+  } catch (error) {
+    console.error('Error exporting medication schedule calendar:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error'
+    });
+  }
+};
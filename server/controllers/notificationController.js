@@ -0,0 +1,114 @@
+const mongoose = require('mongoose');
+const Notification = require('../models/Notification');
+const { MAX_NOTIFICATIONS_PER_PAGE } = require('../config/notificationConfig');
+const { sendDueReminders } = require('../utils/notificationUtils');
+
+// Notification fields returned to the client (delivery details stay on the server)
+const NOTIFICATION_FIELDS = 'type title message appointmentId readAt createdAt';
+
+/**
+ * @desc    List the user's notifications, newest first
+ * @route   GET /api/notifications?unread=true&limit=20
+ * @access  Private
+ */
+exports.getNotifications = async (req, res) => {
+  try {
+    // Send reminders that have become due (the only reminder check on Vercel, where no timer runs)
+    await sendDueReminders({ userId: req.user.id });
+
+    const filter = { userId: req.user.id };
+    if (req.query.unread === 'true') {
+      filter.readAt = null;
+    }
+
+    const limit = Math.min(Number(req.query.limit) || MAX_NOTIFICATIONS_PER_PAGE, MAX_NOTIFICATIONS_PER_PAGE);
+
+    const [notifications, unreadCount] = await Promise.all([
+      Notification.find(filter)
+        .select(NOTIFICATION_FIELDS)
+        .sort({ createdAt: -1 })
+        .limit(limit),
+      Notification.countDocuments({ userId: req.user.id, readAt: null })
+    ]);
+
+    res.status(200).json({
+      success: true,
+      count: notifications.length,
+      unreadCount,
+      data: notifications
+    });
+  } catch (error) {
+    console.error('Error fetching notifications:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error'
+    });
+  }
+};
+
+/**
+ * @desc    Mark a notification as read
+ * @route   PUT /api/notifications/:id/read
+ * @access  Private
+ */
+exports.markNotificationRead = async (req, res) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Notification not found'
+      });
+    }
+
+    const notification = await Notification.findOne({ _id: req.params.id, userId: req.user.id })
+      .select(NOTIFICATION_FIELDS);
+
+    if (!notification) {
+      return res.status(404).json({
+        success: false,
+        error: 'Notification not found'
+      });
+    }
+
+    if (!notification.readAt) {
+      notification.readAt = new Date();
+      await notification.save();
+    }
+
+    res.status(200).json({
+      success: true,
+      data: notification
+    });
+  } catch (error) {
+    console.error('Error marking notification as read:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error'
+    });
+  }
+};
+
+/**
+ * @desc    Mark all of the user's notifications as read
+ * @route   PUT /api/notifications/read-all
+ * @access  Private
+ */
+exports.markAllNotificationsRead = async (req, res) => {
+  try {
+    const result = await Notification.updateMany(
+      { userId: req.user.id, readAt: null },
+      { $set: { readAt: new Date() } }
+    );
+
+    res.status(200).json({
+      success: true,
+      data: { updated: result.modifiedCount }
+    });
+  } catch (error) {
+    console.error('Error marking notifications as read:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error'
+    });
+  }
+};
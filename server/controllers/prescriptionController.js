@@ -1,27 +1,228 @@
 const Prescription = require('../models/Prescription');
-const axios = require('axios');
-const { Groq } = require("groq-sdk");
 const fs = require('fs');
 const path = require('path');
 const os = require('os');
+const crypto = require('crypto');
+const mongoose = require('mongoose');
+const User = require('../models/User');
+const MedicationSchedule = require('../models/MedicationSchedule');
+const DoseLog = require('../models/DoseLog');
+const { checkInteractions, getPrescriptionMedications } = require('../utils/drugInteractionUtils');
+const { checkAgainstProfile } = require('../utils/profileSafetyUtils');
+const { addSourceSpans } = require('../utils/sourceSpanUtils');
+const { isLlmConfigured, completeJson, completeValidatedJson, extractImageText } = require('../utils/llmProviders');
+const { validatePrescriptionAnalysis } = require('../utils/analysisSchema');
+const { isPdf, renderPdfPages } = require('../utils/pdfUtils');
+const { matchMedication, expandAbbreviations } = require('../utils/drugUtils');
+const { getMaxPdfPages } = require('../config/uploadConfig');
+const { getAnalysisCacheKey, findCachedAnalysis, cacheAnalysis, setCachedPrescription } = require('../utils/analysisCache');
+const { refundTrialAnalysis } = require('../middleware/subscriptionMiddleware');
 
-// Create a Groq client instance
-const createGroqClient = () => {
-  const apiKey = process.env.GROQ_API_KEY;
-  if (!apiKey) {
-    throw new Error('Groq API key is not configured');
+// Number of medication names used in a default history title
+const TITLE_MEDICATION_COUNT = 2;
+
+// Fields returned when listing the prescription history
+const HISTORY_FIELDS = 'title sourceImage structuredText.medications.name createdAt updatedAt';
+
+// Fields of a medication row reviewed by the user, and their limits
+const MEDICATION_ROW_FIELDS = ['name', 'strength', 'dose', 'frequency', 'duration', 'instructions'];
+const MAX_MEDICATION_ROWS = 30;
+const MAX_ROW_FIELD_LENGTH = 200;
+
+/**
+ * Build the default history title from the medications found, e.g. "Amoxicillin, Paracetamol +1"
+ * @param {object|string|null} structuredText
+ * @returns {string}
+ */
+const getDefaultTitle = (structuredText) => {
+  const names = (structuredText && Array.isArray(structuredText.medications) ? structuredText.medications : [])
+    .map(med => (med.name || '').trim())
+    .filter(Boolean);
+
+  if (names.length === 0) {
+    return `Prescription of ${new Date().toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`;
+  }
+
+  const shown = names.slice(0, TITLE_MEDICATION_COUNT).join(', ');
+  return names.length > TITLE_MEDICATION_COUNT ? `${shown} +${names.length - TITLE_MEDICATION_COUNT}` : shown;
+};
+
+/**
+ * Keep only the expected fields of a source image reference sent by the client
+ * @param {object} sourceImage
+ * @returns {object|null}
+ */
+const sanitizeSourceImage = (sourceImage) => {
+  if (!sourceImage || typeof sourceImage !== 'object') {
+    return null;
+  }
+
+  return {
+    fileName: typeof sourceImage.fileName === 'string' ? sourceImage.fileName.slice(0, 255) : undefined,
+    mimeType: typeof sourceImage.mimeType === 'string' ? sourceImage.mimeType.slice(0, 100) : undefined,
+    size: Number.isFinite(sourceImage.size) ? sourceImage.size : undefined,
+    sha256: /^[a-f0-9]{64}$/.test(sourceImage.sha256) ? sourceImage.sha256 : undefined,
+    pageCount: Number.isInteger(sourceImage.pageCount) && sourceImage.pageCount > 0 ? sourceImage.pageCount : undefined
+  };
+};
+
+/**
+ * Check the medication rows the user reviewed before the analysis
+ * @param {*} rows
+ * @returns {string|null} What is wrong with the rows, or null when they are valid
+ */
+const validateMedicationRows = (rows) => {
+  if (!Array.isArray(rows) || rows.length === 0) {
+    return 'Medications must be a non-empty list';
+  }
+  if (rows.length > MAX_MEDICATION_ROWS) {
+    return `A prescription can have at most ${MAX_MEDICATION_ROWS} medications`;
+  }
+
+  for (const [idx, row] of rows.entries()) {
+    if (!row || typeof row !== 'object') {
+      return `Medication ${idx + 1} is invalid`;
+    }
+    for (const field of MEDICATION_ROW_FIELDS) {
+      if (row[field] !== undefined && typeof row[field] !== 'string') {
+        return `Medication ${idx + 1}: ${field} must be text`;
+      }
+      if ((row[field] || '').length > MAX_ROW_FIELD_LENGTH) {
+        return `Medication ${idx + 1}: ${field} cannot be longer than ${MAX_ROW_FIELD_LENGTH} characters`;
+      }
+    }
+    if (!(row.name || '').trim()) {
+      return `Medication ${idx + 1}: name is required`;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Turn reviewed medication rows into the structured text extractMedicationInfo would give,
+ * so the analysis uses the user's corrections instead of reading the text again
+ * @param {object[]} rows Rows checked by validateMedicationRows
+ * @param {string} ocrText
+ * @returns {object} Same shape as the result of extractMedicationInfo
+ */
+const buildReviewedInfo = (rows, ocrText) => {
+  const medications = rows.map(row => ({
+    name: row.name.trim(),
+    dosage: (row.strength || '').trim(),
+    dose: (row.dose || '').trim(),
+    frequency: (row.frequency || '').trim(),
+    duration: validateDuration(row.duration),
+    specialInstructions: (row.instructions || '').trim()
+  }));
+
+  return {
+    structuredText: { text: ocrText, medications, reviewed: true },
+    medicationCount: medications.length,
+    isAiProcessed: false
+  };
+};
+
+/**
+ * Write reviewed medication rows as prescription text, for analyses entered without any text
+ * @param {object[]} rows
+ * @returns {string} e.g. "Amoxicillin 500 mg - 1 capsule - three times daily - 5 days"
+ */
+const describeMedicationRows = (rows) => rows
+  .map(row => MEDICATION_ROW_FIELDS
+    .map(field => (row[field] || '').trim())
+    .filter(Boolean)
+    .join(' - '))
+  .join('\n');
+
+/**
+ * Store an analysis in the user's prescription history
+ * Saving is best effort - the analysis is still returned to the user if it fails
+ * @param {object} req Express request (sourceImage is read from the body)
+ * @param {string} ocrText Text the analysis was made from
+ * @param {object} extractedInfo Result of extractMedicationInfo
+ * @param {object} analysis
+ * @returns {Promise<string|null>} Id of the saved prescription
+ */
+const savePrescription = async (req, ocrText, extractedInfo, analysis) => {
+  try {
+    const prescription = await Prescription.create({
+      userId: req.user.id,
+      title: getDefaultTitle(extractedInfo.structuredText),
+      ocrText,
+      structuredText: extractedInfo.structuredText,
+      sourceImage: sanitizeSourceImage(req.body.sourceImage),
+      analysis
+    });
+    return prescription._id.toString();
+  } catch (error) {
+    console.error('Error saving prescription analysis:', error.message);
+    return null;
+  }
+};
+
+/**
+ * Add the deterministic safety checks and source spans to an analysis, save it to the history and send it
+ * @param {object} req Express request
+ * @param {object} res Express response
+ * @param {string} ocrText Text the analysis was made from
+ * @param {object} extractedInfo Result of extractMedicationInfo
+ * @param {object} analysis
+ * @param {object} [options]
+ * @param {boolean} [options.cached] Whether the analysis came from the cache
+ * @param {string} [options.cacheKey] Cache entry of the analysis, which remembers the saved history entry
+ * @param {string} [options.prescriptionId] History entry the analysis was already saved to
+ */
+const sendAnalysis = async (req, res, ocrText, extractedInfo, analysis, { cached = false, cacheKey, prescriptionId } = {}) => {
+  const prescription = {
+    analysis,
+    structuredText: extractedInfo.structuredText,
+    ocrText
+  };
+
+  try {
+    analysis.interactionCheck = await checkInteractions(req.user.id, prescription);
+  } catch (error) {
+    console.error('Error checking drug interactions:', error.message);
+    analysis.interactionCheck = null;
   }
-  console.log('Creating Groq client with API key:', apiKey.substring(0, 8) + '...');
+
   try {
-    return new Groq({ apiKey });
+    const profile = await User.findById(req.user.id).select('allergies medicalConditions').lean();
+    analysis.profileCheck = checkAgainstProfile(profile, getPrescriptionMedications(prescription));
   } catch (error) {
-    console.error('Error creating Groq client:', error);
-    throw new Error(`Failed to initialize Groq client: ${error.message}`);
+    console.error('Error checking allergies and conditions:', error.message);
+    analysis.profileCheck = null;
   }
+
+  // Where in the OCR text each medication field came from
+  analysis.medications = addSourceSpans(ocrText, analysis.medications || []);
+  // Generic ingredients of each medication, e.g. "Crocin" -> paracetamol 500 mg
+  analysis.medications = analysis.medications.map(medication => ({
+    ...medication,
+    generic: matchMedication(medication.name, medication.strength)
+  }));
+
+  // A repeat of an analysis returns its history entry, unless the user deleted it
+  const savedEntry = prescriptionId && await Prescription.exists({ _id: prescriptionId, userId: req.user.id });
+  let savedId = savedEntry ? savedEntry._id.toString() : null;
+  if (!savedId) {
+    savedId = await savePrescription(req, ocrText, extractedInfo, analysis);
+    if (savedId && cacheKey) {
+      await setCachedPrescription(req.user.id, cacheKey, savedId);
+    }
+  }
+
+  return res.status(200).json({
+    success: true,
+    data: analysis,
+    prescriptionId: savedId,
+    cached
+  });
 };
 
 /**
- * @desc    Extract text from prescription image using Llama Scout
+ * @desc    Extract text from prescription image using the vision model
  * @route   POST /api/prescriptions/extract-text
  * @access  Private
  */
@@ -64,36 +265,16 @@ exports.extractTextFromImage = async (req, res) => {
     console.log('Using MIME type:', mimeType);
     
     try {
-      // Initialize Groq client
-      const groq = createGroqClient();
-      
-      console.log('Sending image to Groq API with Llama Scout...');
+      console.log('Sending image to the vision model...');
       
-      // Prepare the prompt for Llama Scout to extract text from the image
-      const response = await groq.chat.completions.create({
-        model: "meta-llama/llama-4-scout-17b-16e-instruct",
-        messages: [
-          {
-            role: "user",
-            content: [
-              {
-                type: "text",
-                text: "This is a prescription image. Please extract all text visible in this image as accurately as possible. Focus on medication names, dosages, instructions, and any other text that appears on the prescription. Return only the extracted text, formatted in a clear and readable way. Do not add any additional commentary or explanations."
-              },
-              {
-                type: "image_url",
-                image_url: {
-                  url: `data:${mimeType};base64,${base64Image}`
-                }
-              }
-            ]
-          }
-        ],
-        temperature: 0.1, // Lower temperature for more deterministic output
-        max_tokens: 4096
+      // Ask the vision model to extract the text from the image
+      const extractedText = await extractImageText('vision', {
+        prompt: "This is a prescription image. Please extract all text visible in this image as accurately as possible. Focus on medication names, dosages, instructions, and any other text that appears on the prescription. Return only the extracted text, formatted in a clear and readable way. Do not add any additional commentary or explanations.",
+        mimeType,
+        base64: base64Image
       });
       
-      console.log('Received response from Groq API');
+      console.log('Received response from the vision model');
       
       // Clean up the temporary file if using disk storage
       if (imagePath) {
@@ -108,16 +289,20 @@ exports.extractTextFromImage = async (req, res) => {
         }
       }
       
-      // Extract the text from the response
-      const extractedText = response.choices[0].message.content.trim();
-      
       console.log('Text extracted successfully from image, length:', extractedText.length);
       console.log('Sample text:', extractedText.substring(0, 100) + '...');
       
       return res.status(200).json({
         success: true,
         data: {
-          text: extractedText
+          text: extractedText,
+          // Reference stored with the analysis, so the history shows which image it came from
+          source: {
+            fileName: req.file.originalname,
+            mimeType,
+            size: req.file.size,
+            sha256: crypto.createHash('sha256').update(imageBuffer).digest('hex')
+          }
         }
       });
       
@@ -164,23 +349,147 @@ exports.extractTextFromImage = async (req, res) => {
 };
 
 /**
- * @desc    Analyze prescription using Groq API
+ * @desc    Render the pages of a PDF prescription as images, to be previewed and read page by page
+ * @route   POST /api/prescriptions/pdf-pages
+ * @access  Private
+ */
+exports.getPdfPages = async (req, res) => {
+  if (!req.file) {
+    return res.status(400).json({ success: false, error: 'No file uploaded' });
+  }
+
+  // Disk storage locally, memory storage on Vercel
+  const filePath = req.file.buffer ? null : req.file.path;
+
+  try {
+    const pdfBuffer = req.file.buffer || fs.readFileSync(filePath);
+    if (!isPdf(pdfBuffer)) {
+      return res.status(400).json({ success: false, error: 'Please upload a PDF file' });
+    }
+
+    let pages;
+    try {
+      pages = await renderPdfPages(pdfBuffer, getMaxPdfPages());
+    } catch (error) {
+      console.error('Error rendering PDF pages:', error.message);
+      return res.status(400).json({ success: false, error: 'Could not read the PDF: ' + error.message });
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        pages: pages.map(page => ({
+          image: `data:image/jpeg;base64,${page.image.toString('base64')}`,
+          width: page.width,
+          height: page.height
+        })),
+        // Reference stored with the analysis, like the one of an uploaded image
+        source: {
+          fileName: req.file.originalname,
+          mimeType: 'application/pdf',
+          size: req.file.size,
+          sha256: crypto.createHash('sha256').update(pdfBuffer).digest('hex'),
+          pageCount: pages.length
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Error processing PDF upload:', error);
+    return res.status(500).json({ success: false, error: 'Error processing PDF upload: ' + error.message });
+  } finally {
+    if (filePath) {
+      fs.unlink(filePath, (cleanupError) => {
+        if (cleanupError) console.error('Error cleaning up temporary file:', cleanupError);
+      });
+    }
+  }
+};
+
+/**
+ * Read the text and the reviewed medication rows of an analysis request
+ * @param {object} req Express request
+ * @returns {{ error: string }|{ ocrText: string, medications: (object[]|undefined), cacheKey: string }}
+ */
+const readAnalysisRequest = (req) => {
+  const { medications } = req.body;
+
+  // Medication rows the user reviewed and corrected, analyzed as they are
+  if (medications !== undefined) {
+    const rowsError = validateMedicationRows(medications);
+    if (rowsError) {
+      return { error: rowsError };
+    }
+  }
+
+  const ocrText = typeof req.body.ocrText === 'string' && req.body.ocrText.trim()
+    ? req.body.ocrText
+    : medications && describeMedicationRows(medications);
+
+  if (!ocrText) {
+    return { error: 'OCR text is required' };
+  }
+
+  return { ocrText, medications, cacheKey: getAnalysisCacheKey(ocrText, medications) };
+};
+
+/**
+ * @desc    Send an analysis the user already got for the same prescription, before the subscription check,
+ *          so repeats stay free; otherwise continue to analyzePrescription
  * @route   POST /api/prescriptions/analyze
  * @access  Private
  */
-exports.analyzePrescription = async (req, res) => {
+exports.sendCachedAnalysis = async (req, res, next) => {
   try {
-    const { ocrText } = req.body;
+    const request = readAnalysisRequest(req);
+    if (request.error) {
+      return res.status(400).json({ success: false, message: request.error });
+    }
+    req.analysisRequest = request;
+
+    const cached = await findCachedAnalysis(req.user.id, request.cacheKey);
+    if (!cached) {
+      return next();
+    }
+
+    console.log('Returning cached analysis');
+    return await sendAnalysis(req, res, request.ocrText, cached.extractedInfo, cached.analysis, {
+      cached: true,
+      cacheKey: request.cacheKey,
+      prescriptionId: cached.prescriptionId
+    });
+  } catch (error) {
+    console.error('Error sending cached analysis:', error.message);
+    return res.status(500).json({
+      success: false,
+      message: 'An error occurred while analyzing the prescription',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    Analyze prescription using the language model
+ * @route   POST /api/prescriptions/analyze
+ * @access  Private
+ */
+exports.analyzePrescription = async (req, res) => {
+  // A trial analysis is only used up by a real AI analysis of a new prescription
+  let aiAnalysisCompleted = false;
 
-    if (!ocrText) {
-      return res.status(400).json({ success: false, message: 'OCR text is required' });
+  try {
+    const request = req.analysisRequest || readAnalysisRequest(req);
+    if (request.error) {
+      return res.status(400).json({ success: false, message: request.error });
     }
+    const { ocrText, medications, cacheKey } = request;
 
     console.log('=== PRESCRIPTION ANALYSIS START ===');
     console.log('Received OCR text for analysis:', ocrText.substring(0, 100) + '...');
 
-    // Extract structured information from raw OCR text
-    const extractedInfo = await extractMedicationInfo(ocrText);
+    // Extract structured information from raw OCR text, unless the user gave the medications
+    const extractedInfo = medications
+      ? buildReviewedInfo(medications, ocrText)
+      : await extractMedicationInfo(ocrText);
     console.log('Extracted Info:', JSON.stringify(extractedInfo, null, 2));
 
     // If no medications were found, generate a basic analysis
@@ -201,13 +510,13 @@ exports.analyzePrescription = async (req, res) => {
           drug_interactions: ["Tell your doctor about all medications you're taking, including over-the-counter medicines"],
           contraindications: ["Tell your doctor about any allergies or health conditions you have"],
           overdose_symptoms: ["Seek emergency medical attention if you think you've taken too much"]
-        }
+        },
+        medications: [],
+        // Generic advice, not an analysis of this prescription
+        quality: 'fallback_generic'
       };
       console.log('Basic Analysis:', JSON.stringify(basicAnalysis, null, 2));
-      return res.status(200).json({
-        success: true,
-        data: basicAnalysis
-      });
+      return await sendAnalysis(req, res, ocrText, extractedInfo, basicAnalysis);
     }
 
     // Analyze the structured text for safety information
@@ -232,14 +541,16 @@ exports.analyzePrescription = async (req, res) => {
           drug_interactions: analysis.warnings?.drug_interactions || ["Tell your doctor about all medications you're taking, including over-the-counter medicines"],
           contraindications: analysis.warnings?.contraindications || ["Tell your doctor about any allergies or health conditions you have"],
           overdose_symptoms: analysis.warnings?.overdose_symptoms || ["Seek emergency medical attention if you think you've taken too much"]
-        }
+        },
+        medications: analysis.medications || [],
+        quality: analysis.quality
       };
 
       console.log('Final Analysis:', JSON.stringify(finalAnalysis, null, 2));
-      return res.status(200).json({
-        success: true,
-        data: finalAnalysis
-      });
+      // Cached before sendAnalysis adds the checks that are made again for each request
+      await cacheAnalysis(req.user.id, cacheKey, extractedInfo, finalAnalysis);
+      aiAnalysisCompleted = true;
+      return await sendAnalysis(req, res, ocrText, extractedInfo, finalAnalysis, { cacheKey });
     } catch (analysisError) {
       console.error('Error in medication safety analysis:', analysisError.message);
       // Return a basic analysis if safety analysis fails
@@ -258,13 +569,13 @@ exports.analyzePrescription = async (req, res) => {
           drug_interactions: ["Tell your doctor about all medications you're taking, including over-the-counter medicines"],
           contraindications: ["Tell your doctor about any allergies or health conditions you have"],
           overdose_symptoms: ["Seek emergency medical attention if you think you've taken too much"]
-        }
+        },
+        // Keep what was read from the prescription, without safety details
+        medications: buildMedicationAnalyses([], extractedInfo.structuredText.medications, extractedInfo.structuredText.reviewed),
+        quality: 'fallback_generic'
       };
       console.log('Fallback Analysis:', JSON.stringify(fallbackAnalysis, null, 2));
-      return res.status(200).json({
-        success: true,
-        data: fallbackAnalysis
-      });
+      return await sendAnalysis(req, res, ocrText, extractedInfo, fallbackAnalysis);
     }
   } catch (error) {
     console.error('Error analyzing prescription:', error.message);
@@ -273,6 +584,10 @@ exports.analyzePrescription = async (req, res) => {
       message: 'An error occurred while analyzing the prescription',
       error: error.message
     });
+  } finally {
+    if (!aiAnalysisCompleted) {
+      await refundTrialAnalysis(req);
+    }
   }
 };
 
@@ -290,13 +605,13 @@ exports.preprocessText = async (req, res) => {
       return res.status(400).json({ error: 'OCR text required' });
     }
 
-    // Call Groq API to extract structured medication info
+    // Call the language model to extract structured medication info
     let extractedData;
     
     try {
       extractedData = await extractMedicationInfo(ocrText);
     } catch (error) {
-      console.error('Groq API extraction error:', error);
+      console.error('Medication extraction error:', error);
       // If AI extraction fails, return the original text
       return res.status(200).json({
         success: true,
@@ -321,118 +636,6 @@ exports.preprocessText = async (req, res) => {
   }
 };
 
-/**
- * Call Groq API to analyze prescription text
- * @param {string} ocrText - The OCR text from the prescription
- * @returns {object} - Structured analysis of the prescription
- */
-async function callGroqAPI(ocrText) {
-  // Log the text being analyzed to help debug
-  console.log('=== ANALYZING TEXT ===');
-  console.log(ocrText);
-  console.log('=====================');
-
-  // Get API key from environment variables
-  const apiKey = process.env.GROQ_API_KEY;
-  
-  if (!apiKey) {
-    throw new Error('Groq API key is not configured');
-  }
-
-  // Enhanced prompt with more direct instructions
-  const prompt = {
-    "prescription_text": ocrText,
-    "instructions": "You are analyzing a prescription text. Extract ANY medication names mentioned (like lisinopril, metformin, etc.) and provide information about them.",
-    "output_format": {
-      "precautions": {
-        "dietary_restrictions": ["List at least 2-3 common dietary restrictions for medications mentioned"],
-        "activity_limitations": ["List at least 2-3 activity warnings for medications mentioned"],
-        "side_effects": ["List at least 3-5 important side effects for medications mentioned"]
-      },
-      "duration": {
-        "total_days": "Estimate treatment duration or null if unclear",
-        "frequency": "Dosing frequency (e.g., 'Once daily', 'Twice daily')",
-        "timing": "When to take (e.g., 'With meals', 'Before bed')"
-      },
-      "warnings": {
-        "drug_interactions": ["List at least 2-3 common drug interactions"],
-        "contraindications": ["List at least 2-3 contraindications"],
-        "overdose_symptoms": ["List at least 2-3 overdose symptoms"]
-      }
-    }
-  };
-
-  try {
-    const response = await axios.post(
-      'https://api.groq.com/openai/v1/chat/completions',
-      {
-        model: 'llama3-8b-8192',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a pharmacist analyzing prescriptions. ALWAYS provide useful information about ANY medication terms you find. If unsure, provide general information that would be helpful for common medications. Your ENTIRE response must be a valid JSON object with no other text.'
-          },
-          {
-            role: 'user',
-            content: JSON.stringify(prompt)
-          }
-        ],
-        temperature: 0.7, // Increased temperature for more creative responses
-        max_tokens: 2048
-      },
-      {
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json'
-        }
-      }
-    );
-
-    // Parse response and extract analysis
-    try {
-      const content = response.data.choices[0].message.content;
-      
-      // Debug: Log the raw API response to terminal
-      console.log('=== RAW GROQ API RESPONSE ===');
-      console.log(content);
-      console.log('=============================');
-      
-      // Try multiple parsing approaches
-      try {
-        // First try direct parse
-        return JSON.parse(content);
-      } catch (directParseError) {
-        console.log('Direct JSON parsing failed. Trying regex extraction...');
-        // Try to extract JSON with regex
-        const jsonMatch = content.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-          console.log('JSON regex match found. Parsing extracted JSON...');
-        return JSON.parse(jsonMatch[0]);
-      } else {
-          console.log('No JSON object found with regex. Trying to clean content...');
-          // Last resort - try to fix common issues with the JSON
-          const cleanedContent = content
-            .replace(/```json|```/g, '') // Remove markdown code blocks
-            .trim();
-          console.log('Cleaned content:', cleanedContent);
-          return JSON.parse(cleanedContent);
-        }
-      }
-    } catch (parseError) {
-      console.error('Error parsing Groq API response:', parseError);
-      
-      // Generate meaningful fallback data based on the text content
-      console.log('Generating fallback analysis data based on text content...');
-      return generateFallbackAnalysis(ocrText);
-    }
-  } catch (error) {
-    console.error('Error calling Groq API:', error.message);
-    // Generate meaningful fallback data based on the text content
-    console.log('Generating fallback analysis data based on text content...');
-    return generateFallbackAnalysis(ocrText);
-  }
-}
-
 // Common frequency patterns to validate against
 const validFrequencyPatterns = [
   'once daily', 'twice daily', 'three times daily', 'four times daily',
@@ -496,6 +699,8 @@ function validateDuration(duration) {
 function validateFrequency(frequency) {
   if (!frequency) return 'Take as prescribed by your doctor';
   
+  // e.g. "BD" -> "twice daily"
+  frequency = expandAbbreviations(frequency, ['frequency', 'timing']);
   const freqLower = frequency.toLowerCase().trim();
   
   // Check against valid patterns
@@ -523,6 +728,8 @@ function validateFrequency(frequency) {
 function validateTiming(timing) {
   if (!timing) return 'Follow your doctor\'s instructions';
   
+  // e.g. "HS" -> "at bedtime"
+  timing = expandAbbreviations(timing, ['frequency', 'timing']);
   const timingLower = timing.toLowerCase().trim();
   
   // Check against valid patterns
@@ -548,9 +755,9 @@ async function extractMedicationInfo(ocrText) {
     const cleanedText = cleanPrescriptionText(ocrText);
     console.log('Text length after cleaning:', cleanedText.length);
     
-    // Check for API key
-    if (!process.env.GROQ_API_KEY) {
-      console.warn('GROQ_API_KEY not found in environment variables. Using fallback analysis.');
+    // Check that a language model is available
+    if (!isLlmConfigured()) {
+      console.warn('The language model provider is not configured. Using fallback analysis.');
       return { 
         structuredText: { text: cleanedText, medications: [] }, 
         medicationCount: 0,
@@ -558,7 +765,7 @@ async function extractMedicationInfo(ocrText) {
       };
     }
 
-    // Use Groq API to structure the medication information
+    // Use the language model to structure the medication information
     const prompt = `
       Analyze the following prescription text and extract medication information in a structured JSON format.
       Include medication names, dosages, frequencies, durations, and any special instructions.
@@ -580,53 +787,23 @@ async function extractMedicationInfo(ocrText) {
       ${cleanedText}
     `;
 
-    console.log('Calling Groq API for medication extraction...');
-    const response = await axios.post(
-      'https://api.groq.com/openai/v1/chat/completions',
-      {
-        model: 'llama3-8b-8192',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a pharmacist extracting medication information from prescriptions. Format your ENTIRE response as a valid JSON object with medications array and text field. Each medication should have name, dosage, frequency, duration, and specialInstructions fields. Use clear, standardized terms for frequency and timing.'
-          },
-          { role: 'user', content: prompt }
-        ],
-        temperature: 0.2,
-        max_tokens: 1024
-      },
-      {
-        headers: {
-          'Authorization': `Bearer ${process.env.GROQ_API_KEY}`,
-          'Content-Type': 'application/json'
-        }
-      }
-    );
-
-    // Extract the JSON from the response
-    const contentText = response.data.choices[0].message.content;
-    console.log('API Response received, length:', contentText.length);
-    console.log('Raw API response:', contentText);
-    
+    console.log('Calling the language model for medication extraction...');
     let jsonData;
     try {
-      // Try direct JSON parsing first
-      jsonData = JSON.parse(contentText);
+      jsonData = await completeJson('extraction', [
+        {
+          role: 'system',
+          content: 'You are a pharmacist extracting medication information from prescriptions. Format your ENTIRE response as a valid JSON object with medications array and text field. Each medication should have name, dosage, frequency, duration, and specialInstructions fields. Use clear, standardized terms for frequency and timing.'
+        },
+        { role: 'user', content: prompt }
+      ]);
     } catch (parseError) {
-      console.log('Direct parsing failed, trying regex extraction');
-      // Try to extract JSON with regex if direct parsing fails
-      const jsonMatch = contentText.match(/```(?:json)?\s*({[\s\S]*?})\s*```/) || contentText.match(/{[\s\S]*"medications"[\s\S]*}/);
-      
-      if (!jsonMatch) {
-        console.warn('Failed to extract JSON from API response, returning cleaned text');
-        return { 
-          structuredText: { text: cleanedText, medications: [] }, 
-          medicationCount: 0,
-          isAiProcessed: false 
-        };
-      }
-
-      jsonData = JSON.parse(jsonMatch[1] || jsonMatch[0]);
+      console.warn('Failed to extract JSON from the model response, returning cleaned text:', parseError.message);
+      return { 
+        structuredText: { text: cleanedText, medications: [] }, 
+        medicationCount: 0,
+        isAiProcessed: false 
+      };
     }
 
     // Validate and clean the extracted data
@@ -752,54 +929,142 @@ function countMedicationsInText(text) {
   return count;
 }
 
+// Lists shared by the aggregated analysis and each medication's analysis
+const AGGREGATED_SECTIONS = {
+  precautions: ['dietary_restrictions', 'activity_limitations', 'side_effects'],
+  warnings: ['drug_interactions', 'contraindications', 'overdose_symptoms']
+};
+
+/**
+ * Keep the non-empty strings of a list returned by the model
+ * @param {*} value
+ * @returns {string[]}
+ */
+function toStringList(value) {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter(item => typeof item === 'string' && item.trim() !== '')
+    .map(item => item.trim());
+}
+
 /**
- * Generate a fallback analysis based on the text content
- * @param {string} text - The text to analyze
- * @returns {object} - The generated fallback analysis
+ * Build the per-medication analyses, completing the model's answer with the details
+ * extracted from the prescription (matched by name)
+ * @param {Array} analyzedMeds - Medications from the safety analysis
+ * @param {Array} extractedMeds - Medications from extractMedicationInfo
+ * @param {boolean} [reviewed] - Whether the user corrected the extracted details, which then win over the model's
+ * @returns {Array} - Medication analyses
  */
-function generateFallbackAnalysis(text) {
-  // Implement the logic to generate a fallback analysis based on the text content
-  // This is a placeholder and should be replaced with the actual implementation
-  return {
-    success: false,
-    message: 'Fallback analysis generated due to error',
-    data: {
-      structuredText: { text: text, medications: [] },
-      medicationCount: 0,
-      isAiProcessed: false
-    }
+function buildMedicationAnalyses(analyzedMeds, extractedMeds, reviewed = false) {
+  const analyzed = Array.isArray(analyzedMeds) ? analyzedMeds.filter(med => med && typeof med === 'object') : [];
+  const unmatched = Array.isArray(extractedMeds) ? [...extractedMeds] : [];
+  const normalizeName = (med) => (med.name || '').trim().toLowerCase();
+
+  // Same medication if one name contains the other, e.g. "Amoxicillin" and "amoxicillin 500mg"
+  const isSameMedication = (a, b) => {
+    const nameA = normalizeName(a);
+    const nameB = normalizeName(b);
+    return Boolean(nameA && nameB) && (nameA.includes(nameB) || nameB.includes(nameA));
   };
+
+  // Pair each analyzed medication with its extracted details
+  const pairs = analyzed.map(med => {
+    const index = normalizeName(med)
+      ? unmatched.findIndex(item => isSameMedication(item, med))
+      : 0;
+    return [med, index !== -1 ? unmatched.splice(index, 1)[0] || {} : {}];
+  });
+  // Medications the model left out are still listed, with the extracted details only
+  unmatched.forEach(source => pairs.push([{}, source]));
+
+  return pairs
+    .map(([med, source]) => {
+      const pick = (analyzedValue, extractedValue) => (reviewed
+        ? extractedValue || analyzedValue
+        : analyzedValue || extractedValue);
+
+      const medication = {
+        name: (pick(med.name, source.name) || '').trim(),
+        strength: pick(med.strength, source.dosage) || '',
+        dosage_form: med.dosage_form || '',
+        route: med.route || '',
+        dose: pick(med.dose, source.dose) || '',
+        frequency: pick(med.frequency, source.frequency) || '',
+        timing: pick(med.timing, source.specialInstructions) || '',
+        duration_days: pick(validateDuration(med.duration_days), source.duration) || null,
+        precautions: {},
+        warnings: {}
+      };
+
+      for (const [section, fields] of Object.entries(AGGREGATED_SECTIONS)) {
+        for (const field of fields) {
+          medication[section][field] = toStringList(med[section]?.[field]);
+        }
+      }
+
+      return medication;
+    })
+    .filter(medication => medication.name);
 }
 
 /**
  * Analyze the structured text for safety information
  * @param {object} structuredText - The structured text to analyze
- * @returns {Promise<object>} - The analyzed safety information
+ * @returns {Promise<object>} - The analyzed safety information, with its quality
+ * @throws When the model gives no reply matching the shared schema, even after repair prompts
  */
 async function analyzeMedicationSafety(structuredText) {
   try {
     console.log('=== ANALYZING MEDICATION SAFETY ===');
     console.log('Input structured text:', JSON.stringify(structuredText, null, 2));
 
-    // Get API key from environment variables
-    const apiKey = process.env.GROQ_API_KEY;
-    if (!apiKey) {
-      throw new Error('GROQ_API_KEY not found in environment variables');
+    if (!isLlmConfigured()) {
+      throw new Error('The language model provider is not configured');
     }
 
     // Create a prompt for safety analysis
     const prompt = {
-      medications: structuredText.medications || [],
-      request: `Analyze these medications and provide comprehensive safety information. Include specific details about:
+      // Brands are given with their generic ingredients, so the model does not have to guess them
+      medications: (structuredText.medications || []).map(med => {
+        const match = matchMedication(med.name, med.dosage);
+        return match && match.brand
+          ? { ...med, ingredients: match.ingredients.map(({ name, strength }) => `${name} ${strength}`.trim()) }
+          : med;
+      }),
+      request: `Analyze these medications and provide comprehensive safety information, both for each medication and for the prescription as a whole. Include specific details about:
       - Dietary restrictions and food interactions
       - Activity limitations and precautions
       - Common and serious side effects
       - Drug interactions
       - Contraindications
       - Signs of overdose
+
+      Where a medication lists its ingredients, base its analysis on them and keep its name as given.
       
       Format your response exactly as a JSON object with this structure:
       {
+        "medications": [
+          {
+            "name": "medication name as given",
+            "strength": "e.g. 500 mg",
+            "dosage_form": "e.g. tablet, capsule, syrup",
+            "route": "e.g. oral, topical",
+            "dose": "amount per intake, e.g. 1 tablet",
+            "frequency": "specific frequency",
+            "timing": "specific timing instructions",
+            "duration_days": number or null,
+            "precautions": {
+              "dietary_restrictions": ["food restrictions for this medication"],
+              "activity_limitations": ["activity warnings for this medication"],
+              "side_effects": ["side effects of this medication"]
+            },
+            "warnings": {
+              "drug_interactions": ["interactions of this medication"],
+              "contraindications": ["contraindications of this medication"],
+              "overdose_symptoms": ["overdose symptoms of this medication"]
+            }
+          }
+        ],
         "precautions": {
           "dietary_restrictions": ["list specific food restrictions"],
           "activity_limitations": ["list specific activity warnings"],
@@ -815,55 +1080,24 @@ async function analyzeMedicationSafety(structuredText) {
           "contraindications": ["list specific contraindications"],
           "overdose_symptoms": ["list specific overdose symptoms"]
         }
-      }`
+      }
+      Every field is required and no other fields are allowed. Use an empty string, an empty list or null when nothing applies.`
     };
 
-    console.log('Calling Groq API with prompt:', JSON.stringify(prompt, null, 2));
+    console.log('Calling the language model with prompt:', JSON.stringify(prompt, null, 2));
 
-    // Call Groq API for safety analysis
-    const response = await axios.post(
-      'https://api.groq.com/openai/v1/chat/completions',
+    // Ask the language model for safety analysis, repairing replies that break the shared schema
+    const { data: safetyInfo, repairs } = await completeValidatedJson('safety', [
       {
-        model: 'llama3-8b-8192',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a pharmacist providing medication safety information. Your response must be a valid JSON object with no additional text. Use clear, specific language that patients can understand.'
-          },
-          {
-            role: 'user',
-            content: JSON.stringify(prompt)
-          }
-        ],
-        temperature: 0.3,
-        max_tokens: 2048
+        role: 'system',
+        content: 'You are a pharmacist providing medication safety information. Your response must be a valid JSON object with no additional text. Use clear, specific language that patients can understand.'
       },
       {
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json'
-        }
+        role: 'user',
+        content: JSON.stringify(prompt)
       }
-    );
-
-    // Parse and validate the API response
-    const content = response.data.choices[0].message.content;
-    console.log('Raw Groq API Response:', content);
-    
-    let safetyInfo;
-    try {
-      // Try direct JSON parsing first
-      safetyInfo = JSON.parse(content.trim());
-    } catch (parseError) {
-      console.error('Direct parsing failed:', parseError.message);
-      // Try to extract JSON with regex
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        safetyInfo = JSON.parse(jsonMatch[0].trim());
-      } else {
-        throw new Error('Failed to parse safety information from API response');
-      }
-    }
+    ], validatePrescriptionAnalysis);
+    console.log('Safety information from the model:', JSON.stringify(safetyInfo, null, 2));
 
     // Validate and ensure all required fields are present
     const validatedAnalysis = {
@@ -881,9 +1115,22 @@ async function analyzeMedicationSafety(structuredText) {
         drug_interactions: safetyInfo.warnings?.drug_interactions || [],
         contraindications: safetyInfo.warnings?.contraindications || [],
         overdose_symptoms: safetyInfo.warnings?.overdose_symptoms || []
-      }
+      },
+      medications: buildMedicationAnalyses(safetyInfo.medications, structuredText.medications, structuredText.reviewed),
+      quality: repairs > 0 ? 'ai_repaired' : 'ai_validated'
     };
 
+    // Fill empty aggregated sections from the per-medication details
+    for (const [section, fields] of Object.entries(AGGREGATED_SECTIONS)) {
+      for (const field of fields) {
+        if (validatedAnalysis[section][field].length === 0) {
+          validatedAnalysis[section][field] = [...new Set(
+            validatedAnalysis.medications.flatMap(med => med[section][field])
+          )];
+        }
+      }
+    }
+
     // Add default messages if any section is empty
     if (validatedAnalysis.precautions.dietary_restrictions.length === 0) {
       validatedAnalysis.precautions.dietary_restrictions = ["Take medication at consistent times relative to meals"];
@@ -913,21 +1160,24 @@ async function analyzeMedicationSafety(structuredText) {
 }
 
 /**
- * @desc    Get prescription history for a user
+ * @desc    List the user's saved prescription analyses, newest first
  * @route   GET /api/prescriptions/history
  * @access  Private
  */
 exports.getPrescriptionHistory = async (req, res) => {
   try {
-    // Find all prescriptions for the current user
     const prescriptions = await Prescription.find({ userId: req.user.id })
-      .sort({ createdAt: -1 }) // Sort by newest first
+      .select(HISTORY_FIELDS)
+      .sort({ createdAt: -1 })
       .lean();
     
     return res.status(200).json({
       success: true,
       count: prescriptions.length,
-      data: prescriptions
+      data: prescriptions.map(({ structuredText, ...prescription }) => ({
+        ...prescription,
+        medicationNames: (structuredText && structuredText.medications || []).map(med => med.name).filter(Boolean)
+      }))
     });
   } catch (error) {
     console.error('Error fetching prescription history:', error);
@@ -936,4 +1186,132 @@ exports.getPrescriptionHistory = async (req, res) => {
       error: 'Server error while fetching prescription history'
     });
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Find one of the user's prescriptions by the :id route param
+ * @param {object} req Express request
+ * @returns {Promise<object|null>}
+ */
+const findOwnPrescription = (req) => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+    return null;
+  }
+  return Prescription.findOne({ _id: req.params.id, userId: req.user.id });
+};
+
+/**
+ * @desc    Get a saved prescription analysis
+ * @route   GET /api/prescriptions/:id
+ * @access  Private
+ */
+exports.getPrescription = async (req, res) => {
+  try {
+    const prescription = await findOwnPrescription(req);
+
+    if (!prescription) {
+      return res.status(404).json({
+        success: false,
+        error: 'Prescription not found'
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: prescription
+    });
+  } catch (error) {
+    console.error('Error fetching prescription:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Server error'
+    });
+  }
+};
+
+/**
+ * @desc    Rename a saved prescription analysis
+ * @route   PUT /api/prescriptions/:id
+ * @access  Private
+ */
+exports.renamePrescription = async (req, res) => {
+  try {
+    const title = typeof req.body.title === 'string' ? req.body.title.trim() : '';
+
+    if (!title) {
+      return res.status(400).json({
+        success: false,
+        error: 'Please provide a title'
+      });
+    }
+
+    const prescription = await findOwnPrescription(req);
+
+    if (!prescription) {
+      return res.status(404).json({
+        success: false,
+        error: 'Prescription not found'
+      });
+    }
+
+    prescription.title = title;
+    prescription.updatedAt = new Date();
+    await prescription.save();
+
+    return res.status(200).json({
+      success: true,
+      data: prescription
+    });
+  } catch (error) {
+    console.error('Error renaming prescription:', error);
+
+    if (error.name === 'ValidationError') {
+      const messages = Object.values(error.errors).map(val => val.message);
+      return res.status(400).json({
+        success: false,
+        error: messages.join(', ')
+      });
+    }
+
+    return res.status(500).json({
+      success: false,
+      error: 'Server error'
+    });
+  }
+};
+
+/**
+ * @desc    Delete a saved prescription analysis
+ * @route   DELETE /api/prescriptions/:id
+ * @access  Private
+ */
+exports.deletePrescription = async (req, res) => {
+  try {
+    const prescription = await findOwnPrescription(req);
+
+    if (!prescription) {
+      return res.status(404).json({
+        success: false,
+        error: 'Prescription not found'
+      });
+    }
+
+    // The schedule and the dose log of the prescription go with it, so no reminders are left for it
+    await Promise.all([
+      MedicationSchedule.deleteMany({ userId: req.user.id, prescriptionId: prescription._id }),
+      DoseLog.deleteMany({ userId: req.user.id, prescriptionId: prescription._id })
+    ]);
+    await prescription.deleteOne();
+
+    return res.status(200).json({
+      success: true,
+      data: {}
+    });
+  } catch (error) {
+    console.error('Error deleting prescription:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Server error'
+    });
+  }
+};
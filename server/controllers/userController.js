@@ -0,0 +1,125 @@
+const User = require('../models/User');
+const Doctor = require('../models/Doctor');
+const { ROLES } = require('../config/roles');
+
+// Account fields visible to staff
+const USER_FIELDS = 'email name phone roles doctorId subscriptionStatus createdAt';
+
+/**
+ * @desc    List user accounts, optionally filtered by role or searched by email/name
+ * @route   GET /api/users?role=doctor&search=smith
+ * @access  Private (admin, support)
+ */
+exports.getUsers = async (req, res) => {
+  try {
+    const { role, search } = req.query;
+    const filter = {};
+
+    if (role) {
+      if (!ROLES.includes(role)) {
+        return res.status(400).json({
+          success: false,
+          error: `Invalid role. Must be one of: ${ROLES.join(', ')}`
+        });
+      }
+      filter.roles = role;
+    }
+
+    if (search) {
+      // Escape regex special characters so the search is a plain substring match
+      const pattern = new RegExp(String(search).replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+      filter.$or = [{ email: pattern }, { name: pattern }];
+    }
+
+    const users = await User.find(filter)
+      .select(USER_FIELDS)
+      .sort({ createdAt: -1 })
+      .limit(100);
+
+    res.status(200).json({
+      success: true,
+      count: users.length,
+      data: users
+    });
+  } catch (error) {
+    console.error('Error fetching users:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error'
+    });
+  }
+};
+
+/**
+ * @desc    Change a user's roles (and the doctor profile linked to doctor accounts)
+ * @route   PUT /api/users/:id/roles
+ * @access  Private (admin)
+ */
+exports.updateUserRoles = async (req, res) => {
+  try {
+    const { roles, doctorId } = req.body;
+
+    if (!Array.isArray(roles) || roles.length === 0 || roles.some(role => !ROLES.includes(role))) {
+      return res.status(400).json({
+        success: false,
+        error: `Please provide at least one role. Must be one of: ${ROLES.join(', ')}`
+      });
+    }
+
+    // Admins cannot lock themselves out of role management
+    if (req.params.id === req.user.id && !roles.includes('admin')) {
+      return res.status(400).json({
+        success: false,
+        error: 'You cannot remove your own admin role'
+      });
+    }
+
+    const user = await User.findById(req.params.id);
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+    }
+
+    const linkedDoctorId = doctorId !== undefined ? doctorId : user.doctorId;
+
+    // Doctor accounts must manage an existing doctor profile
+    if (roles.includes('doctor')) {
+      const doctor = linkedDoctorId ? await Doctor.findById(linkedDoctorId) : null;
+      if (!doctor) {
+        return res.status(400).json({
+          success: false,
+          error: 'Doctor accounts must be linked to an existing doctor profile (doctorId)'
+        });
+      }
+    }
+
+    user.roles = [...new Set(roles)];
+    user.doctorId = roles.includes('doctor') ? linkedDoctorId : null;
+    await user.save();
+
+    const updatedUser = await User.findById(user._id).select(USER_FIELDS);
+
+    res.status(200).json({
+      success: true,
+      data: updatedUser
+    });
+  } catch (error) {
+    console.error('Error updating user roles:', error);
+
+    // If the error is due to invalid ID format
+    if (error.kind === 'ObjectId') {
+      return res.status(404).json({
+        success: false,
+        error: 'User or doctor not found'
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: 'Server error'
+    });
+  }
+};
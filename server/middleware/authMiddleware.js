@@ -1,5 +1,6 @@
 const jwt = require('jsonwebtoken');
 const User = require('../models/User');
+const { hasRole } = require('../config/roles');
 
 exports.protect = async (req, res, next) => {
   let token;
@@ -40,4 +41,19 @@ exports.protect = async (req, res, next) => {
       error: 'Not authorized to access this route' 
     });
   }
-}; 
\ No newline at end of file
+}; 
+
+/**
+ * Only allow users with at least one of the given roles (must run after protect)
+ * Roles are read from the user record, so role changes apply without a new token
+ * @param {...string} roles Allowed roles
+ */
+exports.authorize = (...roles) => (req, res, next) => {
+  if (!hasRole(req.user, ...roles)) {
+    return res.status(403).json({
+      error: `This route is only available to: ${roles.join(', ')}`
+    });
+  }
+
+  next();
+};
@@ -0,0 +1,83 @@
+const IdempotencyKey = require('../models/IdempotencyKey');
+const {
+  IDEMPOTENCY_HEADER,
+  IDEMPOTENCY_KEY_PATTERN,
+  REQUEST_IN_PROGRESS_CODE
+} = require('../config/syncConfig');
+
+/**
+ * Make a write safe to retry: the first response for an Idempotency-Key is stored and
+ * sent again for later requests with the same key, without running the handler twice.
+ * Requests without the header are handled normally. Must run after protect.
+ */
+exports.idempotent = async (req, res, next) => {
+  const key = req.get(IDEMPOTENCY_HEADER);
+
+  if (!key) {
+    return next();
+  }
+
+  if (!IDEMPOTENCY_KEY_PATTERN.test(key)) {
+    return res.status(400).json({
+      success: false,
+      error: `Invalid ${IDEMPOTENCY_HEADER} header`
+    });
+  }
+
+  let record;
+  try {
+    record = await IdempotencyKey.create({
+      userId: req.user._id,
+      key,
+      method: req.method,
+      path: req.originalUrl
+    });
+  } catch (error) {
+    // Anything but a duplicate key is a real failure
+    if (error.code !== 11000) {
+      console.error('Error saving idempotency key:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Server error'
+      });
+    }
+
+    const existing = await IdempotencyKey.findOne({ userId: req.user._id, key });
+
+    if (!existing || existing.method !== req.method || existing.path !== req.originalUrl) {
+      return res.status(422).json({
+        success: false,
+        error: `This ${IDEMPOTENCY_HEADER} was already used for a different request`
+      });
+    }
+
+    if (!existing.completed) {
+      return res.status(409).json({
+        success: false,
+        code: REQUEST_IN_PROGRESS_CODE,
+        error: 'This request is still being processed. Please try again shortly.'
+      });
+    }
+
+    res.set('Idempotent-Replayed', 'true');
+    return res.status(existing.statusCode).json(existing.body);
+  }
+
+  // Store the response once the handler sends it
+  const sendJson = res.json.bind(res);
+  res.json = (body) => {
+    // Server errors are not stored, so the client can retry them with the same key
+    const saved = res.statusCode >= 500
+      ? IdempotencyKey.deleteOne({ _id: record._id })
+      : IdempotencyKey.updateOne(
+        { _id: record._id },
+        { $set: { completed: true, statusCode: res.statusCode, body } }
+      );
+
+    saved.catch(error => console.error('Error storing idempotent response:', error));
+
+    return sendJson(body);
+  };
+
+  next();
+};
@@ -1,6 +1,8 @@
 const User = require('../models/User');
 
-// Middleware to check if user has access to prescription analyzer
+// Middleware to check if user has access to prescription analyzer.
+// A trial analysis is reserved here and given back with refundTrialAnalysis
+// unless the analysis completes.
 exports.checkPrescriptionAnalyzerAccess = async (req, res, next) => {
   try {
     const user = await User.findById(req.user._id);
@@ -14,10 +16,15 @@ exports.checkPrescriptionAnalyzerAccess = async (req, res, next) => {
 
     // Check if user is on trial with analyses remaining
     if (user.subscriptionStatus === 'trial' && user.trialAnalysesRemaining > 0) {
-      // Decrement analyses remaining
-      user.trialAnalysesRemaining -= 1;
-      await user.save();
-      return next();
+      // Reserve one atomically, so that parallel requests cannot use more analyses than are left
+      const reserved = await User.updateOne(
+        { _id: user._id, subscriptionStatus: 'trial', trialAnalysesRemaining: { $gt: 0 } },
+        { $inc: { trialAnalysesRemaining: -1 } }
+      );
+      if (reserved.modifiedCount === 1) {
+        req.trialAnalysisReserved = true;
+        return next();
+      }
     }
     
     // Check if user has active subscription
@@ -43,6 +50,18 @@ exports.checkPrescriptionAnalyzerAccess = async (req, res, next) => {
   }
 };
 
+// Give back the trial analysis reserved by checkPrescriptionAnalyzerAccess, when the analysis
+// failed, fell back to generic advice or was answered from the cache
+exports.refundTrialAnalysis = async (req) => {
+  if (!req.trialAnalysisReserved) return;
+  req.trialAnalysisReserved = false;
+  try {
+    await User.updateOne({ _id: req.user._id }, { $inc: { trialAnalysesRemaining: 1 } });
+  } catch (error) {
+    console.error('Error refunding trial analysis:', error);
+  }
+};
+
 // Middleware to check if user has access to consultant booking
 exports.checkConsultationAccess = async (req, res, next) => {
   try {
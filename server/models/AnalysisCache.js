@@ -0,0 +1,46 @@
+const mongoose = require('mongoose');
+const { getAnalysisCacheTtlDays } = require('../config/llmConfig');
+
+// AI analysis of a prescription, reused when the same user analyzes the same text again
+const AnalysisCacheSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // SHA-256 of the normalised text, the reviewed medications and the prompt version
+  key: {
+    type: String,
+    required: true
+  },
+  promptVersion: {
+    type: Number,
+    required: true
+  },
+  // Result of extractMedicationInfo, or of the reviewed medications
+  extractedInfo: {
+    type: mongoose.Schema.Types.Mixed,
+    required: true
+  },
+  // Analysis before the interaction, profile and source checks, which are made again each time
+  analysis: {
+    type: mongoose.Schema.Types.Mixed,
+    required: true
+  },
+  // History entry the analysis was saved to, returned again for repeats
+  prescriptionId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Prescription',
+    default: null
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+    expires: getAnalysisCacheTtlDays() * 24 * 60 * 60
+  }
+});
+
+// Analyses are only shared within a user's own requests
+AnalysisCacheSchema.index({ userId: 1, key: 1 }, { unique: true });
+
+module.exports = mongoose.model('AnalysisCache', AnalysisCacheSchema);
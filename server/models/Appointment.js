@@ -1,4 +1,55 @@
 const mongoose = require('mongoose');
+const { APPOINTMENT_STATUSES, ACTORS } = require('../config/appointmentStatus');
+
+// Previous time of an appointment that has been moved
+const rescheduleEntrySchema = new mongoose.Schema({
+  from: {
+    type: String,
+    required: true
+  },
+  to: {
+    type: String,
+    required: true
+  },
+  rescheduledAt: {
+    type: Date,
+    default: Date.now
+  },
+  rescheduledBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, { _id: false });
+
+// Record of a status change
+const statusChangeSchema = new mongoose.Schema({
+  from: {
+    type: String,
+    enum: APPOINTMENT_STATUSES
+  },
+  to: {
+    type: String,
+    enum: APPOINTMENT_STATUSES,
+    required: true
+  },
+  actor: {
+    type: String,
+    enum: ACTORS,
+    required: true
+  },
+  changedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  reason: {
+    type: String,
+    default: ''
+  },
+  changedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
 
 const appointmentSchema = new mongoose.Schema({
   doctorId: {
@@ -24,13 +75,28 @@ const appointmentSchema = new mongoose.Schema({
   },
   status: {
     type: String,
-    enum: ['pending', 'confirmed', 'cancelled'],
+    enum: APPOINTMENT_STATUSES,
     default: 'pending'
+  },
+  statusHistory: {
+    type: [statusChangeSchema],
+    default: []
+  },
+  rescheduleHistory: {
+    type: [rescheduleEntrySchema],
+    default: []
+  },
+  // Set while the appointment holds its slot ("doctorId:ISO start"), cleared when cancelled
+  slotLock: {
+    type: String
   }
 }, {
   timestamps: true
 });
 
+// Only one active appointment can hold a given doctor slot
+appointmentSchema.index({ slotLock: 1 }, { unique: true, sparse: true });
+
 const Appointment = mongoose.model('Appointment', appointmentSchema);
 
 module.exports = Appointment; 
\ No newline at end of file
@@ -1,4 +1,91 @@
 const mongoose = require('mongoose');
+const { TIME_PATTERN } = require('../utils/scheduleUtils');
+const { MIN_SLOT_MINUTES, MAX_SLOT_MINUTES } = require('../config/scheduleConfig');
+
+// "HH:mm" time of day in clinic time
+const timeField = {
+  type: String,
+  required: true,
+  match: [TIME_PATTERN, 'Time must be in HH:mm format']
+};
+
+// A block of hours within a day
+const intervalSchema = new mongoose.Schema({
+  start: timeField,
+  end: timeField
+}, { _id: false });
+
+// Recurring weekly working hours (day: 0 = Sunday ... 6 = Saturday)
+const weeklyIntervalSchema = new mongoose.Schema({
+  day: {
+    type: Number,
+    required: true,
+    min: 0,
+    max: 6
+  },
+  start: timeField,
+  end: timeField
+}, { _id: false });
+
+// Recurring break, on one day of the week or every day when day is null
+const breakSchema = new mongoose.Schema({
+  day: {
+    type: Number,
+    min: 0,
+    max: 6,
+    default: null
+  },
+  start: timeField,
+  end: timeField,
+  label: {
+    type: String,
+    default: ''
+  }
+}, { _id: false });
+
+// Date-specific change to the weekly hours, such as a vacation or an extra clinic day
+const exceptionSchema = new mongoose.Schema({
+  date: {
+    type: String,
+    required: true,
+    match: [/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format']
+  },
+  type: {
+    type: String,
+    enum: ['unavailable', 'available'],
+    required: true
+  },
+  // Hours affected - an "unavailable" exception without intervals blocks the whole day
+  intervals: {
+    type: [intervalSchema],
+    default: []
+  },
+  reason: {
+    type: String,
+    default: ''
+  }
+}, { _id: false });
+
+const scheduleSchema = new mongoose.Schema({
+  weekly: {
+    type: [weeklyIntervalSchema],
+    default: []
+  },
+  breaks: {
+    type: [breakSchema],
+    default: []
+  },
+  slotMinutes: {
+    type: Number,
+    min: MIN_SLOT_MINUTES,
+    max: MAX_SLOT_MINUTES,
+    default: 30
+  },
+  exceptions: {
+    type: [exceptionSchema],
+    default: []
+  }
+}, { _id: false });
 
 const doctorSchema = new mongoose.Schema({
   name: {
@@ -11,9 +98,9 @@ const doctorSchema = new mongoose.Schema({
     required: [true, 'Specialty is required'],
     trim: true
   },
-  availability: {
-    type: [String],
-    default: []
+  schedule: {
+    type: scheduleSchema,
+    default: () => ({})
   },
   bio: {
     type: String,
@@ -41,9 +128,16 @@ const doctorSchema = new mongoose.Schema({
     type: Number,
     default: 100
   },
-  isAvailableNow: {
-    type: Boolean,
-    default: false
+  // How consultations take place, and where for in-person visits
+  consultationType: {
+    type: String,
+    enum: ['online', 'in_person'],
+    default: 'online'
+  },
+  location: {
+    type: String,
+    trim: true,
+    default: ''
   }
 }, {
   timestamps: true
@@ -0,0 +1,44 @@
+const mongoose = require('mongoose');
+const { DOSE_STATUSES } = require('../config/adherenceConfig');
+
+// What the patient recorded for one expected dose of a medication
+const doseLogSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  prescriptionId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Prescription',
+    required: true
+  },
+  // Medication name as it appears in the schedule
+  medication: {
+    type: String,
+    required: true
+  },
+  // Day and time the dose was due, as "YYYY-MM-DD" and "HH:mm" in the patient's time zone
+  date: {
+    type: String,
+    required: true
+  },
+  time: {
+    type: String,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: DOSE_STATUSES,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// One entry per expected dose; logging it again replaces the status
+doseLogSchema.index({ userId: 1, prescriptionId: 1, medication: 1, date: 1, time: 1 }, { unique: true });
+
+const DoseLog = mongoose.model('DoseLog', doseLogSchema);
+
+module.exports = DoseLog;
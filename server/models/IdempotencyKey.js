@@ -0,0 +1,46 @@
+const mongoose = require('mongoose');
+const { IDEMPOTENCY_KEY_TTL_HOURS } = require('../config/syncConfig');
+
+// Response of a write sent with an Idempotency-Key, replayed when the same key is sent again
+const IdempotencyKeySchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  key: {
+    type: String,
+    required: true
+  },
+  method: {
+    type: String,
+    required: true
+  },
+  path: {
+    type: String,
+    required: true
+  },
+  // False while the first request with this key is still running
+  completed: {
+    type: Boolean,
+    default: false
+  },
+  statusCode: {
+    type: Number,
+    default: null
+  },
+  body: {
+    type: mongoose.Schema.Types.Mixed,
+    default: null
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+    expires: IDEMPOTENCY_KEY_TTL_HOURS * 60 * 60
+  }
+});
+
+// Keys are only unique per user
+IdempotencyKeySchema.index({ userId: 1, key: 1 }, { unique: true });
+
+module.exports = mongoose.model('IdempotencyKey', IdempotencyKeySchema);
@@ -0,0 +1,85 @@
+const mongoose = require('mongoose');
+const { FOOD_INSTRUCTIONS } = require('../config/medicationScheduleConfig');
+
+// Dosing plan of one medication. Times and dates are wall-clock values in the
+// patient's own time zone, so the schedule stays the same when they travel.
+const ScheduleItemSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  // Amount per intake, e.g. "1 tablet"
+  dose: {
+    type: String,
+    default: ''
+  },
+  // Dose times as "HH:mm", empty for as-needed medications
+  times: {
+    type: [String],
+    default: []
+  },
+  // 1 = every day, 2 = every other day, 7 = weekly
+  intervalDays: {
+    type: Number,
+    default: 1
+  },
+  asNeeded: {
+    type: Boolean,
+    default: false
+  },
+  food: {
+    type: String,
+    enum: FOOD_INSTRUCTIONS,
+    default: 'any'
+  },
+  // First and last day as "YYYY-MM-DD"; no end date means ongoing
+  startDate: {
+    type: String,
+    required: true
+  },
+  endDate: {
+    type: String,
+    default: null
+  },
+  instructions: {
+    type: String,
+    default: ''
+  }
+});
+
+const medicationScheduleSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // Prescription analysis the schedule was built from
+  prescriptionId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Prescription',
+    required: true
+  },
+  title: {
+    type: String,
+    trim: true,
+    default: ''
+  },
+  // Whether the browser should notify the patient at dose times
+  remindersEnabled: {
+    type: Boolean,
+    default: true
+  },
+  items: {
+    type: [ScheduleItemSchema],
+    default: []
+  }
+}, {
+  timestamps: true
+});
+
+medicationScheduleSchema.index({ userId: 1, prescriptionId: 1 }, { unique: true });
+
+const MedicationSchedule = mongoose.model('MedicationSchedule', medicationScheduleSchema);
+
+module.exports = MedicationSchedule;
@@ -0,0 +1,71 @@
+const mongoose = require('mongoose');
+const { NOTIFICATION_TYPES, NOTIFICATION_CHANNELS } = require('../config/notificationConfig');
+
+// Result of sending a notification through one channel
+const deliverySchema = new mongoose.Schema({
+  channel: {
+    type: String,
+    enum: NOTIFICATION_CHANNELS,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['sent', 'skipped', 'failed'],
+    required: true
+  },
+  error: {
+    type: String,
+    default: ''
+  },
+  sentAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+const notificationSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  type: {
+    type: String,
+    enum: NOTIFICATION_TYPES,
+    required: true
+  },
+  title: {
+    type: String,
+    required: true
+  },
+  message: {
+    type: String,
+    required: true
+  },
+  appointmentId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Appointment'
+  },
+  // Null until the user has seen the notification
+  readAt: {
+    type: Date,
+    default: null
+  },
+  deliveries: {
+    type: [deliverySchema],
+    default: []
+  },
+  // Set for notifications that must only be sent once (e.g. "reminder:<appointment>:<date>:<hours>")
+  dedupeKey: {
+    type: String
+  }
+}, {
+  timestamps: true
+});
+
+notificationSchema.index({ userId: 1, createdAt: -1 });
+notificationSchema.index({ dedupeKey: 1 }, { unique: true, sparse: true });
+
+const Notification = mongoose.model('Notification', notificationSchema);
+
+module.exports = Notification;
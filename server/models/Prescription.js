@@ -1,4 +1,146 @@
 const mongoose = require('mongoose');
+const { INTERACTION_SEVERITIES } = require('../config/interactionConfig');
+const { ANALYSIS_QUALITIES } = require('../utils/analysisSchema');
+
+// Image the OCR text was read from (the image itself is not kept)
+const SourceImageSchema = new mongoose.Schema({
+  fileName: String,
+  mimeType: String,
+  size: Number,
+  // SHA-256 of the file, to recognise the same image uploaded again.
+  // For several images uploaded together, the SHA-256 of their hashes in page order.
+  sha256: String,
+  // Pages read, for PDFs and several images uploaded together
+  pageCount: Number
+}, { _id: false });
+
+const PrecautionsSchema = new mongoose.Schema({
+  dietary_restrictions: [String],
+  activity_limitations: [String],
+  side_effects: [String]
+}, { _id: false });
+
+const WarningsSchema = new mongoose.Schema({
+  drug_interactions: [String],
+  contraindications: [String],
+  overdose_symptoms: [String]
+}, { _id: false });
+
+// Part of the OCR text a medication field was read from
+const SourceSpanSchema = new mongoose.Schema({
+  // Character offsets in ocrText, null when the value was not found in the text
+  start: Number,
+  end: Number,
+  // 0 to 1, how closely the text matches the value
+  confidence: Number,
+  // Low confidence, the patient should check the value against the prescription
+  verify: Boolean
+}, { _id: false });
+
+const MedicationSourcesSchema = new mongoose.Schema({
+  name: SourceSpanSchema,
+  strength: SourceSpanSchema,
+  dose: SourceSpanSchema,
+  frequency: SourceSpanSchema,
+  timing: SourceSpanSchema,
+  duration_days: SourceSpanSchema
+}, { _id: false });
+
+// Generic ingredients a medication name was matched to in the medication dictionary
+const GenericMatchSchema = new mongoose.Schema({
+  dictionaryVersion: String,
+  // Brand the name was matched to, null for a generic name
+  brand: String,
+  ingredients: [new mongoose.Schema({
+    name: String,
+    strength: String,
+    classes: [String]
+  }, { _id: false })],
+  confidence: Number,
+  // The name only matched approximately, e.g. an OCR misread
+  fuzzy: Boolean
+}, { _id: false });
+
+// Analysis of a single medication on the prescription
+const MedicationAnalysisSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true
+  },
+  // e.g. "500 mg"
+  strength: String,
+  // e.g. "tablet", "syrup"
+  dosage_form: String,
+  // e.g. "oral", "topical"
+  route: String,
+  // Amount per intake, e.g. "1 tablet"
+  dose: String,
+  frequency: String,
+  timing: String,
+  duration_days: Number,
+  precautions: PrecautionsSchema,
+  warnings: WarningsSchema,
+  // Missing in analyses saved before fields were linked to the OCR text
+  sources: MedicationSourcesSchema,
+  // Null when the name is not in the dictionary; missing in analyses saved before it was added
+  generic: GenericMatchSchema
+}, { _id: false });
+
+// Interaction found by the drug interaction checker
+const DrugInteractionSchema = new mongoose.Schema({
+  severity: {
+    type: String,
+    enum: INTERACTION_SEVERITIES
+  },
+  // Medication names as written on the prescriptions
+  medications: [String],
+  effect: String,
+  advice: String,
+  // Set when the second medication comes from an earlier, still active prescription
+  earlierPrescription: {
+    type: new mongoose.Schema({
+      id: mongoose.Schema.Types.ObjectId,
+      title: String,
+      prescribedAt: Date
+    }, { _id: false }),
+    default: null
+  }
+}, { _id: false });
+
+const InteractionCheckSchema = new mongoose.Schema({
+  // Version of the interaction dataset used, so old results can be told apart
+  datasetVersion: String,
+  checkedAt: Date,
+  // Generic names of the medications that could be checked
+  checkedMedications: [String],
+  unrecognizedMedications: [String],
+  interactions: [DrugInteractionSchema]
+}, { _id: false });
+
+// Medication matching an allergy or medical condition in the patient's profile
+const ProfileAlertSchema = new mongoose.Schema({
+  type: {
+    type: String,
+    enum: ['allergy', 'condition']
+  },
+  severity: {
+    type: String,
+    enum: ['contraindicated', 'caution']
+  },
+  medication: String,
+  drugClass: String,
+  // Allergy group or condition found in the profile, e.g. "Penicillin allergy"
+  matched: String,
+  note: String
+}, { _id: false });
+
+const ProfileCheckSchema = new mongoose.Schema({
+  datasetVersion: String,
+  checkedAt: Date,
+  // False when the profile had no allergies or conditions to check against
+  profileComplete: Boolean,
+  alerts: [ProfileAlertSchema]
+}, { _id: false });
 
 const PrescriptionSchema = new mongoose.Schema({
   userId: {
@@ -6,31 +148,65 @@ const PrescriptionSchema = new mongoose.Schema({
     ref: 'User',
     required: true
   },
+  // Name shown in the prescription history, editable by the user
+  title: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'Title cannot be longer than 100 characters']
+  },
   ocrText: {
     type: String,
     required: true
   },
+  // Medications extracted from the OCR text ({ text, medications }), as used for the analysis
+  structuredText: {
+    type: mongoose.Schema.Types.Mixed,
+    default: null
+  },
+  sourceImage: {
+    type: SourceImageSchema,
+    default: null
+  },
   analysis: {
-    precautions: {
-      dietary_restrictions: [String],
-      activity_limitations: [String],
-      side_effects: [String]
-    },
+    // Aggregated view of the whole prescription (the only view in older records)
+    precautions: PrecautionsSchema,
     duration: {
       total_days: Number,
       frequency: String,
       timing: String
     },
-    warnings: {
-      drug_interactions: [String],
-      contraindications: [String],
-      overdose_symptoms: [String]
+    warnings: WarningsSchema,
+    medications: {
+      type: [MedicationAnalysisSchema],
+      default: []
+    },
+    // Missing in analyses saved before the interaction checker was added
+    interactionCheck: {
+      type: InteractionCheckSchema,
+      default: null
+    },
+    // Missing in analyses saved before the allergy and condition check was added
+    profileCheck: {
+      type: ProfileCheckSchema,
+      default: null
+    },
+    // Whether the model's reply passed the shared schema, was repaired, or was replaced by
+    // generic advice; missing in analyses saved before it was recorded
+    quality: {
+      type: String,
+      enum: ANALYSIS_QUALITIES
     }
   },
   createdAt: {
     type: Date,
     default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
   }
 });
 
+PrescriptionSchema.index({ userId: 1, createdAt: -1 });
+
 module.exports = mongoose.model('Prescription', PrescriptionSchema); 
\ No newline at end of file
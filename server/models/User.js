@@ -1,5 +1,6 @@
 const mongoose = require('mongoose');
 const bcrypt = require('bcryptjs');
+const { ROLES, DEFAULT_ROLES } = require('../config/roles');
 
 const userSchema = new mongoose.Schema({
   email: {
@@ -72,6 +73,29 @@ const userSchema = new mongoose.Schema({
     type: String,
     default: null
   },
+  roles: {
+    type: [{
+      type: String,
+      enum: ROLES
+    }],
+    default: () => [...DEFAULT_ROLES]
+  },
+  // Secret token for the user's subscribable appointment calendar feed
+  calendarToken: {
+    type: String,
+    default: undefined
+  },
+  // Doctor profile this account manages (set for doctor accounts only)
+  doctorId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Doctor',
+    default: null
+  },
+  // Last change to the profile fields, used to detect edits made from an outdated copy
+  profileUpdatedAt: {
+    type: Date,
+    default: null
+  },
   createdAt: {
     type: Date,
     default: Date.now
@@ -99,6 +123,9 @@ userSchema.methods.comparePassword = async function(candidatePassword) {
   return await bcrypt.compare(candidatePassword, this.password);
 };
 
+// Calendar feeds are looked up by token
+userSchema.index({ calendarToken: 1 }, { unique: true, sparse: true });
+
 const User = mongoose.model('User', userSchema);
 
 module.exports = User; 
\ No newline at end of file
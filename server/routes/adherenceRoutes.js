@@ -0,0 +1,17 @@
+const express = require('express');
+const router = express.Router();
+const {
+  getAdherence,
+  logDose,
+  downloadAdherenceCsv
+} = require('../controllers/adherenceController');
+const { protect, authorize } = require('../middleware/authMiddleware');
+
+// Adherence tracking is a patient tool
+router.use(protect, authorize('patient'));
+
+router.get('/:prescriptionId', getAdherence);
+router.post('/:prescriptionId/doses', logDose);
+router.get('/:prescriptionId/report.csv', downloadAdherenceCsv);
+
+module.exports = router;
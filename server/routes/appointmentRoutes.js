@@ -3,18 +3,40 @@ const router = express.Router();
 const { 
   bookAppointment, 
   getUserAppointments, 
-  updateAppointmentStatus 
+  updateAppointmentStatus,
+  rescheduleAppointment
 } = require('../controllers/appointmentController');
-const { protect } = require('../middleware/authMiddleware');
+const {
+  downloadAppointmentCalendar,
+  getCalendarFeed,
+  regenerateCalendarFeed,
+  getCalendarFeedEvents
+} = require('../controllers/calendarController');
+const { protect, authorize } = require('../middleware/authMiddleware');
 const { checkConsultationAccess } = require('../middleware/subscriptionMiddleware');
+const { idempotent } = require('../middleware/idempotencyMiddleware');
 
-// Get user appointments
-router.get('/', protect, getUserAppointments);
+// Subscribable calendar feed - public, authenticated by the secret token in the URL
+router.get('/calendar/:token.ics', getCalendarFeedEvents);
 
-// Create appointment with subscription check
-router.post('/', protect, checkConsultationAccess, bookAppointment);
+// Get or regenerate the patient's calendar feed URL
+router.get('/calendar/feed', protect, authorize('patient'), getCalendarFeed);
+router.post('/calendar/feed', protect, authorize('patient'), regenerateCalendarFeed);
 
-// Update appointment status
-router.put('/:id/status', protect, updateAppointmentStatus);
+// Get the patient's own appointments (doctors use /api/doctor-portal/appointments)
+router.get('/', protect, authorize('patient'), getUserAppointments);
+
+// Create appointment with subscription check (a replayed request uses no consultation)
+router.post('/', protect, authorize('patient'), idempotent, checkConsultationAccess, bookAppointment);
+
+// Update appointment status - the allowed changes depend on whether the caller
+// is the booking patient or the appointment's doctor
+router.put('/:id/status', protect, authorize('patient', 'doctor'), idempotent, updateAppointmentStatus);
+
+// Move appointment to another slot (no consultation is consumed)
+router.put('/:id/reschedule', protect, authorize('patient'), idempotent, rescheduleAppointment);
+
+// Download a single appointment as an .ics file
+router.get('/:id/calendar.ics', protect, authorize('patient'), downloadAppointmentCalendar);
 
 module.exports = router; 
\ No newline at end of file
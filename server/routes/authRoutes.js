@@ -2,6 +2,7 @@ const express = require('express');
 const router = express.Router();
 const { register, login, updateProfile, changePassword } = require('../controllers/authController');
 const { protect } = require('../middleware/authMiddleware');
+const { idempotent } = require('../middleware/idempotencyMiddleware');
 const User = require('../models/User');
 
 // Register route
@@ -37,7 +38,7 @@ router.get('/me', protect, async (req, res) => {
   });
 
 // Update user profile
-router.put('/profile', protect, updateProfile);
+router.put('/profile', protect, idempotent, updateProfile);
 
 // Change password
 router.put('/password', protect, changePassword);
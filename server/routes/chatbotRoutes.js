@@ -1,11 +1,11 @@
 const express = require('express');
 const router = express.Router();
 const { getChatbotResponse } = require('../controllers/chatbotController');
-const { protect } = require('../middleware/authMiddleware');
+const { protect, authorize } = require('../middleware/authMiddleware');
 const { checkChatbotAccess } = require('../middleware/subscriptionMiddleware');
 
-// Protect all chatbot routes
-router.use(protect);
+// Protect all chatbot routes (patient tools)
+router.use(protect, authorize('patient'));
 
 // Get chatbot response route (with subscription check)
 router.post('/', checkChatbotAccess, getChatbotResponse);
@@ -0,0 +1,23 @@
+const express = require('express');
+const router = express.Router();
+const {
+  getDoctorProfile,
+  getDoctorAppointments,
+  getDoctorPatients
+} = require('../controllers/doctorPortalController');
+const { protect, authorize } = require('../middleware/authMiddleware');
+
+// All portal routes are limited to doctor accounts
+router.use(protect, authorize('doctor'));
+
+// Doctor profile linked to the account
+router.get('/profile', getDoctorProfile);
+
+// Appointments booked with the doctor (inbox and agenda)
+// Accepting and declining goes through PUT /api/appointments/:id/status
+router.get('/appointments', getDoctorAppointments);
+
+// Patients who have booked with the doctor
+router.get('/patients', getDoctorPatients);
+
+module.exports = router;
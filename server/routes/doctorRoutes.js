@@ -3,7 +3,8 @@ const router = express.Router();
 const { 
   getDoctors, 
   getDoctorById, 
-  getDoctorsBySpecialty 
+  getDoctorsBySpecialty,
+  getDoctorSlots
 } = require('../controllers/doctorController');
 
 // Get all doctors or search by name/specialty
@@ -12,6 +13,9 @@ router.get('/', getDoctors);
 // Get doctors by specialty - specific route must come before param route
 router.get('/specialty/:specialty', getDoctorsBySpecialty);
 
+// Get free appointment slots for a doctor
+router.get('/:id/slots', getDoctorSlots);
+
 // Get doctor by ID
 router.get('/:id', getDoctorById);
 
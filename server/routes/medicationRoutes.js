@@ -0,0 +1,11 @@
+const express = require('express');
+const router = express.Router();
+const { searchMedicationNames } = require('../controllers/medicationController');
+const { protect } = require('../middleware/authMiddleware');
+
+router.use(protect);
+
+// Brand and generic names for the medication name autocomplete
+router.get('/search', searchMedicationNames);
+
+module.exports = router;
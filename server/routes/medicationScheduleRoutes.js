@@ -0,0 +1,26 @@
+const express = require('express');
+const router = express.Router();
+const {
+  getMedicationSchedules,
+  createMedicationSchedule,
+  updateMedicationSchedule,
+  deleteMedicationSchedule,
+  downloadScheduleCalendar
+} = require('../controllers/medicationScheduleController');
+const { protect, authorize } = require('../middleware/authMiddleware');
+
+// Medication schedules belong to patients
+router.use(protect, authorize('patient'));
+
+router.route('/')
+  .get(getMedicationSchedules)
+  .post(createMedicationSchedule);
+
+// Every scheduled dose as an .ics file (before /:id)
+router.get('/calendar.ics', downloadScheduleCalendar);
+
+router.route('/:id')
+  .put(updateMedicationSchedule)
+  .delete(deleteMedicationSchedule);
+
+module.exports = router;
@@ -0,0 +1,20 @@
+const express = require('express');
+const router = express.Router();
+const {
+  getNotifications,
+  markNotificationRead,
+  markAllNotificationsRead
+} = require('../controllers/notificationController');
+const { protect } = require('../middleware/authMiddleware');
+
+// Every signed-in user (patient or doctor) has a notification centre
+router.use(protect);
+
+// List notifications (also sends reminders that have become due)
+router.get('/', getNotifications);
+
+// Mark everything, or a single notification, as read
+router.put('/read-all', markAllNotificationsRead);
+router.put('/:id/read', markNotificationRead);
+
+module.exports = router;
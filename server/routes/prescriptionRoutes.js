@@ -1,20 +1,31 @@
 const express = require('express');
 const router = express.Router();
-const { analyzePrescription, preprocessText, extractTextFromImage, getPrescriptionHistory } = require('../controllers/prescriptionController');
-const { protect } = require('../middleware/authMiddleware');
+const {
+  analyzePrescription,
+  sendCachedAnalysis,
+  preprocessText,
+  extractTextFromImage,
+  getPdfPages,
+  getPrescriptionHistory,
+  getPrescription,
+  renamePrescription,
+  deletePrescription
+} = require('../controllers/prescriptionController');
+const { protect, authorize } = require('../middleware/authMiddleware');
 const { checkPrescriptionAnalyzerAccess } = require('../middleware/subscriptionMiddleware');
 const multer = require('multer');
 const os = require('os');
 const path = require('path');
+const { MAX_IMAGE_SIZE, MAX_PDF_SIZE } = require('../config/uploadConfig');
 
-// Protect all prescription routes
-router.use(protect);
+// Protect all prescription routes (patient tools)
+router.use(protect, authorize('patient'));
 
 // Preprocess OCR text route
 router.post('/preprocess', preprocessText);
 
-// Analyze prescription route (protected + subscription check)
-router.post('/analyze', checkPrescriptionAnalyzerAccess, analyzePrescription);
+// Analyze prescription route (protected + subscription check, after repeats are answered from the cache)
+router.post('/analyze', sendCachedAnalysis, checkPrescriptionAnalyzerAccess, analyzePrescription);
 
 // Get prescription history (protected)
 router.get('/history', getPrescriptionHistory);
@@ -22,10 +33,24 @@ router.get('/history', getPrescriptionHistory);
 // Configure multer for Vercel compatibility
 const upload = multer({
   dest: os.tmpdir(),
-  limits: { fileSize: 10 * 1024 * 1024 } // 10MB limit
+  limits: { fileSize: MAX_IMAGE_SIZE }
 });
 
-// Extract text from image
+const pdfUpload = multer({
+  dest: os.tmpdir(),
+  limits: { fileSize: MAX_PDF_SIZE }
+});
+
+// Extract text from image (one page at a time)
 router.post('/extract-text', upload.single('image'), extractTextFromImage);
 
+// Render the pages of a PDF as images, which are then sent to /extract-text one by one
+router.post('/pdf-pages', pdfUpload.single('file'), getPdfPages);
+
+// Reopen, rename or delete a saved analysis (after the fixed paths above)
+router.route('/:id')
+  .get(getPrescription)
+  .put(renamePrescription)
+  .delete(deletePrescription);
+
 module.exports = router; 
\ No newline at end of file
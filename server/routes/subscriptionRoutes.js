@@ -7,24 +7,25 @@ const {
   createTestAccount,
   processTestPayment
 } = require('../controllers/subscriptionController');
-const { protect } = require('../middleware/authMiddleware');
+const { protect, authorize } = require('../middleware/authMiddleware');
 
 // Protect all subscription routes
 router.use(protect);
 
-// Get subscription status
+// Get subscription status (any signed-in user)
 router.get('/status', getSubscriptionStatus);
 
+// Subscriptions are bought by patients
 // Create payment transaction
-router.post('/payment/create', createPaymentTransaction);
+router.post('/payment/create', authorize('patient'), createPaymentTransaction);
 
 // Verify payment
-router.post('/payment/verify', verifyPayment);
+router.post('/payment/verify', authorize('patient'), verifyPayment);
 
 // Process test payment
-router.post('/payment/test', processTestPayment);
+router.post('/payment/test', authorize('patient'), processTestPayment);
 
 // Create test account (only for hackathon demo purposes)
-router.post('/testaccount', createTestAccount);
+router.post('/testaccount', authorize('patient'), createTestAccount);
 
 module.exports = router; 
\ No newline at end of file
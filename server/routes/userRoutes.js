@@ -0,0 +1,15 @@
+const express = require('express');
+const router = express.Router();
+const { getUsers, updateUserRoles } = require('../controllers/userController');
+const { protect, authorize } = require('../middleware/authMiddleware');
+
+// Protect all user management routes
+router.use(protect);
+
+// Look up user accounts (staff)
+router.get('/', authorize('admin', 'support'), getUsers);
+
+// Change a user's roles (admins only)
+router.put('/:id/roles', authorize('admin'), updateUserRoles);
+
+module.exports = router;
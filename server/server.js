@@ -2,17 +2,29 @@ const express = require('express');
 const mongoose = require('mongoose');
 const cors = require('cors');
 const dotenv = require('dotenv');
+
+// Load environment variables before the modules that read them when they are loaded
+dotenv.config();
+
 const authRoutes = require('./routes/authRoutes');
 const doctorRoutes = require('./routes/doctorRoutes');
 const appointmentRoutes = require('./routes/appointmentRoutes');
 const prescriptionRoutes = require('./routes/prescriptionRoutes');
 const chatbotRoutes = require('./routes/chatbotRoutes');
 const subscriptionRoutes = require('./routes/subscriptionRoutes');
-const { seedTestUser } = require('./utils/seedDB');
+const doctorPortalRoutes = require('./routes/doctorPortalRoutes');
+const userRoutes = require('./routes/userRoutes');
+const notificationRoutes = require('./routes/notificationRoutes');
+const medicationScheduleRoutes = require('./routes/medicationScheduleRoutes');
+const adherenceRoutes = require('./routes/adherenceRoutes');
+const medicationRoutes = require('./routes/medicationRoutes');
+const { seedTestUser, seedTestDoctorAccount } = require('./utils/seedDB');
 const { seedDoctors } = require('./utils/seedDoctors');
-
-// Load environment variables
-dotenv.config();
+const { applyAutomaticTransitions } = require('./utils/appointmentLifecycle');
+const { AUTO_CLOSE_INTERVAL_MINUTES } = require('./config/appointmentStatus');
+const { sendDueReminders } = require('./utils/notificationUtils');
+const { REMINDER_INTERVAL_MINUTES } = require('./config/notificationConfig');
+const AnalysisCache = require('./models/AnalysisCache');
 
 // Initialize Express app
 const app = express();
@@ -34,7 +46,7 @@ app.use((req, res, next) => {
   if (allowedOrigins.includes(origin) || process.env.NODE_ENV !== 'production') {
     res.header('Access-Control-Allow-Origin', origin);
     res.header('Access-Control-Allow-Credentials', 'true');
-    res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization');
+    res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization, Idempotency-Key');
     res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
     
     // Handle preflight requests
@@ -54,6 +66,12 @@ app.use('/api/appointments', appointmentRoutes);
 app.use('/api/prescriptions', prescriptionRoutes);
 app.use('/api/chatbot', chatbotRoutes);
 app.use('/api/subscription', subscriptionRoutes);
+app.use('/api/doctor-portal', doctorPortalRoutes);
+app.use('/api/users', userRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/medication-schedules', medicationScheduleRoutes);
+app.use('/api/adherence', adherenceRoutes);
+app.use('/api/medications', medicationRoutes);
 
 // Also add routes without /api prefix for compatibility with frontend calls
 app.use('/auth', authRoutes);
@@ -86,6 +104,13 @@ async function startServer() {
     // Connect without deprecated options
     await mongoose.connect(process.env.MONGODB_URI);
     console.log('Connected to MongoDB Atlas successfully');
+
+    // An existing expiry index keeps its old TTL until it is rebuilt for a new ANALYSIS_CACHE_TTL_DAYS
+    try {
+      await AnalysisCache.syncIndexes();
+    } catch (indexError) {
+      console.error('Error updating the analysis cache indexes:', indexError.message);
+    }
     
     // Seed data for development environment only
     if (process.env.NODE_ENV === 'development') {
@@ -93,6 +118,7 @@ async function startServer() {
         console.log('Seeding test data to database...');
         await seedTestUser();
         await seedDoctors();
+        await seedTestDoctorAccount();
         console.log('Database seeding completed');
       } catch (seedError) {
         console.error('Error seeding data:', seedError.message);
@@ -115,6 +141,32 @@ async function startServer() {
         }
       });
       
+      // Periodically close past appointments (completed / no-show)
+      // On Vercel this happens when a user's appointments are fetched
+      setInterval(async () => {
+        try {
+          const closed = await applyAutomaticTransitions();
+          if (closed > 0) {
+            console.log(`Closed ${closed} past appointments`);
+          }
+        } catch (error) {
+          console.error('Error closing past appointments:', error.message);
+        }
+      }, AUTO_CLOSE_INTERVAL_MINUTES * 60 * 1000);
+      
+      // Send appointment reminders as they become due
+      // On Vercel this happens when a user's notifications are fetched
+      setInterval(async () => {
+        try {
+          const sent = await sendDueReminders();
+          if (sent > 0) {
+            console.log(`Sent ${sent} appointment reminders`);
+          }
+        } catch (error) {
+          console.error('Error sending appointment reminders:', error.message);
+        }
+      }, REMINDER_INTERVAL_MINUTES * 60 * 1000);
+      
       // Handle server errors - important for debugging deployment issues
       server.on('error', (err) => {
         console.error('Server error:', err);
@@ -0,0 +1,50 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { getTransitionError } = require('../config/appointmentStatus');
+
+const start = '2030-01-01T10:00:00.000Z';
+const beforeStart = new Date('2030-01-01T09:00:00.000Z');
+const afterStart = new Date('2030-01-01T11:00:00.000Z');
+
+test('a patient cannot confirm their own booking', () => {
+  assert.equal(
+    getTransitionError('patient', 'pending', 'confirmed', start, beforeStart),
+    'A patient cannot change an appointment from pending to confirmed'
+  );
+  assert.equal(getTransitionError('doctor', 'pending', 'confirmed', start, beforeStart), null);
+});
+
+test('a doctor cannot cancel a confirmed visit after its start time', () => {
+  assert.equal(
+    getTransitionError('doctor', 'confirmed', 'cancelled_by_doctor', start, afterStart),
+    'Appointments can only be changed to cancelled_by_doctor before they start'
+  );
+  assert.equal(getTransitionError('doctor', 'confirmed', 'cancelled_by_doctor', start, beforeStart), null);
+});
+
+test('the server marks a confirmed visit as a no-show only after its start time', () => {
+  assert.equal(getTransitionError('system', 'confirmed', 'no_show', start, afterStart), null);
+  assert.equal(
+    getTransitionError('system', 'confirmed', 'no_show', start, beforeStart),
+    'Appointments can only be changed to no_show once they have started'
+  );
+});
+
+test('only the doctor can correct a no-show to completed', () => {
+  assert.equal(getTransitionError('doctor', 'no_show', 'completed', start, afterStart), null);
+  assert.equal(
+    getTransitionError('patient', 'no_show', 'completed', start, afterStart),
+    'A patient cannot change an appointment from no_show to completed'
+  );
+  assert.equal(
+    getTransitionError('system', 'no_show', 'completed', start, afterStart),
+    'A system cannot change an appointment from no_show to completed'
+  );
+});
+
+test('transitions that are not in the lifecycle are rejected', () => {
+  assert.equal(
+    getTransitionError('doctor', 'completed', 'pending', start, afterStart),
+    'Cannot change an appointment from completed to pending'
+  );
+});
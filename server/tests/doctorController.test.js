@@ -0,0 +1,45 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const Doctor = require('../models/Doctor');
+const { getDoctorSlots } = require('../controllers/doctorController');
+const { MAX_SLOT_RANGE_DAYS } = require('../config/scheduleConfig');
+const { DAY_MS } = require('../utils/slotUtils');
+
+const toDate = (time) => new Date(time).toISOString().slice(0, 10);
+
+// Response that records its status and body
+const createResponse = () => ({
+  statusCode: null,
+  body: null,
+  status(code) {
+    this.statusCode = code;
+    return this;
+  },
+  json(body) {
+    this.body = body;
+    return this;
+  }
+});
+
+const requestSlots = async (from, to) => {
+  const res = createResponse();
+  await getDoctorSlots({ params: { id: 'doctor' }, query: { from, to } }, res);
+  return res;
+};
+
+test('slots can not be requested for more days than MAX_SLOT_RANGE_DAYS', async (t) => {
+  const findById = t.mock.method(Doctor, 'findById', async () => null);
+  const from = Date.UTC(2030, 0, 1);
+
+  const tooLong = await requestSlots(toDate(from), toDate(from + MAX_SLOT_RANGE_DAYS * DAY_MS));
+  assert.equal(tooLong.statusCode, 400);
+  assert.equal(findById.mock.callCount(), 0);
+
+  const years = await requestSlots('2030-01-01', '2035-12-31');
+  assert.equal(years.statusCode, 400);
+
+  // The longest range goes on to look up the doctor
+  const longest = await requestSlots(toDate(from), toDate(from + (MAX_SLOT_RANGE_DAYS - 1) * DAY_MS));
+  assert.equal(longest.statusCode, 404);
+  assert.equal(findById.mock.callCount(), 1);
+});
@@ -0,0 +1,43 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { matchMedication } = require('../utils/drugUtils');
+
+const ingredientNames = (match) => match.ingredients.map(ingredient => ingredient.name);
+
+test('dosage form words are not matched to brands that look like them', () => {
+  assert.equal(matchMedication('Tablet Foobarin'), null);
+  assert.equal(matchMedication('Tablet'), null);
+  assert.equal(matchMedication('Syrup Foobarin 5 ml'), null);
+  assert.equal(matchMedication('Inj. Foobarin'), null);
+  assert.equal(matchMedication('Cap Foobarin 20 mg'), null);
+});
+
+test('an unknown name with one word close to a brand is not matched', () => {
+  assert.equal(matchMedication('Rablex Forte Plus'), null);
+});
+
+test('brands are matched exactly with their form words around them', () => {
+  const match = matchMedication('Tablet Crocin');
+  assert.equal(match.brand, 'Crocin');
+  assert.deepEqual(ingredientNames(match), ['paracetamol']);
+  assert.equal(match.fuzzy, false);
+
+  assert.deepEqual(ingredientNames(matchMedication('Cap Rablet 20')), ['rabeprazole']);
+});
+
+test('misread names are matched on the whole name, with a lower confidence', () => {
+  const match = matchMedication('Tab. Crosin 500 mg');
+  assert.equal(match.brand, 'Crocin');
+  assert.equal(match.fuzzy, true);
+  assert.ok(match.confidence < 1);
+
+  assert.equal(matchMedication('Pantocld DSR').brand, 'Pantocid DSR');
+});
+
+test('combination brands give every ingredient with its strength', () => {
+  const match = matchMedication('Pan-D');
+  assert.deepEqual(match.ingredients.map(({ name, strength }) => `${name} ${strength}`), [
+    'pantoprazole 40 mg',
+    'domperidone 30 mg'
+  ]);
+});
@@ -0,0 +1,80 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { registerProvider, completeValidatedJson } = require('../utils/llmProviders');
+
+// Provider that answers with the given replies in turn and records the messages it was sent
+const createScriptedProvider = (replies) => {
+  const calls = [];
+  return {
+    calls,
+    isConfigured: () => true,
+    complete: async ({ messages }) => {
+      calls.push(messages);
+      return replies[Math.min(calls.length - 1, replies.length - 1)];
+    },
+    extractImageText: async () => ''
+  };
+};
+
+// Valid replies have a name
+const validate = (data) => (data.name ? [] : ['$.name is required']);
+
+// Set an environment variable for the rest of a test
+const setEnv = (t, name, value) => {
+  const previous = process.env[name];
+  process.env[name] = value;
+  t.after(() => {
+    if (previous === undefined) delete process.env[name];
+    else process.env[name] = previous;
+  });
+};
+
+// Select a scripted provider with the given replies for a test
+const useProvider = (t, replies, maxRepairs = '2') => {
+  const provider = createScriptedProvider(replies);
+  registerProvider('scripted', provider);
+  setEnv(t, 'LLM_PROVIDER', 'scripted');
+  setEnv(t, 'LLM_MAX_REPAIR_ATTEMPTS', maxRepairs);
+  t.mock.method(console, 'warn', () => {});
+  return provider;
+};
+
+const messages = [{ role: 'user', content: 'Reply with JSON' }];
+
+test('a valid reply is returned without repairs', async (t) => {
+  const provider = useProvider(t, ['{"name":"Paracetamol"}']);
+
+  const result = await completeValidatedJson('safety', messages, validate);
+
+  assert.deepEqual(result, { data: { name: 'Paracetamol' }, repairs: 0 });
+  assert.equal(provider.calls.length, 1);
+});
+
+test('an invalid reply is repaired once with the errors listed', async (t) => {
+  const provider = useProvider(t, ['{"dose":"1 tablet"}', '```json\n{"name":"Paracetamol"}\n```']);
+
+  const result = await completeValidatedJson('safety', messages, validate);
+
+  assert.deepEqual(result, { data: { name: 'Paracetamol' }, repairs: 1 });
+  assert.equal(provider.calls.length, 2);
+  const [, assistant, repairPrompt] = provider.calls[1];
+  assert.deepEqual(assistant, { role: 'assistant', content: '{"dose":"1 tablet"}' });
+  assert.match(repairPrompt.content, /- \$\.name is required/);
+});
+
+test('a reply still invalid after LLM_MAX_REPAIR_ATTEMPTS repairs is an error', async (t) => {
+  const provider = useProvider(t, ['not JSON', '{"dose":"1 tablet"}'], '2');
+
+  await assert.rejects(
+    completeValidatedJson('safety', messages, validate),
+    /Invalid safety reply after 2 repair attempts: \$\.name is required/
+  );
+  assert.equal(provider.calls.length, 3);
+});
+
+test('no repair is asked for when LLM_MAX_REPAIR_ATTEMPTS is 0', async (t) => {
+  const provider = useProvider(t, ['{}'], '0');
+
+  await assert.rejects(completeValidatedJson('safety', messages, validate), /after 0 repair attempts/);
+  assert.equal(provider.calls.length, 1);
+});
@@ -0,0 +1,28 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const localProvider = require('../utils/localLlmProvider');
+
+const extract = async (text) => {
+  const reply = await localProvider.complete({
+    task: 'extraction',
+    messages: [{ role: 'user', content: text }],
+    json: true
+  });
+  return JSON.parse(reply).medications;
+};
+
+test('dose text such as "1 tab BD" stays with its medication', async () => {
+  const medications = await extract('Tab Crocin 650 mg 1 tab BD for 5 days\nCap. Omez 20 mg 1 cap OD before breakfast');
+
+  assert.deepEqual(medications.map(med => med.name), ['Crocin', 'Omez']);
+  assert.equal(medications[0].frequency, 'twice daily');
+  assert.equal(medications[0].duration, '5 days');
+  assert.equal(medications[1].frequency, 'once daily');
+});
+
+test('medications are split at list items on one line', async () => {
+  const medications = await extract('1. Tab. Augmentin 625 Duo - 1 tab TDS 2) Pan-D 40 mg once daily');
+
+  assert.deepEqual(medications.map(med => med.name), ['Augmentin', 'Pan-D']);
+  assert.equal(medications[0].frequency, 'three times daily');
+});
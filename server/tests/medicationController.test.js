@@ -0,0 +1,32 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { searchMedicationNames } = require('../controllers/medicationController');
+
+// Call the handler and return the status code and JSON body it sent
+const search = (query) => {
+  const res = {
+    status(code) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body) {
+      this.body = body;
+      return this;
+    }
+  };
+  searchMedicationNames({ query }, res);
+  return res;
+};
+
+test('limits are clamped to a whole number between 1 and the maximum', () => {
+  assert.equal(search({ q: 'pa', limit: '-5' }).body.count, 1);
+  assert.equal(search({ q: 'pa', limit: '0' }).body.count, 1);
+  assert.equal(search({ q: 'pa', limit: '2.7' }).body.count, 2);
+  assert.ok(search({ q: 'a', limit: '1000' }).statusCode === 400);
+  assert.ok(search({ q: 'ta', limit: '1000' }).body.count <= 20);
+});
+
+test('a missing or invalid limit gives the default number of results', () => {
+  assert.equal(search({ q: 'pa' }).body.count, 8);
+  assert.equal(search({ q: 'pa', limit: 'abc' }).body.count, 8);
+});
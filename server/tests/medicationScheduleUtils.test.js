@@ -0,0 +1,25 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { parseFrequency } = require('../utils/medicationScheduleUtils');
+const { BEDTIME_DOSE_TIME } = require('../config/medicationScheduleConfig');
+
+const timesOf = (text) => parseFrequency(text).times;
+
+test('the morning-afternoon-night notation gives a dose at each time that is not zero', () => {
+  assert.deepEqual(timesOf('1-0-1'), ['08:00', '20:00']);
+  assert.deepEqual(timesOf('1-1-1-1'), ['08:00', '14:00', '20:00', BEDTIME_DOSE_TIME]);
+  assert.deepEqual(timesOf('0-0-1 after food'), ['20:00']);
+  assert.deepEqual(timesOf('1-1-0.'), ['08:00', '14:00']);
+});
+
+test('the notation is read with any amount at each time', () => {
+  assert.deepEqual(timesOf('2-0-2'), ['08:00', '20:00']);
+  assert.deepEqual(timesOf('1/2-0-1/2'), ['08:00', '20:00']);
+  assert.deepEqual(timesOf('½ - ½ - ½'), ['08:00', '14:00', '20:00']);
+  assert.deepEqual(timesOf('0.5-1-0'), ['08:00', '14:00']);
+  assert.deepEqual(timesOf('10-0-8 units'), ['08:00', '20:00']);
+});
+
+test('dates are not read as the notation', () => {
+  assert.equal(timesOf('from 2024-01-15').length, 1);
+});
@@ -0,0 +1,22 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { checkAgainstProfile } = require('../utils/profileSafetyUtils');
+
+test('a drug named in the allergies is still checked against the conditions', () => {
+  const { alerts } = checkAgainstProfile(
+    { allergies: 'Warfarin', medicalConditions: 'Pregnant' },
+    [{ name: 'Warfarin 5 mg' }]
+  );
+
+  assert.deepEqual(
+    alerts.map(alert => [alert.type, alert.matched]),
+    [['allergy', 'Allergy to warfarin'], ['condition', 'Pregnancy']]
+  );
+});
+
+test('a profile without allergies or conditions has no alerts and is incomplete', () => {
+  const check = checkAgainstProfile({ allergies: '', medicalConditions: '' }, [{ name: 'Warfarin 5 mg' }]);
+
+  assert.deepEqual(check.alerts, []);
+  assert.equal(check.profileComplete, false);
+});
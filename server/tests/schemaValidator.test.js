@@ -0,0 +1,59 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { validateSchema } = require('../utils/schemaValidator');
+const { validatePrescriptionAnalysis } = require('../utils/analysisSchema');
+
+const emptyPrecautions = () => ({ dietary_restrictions: [], activity_limitations: [], side_effects: [] });
+const emptyWarnings = () => ({ drug_interactions: [], contraindications: [], overdose_symptoms: [] });
+
+const validAnalysis = () => ({
+  medications: [{
+    name: 'Paracetamol',
+    strength: '500 mg',
+    dosage_form: 'tablet',
+    route: 'oral',
+    dose: '1 tablet',
+    frequency: 'twice daily',
+    timing: 'after food',
+    duration_days: 5,
+    precautions: emptyPrecautions(),
+    warnings: emptyWarnings()
+  }],
+  precautions: emptyPrecautions(),
+  duration: { total_days: 5, frequency: 'twice daily', timing: 'after food' },
+  warnings: emptyWarnings()
+});
+
+test('a reply that matches the analysis schema has no errors', () => {
+  assert.deepEqual(validatePrescriptionAnalysis(validAnalysis()), []);
+});
+
+test('missing, extra and wrongly typed fields are reported with their path', () => {
+  const analysis = validAnalysis();
+  delete analysis.medications[0].name;
+  analysis.medications[0].brand = 'Crocin';
+  analysis.duration.total_days = '5';
+  analysis.quality = 'excellent';
+
+  assert.deepEqual(validatePrescriptionAnalysis(analysis), [
+    '$.medications[0].name is required',
+    '$.medications[0].brand is not allowed',
+    '$.duration.total_days must be integer or null, got string',
+    '$.quality must be one of: ai_validated, ai_repaired, fallback_generic'
+  ]);
+});
+
+test('empty strings and values below the minimum are reported', () => {
+  const analysis = validAnalysis();
+  analysis.medications[0].duration_days = 0;
+  analysis.precautions.side_effects = ['  '];
+
+  assert.deepEqual(validatePrescriptionAnalysis(analysis), [
+    '$.medications[0].duration_days must be at least 1',
+    '$.precautions.side_effects[0] must not be empty'
+  ]);
+});
+
+test('references outside the schema are not supported', () => {
+  assert.throws(() => validateSchema({}, { $ref: 'other.json#/a' }), /Unsupported schema reference/);
+});
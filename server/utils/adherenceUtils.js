@@ -0,0 +1,152 @@
+/**
+ * Helpers for working out how closely a patient followed their medication schedule
+ */
+const MedicationSchedule = require('../models/MedicationSchedule');
+const { getMissedStreakWarning } = require('../config/adherenceConfig');
+const { getClinicDate } = require('./slotUtils');
+const { addDays, buildScheduleItems, getExpectedDoses } = require('./medicationScheduleUtils');
+
+// Statuses that count as the dose having been taken
+const TAKEN_STATUSES = ['taken', 'late'];
+
+const CSV_COLUMNS = ['Date', 'Time', 'Medication', 'Dose', 'Status', 'Logged at'];
+
+/**
+ * Key identifying one expected dose of a medication
+ * @param {{ medication: string, date: string, time: string }} dose
+ * @returns {string}
+ */
+const getDoseKey = (dose) => `${dose.medication}|${dose.date}|${dose.time}`;
+
+/**
+ * Schedule items a prescription's doses are expected from: the patient's own schedule
+ * if they made one, otherwise the schedule suggested by the analysis from the day it was analyzed
+ * @param {string} userId
+ * @param {object} prescription
+ * @returns {Promise<object[]>}
+ */
+const getAdherenceItems = async (userId, prescription) => {
+  const schedule = await MedicationSchedule.findOne({ userId, prescriptionId: prescription._id });
+  if (schedule) {
+    return schedule.items;
+  }
+  return buildScheduleItems(prescription, getClinicDate(prescription.createdAt));
+};
+
+/**
+ * Count doses by status
+ * @param {object[]} doses Doses with a status
+ * @returns {{ expected: number, taken: number, late: number, skipped: number, missed: number, pending: number, rate: number|null }}
+ *   rate is the percentage of due doses that were taken (on time or late), null when none were due
+ */
+const countDoses = (doses) => {
+  const counts = { expected: doses.length, taken: 0, late: 0, skipped: 0, missed: 0, pending: 0 };
+  doses.forEach(dose => {
+    counts[dose.status] += 1;
+  });
+
+  const due = counts.expected - counts.pending;
+  const rate = due > 0 ? Math.round(((counts.taken + counts.late) / due) * 100) : null;
+
+  return { ...counts, rate };
+};
+
+/**
+ * Number of consecutive missed or skipped doses, counting back from the latest due dose
+ * @param {object[]} doses Doses of one medication in time order
+ * @returns {number}
+ */
+const getMissedStreak = (doses) => {
+  let streak = 0;
+
+  for (let idx = doses.length - 1; idx >= 0; idx--) {
+    const { status } = doses[idx];
+    if (status === 'pending') continue;
+    if (TAKEN_STATUSES.includes(status)) break;
+    streak += 1;
+  }
+
+  return streak;
+};
+
+/**
+ * Match expected doses with the patient's logs and summarise them by day and medication.
+ * Doses not logged by the end of their day count as missed; today's are still pending.
+ * @param {object[]} items Schedule items
+ * @param {object[]} logs Dose logs of the prescription
+ * @param {{ from: string, to: string, today: string }} range Days as "YYYY-MM-DD"
+ * @returns {object}
+ */
+const buildAdherenceReport = (items, logs, { from, to, today }) => {
+  const logsByDose = new Map(logs.map(log => [getDoseKey(log), log]));
+
+  const doses = getExpectedDoses(items, from, to).map(dose => {
+    const log = logsByDose.get(getDoseKey(dose));
+    return {
+      ...dose,
+      status: log ? log.status : (dose.date < today ? 'missed' : 'pending'),
+      loggedAt: log ? log.updatedAt : null
+    };
+  });
+
+  const days = [];
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    days.push({ date, ...countDoses(doses.filter(dose => dose.date === date)) });
+  }
+
+  const names = [...new Set(items.filter(item => !item.asNeeded).map(item => item.name))];
+  const medications = names.map(name => {
+    const medicationDoses = doses.filter(dose => dose.medication === name);
+    return { name, ...countDoses(medicationDoses), missedStreak: getMissedStreak(medicationDoses) };
+  });
+
+  const streakThreshold = getMissedStreakWarning();
+
+  return {
+    from,
+    to,
+    summary: countDoses(doses),
+    days,
+    medications,
+    streakWarnings: medications
+      .filter(medication => medication.missedStreak >= streakThreshold)
+      .map(medication => ({ medication: medication.name, missedStreak: medication.missedStreak })),
+    doses
+  };
+};
+
+/**
+ * Quote a CSV field when it contains a delimiter, quote or line break
+ * @param {any} value
+ * @returns {string}
+ */
+const escapeCsvField = (value) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Build a CSV file of every dose in an adherence report
+ * @param {object} report Result of buildAdherenceReport
+ * @returns {string}
+ */
+const buildAdherenceCsv = (report) => {
+  const rows = report.doses.map(dose => [
+    dose.date,
+    dose.time,
+    dose.medication,
+    dose.dose,
+    dose.status,
+    dose.loggedAt ? new Date(dose.loggedAt).toISOString() : ''
+  ]);
+
+  return [CSV_COLUMNS, ...rows]
+    .map(row => row.map(escapeCsvField).join(','))
+    .join('\r\n') + '\r\n';
+};
+
+module.exports = {
+  getAdherenceItems,
+  buildAdherenceReport,
+  buildAdherenceCsv
+};
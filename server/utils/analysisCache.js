@@ -0,0 +1,96 @@
+/**
+ * Cache of AI prescription analyses per user, so analyzing the same prescription again is instant
+ * and does not use up a trial analysis
+ */
+const crypto = require('crypto');
+const AnalysisCache = require('../models/AnalysisCache');
+const { ANALYSIS_PROMPT_VERSION } = require('../config/llmConfig');
+
+/**
+ * Normalise text so that differences in case, spacing or Unicode forms give the same key
+ * @param {string} text
+ * @returns {string}
+ */
+const normaliseText = (text) => String(text || '')
+  .normalize('NFKC')
+  .toLowerCase()
+  .replace(/\s+/g, ' ')
+  .trim();
+
+/**
+ * Get the cache key of an analysis request
+ * @param {string} ocrText Text to analyze
+ * @param {object[]} [medications] Medication rows the user reviewed, if any
+ * @returns {string} SHA-256 in hex
+ */
+const getAnalysisCacheKey = (ocrText, medications) => {
+  const rows = medications
+    ? medications.map(row => Object.fromEntries(
+      Object.entries(row).map(([field, value]) => [field, normaliseText(value)])
+    ))
+    : null;
+
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify({ promptVersion: ANALYSIS_PROMPT_VERSION, text: normaliseText(ocrText), rows }))
+    .digest('hex');
+};
+
+/**
+ * Find an analysis the user already got for the same request with the current prompts
+ * @param {string} userId
+ * @param {string} key From getAnalysisCacheKey
+ * @returns {Promise<{ extractedInfo: object, analysis: object, prescriptionId: object|null }|null>}
+ */
+const findCachedAnalysis = async (userId, key) => {
+  try {
+    // The key includes the prompt version, so analyses made with older prompts are not found
+    return await AnalysisCache.findOne({ userId, key })
+      .select('extractedInfo analysis prescriptionId')
+      .lean();
+  } catch (error) {
+    // Without the cache, the prescription is analyzed again
+    console.error('Error reading cached analysis:', error.message);
+    return null;
+  }
+};
+
+/**
+ * Save an AI analysis for later requests with the same key
+ * @param {string} userId
+ * @param {string} key From getAnalysisCacheKey
+ * @param {object} extractedInfo
+ * @param {object} analysis
+ */
+const cacheAnalysis = async (userId, key, extractedInfo, analysis) => {
+  try {
+    await AnalysisCache.findOneAndUpdate(
+      { userId, key },
+      { extractedInfo, analysis, promptVersion: ANALYSIS_PROMPT_VERSION, createdAt: new Date() },
+      { upsert: true }
+    );
+  } catch (error) {
+    console.error('Error caching analysis:', error.message);
+  }
+};
+
+/**
+ * Remember the history entry an analysis was saved to, so a repeat returns it instead of a new entry
+ * @param {string} userId
+ * @param {string} key From getAnalysisCacheKey
+ * @param {string} prescriptionId
+ */
+const setCachedPrescription = async (userId, key, prescriptionId) => {
+  try {
+    await AnalysisCache.updateOne({ userId, key }, { prescriptionId });
+  } catch (error) {
+    console.error('Error caching analysis prescription:', error.message);
+  }
+};
+
+module.exports = {
+  getAnalysisCacheKey,
+  findCachedAnalysis,
+  cacheAnalysis,
+  setCachedPrescription
+};
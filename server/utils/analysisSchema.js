@@ -0,0 +1,20 @@
+/**
+ * The PrescriptionAnalysis schema shared with the client, and the quality levels of an analysis
+ */
+const analysisSchema = require('../../shared/prescriptionAnalysis.schema.json');
+const { validateSchema } = require('./schemaValidator');
+
+// How an analysis was obtained: 'ai_validated', 'ai_repaired' or 'fallback_generic'
+const ANALYSIS_QUALITIES = analysisSchema.properties.quality.enum;
+
+/**
+ * Validate a safety analysis returned by the language model
+ * @param {*} analysis
+ * @returns {string[]} Schema violations, empty when the analysis is valid
+ */
+const validatePrescriptionAnalysis = (analysis) => validateSchema(analysis, analysisSchema);
+
+module.exports = {
+  ANALYSIS_QUALITIES,
+  validatePrescriptionAnalysis
+};
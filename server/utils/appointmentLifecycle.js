@@ -0,0 +1,111 @@
+/**
+ * Helpers for moving appointments through their status lifecycle
+ */
+const Appointment = require('../models/Appointment');
+const {
+  AUTO_CLOSE_GRACE_MINUTES,
+  AUTO_CLOSE_TRANSITIONS,
+  isCancelledStatus
+} = require('../config/appointmentStatus');
+const { MIN_SLOT_MINUTES, getSlotDurationMinutes } = require('../config/scheduleConfig');
+const { getScheduleSlotMinutes } = require('./scheduleUtils');
+const { notifyAppointmentChange } = require('./notificationUtils');
+
+const MINUTE_MS = 60 * 1000;
+
+// Reasons recorded when the server closes an appointment on its own
+const AUTO_CLOSE_REASONS = {
+  completed: 'Closed automatically after the appointment ended',
+  no_show: 'Visit was not started before the appointment ended',
+  cancelled_by_doctor: 'Not confirmed before the appointment time'
+};
+
+/**
+ * Atomically change an appointment's status
+ *
+ * The update only applies if the status is still the one the caller checked, so
+ * concurrent changes cannot both succeed. Cancelled statuses release the slot.
+ * @param {object} appointment Appointment document (status as read by the caller)
+ * @param {string} to New status
+ * @param {{ actor: string, userId?: string, reason?: string }} change
+ * @returns {Promise<object|null>} Updated appointment, or null if it changed in the meantime
+ */
+const transitionAppointment = async (appointment, to, { actor, userId, reason = '' }) => {
+  const update = {
+    $set: { status: to },
+    $push: {
+      statusHistory: {
+        from: appointment.status,
+        to,
+        actor,
+        changedBy: userId,
+        reason,
+        changedAt: new Date()
+      }
+    }
+  };
+
+  if (isCancelledStatus(to)) {
+    update.$unset = { slotLock: '' };
+  }
+
+  return Appointment.findOneAndUpdate(
+    { _id: appointment._id, status: appointment.status },
+    update,
+    { new: true }
+  );
+};
+
+/**
+ * Close past appointments: started visits become completed, confirmed visits that were
+ * never started become no-shows and unconfirmed requests are cancelled
+ * @param {object} [filter] Extra query conditions, e.g. { userId }
+ * @param {Date} [now]
+ * @returns {Promise<number>} Number of appointments updated
+ */
+const applyAutomaticTransitions = async (filter = {}, now = new Date()) => {
+  // Only appointments that started long enough ago to close with the shortest possible slot;
+  // dates are UTC ISO strings, so they compare in order
+  const shortestSlotMinutes = Math.min(MIN_SLOT_MINUTES, getSlotDurationMinutes());
+  const latestStart = new Date(now.getTime() - (shortestSlotMinutes + AUTO_CLOSE_GRACE_MINUTES) * MINUTE_MS);
+
+  const appointments = await Appointment.find({
+    ...filter,
+    status: { $in: Object.keys(AUTO_CLOSE_TRANSITIONS) },
+    date: { $lte: latestStart.toISOString() }
+  }).populate('doctorId', 'schedule');
+
+  let updated = 0;
+
+  for (const appointment of appointments) {
+    const slotMinutes = getScheduleSlotMinutes(appointment.doctorId && appointment.doctorId.schedule);
+    const closesAt = new Date(appointment.date).getTime()
+      + (slotMinutes + AUTO_CLOSE_GRACE_MINUTES) * MINUTE_MS;
+
+    if (isNaN(closesAt) || now.getTime() < closesAt) {
+      continue;
+    }
+
+    const to = AUTO_CLOSE_TRANSITIONS[appointment.status];
+    const result = await transitionAppointment(appointment, to, {
+      actor: 'system',
+      reason: AUTO_CLOSE_REASONS[to]
+    });
+
+    if (result) {
+      updated += 1;
+
+      // Unconfirmed requests that lapsed are cancelled - let the patient know
+      if (isCancelledStatus(to)) {
+        await notifyAppointmentChange(result, 'cancelled', { actor: 'system', reason: AUTO_CLOSE_REASONS[to] });
+      }
+    }
+  }
+
+  return updated;
+};
+
+module.exports = {
+  transitionAppointment,
+  applyAutomaticTransitions
+};
@@ -0,0 +1,203 @@
+/**
+ * Helpers for building iCalendar (RFC 5545) files from appointments and medication schedules
+ */
+const {
+  CALENDAR_PRODUCT_ID,
+  CALENDAR_UID_DOMAIN,
+  FEED_REFRESH_INTERVAL
+} = require('../config/calendarConfig');
+const { isCancelledStatus } = require('../config/appointmentStatus');
+const { getScheduleSlotMinutes } = require('./scheduleUtils');
+
+const MINUTE_MS = 60 * 1000;
+
+// Lines longer than this many octets must be folded
+const MAX_LINE_OCTETS = 75;
+
+// Wording used for each kind of consultation
+const CONSULTATION_LABELS = {
+  online: 'Online consultation',
+  in_person: 'In-person visit'
+};
+
+/**
+ * Format a date as an iCalendar UTC date-time (e.g. 20240527T033000Z)
+ * @param {string|Date} date
+ * @returns {string}
+ */
+const formatDateTime = (date) => {
+  return new Date(date).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+};
+
+/**
+ * Escape a value for use in an iCalendar TEXT property
+ * @param {string} value
+ * @returns {string}
+ */
+const escapeText = (value) => {
+  return String(value || '')
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+};
+
+/**
+ * Fold a content line so no line exceeds 75 octets
+ * @param {string} line
+ * @returns {string}
+ */
+const foldLine = (line) => {
+  const parts = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts towards their length
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+
+    current += char;
+    currentOctets += octets;
+  }
+
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+/**
+ * Stable event UID for an appointment, shared by downloads and feeds so calendars
+ * recognise updates to the same visit
+ * @param {object} appointment
+ * @returns {string}
+ */
+const getAppointmentUid = (appointment) => {
+  return `appointment-${appointment._id}@${CALENDAR_UID_DOMAIN}`;
+};
+
+/**
+ * Revision number of an appointment: every status change or reschedule increments it
+ * @param {object} appointment
+ * @returns {number}
+ */
+const getAppointmentSequence = (appointment) => {
+  return (appointment.statusHistory || []).length + (appointment.rescheduleHistory || []).length;
+};
+
+/**
+ * Map an appointment status to an iCalendar event status
+ * @param {string} status
+ * @returns {'TENTATIVE'|'CONFIRMED'|'CANCELLED'}
+ */
+const getEventStatus = (status) => {
+  if (isCancelledStatus(status)) return 'CANCELLED';
+  if (status === 'pending') return 'TENTATIVE';
+  return 'CONFIRMED';
+};
+
+/**
+ * Build the VEVENT lines for an appointment with its doctor populated
+ * @param {object} appointment Appointment with doctorId populated
+ * @returns {string[]}
+ */
+const buildAppointmentEvent = (appointment) => {
+  const doctor = appointment.doctorId || {};
+  const start = new Date(appointment.date);
+  const end = new Date(start.getTime() + getScheduleSlotMinutes(doctor.schedule) * MINUTE_MS);
+  const consultation = CONSULTATION_LABELS[doctor.consultationType] || CONSULTATION_LABELS.online;
+  const location = doctor.consultationType === 'in_person' && doctor.location
+    ? doctor.location
+    : consultation;
+
+  const description = [
+    doctor.specialty && `Specialty: ${doctor.specialty}`,
+    `Type: ${consultation}`,
+    `Status: ${appointment.status.replace(/_/g, ' ')}`
+  ].filter(Boolean).join('\n');
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${getAppointmentUid(appointment)}`,
+    `SEQUENCE:${getAppointmentSequence(appointment)}`,
+    `DTSTAMP:${formatDateTime(appointment.updatedAt || new Date())}`,
+    `DTSTART:${formatDateTime(start)}`,
+    `DTEND:${formatDateTime(end)}`,
+    `SUMMARY:${escapeText(`Appointment with ${doctor.name || 'your doctor'}`)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `LOCATION:${escapeText(location)}`,
+    `STATUS:${getEventStatus(appointment.status)}`,
+    'END:VEVENT'
+  ];
+};
+
+/**
+ * Wrap event lines in a complete, folded iCalendar file
+ * @param {string[]} eventLines VEVENT lines of every event
+ * @param {{ name?: string, isFeed?: boolean, productId?: string }} [options] Feeds get a name and refresh interval
+ * @returns {string}
+ */
+const buildCalendarFile = (eventLines, { name, isFeed = false, productId = CALENDAR_PRODUCT_ID } = {}) => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${productId}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH'
+  ];
+
+  if (name) {
+    lines.push(`X-WR-CALNAME:${escapeText(name)}`);
+  }
+
+  if (isFeed) {
+    lines.push(`REFRESH-INTERVAL;VALUE=DURATION:${FEED_REFRESH_INTERVAL}`);
+    lines.push(`X-PUBLISHED-TTL:${FEED_REFRESH_INTERVAL}`);
+  }
+
+  lines.push(...eventLines);
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+/**
+ * Build a complete iCalendar file of appointments
+ * @param {object[]} appointments Appointments with doctorId populated
+ * @param {{ name?: string, isFeed?: boolean }} [options] Feeds get a name and refresh interval
+ * @returns {string}
+ */
+const buildCalendar = (appointments, options) => {
+  const eventLines = appointments.flatMap(buildAppointmentEvent);
+  return buildCalendarFile(eventLines, options);
+};
+
+/**
+ * Send calendar content as an .ics response
+ * @param {object} res Express response
+ * @param {string} calendar
+ * @param {string} [filename] Download file name, omitted for feeds
+ */
+const sendCalendar = (res, calendar, filename) => {
+  res.set('Content-Type', 'text/calendar; charset=utf-8');
+  if (filename) {
+    res.set('Content-Disposition', `attachment; filename="${filename}"`);
+  }
+  res.status(200).send(calendar);
+};
+
+module.exports = {
+  formatDateTime,
+  escapeText,
+  foldLine,
+  getAppointmentUid,
+  getAppointmentSequence,
+  buildCalendarFile,
+  buildCalendar,
+  sendCalendar
+};
@@ -0,0 +1,27 @@
+/**
+ * Helpers for detecting writes based on an outdated copy of a record
+ */
+
+/**
+ * Whether a write is stale: the client sends the version (updatedAt) it last saw,
+ * and any newer change on the server means the write would overwrite it unseen
+ * @param {Date|string|null} currentVersion Version of the record on the server
+ * @param {string} [expectedVersion] Version the client based its change on
+ * @returns {boolean} False when the client sent no version (older clients)
+ */
+const isStaleUpdate = (currentVersion, expectedVersion) => {
+  if (!expectedVersion || !currentVersion) {
+    return false;
+  }
+
+  const expected = new Date(expectedVersion).getTime();
+  if (Number.isNaN(expected)) {
+    return false;
+  }
+
+  return new Date(currentVersion).getTime() !== expected;
+};
+
+module.exports = {
+  isStaleUpdate
+};
@@ -0,0 +1,65 @@
+/**
+ * Utility script to create a doctor account, or link an existing account, to a doctor profile
+ *
+ * Usage: node utils/createDoctorAccount.js <email> <password> "<doctor name>"
+ */
+const mongoose = require('mongoose');
+const dotenv = require('dotenv');
+const User = require('../models/User');
+const Doctor = require('../models/Doctor');
+
+// Load environment variables
+dotenv.config();
+
+async function createDoctorAccount() {
+  const [email, password, doctorName] = process.argv.slice(2);
+
+  if (!email || !password || !doctorName) {
+    console.error('Usage: node utils/createDoctorAccount.js <email> <password> "<doctor name>"');
+    process.exitCode = 1;
+    return;
+  }
+
+  try {
+    console.log('Connecting to MongoDB Atlas...');
+    await mongoose.connect(process.env.MONGODB_URI);
+    console.log('Connected to MongoDB Atlas successfully');
+
+    const doctor = await Doctor.findOne({ name: doctorName });
+    if (!doctor) {
+      console.error(`Doctor "${doctorName}" not found`);
+      process.exitCode = 1;
+    } else {
+      const existingUser = await User.findOne({ email: email.toLowerCase() });
+
+      if (existingUser) {
+        // Keep the existing password and roles, only link the profile
+        existingUser.doctorId = doctor._id;
+        if (!existingUser.roles.includes('doctor')) {
+          existingUser.roles.push('doctor');
+        }
+        await existingUser.save();
+        console.log(`Linked existing account ${existingUser.email} to ${doctor.name}`);
+      } else {
+        await User.create({
+          email,
+          password,
+          name: doctor.name,
+          roles: ['doctor'],
+          doctorId: doctor._id
+        });
+        console.log(`Created doctor account ${email} for ${doctor.name}`);
+      }
+    }
+
+    // Disconnect from MongoDB
+    await mongoose.disconnect();
+    console.log('Disconnected from MongoDB');
+  } catch (error) {
+    console.error('Error creating doctor account:', error);
+    process.exitCode = 1;
+  }
+}
+
+// Run the script
+createDoctorAccount();
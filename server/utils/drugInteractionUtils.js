@@ -0,0 +1,195 @@
+/**
+ * Drug-drug interaction checks against the bundled interaction dataset
+ *
+ * The check is deterministic and needs no AI service: medications are matched to the
+ * drug dataset by name, and every pair is looked up in the interaction dataset.
+ */
+const interactionData = require('../datasets/drugInteractions.json');
+const Prescription = require('../models/Prescription');
+const {
+  INTERACTION_SEVERITIES,
+  MAX_EARLIER_PRESCRIPTIONS,
+  getDefaultActiveDays
+} = require('../config/interactionConfig');
+const { findDrugsInText } = require('./drugUtils');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CLASS_PREFIX = 'class:';
+
+/**
+ * Check whether a drug matches one side of an interaction ("warfarin" or "class:nsaid")
+ * @param {{ id: string, classes: string[] }} drug
+ * @param {string} side
+ * @returns {boolean}
+ */
+const matchesSide = (drug, side) => (
+  side.startsWith(CLASS_PREFIX)
+    ? drug.classes.includes(side.slice(CLASS_PREFIX.length))
+    : drug.id === side
+);
+
+/**
+ * Find the most severe interaction between two drugs
+ * @param {{ id: string, classes: string[] }} a
+ * @param {{ id: string, classes: string[] }} b
+ * @returns {object|null} Interaction dataset entry
+ */
+const findInteraction = (a, b) => {
+  let match = null;
+
+  for (const entry of interactionData.interactions) {
+    const [x, y] = entry.between;
+    const applies = (matchesSide(a, x) && matchesSide(b, y)) || (matchesSide(a, y) && matchesSide(b, x));
+
+    if (applies && (!match || INTERACTION_SEVERITIES.indexOf(entry.severity) < INTERACTION_SEVERITIES.indexOf(match.severity))) {
+      match = entry;
+    }
+  }
+
+  return match;
+};
+
+/**
+ * Get the medications of a prescription, from the most detailed data it has:
+ * the per-medication analysis, the extracted medications, or drug names found in the OCR text
+ * @param {{ analysis?: object, structuredText?: object|string, ocrText?: string }} prescription
+ * @returns {{ name: string, durationDays: number|null }[]}
+ */
+const getPrescriptionMedications = (prescription) => {
+  const analyzed = prescription.analysis && prescription.analysis.medications;
+  if (Array.isArray(analyzed) && analyzed.length > 0) {
+    return analyzed.map(med => ({ name: med.name, durationDays: med.duration_days || null }));
+  }
+
+  const extracted = prescription.structuredText && prescription.structuredText.medications;
+  if (Array.isArray(extracted) && extracted.length > 0) {
+    return extracted.map(med => ({ name: med.name, durationDays: med.duration || null }));
+  }
+
+  return findDrugsInText(prescription.ocrText).map(drug => ({ name: drug.id, durationDays: null }));
+};
+
+/**
+ * Get the medications of the user's earlier prescriptions that are still being taken
+ * A medication is active until its duration (or the prescription's, or the default) has passed
+ * @param {string} userId
+ * @param {Date} now
+ * @returns {Promise<object[]>}
+ */
+const getActiveEarlierMedications = async (userId, now) => {
+  const prescriptions = await Prescription.find({ userId })
+    .select('title ocrText structuredText analysis.medications analysis.duration createdAt')
+    .sort({ createdAt: -1 })
+    .limit(MAX_EARLIER_PRESCRIPTIONS)
+    .lean();
+
+  const medications = [];
+
+  for (const prescription of prescriptions) {
+    const prescriptionDays = prescription.analysis && prescription.analysis.duration
+      ? prescription.analysis.duration.total_days
+      : null;
+
+    for (const med of getPrescriptionMedications(prescription)) {
+      const activeDays = med.durationDays || prescriptionDays || getDefaultActiveDays();
+      if (new Date(prescription.createdAt).getTime() + activeDays * DAY_MS >= now.getTime()) {
+        medications.push({
+          name: med.name,
+          prescription: {
+            id: prescription._id,
+            title: prescription.title,
+            prescribedAt: prescription.createdAt
+          }
+        });
+      }
+    }
+  }
+
+  return medications;
+};
+
+/**
+ * Match medication names to known drugs; combination products give several drugs
+ * @param {object[]} medications Entries with a name
+ * @returns {{ entries: object[], unrecognized: string[] }}
+ */
+const resolveMedications = (medications) => {
+  const entries = [];
+  const unrecognized = [];
+
+  for (const med of medications) {
+    const drugs = findDrugsInText(med.name);
+    if (drugs.length === 0) {
+      unrecognized.push(med.name);
+    }
+    drugs.forEach(drug => entries.push({ ...med, drug }));
+  }
+
+  return { entries, unrecognized };
+};
+
+/**
+ * Check a prescription's medications against each other and against the medications
+ * of the user's earlier prescriptions that are still active
+ * @param {string} userId
+ * @param {{ analysis?: object, structuredText?: object, ocrText?: string }} prescription Prescription being analyzed
+ * @param {Date} [now]
+ * @returns {Promise<object>} Interaction check stored with the analysis
+ */
+const checkInteractions = async (userId, prescription, now = new Date()) => {
+  const current = resolveMedications(getPrescriptionMedications(prescription));
+  const earlier = resolveMedications(await getActiveEarlierMedications(userId, now));
+
+  const interactions = [];
+  const seenPairs = new Set();
+
+  const addInteraction = (a, b) => {
+    // A drug listed twice (e.g. a refill) is not an interaction
+    if (a.drug.id === b.drug.id) {
+      return;
+    }
+
+    const pairKey = [a.drug.id, b.drug.id].sort().join('|');
+    if (seenPairs.has(pairKey)) {
+      return;
+    }
+
+    const entry = findInteraction(a.drug, b.drug);
+    if (!entry) {
+      return;
+    }
+
+    seenPairs.add(pairKey);
+    interactions.push({
+      severity: entry.severity,
+      medications: [a.name, b.name],
+      effect: entry.effect,
+      advice: entry.advice,
+      earlierPrescription: b.prescription || null
+    });
+  };
+
+  current.entries.forEach((a, i) => {
+    current.entries.slice(i + 1).forEach(b => addInteraction(a, b));
+  });
+  // Earlier medications are newest first, so a repeated pair refers to the latest prescription
+  current.entries.forEach(a => {
+    earlier.entries.forEach(b => addInteraction(a, b));
+  });
+
+  interactions.sort((a, b) => INTERACTION_SEVERITIES.indexOf(a.severity) - INTERACTION_SEVERITIES.indexOf(b.severity));
+
+  return {
+    datasetVersion: interactionData.version,
+    checkedAt: now,
+    checkedMedications: [...new Set(current.entries.map(entry => entry.drug.id))],
+    unrecognizedMedications: current.unrecognized,
+    interactions
+  };
+};
+
+module.exports = {
+  checkInteractions,
+  getPrescriptionMedications
+};
@@ -0,0 +1,309 @@
+/**
+ * Lookup of generic drugs, their classes and the brands that contain them
+ * in the bundled drug dataset and medication dictionary
+ */
+const drugData = require('../datasets/drugs.json');
+const dictionary = require('../datasets/medicationDictionary.json');
+
+// Confidence of a name that only matches a known name approximately (e.g. an OCR misread)
+const FUZZY_MATCH_FACTOR = 0.8;
+const MIN_FUZZY_SIMILARITY = 0.8;
+// Shorter names are too easily confused with other names
+const MIN_FUZZY_LENGTH = 4;
+
+// Words of a medication name that describe its form or route rather than the drug, left out of
+// approximate matching so that e.g. "Tablet" is not taken for the brand "Rablet"
+const FORM_WORDS = new Set([
+  ...Object.entries(dictionary.abbreviations)
+    .filter(([, { type }]) => type === 'form' || type === 'route')
+    .flatMap(([abbreviation, { meaning }]) => [abbreviation, ...meaning.split(' ')]),
+  'tablets', 'capsules', 'caps', 'tabs', 'syrups', 'syr', 'injections', 'drop', 'cream', 'gel', 'lotion',
+  'solution', 'spray', 'inhaler', 'sachet', 'powder', 'oral', 'topical', 'dispersible', 'chewable'
+]);
+
+// Units of strengths, which are left out of approximate matching like the numbers before them
+const UNIT_WORDS = new Set(['mg', 'mcg', 'g', 'ml', 'iu', 'k']);
+
+// Search results for a query only match the start of this many characters of a name approximately
+const MIN_FUZZY_QUERY_LENGTH = 4;
+const MIN_FUZZY_QUERY_SIMILARITY = 0.75;
+
+/**
+ * Lowercase a name and replace punctuation with spaces, e.g. "Amoxicillin-500mg" -> "amoxicillin 500mg"
+ * @param {string} text
+ * @returns {string}
+ */
+const normalizeText = (text) => ` ${String(text || '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()} `;
+
+/**
+ * Edit distance between two words
+ * @param {string} a
+ * @param {string} b
+ * @returns {number}
+ */
+const getEditDistance = (a, b) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, idx) => idx);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * Similarity of two words from 0 to 1, based on their edit distance
+ * @param {string} a
+ * @param {string} b
+ * @returns {number}
+ */
+const getSimilarity = (a, b) => 1 - getEditDistance(a, b) / Math.max(a.length, b.length, 1);
+
+// Generic names and their aliases, to resolve the generics of the medication dictionary
+const GENERIC_IDS = new Map(Object.entries(drugData.drugs)
+  .flatMap(([id, drug]) => [id, drug.name, ...drug.aliases].filter(Boolean).map(name => [normalizeText(name), id])));
+
+// Brands of the medication dictionary, longest name first so "Crocin 650" wins over "Crocin"
+const BRANDS = Object.entries(dictionary.brands)
+  .map(([name, brand]) => ({
+    name,
+    term: normalizeText(name),
+    form: brand.form,
+    ingredients: brand.ingredients.map(({ generic, strength }) => {
+      const id = GENERIC_IDS.get(normalizeText(generic));
+      if (!id) {
+        throw new Error(`Unknown generic "${generic}" of ${name} in the medication dictionary`);
+      }
+      return { id, strength };
+    })
+  }))
+  .sort((a, b) => b.term.length - a.term.length);
+
+// Every generic and brand name with the drugs it contains, longest first so "calcium carbonate" wins over "calcium"
+const NAME_INDEX = [...[
+  ...Object.entries(drugData.drugs)
+    .flatMap(([id, drug]) => [id, drug.name, ...drug.aliases].filter(Boolean).map(name => ({ term: normalizeText(name), id }))),
+  ...BRANDS.flatMap(brand => brand.ingredients.map(({ id }) => ({ term: brand.term, id })))
+].reduce((index, { term, id }) => index.set(term, [...new Set([...(index.get(term) || []), id])]), new Map())]
+  .map(([term, ids]) => ({ term, ids }))
+  .sort((a, b) => b.term.length - a.term.length);
+
+/**
+ * Keep only the words of a medication name that can name a drug, e.g. "Tab. Crocin 500 mg" -> "crocin"
+ * @param {string} name
+ * @returns {string}
+ */
+const getNameWords = (name) => normalizeText(name).trim().split(' ')
+  .filter(word => word && !/\d/.test(word) && !FORM_WORDS.has(word) && !UNIT_WORDS.has(word))
+  .join(' ');
+
+// Known names without their strengths, compared with misread medication names as a whole.
+// The shortest name wins when several become the same, so "crocin" is kept over "crocin 650".
+const FUZZY_TERMS = [...NAME_INDEX].reverse().reduce((terms, { term, ids }) => {
+  const words = getNameWords(term);
+  return words.length >= MIN_FUZZY_LENGTH && !terms.has(words) ? terms.set(words, { term, ids }) : terms;
+}, new Map());
+
+/**
+ * Get a drug by its generic name
+ * @param {string} id
+ * @returns {{ id: string, classes: string[] }}
+ */
+const getDrug = (id) => ({ id, classes: drugData.drugs[id].classes });
+
+/**
+ * Get the generic name of a drug shown to patients, e.g. "paracetamol" for acetaminophen
+ * @param {string} id
+ * @returns {string}
+ */
+const getDrugDisplayName = (id) => drugData.drugs[id].name || id;
+
+/**
+ * Get the generic name, every brand name and every brand containing a drug
+ * @param {string} id Generic name
+ * @returns {string[]}
+ */
+const getDrugNames = (id) => [
+  id,
+  ...[drugData.drugs[id].name, ...drugData.drugs[id].aliases].filter(Boolean),
+  ...BRANDS.filter(brand => brand.ingredients.some(ingredient => ingredient.id === id)).map(brand => brand.name)
+];
+
+/**
+ * Find every known drug named in a text, e.g. "Tab. Brufen 400mg + Pan-D" -> ibuprofen, pantoprazole, domperidone
+ * @param {string} text Medication name or free prescription text
+ * @returns {{ id: string, classes: string[] }[]}
+ */
+const findDrugsInText = (text) => {
+  let remaining = normalizeText(text);
+  const found = [];
+
+  for (const { ids, term } of NAME_INDEX) {
+    if (remaining.includes(term)) {
+      // Blank out the match so a shorter alias inside it is not matched again
+      remaining = remaining.split(term).join(' ');
+      ids
+        .filter(id => !found.some(drug => drug.id === id))
+        .forEach(id => found.push(getDrug(id)));
+    }
+  }
+
+  return found;
+};
+
+/**
+ * Resolve a medication name to a known drug
+ * @param {string} name e.g. "Augmentin 625 Duo"
+ * @returns {{ id: string, classes: string[] }|null}
+ */
+const resolveDrug = (name) => findDrugsInText(name)[0] || null;
+
+/**
+ * Find the known name closest to a medication name, for names the OCR misread.
+ * The whole name is compared, without its form, route and strength, so a single
+ * word that looks like a brand is not enough.
+ * @param {string} name
+ * @returns {{ term: string, ids: string[], similarity: number }|null}
+ */
+const findFuzzyName = (name) => {
+  const words = getNameWords(name);
+  if (words.length < MIN_FUZZY_LENGTH) return null;
+
+  let best = null;
+  for (const [termWords, { term, ids }] of FUZZY_TERMS) {
+    const similarity = getSimilarity(words, termWords);
+    if (similarity >= MIN_FUZZY_SIMILARITY && (!best || similarity > best.similarity)) {
+      best = { term, ids, similarity };
+    }
+  }
+  return best;
+};
+
+/**
+ * Map a medication name from a prescription to its generic ingredients,
+ * e.g. "Crocin" -> paracetamol 500 mg
+ * @param {string} name Medication name as written
+ * @param {string} [strength] Strength written on the prescription, which wins over the brand's for single-ingredient brands
+ * @returns {{
+ *   dictionaryVersion: string,
+ *   brand: string|null,
+ *   ingredients: { name: string, strength: string, classes: string[] }[],
+ *   confidence: number,
+ *   fuzzy: boolean
+ * }|null} Null when the name is not known
+ */
+const matchMedication = (name, strength = '') => {
+  const text = normalizeText(name);
+  let brand = BRANDS.find(({ term }) => text.includes(term)) || null;
+  let ids = brand ? [] : findDrugsInText(name).map(drug => drug.id);
+  let confidence = 1;
+
+  if (!brand && ids.length === 0) {
+    const fuzzy = findFuzzyName(name);
+    if (!fuzzy) return null;
+    brand = BRANDS.find(({ term }) => term === fuzzy.term) || null;
+    ids = brand ? [] : fuzzy.ids;
+    confidence = Math.round(fuzzy.similarity * FUZZY_MATCH_FACTOR * 100) / 100;
+  }
+
+  const ingredients = brand ? brand.ingredients : ids.map(id => ({ id, strength: '' }));
+  const ownStrength = ingredients.length === 1 ? String(strength || '').trim() : '';
+
+  return {
+    dictionaryVersion: dictionary.version,
+    brand: brand ? brand.name : null,
+    ingredients: ingredients.map(ingredient => ({
+      name: getDrugDisplayName(ingredient.id),
+      strength: ownStrength || ingredient.strength,
+      classes: drugData.drugs[ingredient.id].classes
+    })),
+    confidence,
+    fuzzy: confidence < 1
+  };
+};
+
+// Entries of the autocomplete: every brand, and every generic with the other names it is known by
+const SEARCH_ENTRIES = [
+  ...BRANDS.map(brand => ({
+    terms: [brand.term.trim()],
+    result: {
+      name: brand.name,
+      type: 'brand',
+      form: brand.form,
+      ingredients: brand.ingredients.map(({ id, strength }) => ({ name: getDrugDisplayName(id), strength }))
+    }
+  })),
+  ...Object.entries(drugData.drugs).map(([id, drug]) => ({
+    terms: [getDrugDisplayName(id), id, ...drug.aliases].map(term => normalizeText(term).trim()),
+    result: {
+      name: getDrugDisplayName(id),
+      type: 'generic',
+      form: null,
+      ingredients: [{ name: getDrugDisplayName(id), strength: '' }]
+    }
+  }))
+];
+
+/**
+ * Rank how well a name matches what the user typed so far
+ * @param {string} term Normalised name
+ * @param {string} query Normalised query
+ * @returns {number} 0 when it does not match
+ */
+const scoreSearchTerm = (term, query) => {
+  if (term.startsWith(query)) return 3;
+  if (term.includes(` ${query}`)) return 2;
+  if (term.includes(query)) return 1;
+  if (query.length >= MIN_FUZZY_QUERY_LENGTH) {
+    const similarity = getSimilarity(query, term.slice(0, query.length));
+    return similarity >= MIN_FUZZY_QUERY_SIMILARITY ? similarity / 2 : 0;
+  }
+  return 0;
+};
+
+/**
+ * Search brands and generics by name for autocomplete, tolerating small spelling mistakes
+ * @param {string} query What the user typed so far
+ * @param {number} limit Most results returned
+ * @returns {{ name: string, type: 'brand'|'generic', form: string|null, ingredients: { name: string, strength: string }[] }[]}
+ */
+const searchMedications = (query, limit) => {
+  const normalized = normalizeText(query).trim();
+  if (!normalized) return [];
+
+  return SEARCH_ENTRIES
+    .map(entry => ({ entry, score: Math.max(...entry.terms.map(term => scoreSearchTerm(term, normalized))) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || a.entry.result.name.localeCompare(b.entry.result.name))
+    .slice(0, limit)
+    .map(({ entry }) => entry.result);
+};
+
+/**
+ * Write out the abbreviations of a prescription instruction, e.g. "1 tab BD" -> "1 tablet twice daily"
+ * @param {string} text
+ * @param {string[]} [types] Kinds of abbreviation to write out, e.g. ['frequency', 'timing']; all when left out
+ * @returns {string}
+ */
+const expandAbbreviations = (text, types) => String(text || '').replace(/[a-z0-9]+(?:\.[a-z0-9]+)*\.?/gi, token => {
+  const abbreviation = dictionary.abbreviations[token.replace(/\./g, '').toLowerCase()];
+  return abbreviation && (!types || types.includes(abbreviation.type)) ? abbreviation.meaning : token;
+});
+
+module.exports = {
+  DICTIONARY_VERSION: dictionary.version,
+  normalizeText,
+  getEditDistance,
+  getDrugNames,
+  findDrugsInText,
+  resolveDrug,
+  matchMedication,
+  searchMedications,
+  expandAbbreviations
+};
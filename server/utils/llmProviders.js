@@ -0,0 +1,219 @@
+/**
+ * Language model access for the prescription and chatbot flows
+ *
+ * A provider is an object with:
+ * - isConfigured() - whether it can be called, e.g. has an API key
+ * - complete({ task, messages, model, temperature, maxTokens, json }) - resolves with the reply text;
+ *   with json set the reply must be a single JSON object
+ * - extractImageText({ task, prompt, mimeType, base64, model, temperature, maxTokens }) - resolves
+ *   with the text read from an image
+ * Callers name a task (see config/llmConfig) and the model settings of that task are filled in.
+ * The built-in "local" provider answers from fixtures, so the flows run without network access.
+ */
+const { Groq } = require('groq-sdk');
+const { getLlmProvider, getTaskSettings, getMaxRepairAttempts } = require('../config/llmConfig');
+const localProvider = require('./localLlmProvider');
+
+// Schema violations listed in a repair prompt, so a badly broken reply does not flood it
+const MAX_REPAIR_ERRORS = 20;
+
+let groqClient = null;
+
+/**
+ * Get the shared Groq client, created on first use
+ * @returns {Groq}
+ */
+const getGroqClient = () => {
+  if (!process.env.GROQ_API_KEY) {
+    throw new Error('Groq API key is not configured');
+  }
+  if (!groqClient) {
+    groqClient = new Groq({ apiKey: process.env.GROQ_API_KEY });
+  }
+  return groqClient;
+};
+
+const groqProvider = {
+  isConfigured: () => Boolean(process.env.GROQ_API_KEY),
+
+  complete: async ({ messages, model, temperature, maxTokens, json }) => {
+    const response = await getGroqClient().chat.completions.create({
+      model,
+      messages,
+      temperature,
+      max_tokens: maxTokens,
+      ...(json && { response_format: { type: 'json_object' } })
+    });
+    return response.choices[0].message.content;
+  },
+
+  extractImageText: async ({ prompt, mimeType, base64, model, temperature, maxTokens }) => {
+    const response = await getGroqClient().chat.completions.create({
+      model,
+      messages: [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: prompt },
+            { type: 'image_url', image_url: { url: `data:${mimeType};base64,${base64}` } }
+          ]
+        }
+      ],
+      temperature,
+      max_tokens: maxTokens
+    });
+    return response.choices[0].message.content;
+  }
+};
+
+const providers = {
+  groq: groqProvider,
+  local: localProvider
+};
+
+/**
+ * Register a provider, selected with LLM_PROVIDER
+ * @param {string} name
+ * @param {{ isConfigured: Function, complete: Function, extractImageText: Function }} provider
+ */
+const registerProvider = (name, provider) => {
+  providers[name] = provider;
+};
+
+/**
+ * Get the configured provider
+ * @returns {object}
+ */
+const getProvider = () => {
+  const name = getLlmProvider();
+  const provider = providers[name];
+  if (!provider) {
+    throw new Error(`Unknown LLM provider: ${name}`);
+  }
+  return provider;
+};
+
+/**
+ * Whether the configured provider can be called
+ * @returns {boolean}
+ */
+const isLlmConfigured = () => {
+  const provider = providers[getLlmProvider()];
+  return Boolean(provider && provider.isConfigured());
+};
+
+/**
+ * Parse a JSON object from a model reply, tolerating code fences and text around it
+ * @param {string} content
+ * @returns {object}
+ */
+const parseJsonReply = (content) => {
+  const text = String(content || '').trim();
+  try {
+    return JSON.parse(text);
+  } catch (parseError) {
+    const fenced = text.match(/```(?:json)?\s*({[\s\S]*?})\s*```/);
+    const match = fenced ? fenced[1] : (text.match(/{[\s\S]*}/) || [])[0];
+    if (!match) {
+      throw new Error('No JSON object found in the model reply');
+    }
+    return JSON.parse(match);
+  }
+};
+
+/**
+ * Get a chat completion for a task
+ * @param {string} task e.g. 'chatbot'
+ * @param {{ role: string, content: string }[]} messages
+ * @returns {Promise<string>} The reply, trimmed
+ */
+const complete = async (task, messages) => {
+  const reply = await getProvider().complete({ task, messages, ...getTaskSettings(task) });
+  return String(reply || '').trim();
+};
+
+/**
+ * Get a completion for a task in JSON mode and parse it
+ * @param {string} task e.g. 'extraction'
+ * @param {{ role: string, content: string }[]} messages Must ask for a JSON object
+ * @returns {Promise<object>}
+ * @throws When the reply is not a JSON object
+ */
+const completeJson = async (task, messages) => {
+  const reply = await getProvider().complete({ task, messages, json: true, ...getTaskSettings(task) });
+  return parseJsonReply(reply);
+};
+
+/**
+ * Build the prompt asking the model to fix a reply that broke its schema
+ * @param {string[]} errors
+ * @returns {string}
+ */
+const buildRepairPrompt = (errors) => [
+  'Your reply did not match the required JSON structure:',
+  ...errors.slice(0, MAX_REPAIR_ERRORS).map(error => `- ${error}`),
+  'Reply again with only the corrected JSON object. Keep every required field, use the exact field names and types, and add no other fields.'
+].join('\n');
+
+/**
+ * Get a JSON completion for a task that passes a validator, asking the model to repair
+ * invalid replies up to LLM_MAX_REPAIR_ATTEMPTS times
+ * @param {string} task e.g. 'safety'
+ * @param {{ role: string, content: string }[]} messages Must ask for a JSON object
+ * @param {(data: object) => string[]} validate Returns the errors of a reply, empty when valid
+ * @returns {Promise<{ data: object, repairs: number }>} The valid reply and the repair prompts it took
+ * @throws When no valid reply was received
+ */
+const completeValidatedJson = async (task, messages, validate) => {
+  const provider = getProvider();
+  const settings = getTaskSettings(task);
+  const maxRepairs = getMaxRepairAttempts();
+  let conversation = messages;
+
+  for (let repairs = 0; ; repairs++) {
+    const reply = await provider.complete({ task, messages: conversation, json: true, ...settings });
+
+    let data = null;
+    let errors;
+    try {
+      data = parseJsonReply(reply);
+      errors = validate(data);
+    } catch (parseError) {
+      errors = [parseError.message];
+    }
+
+    if (errors.length === 0) {
+      return { data, repairs };
+    }
+    if (repairs >= maxRepairs) {
+      throw new Error(`Invalid ${task} reply after ${repairs} repair attempts: ${errors.slice(0, 5).join('; ')}`);
+    }
+
+    console.warn(`Invalid ${task} reply, asking for a repair:`, errors);
+    conversation = [
+      ...conversation,
+      { role: 'assistant', content: String(reply || '') },
+      { role: 'user', content: buildRepairPrompt(errors) }
+    ];
+  }
+};
+
+/**
+ * Read the text of an image
+ * @param {string} task e.g. 'vision'
+ * @param {{ prompt: string, mimeType: string, base64: string }} image
+ * @returns {Promise<string>} The text, trimmed
+ */
+const extractImageText = async (task, image) => {
+  const text = await getProvider().extractImageText({ task, ...image, ...getTaskSettings(task) });
+  return String(text || '').trim();
+};
+
+module.exports = {
+  registerProvider,
+  isLlmConfigured,
+  complete,
+  completeJson,
+  completeValidatedJson,
+  extractImageText
+};
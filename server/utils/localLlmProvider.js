@@ -0,0 +1,171 @@
+/**
+ * Local language model provider, selected with LLM_PROVIDER=local
+ *
+ * Replies are deterministic and need no network or API key: a task listed in the
+ * LLM_FIXTURE_FILE answers with its fixture, other tasks are worked out from the input
+ * with the bundled drug dataset. Meant for development and automated tests, not for patients.
+ */
+const fs = require('fs');
+const { getLlmFixtureFile } = require('../config/llmConfig');
+const { findDrugsInText } = require('./drugUtils');
+
+// Text "read" from every image
+const SAMPLE_PRESCRIPTION_TEXT = [
+  'Dr. A. Sharma, MBBS',
+  'Rx',
+  'Tab. Amoxicillin 500 mg - 1 tablet three times daily after meals for 5 days',
+  'Tab. Paracetamol 650 mg - 1 tablet as needed for fever',
+  'Cap. Omeprazole 20 mg - 1 capsule once daily before breakfast for 5 days'
+].join('\n');
+
+// Frequencies recognised in a line of prescription text, most specific first
+const FREQUENCY_PATTERNS = [
+  [/as needed|when required|\bsos\b|\bprn\b/i, 'as needed'],
+  [/four times|\bqid\b/i, 'four times daily'],
+  [/three times|thrice|\btds\b|\btid\b/i, 'three times daily'],
+  [/twice|two times|\bbd\b|\bbid\b/i, 'twice daily'],
+  [/at night|at bedtime|\bhs\b/i, 'every night'],
+  [/once|daily|\bod\b/i, 'once daily']
+];
+
+const TIMING_PATTERN = /(before|after|with) (breakfast|lunch|dinner|meals|food)|at bedtime|on empty stomach/i;
+
+let fixtures;
+
+/**
+ * Load the canned replies of the fixture file once
+ * @returns {object}
+ */
+const getFixtures = () => {
+  if (fixtures === undefined) {
+    const file = getLlmFixtureFile();
+    fixtures = file ? JSON.parse(fs.readFileSync(file, 'utf8')) : {};
+  }
+  return fixtures;
+};
+
+/**
+ * Get the text of the last user message
+ * @param {object[]} messages
+ * @returns {string}
+ */
+const getLastUserText = (messages) => {
+  const message = [...messages].reverse().find(msg => msg.role === 'user');
+  if (!message) return '';
+  return Array.isArray(message.content)
+    ? message.content.filter(part => part.type === 'text').map(part => part.text).join('\n')
+    : String(message.content || '');
+};
+
+// Boundaries between medications: lines, semicolons, bullets and numbered items such as "2) Tab ..."
+const MEDICATION_BOUNDARY = /\n|;|•|\s(?=\d{1,2}[.)]\s+[a-z])/i;
+
+// List number and dosage form before a medication name, e.g. "1. Tab. "
+const NAME_PREFIX = /^\s*(?:\d{1,2}[.)]\s*|[-*]\s*)?(?:(?:tab|tabs|tablet|cap|caps|capsule|syp|syr|syrup|inj)\b\.?\s*)?/i;
+
+/**
+ * Get the medication name as written in a line, without its form and strength,
+ * e.g. "Tab. Crocin 650 mg - 1 tab BD" -> "Crocin"
+ * @param {string} segment
+ * @returns {string}
+ */
+const readWrittenName = (segment) => segment
+  .replace(NAME_PREFIX, '')
+  .split(/\s+(?=\d)|\s+-\s+|,|\(/)[0]
+  .trim();
+
+/**
+ * Read the medications from prescription text, one per line or list item
+ * @param {string} text
+ * @returns {object[]} Medications in the shape of the extraction prompt
+ */
+const readMedications = (text) => {
+  const medications = [];
+  const drugIds = new Set();
+
+  text.split(MEDICATION_BOUNDARY).forEach(segment => {
+    const [drug] = findDrugsInText(segment);
+    if (!drug || drugIds.has(drug.id)) return;
+    drugIds.add(drug.id);
+
+    const frequency = FREQUENCY_PATTERNS.find(([pattern]) => pattern.test(segment));
+    const duration = segment.match(/for (\d+) (days?|weeks?)/i);
+    const timing = segment.match(TIMING_PATTERN);
+
+    medications.push({
+      // Brands keep their name, e.g. "Crocin" rather than its ingredient
+      name: readWrittenName(segment) || drug.id,
+      dosage: (segment.match(/\d+(?:\.\d+)?\s*(?:mg|mcg|g|ml|iu)\b/i) || [''])[0],
+      frequency: frequency ? frequency[1] : '',
+      duration: duration ? duration[0].slice(4) : '',
+      specialInstructions: timing ? timing[0].toLowerCase() : ''
+    });
+  });
+
+  return medications;
+};
+
+/**
+ * Build safety information for medications, leaving the details for the caller's defaults
+ * @param {object[]} medications Result of readMedications
+ * @returns {object} Object in the shape of the safety prompt
+ */
+const buildSafetyReply = (medications) => {
+  const emptyPrecautions = () => ({ dietary_restrictions: [], activity_limitations: [], side_effects: [] });
+  const emptyWarnings = () => ({ drug_interactions: [], contraindications: [], overdose_symptoms: [] });
+  const first = medications[0] || {};
+
+  return {
+    medications: medications.map(med => ({
+      name: med.name,
+      strength: med.dosage || '',
+      dosage_form: '',
+      route: 'oral',
+      dose: '',
+      frequency: med.frequency || '',
+      timing: med.specialInstructions || '',
+      duration_days: parseInt(med.duration, 10) || null,
+      precautions: emptyPrecautions(),
+      warnings: emptyWarnings()
+    })),
+    precautions: emptyPrecautions(),
+    duration: {
+      total_days: parseInt(first.duration, 10) || null,
+      frequency: first.frequency || '',
+      timing: first.specialInstructions || ''
+    },
+    warnings: emptyWarnings()
+  };
+};
+
+// Replies worked out from the input, by task
+const responders = {
+  extraction: (text) => ({ medications: readMedications(text), text }),
+  safety: (text) => {
+    const { medications = [] } = JSON.parse(text);
+    return buildSafetyReply(medications);
+  },
+  chatbot: (text, messages) => {
+    const earlier = messages.filter(msg => msg.role !== 'system').length - 1;
+    return `Local test reply to "${text}" (${earlier} earlier messages). Please check with your doctor or pharmacist.`;
+  }
+};
+
+module.exports = {
+  isConfigured: () => true,
+
+  complete: async ({ task, messages, json }) => {
+    const fixture = getFixtures()[task];
+    const text = getLastUserText(messages);
+    const reply = fixture !== undefined
+      ? fixture
+      : responders[task] ? responders[task](text, messages) : (json ? {} : text);
+
+    return typeof reply === 'string' ? reply : JSON.stringify(reply);
+  },
+
+  extractImageText: async ({ task }) => {
+    const fixture = getFixtures()[task];
+    return typeof fixture === 'string' ? fixture : SAMPLE_PRESCRIPTION_TEXT;
+  }
+};
@@ -0,0 +1,360 @@
+/**
+ * Helpers for turning analyzed prescriptions into medication schedules and exporting them
+ */
+const {
+  FOOD_INSTRUCTIONS,
+  DEFAULT_DOSE_TIMES,
+  BEDTIME_DOSE_TIME,
+  FIRST_DOSE_TIME,
+  MAX_DOSES_PER_DAY,
+  MAX_INTERVAL_DAYS,
+  MAX_SCHEDULE_ITEMS,
+  DOSE_EVENT_DURATION,
+  SCHEDULE_CALENDAR_PRODUCT_ID
+} = require('../config/medicationScheduleConfig');
+const { CALENDAR_UID_DOMAIN } = require('../config/calendarConfig');
+const { TIME_PATTERN, toMinutes, toTimeString } = require('./scheduleUtils');
+const { DAY_MS, parseDateOnly } = require('./slotUtils');
+const { formatDateTime, escapeText, buildCalendarFile } = require('./calendarUtils');
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// Dose times for the morning-afternoon-night(-bedtime) notation, e.g. "1-0-1"
+const SLOT_TIMES = ['08:00', '14:00', '20:00', BEDTIME_DOSE_TIME];
+
+// Amount taken at one time of the notation, e.g. "2", "1/2", "0.5" or "½"
+const SLOT_AMOUNT = String.raw`(\d{1,2}(?:[./]\d{1,2})?|½)`;
+const SLOTS_PATTERN = new RegExp(
+  String.raw`(?<![\d./])${SLOT_AMOUNT}\s*-\s*${SLOT_AMOUNT}\s*-\s*${SLOT_AMOUNT}(?:\s*-\s*${SLOT_AMOUNT})?(?![\d/]|\.\d)`
+);
+
+// Doses a day for common wordings and Latin abbreviations, checked in order
+const DOSES_PER_DAY_PATTERNS = [
+  { pattern: /\b(four times|4 times|qid|qds)\b/, count: 4 },
+  { pattern: /\b(three times|3 times|thrice|tid|tds)\b/, count: 3 },
+  { pattern: /\b(twice|two times|2 times|bid|bd)\b/, count: 2 }
+];
+
+const BEDTIME_PATTERN = /\b(night|bedtime|bed time|hs|before sleep)\b/;
+const AS_NEEDED_PATTERN = /\b(as needed|when needed|if needed|as required|prn|sos)\b/;
+const WITHOUT_FOOD_PATTERN = /\b(empty stomach|without food|before (food|meals?|breakfast|lunch|dinner|eating))\b/;
+const WITH_FOOD_PATTERN = /\b(with (food|meals?|milk)|after (food|meals?|breakfast|lunch|dinner|eating))\b/;
+
+// Wording of each food instruction in calendar events
+const FOOD_LABELS = {
+  with_food: 'Take with food',
+  without_food: 'Take on an empty stomach',
+  any: ''
+};
+
+/**
+ * Add days to a "YYYY-MM-DD" date
+ * @param {string} date
+ * @param {number} days
+ * @returns {string}
+ */
+const addDays = (date, days) => {
+  return new Date(parseDateOnly(date) + days * DAY_MS).toISOString().slice(0, 10);
+};
+
+/**
+ * Spread doses evenly over the day, starting with the first dose time
+ * @param {number} count Doses a day
+ * @returns {string[]}
+ */
+const spreadDoseTimes = (count) => {
+  const first = toMinutes(FIRST_DOSE_TIME);
+  const step = Math.floor(MINUTES_PER_DAY / count);
+  return Array.from({ length: count }, (_, idx) => toTimeString((first + idx * step) % MINUTES_PER_DAY))
+    .sort();
+};
+
+/**
+ * Suggest dose times for a number of doses a day
+ * @param {number} count Doses a day
+ * @param {string} [timing] Timing text, used to put a single dose at bedtime
+ * @returns {string[]}
+ */
+const getDefaultTimes = (count, timing = '') => {
+  if (count === 1 && BEDTIME_PATTERN.test(timing.toLowerCase())) {
+    return [BEDTIME_DOSE_TIME];
+  }
+  return DEFAULT_DOSE_TIMES[count] || spreadDoseTimes(count);
+};
+
+/**
+ * Read how often a medication is taken from free-text frequency and timing,
+ * e.g. "twice daily", "q8h", "1-0-1", "2-0-2", "1/2-0-1/2", "every other day", "at bedtime", "SOS"
+ * @param {string} text
+ * @returns {{ times: string[], intervalDays: number, asNeeded: boolean }}
+ */
+const parseFrequency = (text) => {
+  const value = String(text || '').toLowerCase();
+
+  if (AS_NEEDED_PATTERN.test(value)) {
+    return { times: [], intervalDays: 1, asNeeded: true };
+  }
+
+  let intervalDays = 1;
+  if (/\b(weekly|once a week|every week)\b/.test(value)) {
+    intervalDays = 7;
+  } else if (/\b(every other day|alternate days?|every second day)\b/.test(value)) {
+    intervalDays = 2;
+  }
+
+  const slots = SLOTS_PATTERN.exec(value);
+  if (slots) {
+    // A dose is taken at each time with an amount other than zero, whatever the amount
+    const times = SLOT_TIMES.filter((_, idx) => /[1-9½]/.test(slots[idx + 1] || ''));
+    if (times.length > 0) {
+      return { times, intervalDays, asNeeded: false };
+    }
+  }
+
+  const hourly = /\b(?:every\s+(\d{1,2})\s*(?:hours?|hrs?)|q\s?(\d{1,2})\s?h)\b/.exec(value);
+  if (hourly) {
+    const hours = Number(hourly[1] || hourly[2]);
+    if (hours > 0 && hours <= 24) {
+      const count = Math.min(Math.floor(24 / hours), MAX_DOSES_PER_DAY);
+      return { times: spreadDoseTimes(count), intervalDays, asNeeded: false };
+    }
+  }
+
+  const match = DOSES_PER_DAY_PATTERNS.find(({ pattern }) => pattern.test(value));
+  return { times: getDefaultTimes(match ? match.count : 1, value), intervalDays, asNeeded: false };
+};
+
+/**
+ * Read whether a medication should be taken with or without food
+ * @param {string} text Timing or special instructions
+ * @returns {'with_food'|'without_food'|'any'}
+ */
+const parseFoodInstruction = (text) => {
+  const value = String(text || '').toLowerCase();
+  if (WITHOUT_FOOD_PATTERN.test(value)) return 'without_food';
+  if (WITH_FOOD_PATTERN.test(value)) return 'with_food';
+  return 'any';
+};
+
+/**
+ * Medications of a prescription with their dosing details. Uses the per-medication
+ * analysis, or the extracted text for analyses saved before it existed.
+ * @param {object} prescription
+ * @returns {{ name: string, dose?: string, frequency?: string, timing?: string, duration_days?: number }[]}
+ */
+const getDosingDetails = (prescription) => {
+  const analyzed = prescription.analysis?.medications || [];
+  if (analyzed.length > 0) {
+    return analyzed;
+  }
+
+  return (prescription.structuredText?.medications || []).map(med => ({
+    name: med.name,
+    dose: med.dosage,
+    frequency: med.frequency,
+    timing: med.specialInstructions,
+    duration_days: med.duration
+  }));
+};
+
+/**
+ * Build the schedule items of an analyzed prescription
+ * @param {object} prescription Saved prescription analysis
+ * @param {string} startDate First day of the schedule ("YYYY-MM-DD")
+ * @returns {object[]}
+ */
+const buildScheduleItems = (prescription, startDate) => {
+  const duration = prescription.analysis?.duration || {};
+
+  return getDosingDetails(prescription)
+    .filter(med => med.name)
+    .slice(0, MAX_SCHEDULE_ITEMS)
+    .map(med => {
+      const frequency = med.frequency || duration.frequency || '';
+      const timing = med.timing || '';
+      const days = Number(med.duration_days) || Number(duration.total_days) || 0;
+
+      return {
+        name: med.name,
+        dose: med.dose || '',
+        ...parseFrequency(`${frequency} ${timing}`),
+        food: parseFoodInstruction(`${timing} ${frequency}`),
+        startDate,
+        endDate: days > 0 ? addDays(startDate, Math.round(days) - 1) : null,
+        instructions: timing
+      };
+    });
+};
+
+/**
+ * Whether a scheduled medication has doses on a day
+ * @param {object} item Schedule item
+ * @param {string} day "YYYY-MM-DD"
+ * @returns {boolean}
+ */
+const isDoseDay = (item, day) => {
+  if (item.asNeeded || day < item.startDate || (item.endDate && day > item.endDate)) {
+    return false;
+  }
+  const days = Math.round((parseDateOnly(day) - parseDateOnly(item.startDate)) / DAY_MS);
+  return days % (item.intervalDays || 1) === 0;
+};
+
+/**
+ * Every scheduled dose between two days, in date and time order
+ * @param {object[]} items Schedule items
+ * @param {string} from First day ("YYYY-MM-DD", inclusive)
+ * @param {string} to Last day ("YYYY-MM-DD", inclusive)
+ * @returns {{ medication: string, dose: string, date: string, time: string }[]}
+ */
+const getExpectedDoses = (items, from, to) => {
+  const doses = [];
+
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    const dayDoses = items
+      .filter(item => isDoseDay(item, date))
+      .flatMap(item => item.times.map(time => ({ medication: item.name, dose: item.dose, date, time })))
+      .sort((a, b) => a.time.localeCompare(b.time));
+    doses.push(...dayDoses);
+  }
+
+  return doses;
+};
+
+/**
+ * Validate and normalise schedule items sent by the client
+ * @param {any} items
+ * @returns {{ items?: object[], error?: string }}
+ */
+const validateScheduleItems = (items) => {
+  if (!Array.isArray(items) || items.length === 0) {
+    return { error: 'A schedule needs at least one medication' };
+  }
+  if (items.length > MAX_SCHEDULE_ITEMS) {
+    return { error: `A schedule can have at most ${MAX_SCHEDULE_ITEMS} medications` };
+  }
+
+  const cleaned = [];
+  for (const item of items) {
+    const name = typeof item?.name === 'string' ? item.name.trim() : '';
+    if (!name) {
+      return { error: 'Every medication needs a name' };
+    }
+
+    const asNeeded = item.asNeeded === true;
+    const times = Array.isArray(item.times) ? [...new Set(item.times)].sort() : [];
+    if (times.some(time => !TIME_PATTERN.test(time) || time === '24:00')) {
+      return { error: `Dose times of ${name} must be in HH:mm format` };
+    }
+    if (!asNeeded && times.length === 0) {
+      return { error: `${name} needs at least one dose time` };
+    }
+    if (times.length > MAX_DOSES_PER_DAY) {
+      return { error: `${name} can have at most ${MAX_DOSES_PER_DAY} doses a day` };
+    }
+
+    const intervalDays = item.intervalDays === undefined ? 1 : Number(item.intervalDays);
+    if (!Number.isInteger(intervalDays) || intervalDays < 1 || intervalDays > MAX_INTERVAL_DAYS) {
+      return { error: `The dose interval of ${name} must be between 1 and ${MAX_INTERVAL_DAYS} days` };
+    }
+
+    const food = item.food || 'any';
+    if (!FOOD_INSTRUCTIONS.includes(food)) {
+      return { error: `Food instruction must be one of: ${FOOD_INSTRUCTIONS.join(', ')}` };
+    }
+
+    if (parseDateOnly(item.startDate) === null) {
+      return { error: `Start date of ${name} must be a YYYY-MM-DD date` };
+    }
+    const endDate = item.endDate || null;
+    if (endDate !== null && (parseDateOnly(endDate) === null || endDate < item.startDate)) {
+      return { error: `End date of ${name} must be a YYYY-MM-DD date on or after its start date` };
+    }
+
+    cleaned.push({
+      ...(item._id && { _id: item._id }),
+      name,
+      dose: typeof item.dose === 'string' ? item.dose.trim() : '',
+      times: asNeeded ? [] : times,
+      intervalDays,
+      asNeeded,
+      food,
+      startDate: item.startDate,
+      endDate,
+      instructions: typeof item.instructions === 'string' ? item.instructions.trim() : ''
+    });
+  }
+
+  return { items: cleaned };
+};
+
+/**
+ * Format a date and time of day as a floating iCalendar date-time (e.g. 20240527T080000),
+ * so each dose happens at the same wall-clock time wherever the patient is
+ * @param {string} date "YYYY-MM-DD"
+ * @param {string} time "HH:mm"
+ * @returns {string}
+ */
+const formatLocalDateTime = (date, time) => {
+  return `${date.replace(/-/g, '')}T${time.replace(':', '')}00`;
+};
+
+/**
+ * Build the VEVENT lines of a schedule: one repeating event per medication and dose time
+ * @param {object} schedule
+ * @returns {string[]}
+ */
+const buildScheduleEvents = (schedule) => {
+  return schedule.items
+    .filter(item => !item.asNeeded)
+    .flatMap(item => item.times.flatMap(time => {
+      const summary = `Take ${item.name}${item.dose ? ` (${item.dose})` : ''}`;
+      const description = [FOOD_LABELS[item.food], item.instructions].filter(Boolean).join('\n');
+      const rule = [
+        'FREQ=DAILY',
+        `INTERVAL=${item.intervalDays}`,
+        item.endDate && `UNTIL=${formatLocalDateTime(item.endDate, '23:59')}`
+      ].filter(Boolean).join(';');
+
+      const lines = [
+        'BEGIN:VEVENT',
+        `UID:medication-${schedule._id}-${item._id}-${time.replace(':', '')}@${CALENDAR_UID_DOMAIN}`,
+        `DTSTAMP:${formatDateTime(schedule.updatedAt || new Date())}`,
+        `DTSTART:${formatLocalDateTime(item.startDate, time)}`,
+        `DURATION:${DOSE_EVENT_DURATION}`,
+        `RRULE:${rule}`,
+        `SUMMARY:${escapeText(summary)}`,
+        `DESCRIPTION:${escapeText(description)}`
+      ];
+
+      if (schedule.remindersEnabled) {
+        lines.push('BEGIN:VALARM', 'ACTION:DISPLAY', 'TRIGGER:PT0M', `DESCRIPTION:${escapeText(summary)}`, 'END:VALARM');
+      }
+
+      lines.push('END:VEVENT');
+      return lines;
+    }));
+};
+
+/**
+ * Build an iCalendar file of the doses in the patient's schedules
+ * @param {object[]} schedules
+ * @returns {string}
+ */
+const buildScheduleCalendar = (schedules) => {
+  return buildCalendarFile(schedules.flatMap(buildScheduleEvents), {
+    name: 'Healiofy Medication Schedule',
+    productId: SCHEDULE_CALENDAR_PRODUCT_ID
+  });
+};
+
+module.exports = {
+  addDays,
+  parseFrequency,
+  parseFoodInstruction,
+  buildScheduleItems,
+  isDoseDay,
+  getExpectedDoses,
+  validateScheduleItems,
+  buildScheduleCalendar
+};
@@ -0,0 +1,73 @@
+/**
+ * Utility script to move appointments with the legacy "cancelled" status
+ * to "cancelled_by_patient" and release their slots, and to lock the slots
+ * of appointments booked before slot locks existed
+ */
+const mongoose = require('mongoose');
+const dotenv = require('dotenv');
+const Appointment = require('../models/Appointment');
+const { CANCELLED_STATUSES } = require('../config/appointmentStatus');
+const { getSlotKey } = require('./slotUtils');
+
+// MongoDB duplicate key error code, raised when another appointment already holds the slot
+const DUPLICATE_KEY_ERROR = 11000;
+
+// Load environment variables
+dotenv.config();
+
+async function migrateAppointmentStatuses() {
+  try {
+    console.log('Connecting to MongoDB Atlas...');
+    await mongoose.connect(process.env.MONGODB_URI);
+    console.log('Connected to MongoDB Atlas successfully');
+
+    // Until now only patients could cancel, so legacy cancellations were theirs
+    const result = await Appointment.collection.updateMany(
+      { status: 'cancelled' },
+      {
+        $set: { status: 'cancelled_by_patient' },
+        $unset: { slotLock: '' }
+      }
+    );
+
+    console.log(`Migrated ${result.modifiedCount} cancelled appointments`);
+
+    // Appointments that hold their slot without a lock, which new bookings could otherwise take
+    const unlocked = await Appointment.collection
+      .find({ status: { $nin: CANCELLED_STATUSES }, slotLock: { $exists: false } })
+      .project({ doctorId: 1, date: 1 })
+      .toArray();
+
+    let locked = 0;
+    const collisions = [];
+    for (const appointment of unlocked) {
+      const slotLock = getSlotKey(appointment.doctorId, appointment.date);
+      try {
+        await Appointment.collection.updateOne({ _id: appointment._id }, { $set: { slotLock } });
+        locked++;
+      } catch (error) {
+        if (error.code !== DUPLICATE_KEY_ERROR) throw error;
+        const holder = await Appointment.collection.findOne({ slotLock }, { projection: { _id: 1 } });
+        collisions.push({ appointmentId: appointment._id, heldBy: holder && holder._id, slotLock });
+      }
+    }
+
+    console.log(`Locked the slots of ${locked} appointments`);
+    if (collisions.length > 0) {
+      // Double bookings made before slot locks existed, to be resolved by hand
+      console.warn(`${collisions.length} appointments share a slot with another appointment:`);
+      collisions.forEach(({ appointmentId, heldBy, slotLock }) => {
+        console.warn(`- ${appointmentId} (slot ${slotLock}, held by ${heldBy})`);
+      });
+    }
+
+    // Disconnect from MongoDB
+    await mongoose.disconnect();
+    console.log('Disconnected from MongoDB');
+  } catch (error) {
+    console.error('Error migrating appointment statuses:', error);
+  }
+}
+
+// Run the migration
+migrateAppointmentStatuses();
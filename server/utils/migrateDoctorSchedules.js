@@ -0,0 +1,51 @@
+/**
+ * Utility script to migrate free-text doctor availability (e.g. "Mon 9:00-12:00")
+ * into the structured schedule and remove the legacy fields
+ */
+const mongoose = require('mongoose');
+const dotenv = require('dotenv');
+const Doctor = require('../models/Doctor');
+const { parseAvailability } = require('./scheduleUtils');
+
+// Load environment variables
+dotenv.config();
+
+async function migrateDoctorSchedules() {
+  try {
+    console.log('Connecting to MongoDB Atlas...');
+    await mongoose.connect(process.env.MONGODB_URI);
+    console.log('Connected to MongoDB Atlas successfully');
+
+    // The legacy fields are no longer part of the schema, so read the raw documents
+    const doctors = await Doctor.collection
+      .find({ availability: { $exists: true } })
+      .toArray();
+    console.log(`Found ${doctors.length} doctors with legacy availability`);
+
+    for (const doctor of doctors) {
+      const hasSchedule = doctor.schedule && doctor.schedule.weekly && doctor.schedule.weekly.length > 0;
+      const schedule = hasSchedule ? doctor.schedule : parseAvailability(doctor.availability);
+
+      console.log(`Migrating ${doctor.name}: ${JSON.stringify(doctor.availability)} -> ${schedule.weekly.length} weekly interval(s)`);
+
+      await Doctor.collection.updateOne(
+        { _id: doctor._id },
+        {
+          $set: { schedule },
+          $unset: { availability: '', isAvailableNow: '' }
+        }
+      );
+    }
+
+    console.log(`Migrated ${doctors.length} doctors`);
+
+    // Disconnect from MongoDB
+    await mongoose.disconnect();
+    console.log('Disconnected from MongoDB');
+  } catch (error) {
+    console.error('Error migrating doctor schedules:', error);
+  }
+}
+
+// Run the migration
+migrateDoctorSchedules();
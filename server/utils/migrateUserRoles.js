@@ -0,0 +1,40 @@
+/**
+ * Utility script to give existing accounts roles: accounts linked to a doctor
+ * profile become doctors, every other account without roles becomes a patient
+ */
+const mongoose = require('mongoose');
+const dotenv = require('dotenv');
+const User = require('../models/User');
+
+// Load environment variables
+dotenv.config();
+
+async function migrateUserRoles() {
+  try {
+    console.log('Connecting to MongoDB Atlas...');
+    await mongoose.connect(process.env.MONGODB_URI);
+    console.log('Connected to MongoDB Atlas successfully');
+
+    // Read the raw documents, the schema would fill in the default roles
+    const doctors = await User.collection.updateMany(
+      { doctorId: { $ne: null }, roles: { $exists: false } },
+      { $set: { roles: ['doctor'] } }
+    );
+    console.log(`Gave ${doctors.modifiedCount} linked accounts the doctor role`);
+
+    const patients = await User.collection.updateMany(
+      { roles: { $exists: false } },
+      { $set: { roles: ['patient'] } }
+    );
+    console.log(`Gave ${patients.modifiedCount} accounts the patient role`);
+
+    // Disconnect from MongoDB
+    await mongoose.disconnect();
+    console.log('Disconnected from MongoDB');
+  } catch (error) {
+    console.error('Error migrating user roles:', error);
+  }
+}
+
+// Run the migration
+migrateUserRoles();
@@ -0,0 +1,89 @@
+/**
+ * Delivery channels for notifications
+ *
+ * A channel is an object with an async send(notification, user) method that resolves
+ * with 'sent' or 'skipped' and throws when delivery fails. In-app delivery only needs the
+ * stored notification; email and SMS go through a provider registered with registerProvider.
+ * The built-in "outbox" provider appends messages to a local file for development.
+ */
+const fs = require('fs/promises');
+const path = require('path');
+const { getChannelProvider, getOutboxDir } = require('../config/notificationConfig');
+
+// Recipient address for each external channel
+const RECIPIENT_FIELDS = {
+  email: 'email',
+  sms: 'phone'
+};
+
+/**
+ * Create a provider that writes messages to <outbox dir>/<channel>.log, one JSON object per line
+ * @param {string} channel
+ * @returns {{ send: Function }}
+ */
+const createOutboxProvider = (channel) => ({
+  send: async ({ to, subject, text }) => {
+    const dir = getOutboxDir();
+    await fs.mkdir(dir, { recursive: true });
+    const line = JSON.stringify({ to, subject, text, sentAt: new Date().toISOString() });
+    await fs.appendFile(path.join(dir, `${channel}.log`), `${line}\n`);
+  }
+});
+
+// Providers by channel and name, e.g. providers.email.outbox
+const providers = {
+  email: { outbox: createOutboxProvider('email') },
+  sms: { outbox: createOutboxProvider('sms') }
+};
+
+/**
+ * Register a provider for an external channel, selected with EMAIL_PROVIDER / SMS_PROVIDER
+ * @param {'email'|'sms'} channel
+ * @param {string} name
+ * @param {{ send: (message: { to: string, subject: string, text: string }) => Promise<void> }} provider
+ */
+const registerProvider = (channel, name, provider) => {
+  providers[channel][name] = provider;
+};
+
+/**
+ * Build a channel that sends through the configured provider
+ * @param {'email'|'sms'} channel
+ * @returns {{ send: Function }}
+ */
+const createExternalChannel = (channel) => ({
+  send: async (notification, user) => {
+    const to = user && user[RECIPIENT_FIELDS[channel]];
+    if (!to) {
+      return 'skipped';
+    }
+
+    const providerName = getChannelProvider(channel);
+    const provider = providers[channel][providerName];
+    if (!provider) {
+      throw new Error(`Unknown ${channel} provider: ${providerName}`);
+    }
+
+    await provider.send({ to, subject: notification.title, text: notification.message });
+    return 'sent';
+  }
+});
+
+const channels = {
+  // The stored notification is what the notification centre shows
+  in_app: { send: async () => 'sent' },
+  email: createExternalChannel('email'),
+  sms: createExternalChannel('sms')
+};
+
+/**
+ * Get a delivery channel by name
+ * @param {string} name
+ * @returns {{ send: Function }|undefined}
+ */
+const getChannel = (name) => channels[name];
+
+module.exports = {
+  getChannel,
+  registerProvider
+};
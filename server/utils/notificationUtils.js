@@ -0,0 +1,248 @@
+/**
+ * Helpers for creating notifications and sending appointment reminders
+ */
+const Notification = require('../models/Notification');
+const Appointment = require('../models/Appointment');
+const Doctor = require('../models/Doctor');
+const User = require('../models/User');
+const { getEnabledChannels, getReminderOffsetsHours } = require('../config/notificationConfig');
+const { getClinicUtcOffsetMinutes } = require('../config/scheduleConfig');
+const { getChannel } = require('./notificationChannels');
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+// MongoDB duplicate key error code, raised when a notification with the same dedupeKey exists
+const DUPLICATE_KEY_ERROR = 11000;
+
+// Statuses of upcoming appointments that still need reminders
+const REMINDER_STATUSES = ['pending', 'confirmed'];
+
+/**
+ * Format an instant in clinic time, e.g. "Tue, May 28 at 9:30 AM"
+ * @param {string|Date} date
+ * @returns {string}
+ */
+const formatClinicDateTime = (date) => {
+  const clinicTime = new Date(new Date(date).getTime() + getClinicUtcOffsetMinutes() * MINUTE_MS);
+  const day = clinicTime.toLocaleDateString('en-US', { timeZone: 'UTC', weekday: 'short', month: 'short', day: 'numeric' });
+  const time = clinicTime.toLocaleTimeString('en-US', { timeZone: 'UTC', hour: 'numeric', minute: '2-digit' });
+  return `${day} at ${time}`;
+};
+
+/**
+ * Send a stored notification through every enabled channel and record the results
+ * Delivery failures are recorded, never thrown
+ * @param {object} notification Notification document
+ * @param {object} user Recipient
+ */
+const deliverNotification = async (notification, user) => {
+  const deliveries = [];
+
+  for (const name of getEnabledChannels()) {
+    try {
+      const status = await getChannel(name).send(notification, user);
+      deliveries.push({ channel: name, status });
+    } catch (error) {
+      console.error(`Error delivering notification ${notification._id} via ${name}:`, error.message);
+      deliveries.push({ channel: name, status: 'failed', error: error.message });
+    }
+  }
+
+  notification.deliveries = deliveries;
+  await notification.save();
+};
+
+/**
+ * Create a notification for a user and deliver it
+ * @param {{ userId: string, type: string, title: string, message: string, appointmentId?: string, dedupeKey?: string }} data
+ * @returns {Promise<object|null>} The notification, or null if one with the same dedupeKey was already sent
+ */
+const createNotification = async (data) => {
+  let notification;
+  try {
+    notification = await Notification.create(data);
+  } catch (error) {
+    if (error.code === DUPLICATE_KEY_ERROR) {
+      return null;
+    }
+    throw error;
+  }
+
+  const user = await User.findById(data.userId).select('email phone');
+  await deliverNotification(notification, user);
+  return notification;
+};
+
+/**
+ * Get the doctor's name for an appointment whose doctorId may or may not be populated
+ * @param {object} appointment
+ * @returns {Promise<string>}
+ */
+const getDoctorName = async (appointment) => {
+  if (appointment.doctorId && appointment.doctorId.name) {
+    return appointment.doctorId.name;
+  }
+  const doctor = await Doctor.findById(appointment.doctorId).select('name');
+  return doctor ? doctor.name : 'your doctor';
+};
+
+/**
+ * Get the accounts linked to an appointment's doctor profile
+ * @param {object} appointment
+ * @returns {Promise<object[]>}
+ */
+const getDoctorAccounts = async (appointment) => {
+  const doctorId = appointment.doctorId && appointment.doctorId._id
+    ? appointment.doctorId._id
+    : appointment.doctorId;
+  return User.find({ doctorId, roles: 'doctor' }).select('_id');
+};
+
+/**
+ * Get the patient's display name
+ * @param {object} appointment
+ * @returns {Promise<string>}
+ */
+const getPatientName = async (appointment) => {
+  const patient = await User.findById(appointment.userId).select('name email');
+  if (!patient) {
+    return 'A patient';
+  }
+  return patient.name || patient.email;
+};
+
+/**
+ * Notify the other party about a change to an appointment: the patient when the doctor or
+ * the server changed it, the doctor's accounts when the patient did
+ * Errors are logged, so a failed notification never fails the change itself
+ * @param {object} appointment Updated appointment
+ * @param {'confirmed'|'cancelled'|'rescheduled'} event
+ * @param {{ actor: string, reason?: string, previousDate?: string }} details
+ */
+const notifyAppointmentChange = async (appointment, event, { actor, reason = '', previousDate } = {}) => {
+  try {
+    const when = formatClinicDateTime(appointment.date);
+    const reasonText = reason ? ` Reason: ${reason}` : '';
+    const notifications = [];
+
+    if (actor === 'patient') {
+      const patientName = await getPatientName(appointment);
+      const messages = {
+        cancelled: {
+          title: 'Appointment cancelled',
+          message: `${patientName} cancelled their appointment on ${when}.${reasonText}`
+        },
+        rescheduled: {
+          title: 'Appointment rescheduled',
+          message: `${patientName} moved their appointment${previousDate ? ` from ${formatClinicDateTime(previousDate)}` : ''} to ${when}. Please confirm the new time.`
+        }
+      };
+
+      if (messages[event]) {
+        const doctorAccounts = await getDoctorAccounts(appointment);
+        doctorAccounts.forEach(account => notifications.push({ userId: account._id, ...messages[event] }));
+      }
+    } else {
+      const doctorName = await getDoctorName(appointment);
+      const messages = {
+        confirmed: {
+          title: 'Appointment confirmed',
+          message: `${doctorName} confirmed your appointment on ${when}.`
+        },
+        cancelled: {
+          title: 'Appointment cancelled',
+          message: `Your appointment with ${doctorName} on ${when} was cancelled.${reasonText}`
+        }
+      };
+
+      if (messages[event]) {
+        notifications.push({ userId: appointment.userId, ...messages[event] });
+      }
+    }
+
+    for (const notification of notifications) {
+      await createNotification({
+        ...notification,
+        type: `appointment_${event}`,
+        appointmentId: appointment._id
+      });
+    }
+  } catch (error) {
+    console.error(`Error sending ${event} notification for appointment ${appointment._id}:`, error.message);
+  }
+};
+
+/**
+ * Get the time the appointment was booked for its current date (booking or last reschedule)
+ * @param {object} appointment
+ * @returns {number} Epoch ms
+ */
+const getScheduledAt = (appointment) => {
+  const history = appointment.rescheduleHistory || [];
+  const lastMove = history[history.length - 1];
+  return new Date(lastMove ? lastMove.rescheduledAt : appointment.createdAt).getTime();
+};
+
+/**
+ * Create reminders for upcoming appointments that have reached a reminder offset
+ *
+ * Only the closest due offset is sent, and offsets that had already passed when the
+ * appointment was booked are skipped, so a booking made an hour ahead gets no 24h reminder.
+ * Reminders are deduplicated per appointment date, so a rescheduled visit is reminded again.
+ * @param {object} [filter] Extra query conditions, e.g. { userId }
+ * @param {Date} [now]
+ * @returns {Promise<number>} Number of reminders sent
+ */
+const sendDueReminders = async (filter = {}, now = new Date()) => {
+  const offsets = getReminderOffsetsHours();
+  const horizon = new Date(now.getTime() + offsets[0] * HOUR_MS);
+
+  const appointments = await Appointment.find({
+    ...filter,
+    status: { $in: REMINDER_STATUSES },
+    date: { $gt: now.toISOString(), $lte: horizon.toISOString() }
+  }).populate('doctorId', 'name');
+
+  let sent = 0;
+
+  for (const appointment of appointments) {
+    const startsAt = new Date(appointment.date).getTime();
+    const scheduledAt = getScheduledAt(appointment);
+
+    // Offsets are sorted largest first, so the last due one is the closest to the visit
+    const dueOffset = offsets
+      .filter(hours => startsAt - hours * HOUR_MS <= now.getTime() && startsAt - hours * HOUR_MS >= scheduledAt)
+      .pop();
+
+    if (dueOffset === undefined) {
+      continue;
+    }
+
+    try {
+      const doctorName = await getDoctorName(appointment);
+      const notification = await createNotification({
+        userId: appointment.userId,
+        type: 'appointment_reminder',
+        title: 'Upcoming appointment',
+        message: `Reminder: your appointment with ${doctorName} is on ${formatClinicDateTime(appointment.date)}.`,
+        appointmentId: appointment._id,
+        dedupeKey: `reminder:${appointment._id}:${appointment.date}:${dueOffset}`
+      });
+
+      if (notification) {
+        sent += 1;
+      }
+    } catch (error) {
+      console.error(`Error sending reminder for appointment ${appointment._id}:`, error.message);
+    }
+  }
+
+  return sent;
+};
+
+module.exports = {
+  createNotification,
+  notifyAppointmentChange,
+  sendDueReminders
+};
@@ -0,0 +1,81 @@
+/**
+ * Render the pages of a PDF prescription as JPEG images, which the vision model can read
+ */
+const path = require('path');
+const { createCanvas } = require('@napi-rs/canvas');
+const { PDF_RENDER_SCALE, MAX_PAGE_DIMENSION, PDF_PAGE_QUALITY } = require('../config/uploadConfig');
+
+// Fonts and character maps shipped with pdf.js, for PDFs that do not embed their own
+const PDFJS_DIR = path.dirname(require.resolve('pdfjs-dist/package.json'));
+const STANDARD_FONTS_DIR = path.join(PDFJS_DIR, 'standard_fonts') + path.sep;
+const CMAPS_DIR = path.join(PDFJS_DIR, 'cmaps') + path.sep;
+
+// pdf.js is an ES module, loaded once on first use
+let pdfjsPromise = null;
+
+const loadPdfjs = () => {
+  pdfjsPromise = pdfjsPromise || import('pdfjs-dist/legacy/build/pdf.mjs');
+  return pdfjsPromise;
+};
+
+/**
+ * Whether a file starts like a PDF
+ * @param {Buffer} buffer
+ * @returns {boolean}
+ */
+const isPdf = (buffer) => buffer.subarray(0, 5).toString('latin1') === '%PDF-';
+
+/**
+ * Render every page of a PDF
+ * @param {Buffer} buffer
+ * @param {number} maxPages PDFs with more pages are rejected
+ * @returns {Promise<{ image: Buffer, width: number, height: number }[]>} JPEG images in page order
+ * @throws When the file is not a readable PDF or has too many pages
+ */
+const renderPdfPages = async (buffer, maxPages) => {
+  const pdfjs = await loadPdfjs();
+  const document = await pdfjs.getDocument({
+    data: new Uint8Array(buffer),
+    isEvalSupported: false,
+    standardFontDataUrl: STANDARD_FONTS_DIR,
+    cMapUrl: CMAPS_DIR,
+    cMapPacked: true,
+    verbosity: pdfjs.VerbosityLevel.ERRORS
+  }).promise;
+
+  try {
+    if (document.numPages > maxPages) {
+      throw new Error(`The PDF has ${document.numPages} pages; at most ${maxPages} can be read at once`);
+    }
+
+    const pages = [];
+    for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+      const page = await document.getPage(pageNumber);
+      const size = page.getViewport({ scale: 1 });
+      const scale = Math.min(PDF_RENDER_SCALE, MAX_PAGE_DIMENSION / Math.max(size.width, size.height));
+      const viewport = page.getViewport({ scale });
+
+      const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+      const context = canvas.getContext('2d');
+      // Scanned pages can be transparent, which would turn black in a JPEG
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      await page.render({ canvasContext: context, viewport }).promise;
+
+      pages.push({
+        image: await canvas.encode('jpeg', PDF_PAGE_QUALITY),
+        width: canvas.width,
+        height: canvas.height
+      });
+      page.cleanup();
+    }
+    return pages;
+  } finally {
+    await document.destroy();
+  }
+};
+
+module.exports = {
+  isPdf,
+  renderPdfPages
+};
@@ -0,0 +1,119 @@
+/**
+ * Cross-check of prescribed medications against the allergies and medical conditions
+ * recorded in the patient's profile, using the bundled drug safety dataset
+ */
+const safetyData = require('../datasets/drugSafety.json');
+const { findDrugsInText, normalizeText } = require('./drugUtils');
+
+// Profile entries meaning "nothing to report"
+const NONE_PATTERN = /^\s*(none|nil|no|n\/?a|nkda|nka|no known( drug)? allergies|-)\s*\.?\s*$/i;
+
+/**
+ * Check whether a profile text mentions a term, matched at the start of a word
+ * so "pregnan" matches "pregnant" but "renal" does not match "adrenal"
+ * @param {string} normalizedText Output of normalizeText
+ * @param {string} term
+ * @returns {boolean}
+ */
+const mentions = (normalizedText, term) => normalizedText.includes(` ${normalizeText(term).trim()}`);
+
+/**
+ * Check whether a drug is covered by a rule or allergy group listing drugs and classes
+ * @param {{ id: string, classes: string[] }} drug
+ * @param {{ drugs?: string[], classes?: string[] }} rule
+ * @returns {string|null} The matching drug class (or the drug itself), null if not covered
+ */
+const matchDrug = (drug, rule) => {
+  if ((rule.drugs || []).includes(drug.id)) {
+    return drug.id;
+  }
+  return drug.classes.find(drugClass => (rule.classes || []).includes(drugClass)) || null;
+};
+
+/**
+ * Format a drug class for display, e.g. "non_dihydropyridine_ccb" -> "non dihydropyridine ccb"
+ * @param {string} drugClass
+ * @returns {string}
+ */
+const formatClass = (drugClass) => drugClass.replace(/_/g, ' ');
+
+/**
+ * Match medications against the profile's allergies and medical conditions
+ * @param {{ allergies?: string, medicalConditions?: string }} profile
+ * @param {{ name: string }[]} medications Medications of the prescription
+ * @param {Date} [now]
+ * @returns {object} Profile check stored with the analysis
+ */
+const checkAgainstProfile = (profile, medications, now = new Date()) => {
+  const allergies = (profile && profile.allergies) || '';
+  const conditions = (profile && profile.medicalConditions) || '';
+  const allergyText = NONE_PATTERN.test(allergies) ? ' ' : normalizeText(allergies);
+  const conditionText = NONE_PATTERN.test(conditions) ? ' ' : normalizeText(conditions);
+
+  const allergyGroups = safetyData.allergyGroups.filter(group => group.terms.some(term => mentions(allergyText, term)));
+  const allergicDrugs = findDrugsInText(allergyText).map(drug => drug.id);
+  const matchedConditions = safetyData.conditions.filter(condition => condition.terms.some(term => mentions(conditionText, term)));
+
+  const alerts = [];
+
+  for (const med of medications) {
+    for (const drug of findDrugsInText(med.name)) {
+      // The same drug named in the allergies replaces the allergy group alerts; conditions are still checked
+      if (allergicDrugs.includes(drug.id)) {
+        alerts.push({
+          type: 'allergy',
+          severity: 'contraindicated',
+          medication: med.name,
+          drugClass: null,
+          matched: `Allergy to ${drug.id}`,
+          note: 'Your profile lists an allergy to this medication.'
+        });
+      } else {
+        for (const group of allergyGroups) {
+          const drugClass = matchDrug(drug, group);
+          if (drugClass) {
+            alerts.push({
+              type: 'allergy',
+              severity: 'contraindicated',
+              medication: med.name,
+              drugClass: drugClass === drug.id ? null : formatClass(drugClass),
+              matched: group.label,
+              note: group.note
+            });
+          }
+        }
+      }
+
+      for (const condition of matchedConditions) {
+        // Rules are listed most specific first; only the first matching rule applies
+        const rule = condition.rules.find(candidate => matchDrug(drug, candidate));
+        if (rule) {
+          const drugClass = matchDrug(drug, rule);
+          alerts.push({
+            type: 'condition',
+            severity: rule.severity,
+            medication: med.name,
+            drugClass: drugClass === drug.id ? null : formatClass(drugClass),
+            matched: condition.label,
+            note: rule.note
+          });
+        }
+      }
+    }
+  }
+
+  // Contraindications first
+  alerts.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'contraindicated' ? -1 : 1));
+
+  return {
+    datasetVersion: safetyData.version,
+    checkedAt: now,
+    // False when the profile has neither allergies nor conditions, so the user can be asked to add them
+    profileComplete: Boolean(allergies.trim() || conditions.trim()),
+    alerts
+  };
+};
+
+module.exports = {
+  checkAgainstProfile
+};
@@ -0,0 +1,198 @@
+/**
+ * Helpers for structured doctor working-hours schedules
+ *
+ * A schedule looks like:
+ * {
+ *   weekly: [{ day: 1, start: '09:00', end: '12:00' }],        // day: 0 = Sunday ... 6 = Saturday
+ *   breaks: [{ day: null, start: '10:30', end: '10:45' }],     // day: null applies to every day
+ *   slotMinutes: 30,
+ *   exceptions: [{ date: '2024-12-25', type: 'unavailable', intervals: [], reason: 'Holiday' }]
+ * }
+ *
+ * Times are "HH:mm" in clinic time. An "unavailable" exception without intervals blocks the
+ * whole day, with intervals it blocks only those hours. An "available" exception adds hours.
+ */
+const { getSlotDurationMinutes } = require('../config/scheduleConfig');
+
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const TIME_PATTERN = /^(([01]\d|2[0-3]):[0-5]\d|24:00)$/;
+
+/**
+ * Convert an "H", "H:mm" or "HH:mm" string to minutes after midnight
+ * @param {string} value
+ * @returns {number|null}
+ */
+const toMinutes = (value) => {
+  const match = /^(\d{1,2})(?::(\d{2}))?$/.exec(String(value).trim());
+  if (!match) return null;
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2] || 0);
+  if (hours > 24 || minutes > 59 || (hours === 24 && minutes > 0)) return null;
+
+  return hours * 60 + minutes;
+};
+
+/**
+ * Convert minutes after midnight to an "HH:mm" string
+ * @param {number} minutes
+ * @returns {string}
+ */
+const toTimeString = (minutes) => {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return `${String(hours).padStart(2, '0')}:${String(mins).padStart(2, '0')}`;
+};
+
+/**
+ * Parse a free-text availability entry such as "Mon 9:00-12:00" or "Monday 9-5"
+ * @param {string} entry
+ * @returns {{ day: number, start: string, end: string }|null}
+ */
+const parseAvailabilityEntry = (entry) => {
+  const match = /^([a-z]+)\s+([\d:]+)\s*-\s*([\d:]+)$/i.exec(String(entry).trim());
+  if (!match) return null;
+
+  const day = DAY_NAMES.indexOf(match[1].slice(0, 3).toLowerCase());
+  const start = toMinutes(match[2]);
+  let end = toMinutes(match[3]);
+  if (day === -1 || start === null || end === null) return null;
+
+  // "9-5" style entries use a 12-hour clock for the end time
+  if (end <= start && end < 12 * 60) {
+    end += 12 * 60;
+  }
+  if (end <= start) return null;
+
+  return { day, start: toTimeString(start), end: toTimeString(end) };
+};
+
+/**
+ * Build a structured schedule from legacy free-text availability entries
+ * @param {string[]} availability e.g. ['Mon 9:00-12:00', 'Thu 13:00-16:00']
+ * @returns {object} Schedule with weekly hours, no breaks and no exceptions
+ */
+const parseAvailability = (availability) => {
+  const weekly = (availability || [])
+    .map(entry => {
+      const parsed = parseAvailabilityEntry(entry);
+      if (!parsed) {
+        console.warn(`Could not parse availability entry: "${entry}"`);
+      }
+      return parsed;
+    })
+    .filter(Boolean);
+
+  return {
+    weekly,
+    breaks: [],
+    slotMinutes: getSlotDurationMinutes(),
+    exceptions: []
+  };
+};
+
+/**
+ * Convert "HH:mm" interval objects to sorted minute ranges, dropping invalid ones
+ * @param {Array<{ start: string, end: string }>} intervals
+ * @returns {Array<{ start: number, end: number }>}
+ */
+const toMinuteRanges = (intervals) => {
+  return (intervals || [])
+    .map(interval => ({ start: toMinutes(interval.start), end: toMinutes(interval.end) }))
+    .filter(range => range.start !== null && range.end !== null && range.end > range.start)
+    .sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Merge overlapping or touching minute ranges
+ * @param {Array<{ start: number, end: number }>} ranges
+ * @returns {Array<{ start: number, end: number }>}
+ */
+const mergeRanges = (ranges) => {
+  return [...ranges]
+    .sort((a, b) => a.start - b.start)
+    .reduce((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range.start <= last.end) {
+        last.end = Math.max(last.end, range.end);
+      } else {
+        merged.push({ ...range });
+      }
+      return merged;
+    }, []);
+};
+
+/**
+ * Remove a set of minute ranges from another
+ * @param {Array<{ start: number, end: number }>} ranges
+ * @param {Array<{ start: number, end: number }>} cuts
+ * @returns {Array<{ start: number, end: number }>}
+ */
+const subtractRanges = (ranges, cuts) => {
+  return cuts.reduce((remaining, cut) => {
+    return remaining.flatMap(range => {
+      if (cut.end <= range.start || cut.start >= range.end) {
+        return [range];
+      }
+      const pieces = [];
+      if (cut.start > range.start) pieces.push({ start: range.start, end: cut.start });
+      if (cut.end < range.end) pieces.push({ start: cut.end, end: range.end });
+      return pieces;
+    });
+  }, ranges);
+};
+
+/**
+ * Get the working hours for one clinic day, after exceptions and breaks
+ * @param {object} schedule Structured schedule
+ * @param {string} date Clinic day ("YYYY-MM-DD")
+ * @returns {Array<{ start: number, end: number }>} Minutes after midnight
+ */
+const getWorkingRanges = (schedule, date) => {
+  if (!schedule) return [];
+
+  const [year, month, day] = String(date).split('-').map(Number);
+  const dayOfWeek = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  if (isNaN(dayOfWeek)) return [];
+
+  let ranges = toMinuteRanges((schedule.weekly || []).filter(interval => interval.day === dayOfWeek));
+
+  (schedule.exceptions || [])
+    .filter(exception => exception.date === date)
+    .forEach(exception => {
+      const exceptionRanges = toMinuteRanges(exception.intervals);
+      if (exception.type === 'available') {
+        ranges = ranges.concat(exceptionRanges);
+      } else if (exceptionRanges.length === 0) {
+        ranges = [];
+      } else {
+        ranges = subtractRanges(mergeRanges(ranges), exceptionRanges);
+      }
+    });
+
+  const breaks = toMinuteRanges(
+    (schedule.breaks || []).filter(item => item.day === null || item.day === undefined || item.day === dayOfWeek)
+  );
+
+  return subtractRanges(mergeRanges(ranges), breaks);
+};
+
+/**
+ * Get the slot length of a schedule, falling back to the configured default
+ * @param {object} schedule
+ * @returns {number} Minutes
+ */
+const getScheduleSlotMinutes = (schedule) => {
+  return (schedule && schedule.slotMinutes > 0) ? schedule.slotMinutes : getSlotDurationMinutes();
+};
+
+module.exports = {
+  DAY_NAMES,
+  TIME_PATTERN,
+  toMinutes,
+  toTimeString,
+  parseAvailabilityEntry,
+  parseAvailability,
+  getWorkingRanges,
+  getScheduleSlotMinutes
+};
@@ -0,0 +1,106 @@
+/**
+ * Validation of values against the JSON Schema keywords used by the schemas in /shared:
+ * type, enum, required, properties, additionalProperties: false, items, minLength, minimum
+ * and local "#/definitions/..." references
+ */
+
+/**
+ * Get the JSON Schema type name of a value
+ * @param {*} value
+ * @returns {string}
+ */
+const getType = (value) => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (Number.isInteger(value)) return 'integer';
+  return typeof value;
+};
+
+/**
+ * Whether a value has one of the allowed types ("number" also accepts integers)
+ * @param {*} value
+ * @param {string|string[]} types
+ * @returns {boolean}
+ */
+const hasType = (value, types) => {
+  const actual = getType(value);
+  return [].concat(types).some(type => type === actual || (type === 'number' && actual === 'integer'));
+};
+
+/**
+ * Resolve a local reference such as "#/definitions/medication"
+ * @param {object} root Schema the reference belongs to
+ * @param {string} ref
+ * @returns {object}
+ */
+const resolveRef = (root, ref) => {
+  if (!ref.startsWith('#/')) {
+    throw new Error(`Unsupported schema reference: ${ref}`);
+  }
+  return ref.slice(2).split('/').reduce((node, key) => node[key], root);
+};
+
+/**
+ * Collect the ways a value breaks a schema
+ * @param {*} value
+ * @param {object} schema
+ * @param {object} root
+ * @param {string} path Location of the value, e.g. "medications[0].name"
+ * @param {string[]} errors
+ */
+const collectErrors = (value, schema, root, path, errors) => {
+  if (schema.$ref) {
+    collectErrors(value, resolveRef(root, schema.$ref), root, path, errors);
+    return;
+  }
+
+  if (schema.type && !hasType(value, schema.type)) {
+    errors.push(`${path} must be ${[].concat(schema.type).join(' or ')}, got ${getType(value)}`);
+    return;
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${path} must be one of: ${schema.enum.join(', ')}`);
+    return;
+  }
+  if (typeof value === 'string' && schema.minLength !== undefined && value.trim().length < schema.minLength) {
+    errors.push(`${path} must not be empty`);
+  }
+  if (typeof value === 'number' && schema.minimum !== undefined && value < schema.minimum) {
+    errors.push(`${path} must be at least ${schema.minimum}`);
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, idx) => collectErrors(item, schema.items, root, `${path}[${idx}]`, errors));
+  }
+
+  if (getType(value) === 'object') {
+    const properties = schema.properties || {};
+    (schema.required || [])
+      .filter(key => value[key] === undefined)
+      .forEach(key => errors.push(`${path}.${key} is required`));
+
+    Object.entries(value).forEach(([key, item]) => {
+      if (properties[key]) {
+        collectErrors(item, properties[key], root, `${path}.${key}`, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key} is not allowed`);
+      }
+    });
+  }
+};
+
+/**
+ * Validate a value against a schema
+ * @param {*} value
+ * @param {object} schema
+ * @returns {string[]} Errors such as "$.medications[0].name is required", empty when the value is valid
+ */
+const validateSchema = (value, schema) => {
+  const errors = [];
+  collectErrors(value, schema, schema, '$', errors);
+  return errors;
+};
+
+module.exports = {
+  validateSchema
+};
@@ -1,4 +1,5 @@
 const User = require('../models/User');
+const Doctor = require('../models/Doctor');
 const bcrypt = require('bcryptjs');
 
 /**
@@ -32,4 +33,41 @@ const seedTestUser = async () => {
   }
 };
 
-module.exports = { seedTestUser }; 
\ No newline at end of file
+/**
+ * Seeds a test doctor account linked to the first seeded doctor, for the doctor portal
+ */
+const seedTestDoctorAccount = async () => {
+  try {
+    const testEmail = 'testdoctor@example.com';
+    const testPassword = 'doctor1234';
+
+    const existingUser = await User.findOne({ email: testEmail });
+
+    if (existingUser) {
+      console.log('Test doctor account already exists in database');
+      return;
+    }
+
+    const doctor = await Doctor.findOne({ name: 'Dr. John Smith' });
+
+    if (!doctor) {
+      console.log('No doctor found to link the test doctor account to');
+      return;
+    }
+
+    // The password is hashed by the User pre-save hook
+    await User.create({
+      email: testEmail,
+      password: testPassword,
+      name: doctor.name,
+      roles: ['doctor'],
+      doctorId: doctor._id
+    });
+
+    console.log(`Test doctor account created for ${doctor.name}`);
+  } catch (error) {
+    console.error('Error seeding test doctor account:', error);
+  }
+};
+
+module.exports = { seedTestUser, seedTestDoctorAccount }; 
\ No newline at end of file
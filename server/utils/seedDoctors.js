@@ -1,4 +1,5 @@
 const Doctor = require('../models/Doctor');
+const { parseAvailability } = require('./scheduleUtils');
 
 // Sample data for doctors
 const specialties = [
@@ -24,50 +25,40 @@ const availabilitySlots = [
 
 const experiences = ['3 years', '5 years', '7 years', '10+ years', '15+ years', '20+ years'];
 
-const availabilityStatus = [
-  'Available Today',
-  'Available Now',
-  'Next 3 Days',
-  'This Week'
-];
-
 // Array of specific doctors requested in the task
 const specificDoctors = [
   {
     name: 'Dr. John Smith',
     specialty: 'Cardiology',
-    availability: ['Mon 9:00-12:00', 'Thu 13:00-16:00'],
+    schedule: parseAvailability(['Mon 9:00-12:00', 'Thu 13:00-16:00']),
     bio: 'Board-certified cardiologist with 10+ years of experience in treating heart conditions.',
     imageUrl: 'https://randomuser.me/api/portraits/men/32.jpg',
     rating: 4.8,
     experience: '10+ years',
     reviews: 124,
-    price: 1500,
-    isAvailableNow: true
+    price: 1500
   },
   {
     name: 'Dr. Emily Lee',
     specialty: 'Pediatrics',
-    availability: ['Tue 10:00-13:00', 'Fri 14:00-17:00'],
+    schedule: parseAvailability(['Tue 10:00-13:00', 'Fri 14:00-17:00']),
     bio: 'Compassionate pediatrician dedicated to providing excellent care for children of all ages.',
     imageUrl: 'https://randomuser.me/api/portraits/women/44.jpg',
     rating: 4.9,
     experience: '7 years',
     reviews: 98,
-    price: 1200,
-    isAvailableNow: false
+    price: 1200
   },
   {
     name: 'Dr. Raj Patel',
     specialty: 'General Practice',
-    availability: ['Wed 9:00-12:00', 'Fri 10:00-13:00'],
+    schedule: parseAvailability(['Wed 9:00-12:00', 'Fri 10:00-13:00']),
     bio: 'Experienced general practitioner focused on preventive care and managing chronic conditions.',
     imageUrl: 'https://randomuser.me/api/portraits/men/76.jpg',
     rating: 4.7,
     experience: '15+ years',
     reviews: 156,
-    price: 1000,
-    isAvailableNow: true
+    price: 1000
   }
 ];
 
@@ -260,12 +251,11 @@ const seedDoctors = async () => {
     // Process additional doctors to add missing fields
     const processedAdditionalDoctors = additionalDoctors.map(doctor => ({
       ...doctor,
-      availability: availabilitySlots[getRandomInt(0, availabilitySlots.length - 1)],
+      schedule: parseAvailability(availabilitySlots[getRandomInt(0, availabilitySlots.length - 1)]),
       rating: parseFloat((4 + Math.random()).toFixed(1)),
       experience: experiences[getRandomInt(0, experiences.length - 1)],
       reviews: getRandomInt(50, 200),
-      price: getRandomInt(800, 2000),
-      isAvailableNow: Math.random() > 0.7
+      price: getRandomInt(800, 2000)
     }));
     
     // Insert additional doctors
@@ -0,0 +1,53 @@
+/**
+ * Utility script to set the roles of an account, e.g. to create the first admin
+ *
+ * Usage: node utils/setUserRoles.js <email> <role> [role...]
+ * Doctor accounts are created with utils/createDoctorAccount.js instead.
+ */
+const mongoose = require('mongoose');
+const dotenv = require('dotenv');
+const User = require('../models/User');
+const { ROLES } = require('../config/roles');
+
+// Load environment variables
+dotenv.config();
+
+async function setUserRoles() {
+  const [email, ...roles] = process.argv.slice(2);
+
+  if (!email || roles.length === 0 || roles.some(role => !ROLES.includes(role))) {
+    console.error(`Usage: node utils/setUserRoles.js <email> <role> [role...] (roles: ${ROLES.join(', ')})`);
+    process.exitCode = 1;
+    return;
+  }
+
+  try {
+    console.log('Connecting to MongoDB Atlas...');
+    await mongoose.connect(process.env.MONGODB_URI);
+    console.log('Connected to MongoDB Atlas successfully');
+
+    const user = await User.findOne({ email: email.toLowerCase() });
+
+    if (!user) {
+      console.error(`User ${email} not found`);
+      process.exitCode = 1;
+    } else if (roles.includes('doctor') && !user.doctorId) {
+      console.error('Doctor accounts must be linked to a doctor profile, use utils/createDoctorAccount.js');
+      process.exitCode = 1;
+    } else {
+      user.roles = [...new Set(roles)];
+      await user.save();
+      console.log(`Set roles of ${user.email} to ${user.roles.join(', ')}`);
+    }
+
+    // Disconnect from MongoDB
+    await mongoose.disconnect();
+    console.log('Disconnected from MongoDB');
+  } catch (error) {
+    console.error('Error setting user roles:', error);
+    process.exitCode = 1;
+  }
+}
+
+// Run the script
+setUserRoles();
@@ -0,0 +1,179 @@
+/**
+ * Helpers for working out bookable appointment slots from a doctor's working hours
+ */
+const { getClinicUtcOffsetMinutes } = require('../config/scheduleConfig');
+const { getWorkingRanges, getScheduleSlotMinutes } = require('./scheduleUtils');
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Parse a "YYYY-MM-DD" string into its UTC midnight timestamp
+ * @param {string} value
+ * @returns {number|null}
+ */
+const parseDateOnly = (value) => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(String(value || ''));
+  if (!match) return null;
+
+  const time = Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return isNaN(time) ? null : time;
+};
+
+/**
+ * Get the clinic-time calendar date of an instant as "YYYY-MM-DD"
+ * @param {Date} [date]
+ * @returns {string}
+ */
+const getClinicDate = (date = new Date()) => {
+  const clinicTime = new Date(date.getTime() + getClinicUtcOffsetMinutes() * MINUTE_MS);
+  return clinicTime.toISOString().slice(0, 10);
+};
+
+/**
+ * Convert a range of clinic days into UTC ISO bounds, e.g. to find the appointments on those days
+ * @param {string} from First day ("YYYY-MM-DD", inclusive)
+ * @param {string} to Last day ("YYYY-MM-DD", inclusive)
+ * @returns {{ start: string, end: string }} Start (inclusive) and end (exclusive)
+ */
+const getClinicDayBounds = (from, to) => {
+  const offsetMs = getClinicUtcOffsetMinutes() * MINUTE_MS;
+  return {
+    start: new Date(parseDateOnly(from) - offsetMs).toISOString(),
+    end: new Date(parseDateOnly(to) + DAY_MS - offsetMs).toISOString()
+  };
+};
+
+/**
+ * Build a stable key for a doctor's slot, used to prevent double booking
+ * @param {string} doctorId
+ * @param {string|Date} date
+ * @returns {string}
+ */
+const getSlotKey = (doctorId, date) => {
+  return `${doctorId}:${new Date(date).toISOString()}`;
+};
+
+/**
+ * Generate every slot within a doctor's working hours for a range of clinic days
+ * @param {object} schedule Structured doctor schedule
+ * @param {string} from First day ("YYYY-MM-DD", inclusive)
+ * @param {string} to Last day ("YYYY-MM-DD", inclusive)
+ * @returns {{ start: string, end: string }[]} Slots as UTC ISO strings
+ */
+const generateSlots = (schedule, from, to) => {
+  const slotMinutes = getScheduleSlotMinutes(schedule);
+  const offsetMs = getClinicUtcOffsetMinutes() * MINUTE_MS;
+  const fromTime = parseDateOnly(from);
+  const toTime = parseDateOnly(to);
+  const slots = [];
+
+  if (fromTime === null || toTime === null || slotMinutes <= 0) {
+    return slots;
+  }
+
+  for (let dayStart = fromTime; dayStart <= toTime; dayStart += DAY_MS) {
+    const day = new Date(dayStart).toISOString().slice(0, 10);
+
+    getWorkingRanges(schedule, day)
+      .forEach(range => {
+        for (let minute = range.start; minute + slotMinutes <= range.end; minute += slotMinutes) {
+          const start = dayStart + minute * MINUTE_MS - offsetMs;
+          slots.push({
+            start: new Date(start).toISOString(),
+            end: new Date(start + slotMinutes * MINUTE_MS).toISOString()
+          });
+        }
+      });
+  }
+
+  return slots;
+};
+
+/**
+ * Work out the free slots for a doctor, excluding past and already booked slots
+ * @param {object} schedule Structured doctor schedule
+ * @param {string} from First day ("YYYY-MM-DD", inclusive)
+ * @param {string} to Last day ("YYYY-MM-DD", inclusive)
+ * @param {Array<string|Date>} bookedDates Start times of existing non-cancelled appointments
+ * @param {Date} [now]
+ * @returns {{ start: string, end: string }[]}
+ */
+const getFreeSlots = (schedule, from, to, bookedDates, now = new Date()) => {
+  const booked = new Set(
+    (bookedDates || [])
+      .map(date => new Date(date).getTime())
+      .filter(time => !isNaN(time))
+  );
+
+  return generateSlots(schedule, from, to).filter(slot => {
+    const start = new Date(slot.start).getTime();
+    return start > now.getTime() && !booked.has(start);
+  });
+};
+
+/**
+ * Check whether a start time matches one of the doctor's working-hour slots
+ * @param {object} schedule Structured doctor schedule
+ * @param {string|Date} date Requested start time
+ * @returns {boolean}
+ */
+const isWithinWorkingHours = (schedule, date) => {
+  const start = new Date(date);
+  if (isNaN(start.getTime())) return false;
+
+  const clinicDay = getClinicDate(start);
+  return generateSlots(schedule, clinicDay, clinicDay)
+    .some(slot => new Date(slot.start).getTime() === start.getTime());
+};
+
+/**
+ * Get the clinic days searched for a doctor's next free slot
+ * @param {number} lookaheadDays Number of clinic days, starting today
+ * @param {Date} [now]
+ * @returns {{ today: string, lastDay: string }} "YYYY-MM-DD" dates
+ */
+const getLookaheadDays = (lookaheadDays, now = new Date()) => {
+  const today = getClinicDate(now);
+  const lastDay = new Date(parseDateOnly(today) + (lookaheadDays - 1) * DAY_MS).toISOString().slice(0, 10);
+  return { today, lastDay };
+};
+
+/**
+ * Summarise a doctor's current availability from their schedule and bookings
+ * @param {object} schedule Structured doctor schedule
+ * @param {Array<string|Date>} bookedDates Start times of existing non-cancelled appointments
+ * @param {number} lookaheadDays Number of clinic days to search for the next free slot
+ * @param {Date} [now]
+ * @returns {{ isAvailableNow: boolean, nextAvailableSlot: string|null }}
+ */
+const getAvailabilitySummary = (schedule, bookedDates, lookaheadDays, now = new Date()) => {
+  const { today, lastDay } = getLookaheadDays(lookaheadDays, now);
+  const booked = new Set((bookedDates || []).map(date => new Date(date).getTime()));
+
+  // Available now means the slot in progress is inside working hours and not booked
+  const currentSlot = generateSlots(schedule, today, today).find(slot =>
+    new Date(slot.start) <= now && now < new Date(slot.end)
+  );
+  const isAvailableNow = Boolean(currentSlot) && !booked.has(new Date(currentSlot.start).getTime());
+
+  const nextSlot = getFreeSlots(schedule, today, lastDay, bookedDates, now)[0];
+
+  return {
+    isAvailableNow,
+    nextAvailableSlot: nextSlot ? nextSlot.start : null
+  };
+};
+
+module.exports = {
+  DAY_MS,
+  parseDateOnly,
+  getClinicDate,
+  getClinicDayBounds,
+  getSlotKey,
+  generateSlots,
+  getFreeSlots,
+  isWithinWorkingHours,
+  getLookaheadDays,
+  getAvailabilitySummary
+};
@@ -0,0 +1,222 @@
+/**
+ * Link the fields of each analyzed medication to the part of the OCR text they came from,
+ * so patients can check them against their prescription
+ */
+const { getDrugNames, getEditDistance, resolveDrug } = require('./drugUtils');
+
+// Medication fields linked to the OCR text
+const SOURCE_FIELDS = ['name', 'strength', 'dose', 'frequency', 'timing', 'duration_days'];
+
+// Fields below this confidence are flagged for the patient to verify
+const VERIFY_CONFIDENCE = 0.7;
+
+// Confidence of a match found in another medication's part of the text
+const OUTSIDE_MEDICATION_FACTOR = 0.6;
+
+// Confidence of a name that only matches a word of the text approximately (e.g. an OCR misread)
+const FUZZY_NAME_FACTOR = 0.7;
+const MIN_FUZZY_SIMILARITY = 0.75;
+
+// Confidence of a brand or generic name other than the one the model gave
+const ALIAS_CONFIDENCE = 0.85;
+
+// Confidence of an abbreviation or other wording of the same instruction
+const SYNONYM_CONFIDENCE = 0.75;
+
+// Other ways prescriptions write a frequency, e.g. "BD" for "twice daily"
+const FREQUENCY_SYNONYMS = {
+  'once daily': ['od', 'qd', 'once a day', 'daily', '1-0-0', '0-0-1'],
+  'twice daily': ['bd', 'bid', 'twice a day', 'two times a day', '1-0-1'],
+  'three times daily': ['tds', 'tid', 'thrice daily', 'three times a day', '1-1-1'],
+  'four times daily': ['qid', 'qds', 'four times a day', '1-1-1-1'],
+  'every morning': ['in the morning', '1-0-0'],
+  'every night': ['hs', 'at night', 'at bedtime', '0-0-1'],
+  'as needed': ['sos', 'prn', 'when required', 'if needed']
+};
+
+// Other ways prescriptions write when to take a dose
+const TIMING_SYNONYMS = {
+  'after meals': ['after food', 'after meal', 'pc'],
+  'before meals': ['before food', 'before meal', 'ac'],
+  'with meals': ['with food', 'with meal'],
+  'with food': ['with meals', 'with meal'],
+  'at bedtime': ['hs', 'at night', 'before bed', 'before sleep'],
+  'on empty stomach': ['empty stomach', 'before food']
+};
+
+/**
+ * Build a case-insensitive pattern for a phrase that tolerates spacing differences,
+ * e.g. "500 mg" also matches "500mg"
+ * @param {string} phrase
+ * @returns {RegExp}
+ */
+const buildPhrasePattern = (phrase) => {
+  const parts = String(phrase).trim()
+    .split(/\s+|(?<=\d)(?=[a-z])|(?<=[a-z])(?=\d)/i)
+    .filter(Boolean)
+    .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`(?<![a-z0-9])${parts.join('\\s*')}(?![a-z0-9])`, 'gi');
+};
+
+/**
+ * Find every occurrence of a phrase
+ * @param {string} text
+ * @param {string} phrase
+ * @returns {{ start: number, end: number }[]}
+ */
+const findPhrase = (text, phrase) => {
+  if (!String(phrase).trim()) return [];
+  return [...text.matchAll(buildPhrasePattern(phrase))]
+    .map(match => ({ start: match.index, end: match.index + match[0].length }));
+};
+
+/**
+ * Find the word of the text closest to a medication name, for names the OCR misread
+ * @param {string} text
+ * @param {string} name
+ * @returns {{ start: number, end: number, confidence: number }|null}
+ */
+const findFuzzyName = (text, name) => {
+  const target = String(name).trim().split(/\s+/)[0].toLowerCase();
+  if (target.length < 4) return null;
+
+  let best = null;
+  for (const match of text.matchAll(/[a-z][a-z0-9-]{2,}/gi)) {
+    const word = match[0].toLowerCase();
+    const similarity = 1 - getEditDistance(word, target) / Math.max(word.length, target.length);
+    if (similarity >= MIN_FUZZY_SIMILARITY && (!best || similarity > best.similarity)) {
+      best = { start: match.index, end: match.index + match[0].length, similarity };
+    }
+  }
+
+  return best && { start: best.start, end: best.end, confidence: best.similarity * FUZZY_NAME_FACTOR };
+};
+
+/**
+ * Phrases a field may appear as in the text, each with the confidence of a match
+ * @param {object} medication
+ * @param {string} field
+ * @returns {{ phrase: string, confidence: number }[]}
+ */
+const getCandidates = (medication, field) => {
+  const value = medication[field];
+
+  if (field === 'name') {
+    const drug = resolveDrug(value);
+    const aliases = drug ? getDrugNames(drug.id).filter(name => name.toLowerCase() !== value.toLowerCase()) : [];
+    return [
+      { phrase: value, confidence: 1 },
+      ...aliases.map(alias => ({ phrase: alias, confidence: ALIAS_CONFIDENCE }))
+    ];
+  }
+
+  if (field === 'duration_days') {
+    const weeks = value % 7 === 0 ? [`${value / 7} weeks`, `${value / 7} week`] : [];
+    return [
+      ...[`${value} days`, `${value} day`, `${value}d`].map(phrase => ({ phrase, confidence: 1 })),
+      ...weeks.map(phrase => ({ phrase, confidence: SYNONYM_CONFIDENCE }))
+    ];
+  }
+
+  const synonyms = { frequency: FREQUENCY_SYNONYMS, timing: TIMING_SYNONYMS }[field] || {};
+  return [
+    { phrase: value, confidence: 1 },
+    ...(synonyms[String(value).trim().toLowerCase()] || []).map(phrase => ({ phrase, confidence: SYNONYM_CONFIDENCE }))
+  ];
+};
+
+/**
+ * Find the most likely source of a field, preferring matches in the medication's own part of the text
+ * @param {string} text
+ * @param {{ phrase: string, confidence: number }[]} candidates
+ * @param {{ start: number, end: number }|null} region Part of the text about this medication
+ * @returns {{ start: number, end: number, confidence: number }|null}
+ */
+const findBestSpan = (text, candidates, region) => {
+  let best = null;
+
+  for (const { phrase, confidence } of candidates) {
+    const matches = findPhrase(text, phrase);
+    const inRegion = region && matches.find(match => match.start >= region.start && match.end <= region.end);
+    const match = inRegion || matches[0];
+    if (!match) continue;
+
+    const score = inRegion ? confidence : confidence * OUTSIDE_MEDICATION_FACTOR;
+    if (!best || score > best.confidence) {
+      best = { ...match, confidence: score };
+    }
+  }
+
+  return best;
+};
+
+/**
+ * Describe where a field was found
+ * @param {{ start: number, end: number, confidence: number }|null} span
+ * @returns {{ start: number|null, end: number|null, confidence: number, verify: boolean }}
+ */
+const toSource = (span) => {
+  const confidence = span ? Math.round(span.confidence * 100) / 100 : 0;
+  return {
+    start: span ? span.start : null,
+    end: span ? span.end : null,
+    confidence,
+    verify: confidence < VERIFY_CONFIDENCE
+  };
+};
+
+/**
+ * Add to each medication the span of the OCR text every filled-in field came from and how
+ * confident the match is. A field not found in the text has no span and is flagged to verify.
+ * @param {string} ocrText Text the analysis was made from
+ * @param {object[]} medications Medication analyses
+ * @returns {object[]} The medications with a sources object, e.g.
+ *   sources.frequency = { start: 42, end: 44, confidence: 0.75, verify: false }
+ */
+const addSourceSpans = (ocrText, medications) => {
+  const text = String(ocrText || '');
+
+  // Find the names first, so each medication's details are looked for after its own name
+  const claimed = [];
+  const nameSpans = medications.map(medication => {
+    if (!medication.name) return null;
+
+    const candidates = getCandidates(medication, 'name');
+    let span = null;
+    for (const { phrase, confidence } of candidates) {
+      const match = findPhrase(text, phrase).find(found => !claimed.includes(found.start));
+      if (match && (!span || confidence > span.confidence)) {
+        span = { ...match, confidence };
+      }
+    }
+    span = span || findFuzzyName(text, medication.name);
+
+    if (span) claimed.push(span.start);
+    return span;
+  });
+
+  const starts = nameSpans.filter(Boolean).map(span => span.start).sort((a, b) => a - b);
+
+  return medications.map((medication, idx) => {
+    const nameSpan = nameSpans[idx];
+    const region = nameSpan && {
+      start: nameSpan.start,
+      end: starts.find(start => start > nameSpan.start) ?? text.length
+    };
+
+    const sources = {};
+    SOURCE_FIELDS
+      .filter(field => medication[field] !== undefined && medication[field] !== null && medication[field] !== '')
+      .forEach(field => {
+        sources[field] = toSource(field === 'name'
+          ? nameSpan
+          : findBestSpan(text, getCandidates(medication, field), region));
+      });
+
+    return { ...medication, sources };
+  });
+};
+
+module.exports = {
+  addSourceSpans
+};